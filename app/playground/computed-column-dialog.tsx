@@ -0,0 +1,411 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAppDispatch } from "@/lib/hooks";
+import type { TableRow } from "@/lib/features/tableSlice";
+import {
+  removeComputedField,
+  saveComputedField,
+} from "@/lib/features/targetShapesSlice";
+import type {
+  ComputedField,
+  FieldType,
+  TargetShape,
+} from "@/lib/types/target-shapes";
+import {
+  FormulaError,
+  checkFormula,
+  evaluateFormula,
+  getFormulaCompletions,
+  type FormulaSuggestion,
+} from "@/lib/utils/formula-engine";
+import { generateFieldId } from "@/lib/utils/id-generator";
+import { formatClipboardValue } from "@/lib/utils/range-clipboard";
+import { cn } from "@/lib/utils";
+import { getColumnNameError } from "./table-context-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow as TableRowComponent,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { Sigma } from "lucide-react";
+
+/** Rows evaluated in the live preview */
+const PREVIEW_ROWS = 5;
+
+const RESULT_TYPES: { value: FieldType; label: string }[] = [
+  { value: "string", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "integer", label: "Integer" },
+  { value: "decimal", label: "Decimal" },
+  { value: "currency", label: "Currency" },
+  { value: "percentage", label: "Percentage" },
+  { value: "boolean", label: "Boolean" },
+  { value: "date", label: "Date" },
+];
+
+interface ComputedColumnDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shape: TargetShape;
+  /** Computed field to edit; a new one is created when omitted */
+  field?: ComputedField;
+  data: TableRow[];
+  columnOrder: string[];
+}
+
+export function ComputedColumnDialog({
+  isOpen,
+  onClose,
+  shape,
+  field,
+  data,
+  columnOrder,
+}: ComputedColumnDialogProps) {
+  const dispatch = useAppDispatch();
+  const formulaRef = useRef<HTMLTextAreaElement>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<FieldType>("string");
+  const [formula, setFormula] = useState("");
+  const [cursor, setCursor] = useState(0);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  // Start from the edited field each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(field?.name ?? "");
+    setType(field?.type ?? "string");
+    setFormula(field?.formula ?? "");
+    setCursor(field?.formula.length ?? 0);
+    setShowSuggestions(false);
+  }, [isOpen, field]);
+
+  // Columns the formula can use: everything but itself
+  const availableColumns = useMemo(
+    () => columnOrder.filter(columnId => columnId !== field?.name),
+    [columnOrder, field?.name]
+  );
+
+  const takenNames = [
+    ...new Set([...columnOrder, ...shape.fields.map(f => f.name)]),
+  ];
+  const nameError = getColumnNameError(name, takenNames, field?.name);
+
+  const check = useMemo(() => checkFormula(formula), [formula]);
+  const unknownColumns = check.ok
+    ? check.formula.columns.filter(
+        columnId => !availableColumns.includes(columnId)
+      )
+    : [];
+  const formulaError = !formula.trim()
+    ? null
+    : !check.ok
+      ? check.position !== undefined
+        ? `${check.message} (at character ${check.position + 1})`
+        : check.message
+      : unknownColumns.length > 0
+        ? `Unknown column${unknownColumns.length === 1 ? "" : "s"}: ${unknownColumns.join(", ")}`
+        : null;
+
+  const preview = useMemo(() => {
+    if (!check.ok) return [];
+    return data.slice(0, PREVIEW_ROWS).map(row => {
+      try {
+        return { row, value: evaluateFormula(check.formula, row), error: null };
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+        return { row, value: null, error: error.message };
+      }
+    });
+  }, [check, data]);
+  const previewColumns = check.ok ? check.formula.columns.slice(0, 3) : [];
+
+  const completions = showSuggestions
+    ? getFormulaCompletions(formula, cursor, availableColumns)
+    : null;
+
+  const applySuggestion = (suggestion: FormulaSuggestion) => {
+    if (!completions) return;
+    const next =
+      formula.slice(0, completions.from) +
+      suggestion.insert +
+      formula.slice(cursor);
+    const position = completions.from + suggestion.insert.length;
+    setFormula(next);
+    setCursor(position);
+    setShowSuggestions(false);
+    requestAnimationFrame(() => {
+      formulaRef.current?.focus();
+      formulaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleFormulaKeyDown = (
+    event: React.KeyboardEvent<HTMLTextAreaElement>
+  ) => {
+    if (!completions) return;
+    const count = completions.suggestions.length;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveSuggestion(
+        current =>
+          (current + (event.key === "ArrowDown" ? 1 : -1) + count) % count
+      );
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      applySuggestion(
+        completions.suggestions[Math.min(activeSuggestion, count - 1)]
+      );
+    } else if (event.key === "Escape") {
+      // Close the suggestions, not the dialog
+      event.stopPropagation();
+      setShowSuggestions(false);
+    }
+  };
+
+  const canSave = !nameError && check.ok && unknownColumns.length === 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const computedField: ComputedField = {
+      id: field?.id ?? generateFieldId(),
+      name: name.trim(),
+      type,
+      required: false,
+      description: field?.description,
+      formula: formula.trim(),
+    };
+    dispatch(
+      saveComputedField({
+        shapeId: shape.id,
+        field: computedField,
+        takenNames,
+      })
+    );
+    toast({
+      title: field ? "Formula updated" : "Computed column added",
+      description: `${computedField.name} = ${computedField.formula}`,
+    });
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!field) return;
+    dispatch(removeComputedField({ shapeId: shape.id, fieldId: field.id }));
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sigma className="h-5 w-5" />
+            {field ? "Edit Formula" : "Add Computed Column"}
+          </DialogTitle>
+          <DialogDescription>
+            Computed columns are saved on the &quot;{shape.name}&quot; shape and
+            recalculate whenever a cell they use changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="computed-name">Column name</Label>
+            <Input
+              id="computed-name"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              placeholder="e.g. total"
+              autoFocus
+            />
+            {name && nameError && (
+              <p className="text-sm text-destructive">{nameError}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Result type</Label>
+            <Select
+              value={type}
+              onValueChange={value => setType(value as FieldType)}
+            >
+              <SelectTrigger aria-label="Result type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESULT_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="computed-formula">Formula</Label>
+          <div className="relative">
+            <Textarea
+              id="computed-formula"
+              ref={formulaRef}
+              value={formula}
+              rows={3}
+              spellCheck={false}
+              className="font-mono"
+              placeholder='e.g. round(price * qty, 2) or concat(upper(last), ", ", first)'
+              onChange={event => {
+                setFormula(event.target.value);
+                setCursor(event.target.selectionStart);
+                setActiveSuggestion(0);
+                setShowSuggestions(true);
+              }}
+              onSelect={event => setCursor(event.currentTarget.selectionStart)}
+              onKeyDown={handleFormulaKeyDown}
+              onBlur={() => setShowSuggestions(false)}
+            />
+            {completions && (
+              <ul
+                role="listbox"
+                className="absolute left-0 right-0 top-full z-50 mt-1 max-h-56 overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+              >
+                {completions.suggestions.map((suggestion, index) => (
+                  <li
+                    key={`${suggestion.kind}:${suggestion.label}`}
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm",
+                      index === activeSuggestion && "bg-accent"
+                    )}
+                    // Keep focus in the textarea
+                    onMouseDown={event => {
+                      event.preventDefault();
+                      applySuggestion(suggestion);
+                    }}
+                  >
+                    <Badge variant="outline" className="w-16 justify-center">
+                      {suggestion.kind}
+                    </Badge>
+                    <span className="font-mono">{suggestion.label}</span>
+                    {suggestion.description && (
+                      <span className="truncate text-xs text-muted-foreground">
+                        {suggestion.description}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {formulaError ? (
+            <p className="text-sm text-destructive">{formulaError}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Use column names (or [column name] with spaces), + - * / for math,
+              &amp; to join text and = &lt;&gt; &lt; &gt; to compare. Start
+              typing for columns and functions.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Preview</Label>
+          {check.ok && preview.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRowComponent>
+                    <TableHead className="w-16">Row</TableHead>
+                    {previewColumns.map(columnId => (
+                      <TableHead key={columnId} className="font-mono text-xs">
+                        {columnId}
+                      </TableHead>
+                    ))}
+                    <TableHead>{name.trim() || "Result"}</TableHead>
+                  </TableRowComponent>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(({ row, value, error }, index) => (
+                    <TableRowComponent key={row._rowId ?? index}>
+                      <TableCell>{index + 1}</TableCell>
+                      {previewColumns.map(columnId => (
+                        <TableCell
+                          key={columnId}
+                          className="font-mono text-xs text-muted-foreground"
+                        >
+                          {formatClipboardValue(row[columnId])}
+                        </TableCell>
+                      ))}
+                      <TableCell
+                        className={cn(
+                          "font-mono text-xs",
+                          error && "text-destructive"
+                        )}
+                      >
+                        {error ?? formatClipboardValue(value)}
+                      </TableCell>
+                    </TableRowComponent>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {formula.trim()
+                ? "Fix the formula to see a preview."
+                : "Enter a formula to preview it on the first rows."}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div>
+            {field && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={handleRemove}
+              >
+                Remove column
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave}>
+              {field ? "Save formula" : "Add column"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,15 @@
 "use client";
 
-import { useState, useRef } from "react";
-import { Upload, Download, FileText, Database, FileUp, X } from "lucide-react";
+import { useState, useRef, useMemo } from "react";
+import {
+  Upload,
+  Download,
+  FileText,
+  Database,
+  FileUp,
+  X,
+  FileSpreadsheet,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -15,10 +23,50 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { toast } from "@/components/ui/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { injectRowIds } from "@/lib/utils/data-processing";
+import { SpreadsheetSheetPicker } from "@/components/spreadsheet-sheet-picker";
+import {
+  isSpreadsheetFile,
+  readWorkbook,
+  sheetToRows,
+  type SpreadsheetWorkbook,
+} from "@/lib/utils/spreadsheet-parser";
+import {
+  csvRowsToObjects,
+  decodeCsvBytes,
+  detectDelimiter,
+  parseCsv,
+  parseCsvFile,
+  type CsvEncoding,
+} from "@/lib/utils/csv-parser";
+import type { PipelineSourceOptions } from "@/lib/types/pipelines";
+
+type ImportFormat = "csv" | "json" | "spreadsheet";
+type CsvDelimiterOption = "comma" | "tab" | "semicolon" | "pipe";
+
+const DELIMITER_CHARS: Record<CsvDelimiterOption, string> = {
+  comma: ",",
+  tab: "\t",
+  semicolon: ";",
+  pipe: "|",
+};
+
+const toDelimiterOption = (delimiter: string): CsvDelimiterOption =>
+  (Object.keys(DELIMITER_CHARS) as CsvDelimiterOption[]).find(
+    option => DELIMITER_CHARS[option] === delimiter
+  ) || "comma";
+
+// CSV files above this size are streamed instead of loaded into the textarea
+const LARGE_CSV_FILE_BYTES = 5 * 1024 * 1024;
+
+interface StreamedCsv {
+  rows: string[][];
+  encoding: CsvEncoding;
+}
 
 interface DataImportProps {
-  onImport: (data: any[]) => void;
+  onImport: (data: any[], source: PipelineSourceOptions) => void;
   onExport?: () => void;
   dataCount: number;
   isLoading?: boolean;
@@ -143,14 +191,104 @@ export function DataImport({
   onCreateShapeFromData,
 }: DataImportProps) {
   const [importData, setImportData] = useState("");
-  const [importFormat, setImportFormat] = useState<"csv" | "json">("csv");
-  const [csvDelimiter, setCsvDelimiter] = useState<"tab" | "comma">("comma");
+  const [importFormat, setImportFormat] = useState<ImportFormat>("csv");
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiterOption>("comma");
   const [hasHeaders, setHasHeaders] = useState(true);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Spreadsheet import state
+  const [workbook, setWorkbook] = useState<SpreadsheetWorkbook | null>(null);
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState(1);
+
+  // Large CSV files are parsed straight from the file in chunks
+  const [streamedCsv, setStreamedCsv] = useState<StreamedCsv | null>(null);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  const spreadsheetRows = useMemo(() => {
+    if (!workbook || !sheetName) return [];
+    try {
+      return sheetToRows(workbook, sheetName, {
+        headerRow: headerRow - 1,
+        hasHeaders,
+      });
+    } catch {
+      return [];
+    }
+  }, [workbook, sheetName, headerRow, hasHeaders]);
+
+  const isSpreadsheetMode = importFormat === "spreadsheet" && workbook !== null;
+  const isStreamedMode = importFormat === "csv" && streamedCsv !== null;
+  const hasInput = isSpreadsheetMode
+    ? spreadsheetRows.length > 0
+    : isStreamedMode
+      ? streamedCsv.rows.length > 0
+      : importData.trim().length > 0;
+
+  // First rows of file-backed data, shown instead of the textarea
+  const previewRows = useMemo(() => {
+    if (isSpreadsheetMode) return spreadsheetRows.slice(0, 5);
+    if (isStreamedMode) {
+      return csvRowsToObjects(streamedCsv.rows.slice(0, hasHeaders ? 6 : 5), {
+        hasHeaders,
+      });
+    }
+    return [];
+  }, [
+    isSpreadsheetMode,
+    isStreamedMode,
+    spreadsheetRows,
+    streamedCsv,
+    hasHeaders,
+  ]);
+  const previewTotal = isSpreadsheetMode
+    ? spreadsheetRows.length
+    : isStreamedMode
+      ? Math.max(0, streamedCsv.rows.length - (hasHeaders ? 1 : 0))
+      : 0;
+
+  const clearLoadedFile = () => {
+    setWorkbook(null);
+    setSheetName("");
+    setHeaderRow(1);
+    setStreamedCsv(null);
+  };
+
+  // Parse the current input into row objects
+  const parseInput = (): any[] => {
+    if (importFormat === "spreadsheet") {
+      if (!workbook) {
+        throw new Error("Choose an .xlsx, .xls or .ods file first");
+      }
+      if (spreadsheetRows.length === 0) {
+        throw new Error(`No rows found in sheet "${sheetName}"`);
+      }
+      return spreadsheetRows;
+    }
+
+    if (importFormat === "json") {
+      const jsonData = JSON.parse(importData);
+      if (!Array.isArray(jsonData)) {
+        throw new Error("JSON data must be an array");
+      }
+      return jsonData;
+    }
+
+    // CSV/TSV parsing using selected delimiter
+    const rows = streamedCsv
+      ? streamedCsv.rows
+      : parseCsv(importData, { delimiter: DELIMITER_CHARS[csvDelimiter] }).rows;
+    if (rows.length === 0) {
+      throw new Error("No data found");
+    }
+
+    return hasHeaders ? csvRowsToObjects(rows) : rows;
+  };
+
   const handleImport = () => {
-    if (!importData.trim()) {
+    if (!hasInput) {
       toast({
         title: "No data to import",
         description: "Please paste some data first",
@@ -160,42 +298,19 @@ export function DataImport({
     }
 
     try {
-      let parsedData: any[];
-
-      if (importFormat === "json") {
-        const jsonData = JSON.parse(importData);
-        if (!Array.isArray(jsonData)) {
-          throw new Error("JSON data must be an array");
-        }
-        parsedData = jsonData;
-      } else {
-        // CSV/TSV parsing using selected delimiter
-        const lines = importData.trim().split("\n");
-        if (lines.length === 0) {
-          throw new Error("No data found");
-        }
-        const delimChar = csvDelimiter === "tab" ? "\t" : ",";
-        const startIndex = hasHeaders ? 1 : 0;
-        const headers = hasHeaders ? parseCsvLine(lines[0], delimChar) : [];
-
-        parsedData = lines.slice(startIndex).map(line => {
-          const values = parseCsvLine(line, delimChar);
-          if (hasHeaders) {
-            const row: any = {};
-            headers.forEach((header, i) => {
-              row[header] = values[i] || "";
-            });
-            return row;
-          } else {
-            return values;
-          }
-        });
-      }
+      const parsedData = parseInput();
 
       // Inject unique row IDs
       const processedData = injectRowIds(parsedData, true); // Preserve existing IDs
 
-      onImport(processedData);
+      onImport(processedData, {
+        format: importFormat,
+        delimiter:
+          importFormat === "csv" ? DELIMITER_CHARS[csvDelimiter] : undefined,
+        hasHeaders,
+        sheetName: isSpreadsheetMode ? sheetName : undefined,
+        headerRow: isSpreadsheetMode ? headerRow : undefined,
+      });
       toast({
         title: "Data imported successfully",
         description: `${processedData.length} records imported`,
@@ -203,6 +318,7 @@ export function DataImport({
 
       setImportData("");
       setSelectedFile(null);
+      clearLoadedFile();
     } catch (error) {
       console.error("Import error:", error);
       toast({
@@ -214,15 +330,6 @@ export function DataImport({
     }
   };
 
-  // Helper to detect delimiter
-  const detectDelimiter = (content: string): "tab" | "comma" => {
-    const firstLine = content.split("\n")[0];
-    const tabCount = (firstLine.match(/\t/g) || []).length;
-    const commaCount = (firstLine.match(/,/g) || []).length;
-    if (tabCount > commaCount) return "tab";
-    return "comma";
-  };
-
   // Helper to detect format
   const detectFormat = (content: string, filename?: string): "csv" | "json" => {
     // Prefer extension if available
@@ -244,35 +351,115 @@ export function DataImport({
   const handlePasteChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setImportData(value);
+    clearLoadedFile();
     // Auto-detect format
     const detectedFormat = detectFormat(value);
     setImportFormat(detectedFormat);
-    if (detectedFormat === "csv") {
-      const lines = value.trim().split("\n");
-      if (lines.length > 0 && lines[0].length > 0) {
-        const delimiter = detectDelimiter(lines[0]);
-        setCsvDelimiter(delimiter);
+    if (detectedFormat === "csv" && value.trim()) {
+      setCsvDelimiter(toDelimiterOption(detectDelimiter(value)));
+    }
+  };
+
+  // --- LARGE CSV STREAMING ---
+  const streamCsvFile = async (file: File, delimiter?: CsvDelimiterOption) => {
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setParseProgress(0);
+    try {
+      const result = await parseCsvFile(file, {
+        delimiter: delimiter && DELIMITER_CHARS[delimiter],
+        signal: controller.signal,
+        onProgress: ({ bytesRead, totalBytes }) =>
+          setParseProgress(Math.round((bytesRead / totalBytes) * 100)),
+      });
+      if (controller.signal.aborted) return;
+      setStreamedCsv({ rows: result.rows, encoding: result.encoding });
+      setCsvDelimiter(toDelimiterOption(result.delimiter));
+      setImportFormat("csv");
+      setImportData("");
+      toast({
+        title: "File parsed",
+        description: `"${file.name}" has ${result.rowCount.toLocaleString()} rows (${result.encoding}). Review the preview, then import.`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setSelectedFile(null);
+      setStreamedCsv(null);
+      toast({
+        title: "File read error",
+        description:
+          error instanceof Error ? error.message : "Could not parse the file",
+        variant: "destructive",
+      });
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+        setParseProgress(null);
       }
     }
   };
 
+  const handleDelimiterChange = (value: CsvDelimiterOption) => {
+    setCsvDelimiter(value);
+    // Streamed rows were split with the previous delimiter
+    if (isStreamedMode && selectedFile) {
+      streamCsvFile(selectedFile, value);
+    }
+  };
+
   // --- FILE SELECT ---
   const handleFileSelect = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
     const file = event.target.files?.[0];
+    if (file && isSpreadsheetFile(file.name)) {
+      setSelectedFile(file);
+      try {
+        const loaded = readWorkbook(await file.arrayBuffer());
+        const firstSheet =
+          loaded.sheets.find(sheet => sheet.rowCount > 0) || loaded.sheets[0];
+        setWorkbook(loaded);
+        setSheetName(firstSheet.name);
+        setHeaderRow(1);
+        setHasHeaders(true);
+        setImportFormat("spreadsheet");
+        setImportData("");
+        toast({
+          title: "Workbook loaded",
+          description: `"${file.name}" has ${loaded.sheets.length} sheet${loaded.sheets.length === 1 ? "" : "s"}. Pick a sheet and header row, then import.`,
+        });
+      } catch (error) {
+        setSelectedFile(null);
+        toast({
+          title: "File read error",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Could not read the selected workbook",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
     if (file) {
       setSelectedFile(file);
+      clearLoadedFile();
+      const isJsonFile = file.name.toLowerCase().endsWith(".json");
+      if (!isJsonFile && file.size > LARGE_CSV_FILE_BYTES) {
+        await streamCsvFile(file);
+        return;
+      }
       try {
-        const content = await file.text();
+        const { text: content } = decodeCsvBytes(await file.arrayBuffer());
         // Populate textarea with file contents
         setImportData(content);
         // Auto-detect format
         const detectedFormat = detectFormat(content, file.name);
         setImportFormat(detectedFormat);
         if (detectedFormat === "csv") {
-          const delimiter = detectDelimiter(content);
-          setCsvDelimiter(delimiter);
+          setCsvDelimiter(toDelimiterOption(detectDelimiter(content)));
         }
         toast({
           title: "File loaded",
@@ -295,55 +482,28 @@ export function DataImport({
 
   const clearSelectedFile = () => {
     setSelectedFile(null);
+    clearLoadedFile();
+    if (importFormat === "spreadsheet") {
+      setImportFormat("csv");
+    }
+    streamAbortRef.current?.abort();
+    setParseProgress(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const parseCsvLine = (line: string, delimiter: string): string[] => {
-    // Handle empty lines
-    if (!line.trim()) {
-      return [];
-    }
-
-    if (delimiter === "\t") {
-      return line.split("\t").map(field => field.trim());
-    }
-
-    // Handle comma-delimited with quotes
-    const result = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && i < line.length - 1 && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        result.push(current.trim());
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    result.push(current.trim());
-    return result;
-  };
-
   const loadSampleData = () => {
     const sampleData = generateSampleData();
 
-    if (importFormat === "json") {
+    if (importFormat === "spreadsheet" || isStreamedMode) {
+      clearSelectedFile();
+      setImportFormat("json");
+      setImportData(JSON.stringify(sampleData, null, 2));
+    } else if (importFormat === "json") {
       setImportData(JSON.stringify(sampleData, null, 2));
     } else {
-      const delimChar = csvDelimiter === "tab" ? "\t" : ",";
+      const delimChar = DELIMITER_CHARS[csvDelimiter];
       const headers = [
         "id",
         "firstName",
@@ -372,6 +532,9 @@ export function DataImport({
 
   const clearData = () => {
     setImportData("");
+    if (isSpreadsheetMode || isStreamedMode) {
+      clearSelectedFile();
+    }
     toast({
       title: "Input cleared",
       description: "Import data has been cleared",
@@ -379,7 +542,7 @@ export function DataImport({
   };
 
   const getAcceptedFileTypes = () => {
-    return ".csv,.tsv,.txt,.json";
+    return ".csv,.tsv,.txt,.json,.xlsx,.xls,.ods";
   };
 
   return (
@@ -395,7 +558,7 @@ export function DataImport({
           )}
         </CardTitle>
         <CardDescription>
-          Import data from JSON or CSV format to populate your table
+          Import data from CSV, JSON or spreadsheet files to populate your table
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -405,7 +568,7 @@ export function DataImport({
             <Label>Import Format</Label>
             <RadioGroup
               value={importFormat}
-              onValueChange={value => setImportFormat(value as "json" | "csv")}
+              onValueChange={value => setImportFormat(value as ImportFormat)}
               className="flex flex-wrap gap-4"
             >
               <div className="flex items-center space-x-2">
@@ -422,6 +585,20 @@ export function DataImport({
                   JSON
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem
+                  value="spreadsheet"
+                  id="spreadsheet"
+                  disabled={!workbook}
+                />
+                <Label
+                  htmlFor="spreadsheet"
+                  className="flex items-center gap-1"
+                >
+                  <FileSpreadsheet className="h-3 w-3" />
+                  Spreadsheet
+                </Label>
+              </div>
             </RadioGroup>
             <p className="text-xs text-muted-foreground">
               Auto-detected on paste/upload, but you can override.
@@ -435,9 +612,10 @@ export function DataImport({
                 <RadioGroup
                   value={csvDelimiter}
                   onValueChange={value =>
-                    setCsvDelimiter(value as "tab" | "comma")
+                    handleDelimiterChange(value as CsvDelimiterOption)
                   }
                   className="flex flex-wrap gap-4"
+                  disabled={parseProgress !== null}
                 >
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="comma" id="comma" />
@@ -447,6 +625,14 @@ export function DataImport({
                     <RadioGroupItem value="tab" id="tab" />
                     <Label htmlFor="tab">Tab</Label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="semicolon" id="semicolon" />
+                    <Label htmlFor="semicolon">Semicolon</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="pipe" id="pipe" />
+                    <Label htmlFor="pipe">Pipe</Label>
+                  </div>
                 </RadioGroup>
                 <div className="flex items-center space-x-2">
                   <input
@@ -463,13 +649,45 @@ export function DataImport({
               </div>
             </div>
           )}
+
+          {isSpreadsheetMode && (
+            <div className="space-y-2">
+              <Label>Spreadsheet Options</Label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="spreadsheetHasHeaders"
+                  checked={hasHeaders}
+                  onChange={e => setHasHeaders(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="spreadsheetHasHeaders" className="text-sm">
+                  Header row contains column names
+                </Label>
+              </div>
+            </div>
+          )}
         </div>
 
+        {isSpreadsheetMode && workbook && (
+          <SpreadsheetSheetPicker
+            workbook={workbook}
+            sheetName={sheetName}
+            onSheetChange={setSheetName}
+            headerRow={headerRow}
+            onHeaderRowChange={setHeaderRow}
+          />
+        )}
+
         {/* Data Input Section */}
         <div className="space-y-2">
           <div className="flex flex-wrap items-center gap-2 sm:gap-4">
             <Label htmlFor="importData" className="whitespace-nowrap">
-              {importFormat === "json" ? "JSON Data" : "CSV/TSV Data"}
+              {isSpreadsheetMode
+                ? "Spreadsheet Data"
+                : importFormat === "json"
+                  ? "JSON Data"
+                  : "CSV/TSV Data"}
             </Label>
             <input
               ref={fileInputRef}
@@ -505,18 +723,74 @@ export function DataImport({
               </div>
             )}
           </div>
-          <Textarea
-            id="importData"
-            placeholder={
-              importFormat === "json"
-                ? 'Paste JSON array here...\n[{"id": 1, "name": "John"}, ...]'
-                : "Paste CSV or TSV data here...\nid\tname\temail\n1\tJohn\tjohn@example.com or id,name,email\n1,John,john@example.com"
-            }
-            value={importData}
-            onChange={handlePasteChange}
-            className="min-h-[150px] font-mono text-sm w-full"
-            rows={6}
-          />
+          {parseProgress !== null ? (
+            <div className="space-y-2 border rounded-md p-4">
+              <p className="text-sm text-muted-foreground">
+                Parsing {selectedFile?.name}... {parseProgress}%
+              </p>
+              <Progress value={parseProgress} />
+            </div>
+          ) : isSpreadsheetMode || isStreamedMode ? (
+            <div className="border rounded-md overflow-auto max-h-64">
+              {previewRows.length > 0 ? (
+                <table className="w-full text-xs">
+                  <thead className="bg-muted">
+                    <tr>
+                      {Object.keys(previewRows[0]).map(header => (
+                        <th
+                          key={header}
+                          className="px-2 py-1 text-left font-medium whitespace-nowrap"
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row, index) => (
+                      <tr key={index} className="border-t">
+                        {Object.values(row).map((value, cellIndex) => (
+                          <td
+                            key={cellIndex}
+                            className="px-2 py-1 whitespace-nowrap"
+                          >
+                            {String(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="p-3 text-sm text-muted-foreground">
+                  {isSpreadsheetMode
+                    ? "No rows found below the selected header row."
+                    : "No rows found in the selected file."}
+                </p>
+              )}
+              {previewRows.length > 0 && (
+                <p className="px-2 py-1 text-xs text-muted-foreground border-t">
+                  Showing {previewRows.length} of{" "}
+                  {previewTotal.toLocaleString()} rows from &quot;
+                  {isSpreadsheetMode ? sheetName : selectedFile?.name}&quot;
+                  {isStreamedMode && ` (${streamedCsv.encoding})`}
+                </p>
+              )}
+            </div>
+          ) : (
+            <Textarea
+              id="importData"
+              placeholder={
+                importFormat === "json"
+                  ? 'Paste JSON array here...\n[{"id": 1, "name": "John"}, ...]'
+                  : "Paste CSV or TSV data here...\nid\tname\temail\n1\tJohn\tjohn@example.com or id,name,email\n1,John,john@example.com"
+              }
+              value={importData}
+              onChange={handlePasteChange}
+              className="min-h-[150px] font-mono text-sm w-full"
+              rows={6}
+            />
+          )}
         </div>
 
         {/* Error Display */}
@@ -530,7 +804,7 @@ export function DataImport({
         <div className="flex flex-wrap gap-2">
           <Button
             onClick={handleImport}
-            disabled={!importData.trim() || isLoading}
+            disabled={!hasInput || isLoading}
             className="flex items-center gap-2"
           >
             <Upload className="h-4 w-4" />
@@ -538,43 +812,12 @@ export function DataImport({
           </Button>
 
           {/* Create Shape from Data Button */}
-          {importData.trim() && onCreateShapeFromData && (
+          {hasInput && onCreateShapeFromData && (
             <Button
               variant="secondary"
               onClick={() => {
                 try {
-                  let parsedData: any[];
-                  if (importFormat === "json") {
-                    const jsonData = JSON.parse(importData);
-                    if (!Array.isArray(jsonData)) {
-                      throw new Error("JSON data must be an array");
-                    }
-                    parsedData = jsonData;
-                  } else {
-                    const lines = importData.trim().split("\n");
-                    if (lines.length === 0) {
-                      throw new Error("No data found");
-                    }
-                    const delimChar = csvDelimiter === "tab" ? "\t" : ",";
-                    const startIndex = hasHeaders ? 1 : 0;
-                    const headers = hasHeaders
-                      ? parseCsvLine(lines[0], delimChar)
-                      : [];
-
-                    parsedData = lines.slice(startIndex).map(line => {
-                      const values = parseCsvLine(line, delimChar);
-                      if (hasHeaders) {
-                        const row: any = {};
-                        headers.forEach((header, i) => {
-                          row[header] = values[i] || "";
-                        });
-                        return row;
-                      } else {
-                        return values;
-                      }
-                    });
-                  }
-                  onCreateShapeFromData(parsedData);
+                  onCreateShapeFromData(parseInput());
                 } catch {
                   toast({
                     title: "Invalid data",
@@ -610,7 +853,7 @@ export function DataImport({
               Export
             </Button>
           )}
-          {importData.trim() && (
+          {hasInput && (
             <Button
               variant="outline"
               onClick={clearData}
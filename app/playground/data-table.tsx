@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useCallback } from "react";
+import { useMemo, useCallback, useEffect, useState } from "react";
 import { useHydration } from "@/lib/hooks/useHydration";
 import {
   useReactTable,
@@ -14,6 +14,7 @@ import {
   getFacetedUniqueValues,
   flexRender,
   type ColumnDef,
+  type Row,
 } from "@tanstack/react-table";
 import { useAppDispatch, useAppSelector } from "@/lib/hooks";
 import {
@@ -26,6 +27,11 @@ import {
   setExpanded,
   setPagination,
   toggleColumnSort,
+  insertRow,
+  duplicateRows,
+  deleteRows,
+  updateCells,
+  type CellUpdate,
 } from "@/lib/features/tableSlice";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,24 +49,67 @@ import {
   DropdownMenuContent,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Eye, Sparkles, Upload, ArrowRight } from "lucide-react";
+import {
+  Eye,
+  Sparkles,
+  Upload,
+  ArrowRight,
+  Replace,
+  Sigma,
+  Merge,
+} from "lucide-react";
 import Link from "next/link";
 import { CompactHistory } from "@/components/compact-history";
 import { ExportDropdown } from "@/components/export-dropdown";
+import {
+  TableContextMenu,
+  ROW_SHORTCUTS,
+  RANGE_SHORTCUTS,
+  matchesShortcut,
+  type TableContextMenuTarget,
+} from "./table-context-menu";
+import { FindReplaceDialog } from "./find-replace-dialog";
+import { ComputedColumnDialog } from "./computed-column-dialog";
+import { DuplicateReviewDialog } from "./duplicate-review-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   transformColumns,
   type SimpleColumnDef,
 } from "@/lib/utils/column-transformer";
 import { naturalSortForTable } from "@/lib/utils/sort-utils";
+import {
+  buildClearUpdates,
+  buildFillDownUpdates,
+  buildPasteUpdates,
+  getRangeBounds,
+  getRangeValues,
+  isCellInBounds,
+  parseTsv,
+  rangeToHtml,
+  rangeToTsv,
+  type CellPosition,
+  type CellRange,
+  type RangeBounds,
+  type RangeGrid,
+} from "@/lib/utils/range-clipboard";
+import { cn } from "@/lib/utils";
 import {
   generateColumnsFromTargetShape,
   generateDefaultTargetShape,
 } from "@/lib/utils/column-generator";
+import { isComputedField } from "@/lib/utils/formula-engine";
+import type { ComputedField } from "@/lib/types/target-shapes";
 
 // Import the TableRow type from the slice
 import type { TableRow } from "@/lib/features/tableSlice";
 
+// Elements that handle their own mouse, keyboard and clipboard events
+const TEXT_ENTRY_SELECTOR = "input, textarea, select, [contenteditable='true']";
+const INTERACTIVE_SELECTOR = `button, a, ${TEXT_ENTRY_SELECTOR}`;
+
+const isWithin = (target: EventTarget, selector: string) =>
+  target instanceof Element && target.closest(selector) !== null;
+
 interface DataTableProps {
   data: TableRow[];
   currentVersion: number;
@@ -76,6 +125,25 @@ export function DataTable({
   const tableState = useAppSelector(state => state.table);
   const targetShapesState = useAppSelector(state => state.targetShapes);
   const { isHydrated } = useHydration();
+  const [contextMenu, setContextMenu] = useState<TableContextMenuTarget | null>(
+    null
+  );
+  const [cellRange, setCellRange] = useState<CellRange | null>(null);
+  const [isSelectingRange, setIsSelectingRange] = useState(false);
+  const [isFindReplaceOpen, setIsFindReplaceOpen] = useState(false);
+  const [isDuplicateReviewOpen, setIsDuplicateReviewOpen] = useState(false);
+  // Computed column being edited; `field` is omitted when adding one
+  const [formulaDialog, setFormulaDialog] = useState<{
+    field?: ComputedField;
+  } | null>(null);
+
+  // Dragging a range ends wherever the mouse is released
+  useEffect(() => {
+    if (!isSelectingRange) return;
+    const stopSelecting = () => setIsSelectingRange(false);
+    window.addEventListener("mouseup", stopSelecting);
+    return () => window.removeEventListener("mouseup", stopSelecting);
+  }, [isSelectingRange]);
 
   const {
     columnOrder,
@@ -94,6 +162,21 @@ export function DataTable({
   // Safe access to editingCell
   const currentEditingCell = tableState?.editingCell || null;
 
+  const appliedTargetShape = useMemo(
+    () =>
+      appliedTargetShapeId
+        ? targetShapesState.shapes.find(
+            shape => shape.id === appliedTargetShapeId
+          )
+        : undefined,
+    [appliedTargetShapeId, targetShapesState.shapes]
+  );
+
+  const computedFields = useMemo(
+    () => appliedTargetShape?.fields.filter(isComputedField) ?? [],
+    [appliedTargetShape]
+  );
+
   // Generate column definitions dynamically based on target shape and column order
   const simpleColumns: SimpleColumnDef<TableRow>[] = useMemo(() => {
     if (data.length === 0 || columnOrder.length === 0) {
@@ -101,24 +184,16 @@ export function DataTable({
     }
 
     // Get the current target shape (either applied or default)
-    let currentTargetShape;
-    if (appliedTargetShapeId) {
-      currentTargetShape = targetShapesState.shapes.find(
-        shape => shape.id === appliedTargetShapeId
-      );
-    }
-
     // If no target shape is applied or found, generate a default one
-    if (!currentTargetShape) {
-      currentTargetShape = generateDefaultTargetShape(data);
-    }
+    const currentTargetShape =
+      appliedTargetShape ?? generateDefaultTargetShape(data);
 
     return generateColumnsFromTargetShape(
       currentTargetShape,
       columnOrder,
       data
     );
-  }, [data, columnOrder, appliedTargetShapeId, targetShapesState.shapes]);
+  }, [data, columnOrder, appliedTargetShape]);
 
   // Transform simple columns to TanStack Table columns
   const columns = useMemo<ColumnDef<TableRow>[]>(
@@ -206,6 +281,61 @@ export function DataTable({
     [dispatch, pagination]
   );
 
+  const selectedRowIds = useMemo(
+    () => Object.keys(rowSelection).filter(rowId => rowSelection[rowId]),
+    [rowSelection]
+  );
+
+  // Open the structure menu at the pointer, or below the element when opened
+  // from the keyboard (context menu key, Shift+F10)
+  const openContextMenu = (
+    event: React.MouseEvent<HTMLElement>,
+    target: Omit<TableContextMenuTarget, "x" | "y">
+  ) => {
+    event.preventDefault();
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fromKeyboard = event.clientX === 0 && event.clientY === 0;
+    setContextMenu({
+      ...target,
+      x: fromKeyboard ? rect.left : event.clientX,
+      y: fromKeyboard ? rect.bottom : event.clientY,
+    });
+  };
+
+  // Row structure shortcuts on a focused row (not while editing a cell).
+  // While cells are selected, Mod+D and Delete act on the cells instead.
+  const handleRowKeyDown = (
+    event: React.KeyboardEvent<HTMLTableRowElement>,
+    row: Row<TableRow>
+  ) => {
+    if (event.target !== event.currentTarget) return;
+    const cellsSelected = rangeBounds !== null;
+
+    const rowIds =
+      row.getIsSelected() && selectedRowIds.length > 0
+        ? selectedRowIds
+        : [row.id];
+
+    if (matchesShortcut(event, ROW_SHORTCUTS.insertAbove)) {
+      dispatch(insertRow({ index: row.index }));
+    } else if (matchesShortcut(event, ROW_SHORTCUTS.insertBelow)) {
+      dispatch(insertRow({ index: row.index + 1 }));
+    } else if (
+      !cellsSelected &&
+      matchesShortcut(event, ROW_SHORTCUTS.duplicate)
+    ) {
+      dispatch(duplicateRows({ rowIds }));
+    } else if (
+      !cellsSelected &&
+      (matchesShortcut(event, ROW_SHORTCUTS.delete) || event.key === "Delete")
+    ) {
+      dispatch(deleteRows({ rowIds }));
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
   // Table instance
   const table = useReactTable({
     data,
@@ -245,6 +375,119 @@ export function DataTable({
     },
   });
 
+  // The visible page in display order, for range selection and paste
+  const fieldTypes = new Map(
+    appliedTargetShape?.fields.map(field => [field.name, field.type])
+  );
+  const rangeRows = table.getRowModel().rows.filter(row => !row.getIsGrouped());
+  const grid: RangeGrid = {
+    rows: rangeRows.map(row => ({ id: row.id, values: row.original })),
+    columns: table.getVisibleLeafColumns().map(column => ({
+      id: column.id,
+      type: fieldTypes.get(column.id),
+      editable:
+        columnOrder.includes(column.id) &&
+        (column.columnDef.meta as { editable?: unknown } | undefined)
+          ?.editable !== false,
+    })),
+  };
+  const rowPositions = new Map(grid.rows.map((row, index) => [row.id, index]));
+  const rangeBounds = cellRange ? getRangeBounds(grid, cellRange) : null;
+
+  // Several selected cells scope find and replace to their columns
+  const rangeColumnIds =
+    rangeBounds &&
+    (rangeBounds.bottom > rangeBounds.top ||
+      rangeBounds.right > rangeBounds.left)
+      ? grid.columns
+          .slice(rangeBounds.left, rangeBounds.right + 1)
+          .map(column => column.id)
+          .filter(columnId => columnOrder.includes(columnId))
+      : [];
+
+  const selectBounds = (bounds: RangeBounds) =>
+    setCellRange({
+      anchor: {
+        rowId: grid.rows[bounds.top].id,
+        columnId: grid.columns[bounds.left].id,
+      },
+      focus: {
+        rowId: grid.rows[bounds.bottom].id,
+        columnId: grid.columns[bounds.right].id,
+      },
+    });
+
+  const handleCellMouseDown = (
+    event: React.MouseEvent<HTMLTableCellElement>,
+    position: CellPosition
+  ) => {
+    if (event.button !== 0 || isWithin(event.target, INTERACTIVE_SELECTOR)) {
+      return;
+    }
+
+    if (event.shiftKey && cellRange) {
+      // Keep the browser from selecting text between the two cells
+      event.preventDefault();
+      setCellRange({ anchor: cellRange.anchor, focus: position });
+    } else {
+      setCellRange({ anchor: position, focus: position });
+    }
+    setIsSelectingRange(true);
+  };
+
+  const handleRangeCopy = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!rangeBounds || isWithin(event.target, TEXT_ENTRY_SELECTOR)) return;
+
+    const values = getRangeValues(grid, rangeBounds);
+    event.clipboardData.setData("text/plain", rangeToTsv(values));
+    event.clipboardData.setData("text/html", rangeToHtml(values));
+    event.preventDefault();
+  };
+
+  const handleRangePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!rangeBounds || isWithin(event.target, TEXT_ENTRY_SELECTOR)) return;
+    event.preventDefault();
+
+    const block = parseTsv(event.clipboardData.getData("text/plain"));
+    const { updates, bounds } = buildPasteUpdates(grid, rangeBounds, block);
+    if (updates.length > 0) {
+      dispatch(updateCells({ updates, source: "paste" }));
+    }
+    selectBounds(bounds);
+  };
+
+  const handleRangeKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (
+      !rangeBounds ||
+      event.defaultPrevented ||
+      isWithin(event.target, TEXT_ENTRY_SELECTOR)
+    ) {
+      return;
+    }
+
+    let updates: CellUpdate[];
+    let source: "fillDown" | "clear";
+    if (matchesShortcut(event, RANGE_SHORTCUTS.fillDown)) {
+      updates = buildFillDownUpdates(grid, rangeBounds);
+      source = "fillDown";
+    } else if (
+      (event.key === "Delete" || event.key === "Backspace") &&
+      !event.ctrlKey &&
+      !event.metaKey
+    ) {
+      updates = buildClearUpdates(grid, rangeBounds);
+      source = "clear";
+    } else if (event.key === "Escape") {
+      setCellRange(null);
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    if (updates.length > 0) dispatch(updateCells({ updates, source }));
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -268,6 +511,9 @@ export function DataTable({
             <p className="text-sm text-muted-foreground mt-1">
               Double-click any cell to edit. Press Enter to save or Escape to
               cancel. Click column headers to sort. Hold Shift to multi-sort.
+              Right-click a row or column header to insert, duplicate, rename or
+              delete. Drag or Shift-click to select cells, then copy, paste,
+              fill down or clear them like a spreadsheet.
             </p>
           </div>
           <div className="flex items-center gap-2 flex-shrink-0">
@@ -287,12 +533,49 @@ export function DataTable({
               }
               className="max-w-sm w-full"
             />
+            <Button
+              variant="outline"
+              className="text-sm"
+              onClick={() => setIsFindReplaceOpen(true)}
+              disabled={data.length === 0}
+            >
+              <Replace className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Find & Replace</span>
+              <span className="sm:hidden">Replace</span>
+            </Button>
+            <Button
+              variant="outline"
+              className="text-sm"
+              onClick={() => setFormulaDialog({})}
+              disabled={!appliedTargetShape || data.length === 0}
+              title={
+                appliedTargetShape
+                  ? "Add a column computed by a formula"
+                  : "Apply a target shape to add computed columns"
+              }
+            >
+              <Sigma className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Add Formula</span>
+              <span className="sm:hidden">Formula</span>
+            </Button>
+            <Button
+              variant="outline"
+              className="text-sm"
+              onClick={() => setIsDuplicateReviewOpen(true)}
+              disabled={data.length < 2}
+              title="Find and merge duplicate rows"
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Duplicates</span>
+              <span className="sm:hidden">Dedupe</span>
+            </Button>
           </div>
           <div className="flex items-center gap-2 sm:ml-auto">
             <ExportDropdown
               data={data}
               currentVersion={currentVersion}
               disabled={data.length === 0}
+              targetShape={appliedTargetShape}
             />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -326,14 +609,32 @@ export function DataTable({
         </div>
 
         {/* Table */}
-        <div className="rounded-md border overflow-x-auto">
+        <div
+          className={cn(
+            "rounded-md border overflow-x-auto",
+            isSelectingRange && "select-none"
+          )}
+          onCopy={handleRangeCopy}
+          onPaste={handleRangePaste}
+          onKeyDown={handleRangeKeyDown}
+        >
           <Table>
             <TableHeader>
               {table.getHeaderGroups().map(headerGroup => (
                 <TableRowComponent key={headerGroup.id}>
                   {headerGroup.headers.map(header => {
                     return (
-                      <TableHead key={header.id} data-field={header.column.id}>
+                      <TableHead
+                        key={header.id}
+                        data-field={header.column.id}
+                        onContextMenu={event => {
+                          if (columnOrder.includes(header.column.id)) {
+                            openContextMenu(event, {
+                              columnId: header.column.id,
+                            });
+                          }
+                        }}
+                      >
                         {header.isPlaceholder
                           ? null
                           : flexRender(
@@ -353,13 +654,57 @@ export function DataTable({
                     key={row.id}
                     data-state={row.getIsSelected() && "selected"}
                     className={
-                      currentEditingCell?.rowId === row.original.id
+                      currentEditingCell?.rowId === row.id
                         ? "bg-primary/5 ring-1 ring-primary/20"
-                        : ""
+                        : "focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
                     }
+                    tabIndex={0}
+                    onKeyDown={event => handleRowKeyDown(event, row)}
+                    onContextMenu={event => {
+                      const columnId = (event.target as HTMLElement)
+                        .closest("[data-field]")
+                        ?.getAttribute("data-field");
+                      openContextMenu(event, {
+                        rowId: row.id,
+                        rowIndex: row.index,
+                        columnId:
+                          columnId && columnOrder.includes(columnId)
+                            ? columnId
+                            : undefined,
+                      });
+                    }}
                   >
-                    {row.getVisibleCells().map(cell => (
-                      <TableCell key={cell.id} data-field={cell.column.id}>
+                    {row.getVisibleCells().map((cell, columnIndex) => (
+                      <TableCell
+                        key={cell.id}
+                        data-field={cell.column.id}
+                        className={
+                          isCellInBounds(
+                            rangeBounds,
+                            rowPositions.get(row.id) ?? -1,
+                            columnIndex
+                          )
+                            ? "bg-primary/10"
+                            : undefined
+                        }
+                        onMouseDown={event =>
+                          handleCellMouseDown(event, {
+                            rowId: row.id,
+                            columnId: cell.column.id,
+                          })
+                        }
+                        onMouseEnter={() => {
+                          if (isSelectingRange && cellRange) {
+                            setCellRange({
+                              anchor: cellRange.anchor,
+                              focus: {
+                                rowId: row.id,
+                                columnId: cell.column.id,
+                              },
+                            });
+                          }
+                        }}
+                      >
                         {flexRender(
                           cell.column.columnDef.cell,
                           cell.getContext()
@@ -405,6 +750,46 @@ export function DataTable({
           </Table>
         </div>
 
+        <TableContextMenu
+          target={contextMenu}
+          onClose={() => setContextMenu(null)}
+          columnOrder={columnOrder}
+          selectedRowIds={selectedRowIds}
+          computedColumnIds={computedFields.map(field => field.name)}
+          onEditFormula={columnId =>
+            setFormulaDialog({
+              field: computedFields.find(field => field.name === columnId),
+            })
+          }
+        />
+
+        <FindReplaceDialog
+          isOpen={isFindReplaceOpen}
+          onClose={() => setIsFindReplaceOpen(false)}
+          data={data}
+          columnOrder={columnOrder}
+          initialColumns={rangeColumnIds}
+        />
+
+        <DuplicateReviewDialog
+          isOpen={isDuplicateReviewOpen}
+          onClose={() => setIsDuplicateReviewOpen(false)}
+          data={data}
+          columnOrder={columnOrder}
+          computedColumnIds={computedFields.map(field => field.name)}
+        />
+
+        {appliedTargetShape && (
+          <ComputedColumnDialog
+            isOpen={formulaDialog !== null}
+            onClose={() => setFormulaDialog(null)}
+            shape={appliedTargetShape}
+            field={formulaDialog?.field}
+            data={data}
+            columnOrder={columnOrder}
+          />
+        )}
+
         {/* Pagination */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-4 py-4">
           <div className="flex-1 text-sm text-muted-foreground">
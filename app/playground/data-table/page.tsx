@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useAppDispatch, useAppSelector } from "@/lib/hooks";
 import { Button } from "@/components/ui/button";
@@ -17,16 +17,39 @@ import {
   MoreHorizontal,
   Edit,
   Trash2,
+  Workflow,
+  GitCompare,
 } from "lucide-react";
-import { TargetShape } from "@/lib/types/target-shapes";
+import { EnumField, TargetShape } from "@/lib/types/target-shapes";
 import { DataTable } from "../data-table";
 import { ColumnMapping } from "@/components/column-mapping";
+import { EnumValueMapping } from "@/components/enum-value-mapping";
+import { SchemaDriftAlert } from "@/components/schema-drift-alert";
+import { SavePipelineDialog } from "@/components/save-pipeline-dialog";
+import { LearnedMappingsManager } from "@/components/learned-mappings-manager";
+import { DatasetCompareDialog } from "@/components/dataset-compare-dialog";
+import { DatasetDiffView } from "@/components/dataset-diff-view";
+import { clearDatasetDiff } from "@/lib/features/datasetsSlice";
+import { recordAppliedMapping } from "@/lib/features/mappingMemorySlice";
 import {
   applyTemplate,
   processDataWithLookups,
   setAppliedTargetShapeId,
+  setTransformationReport,
 } from "@/lib/features/tableSlice";
-import { loadShapes } from "@/lib/features/targetShapesSlice";
+import { transformData } from "@/lib/utils/transformation-engine";
+import {
+  getMappedFieldIds,
+  mapRowToFields,
+} from "@/lib/utils/column-mapping-rules";
+import type { ColumnMappingRule } from "@/lib/types/column-mapping";
+import { mergeEnumValueMaps } from "@/lib/utils/enum-value-mapping";
+import { detectSchemaDrift } from "@/lib/utils/schema-drift";
+import { isComputedField } from "@/lib/utils/formula-engine";
+import {
+  loadShapes,
+  updateTargetShape,
+} from "@/lib/features/targetShapesSlice";
 import { toast } from "@/components/ui/use-toast";
 import {
   AlertDialog,
@@ -68,6 +91,10 @@ export default function DataTablePage() {
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>(
     {}
   );
+  const [mappingRules, setMappingRules] = useState<ColumnMappingRule[]>([]);
+  const [enumValueMaps, setEnumValueMaps] = useState<
+    Record<string, Record<string, string>>
+  >({});
   const [isLoading, setIsLoading] = useState(true);
 
   // Parse fuzzy match review parameters
@@ -77,13 +104,54 @@ export default function DataTablePage() {
 
   // Template management state
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showSavePipelineDialog, setShowSavePipelineDialog] = useState(false);
+  const [showLearnedMappings, setShowLearnedMappings] = useState(false);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
   const [templateToDelete, setTemplateToDelete] = useState<TargetShape | null>(
     null
   );
 
-  const { data } = useAppSelector(state => state.table);
+  const { data, transformationReport, lookupProcessing, appliedTargetShapeId } =
+    useAppSelector(state => state.table);
+  const activeDiff = useAppSelector(state => state.datasets.activeDiff);
   const { shapes } = useAppSelector(state => state.targetShapes);
 
+  // Surface transformation failures once per applied mapping
+  const lastReportAtRef = useRef(transformationReport?.appliedAt);
+  // Running lookup thunk, kept so the user can cancel it
+  const lookupRunRef = useRef<{ abort: () => void } | null>(null);
+  useEffect(() => {
+    if (
+      !transformationReport ||
+      transformationReport.appliedAt === lastReportAtRef.current
+    ) {
+      return;
+    }
+    lastReportAtRef.current = transformationReport.appliedAt;
+
+    const { cellsChanged, failedCells } = transformationReport.stats;
+    if (failedCells > 0) {
+      toast({
+        title: "Some transformations failed",
+        description: `${cellsChanged} cells cleaned, ${failedCells} cells kept their last valid value`,
+        variant: "destructive",
+      });
+    }
+  }, [transformationReport]);
+
+  const allLearnedMappings = useAppSelector(
+    state => state.mappingMemory.learnedMappings
+  );
+  const learnedMappings = useMemo(
+    () =>
+      selectedShape
+        ? allLearnedMappings.filter(
+            mapping => mapping.targetShapeId === selectedShape.id
+          )
+        : [],
+    [allLearnedMappings, selectedShape]
+  );
+
   // Memoize importColumns to prevent unnecessary re-renders
   const importColumns = useMemo(() => {
     return data.length > 0
@@ -91,6 +159,30 @@ export default function DataTablePage() {
       : [];
   }, [data]);
 
+  // Compare the file's columns with the shape's last applied mapping
+  const lastMapping = useAppSelector(state =>
+    selectedShape ? state.mappingMemory.lastMappings[selectedShape.id] : null
+  );
+  const schemaDrift = useMemo(
+    () =>
+      mappingMode && selectedShape && lastMapping
+        ? detectSchemaDrift(lastMapping, importColumns, selectedShape.fields)
+        : null,
+    [mappingMode, selectedShape, lastMapping, importColumns]
+  );
+  const [driftAcknowledged, setDriftAcknowledged] = useState(false);
+
+  // Computed fields have no source column, so they're left out of mapping
+  const mappableShape = useMemo(
+    () =>
+      selectedShape && {
+        ...selectedShape,
+        fields: selectedShape.fields.filter(field => !isComputedField(field)),
+      },
+    [selectedShape]
+  );
+  const driftBlocksApply = !!schemaDrift?.hasDrift && !driftAcknowledged;
+
   // Load target shapes on component mount and handle data check
   useEffect(() => {
     dispatch(loadShapes());
@@ -124,6 +216,7 @@ export default function DataTablePage() {
   const handleApplyTemplate = async (shape: TargetShape) => {
     setIsApplyingTemplate(true);
     setSelectedShape(shape);
+    setDriftAcknowledged(false);
 
     // Enter mapping mode with the selected shape
     setMappingMode(true);
@@ -138,6 +231,9 @@ export default function DataTablePage() {
     setMappingMode(false);
     setSelectedShape(null);
     setColumnMapping({});
+    setMappingRules([]);
+    setEnumValueMaps({});
+    setDriftAcknowledged(false);
     router.push("/playground/data-table");
   }, [router]);
 
@@ -146,7 +242,10 @@ export default function DataTablePage() {
   }, []);
 
   const handleApplyMapping = async () => {
-    if (!selectedShape || Object.keys(columnMapping).length === 0) {
+    if (
+      !selectedShape ||
+      (Object.keys(columnMapping).length === 0 && mappingRules.length === 0)
+    ) {
       toast({
         title: "No mapping to apply",
         description: "Please configure column mappings first",
@@ -155,9 +254,19 @@ export default function DataTablePage() {
       return;
     }
 
+    if (driftBlocksApply) {
+      toast({
+        title: "Review column changes",
+        description:
+          "The file's columns differ from the last import. Acknowledge the changes before applying.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsApplyingMapping(true);
 
-    console.log("Applying mapping:", columnMapping);
+    console.log("Applying mapping:", columnMapping, mappingRules);
     console.log(
       "Selected shape fields:",
       selectedShape.fields.map(f => ({ id: f.id, name: f.name }))
@@ -172,6 +281,9 @@ export default function DataTablePage() {
       {} as Record<string, string>
     );
 
+    // Fields carrying the reviewed enum value maps
+    const shapeFields = mergeEnumValueMaps(selectedShape.fields, enumValueMaps);
+
     try {
       // Check if there are lookup fields that need processing
       const hasLookupFields = selectedShape.fields.some(
@@ -181,31 +293,43 @@ export default function DataTablePage() {
       if (hasLookupFields) {
         // If there are lookup fields, we need to transform the data and process lookups
         // Transform data according to mapping manually to pass to lookup processor
-        const transformedData = data.map(row => {
-          const newRow: Record<string, unknown> = { _rowId: row._rowId }; // Preserve internal ID
-
-          // Apply column mappings
-          Object.entries(columnMapping).forEach(
-            ([targetFieldId, sourceColumn]) => {
-              const targetField = selectedShape.fields.find(
-                f => f.id === targetFieldId
-              );
-              if (targetField && row[sourceColumn] !== undefined) {
-                newRow[targetField.name] = row[sourceColumn];
-              }
-            }
-          );
-
-          return newRow;
-        });
+        const mappedFieldIds = getMappedFieldIds(columnMapping, mappingRules);
+        const transformedData = data.map(row =>
+          mapRowToFields(row, columnMapping, mappingRules, shapeFields)
+        );
+
+        // Run field transformation rules before lookups so matching sees cleaned values
+        const { data: cleanedData, report } = transformData(
+          transformedData,
+          selectedShape.fields.filter(field => mappedFieldIds.has(field.id))
+        );
+        dispatch(
+          setTransformationReport(
+            report.stats.fieldsWithRules > 0 ? report : null
+          )
+        );
 
         // Process with lookups first, which will handle the full transformation including derived columns
-        await dispatch(
+        const lookupRun = dispatch(
           processDataWithLookups({
-            data: transformedData,
+            data: cleanedData,
             targetShape: selectedShape,
           })
         );
+        lookupRunRef.current = lookupRun;
+        const lookupResult = await lookupRun;
+        lookupRunRef.current = null;
+
+        if (
+          processDataWithLookups.rejected.match(lookupResult) &&
+          lookupResult.meta.aborted
+        ) {
+          toast({
+            title: "Mapping cancelled",
+            description: "Lookup processing was stopped before completion",
+          });
+          return;
+        }
 
         // Set the applied target shape ID
         dispatch(setAppliedTargetShapeId(selectedShape.id));
@@ -216,19 +340,47 @@ export default function DataTablePage() {
             targetShapeId: selectedShape.id,
             targetShapeName: selectedShape.name,
             columnMapping,
+            mappingRules,
             fieldMappings,
-            targetFields: selectedShape.fields.map(f => ({
+            targetFields: shapeFields.map(f => ({
               id: f.id,
               name: f.name,
+              transformation: f.transformation,
+              valueMap: (f as EnumField).valueMap,
+              formula: isComputedField(f) ? f.formula : undefined,
             })),
           })
         );
       }
 
+      // Save the reviewed enum values on the shape for the next import
+      if (Object.keys(enumValueMaps).length > 0) {
+        dispatch(
+          updateTargetShape({
+            id: selectedShape.id,
+            updates: { fields: shapeFields },
+          })
+        );
+      }
+
+      // Remember the accepted columns for the next import of this shape
+      dispatch(
+        recordAppliedMapping({
+          targetShapeId: selectedShape.id,
+          columnMapping,
+          fields: selectedShape.fields,
+          sourceColumns: importColumns,
+          mappingRules,
+        })
+      );
+
       // Exit mapping mode
       setMappingMode(false);
       setSelectedShape(null);
       setColumnMapping({});
+      setMappingRules([]);
+      setEnumValueMaps({});
+      setDriftAcknowledged(false);
       router.push("/playground/data-table");
 
       toast({
@@ -337,6 +489,18 @@ export default function DataTablePage() {
                 Back to Import
               </Button>
 
+              {!mappingMode && data.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowCompareDialog(true)}
+                  className="flex items-center gap-2"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare with Previous
+                </Button>
+              )}
+
               {mappingMode && selectedShape && (
                 <div className="flex items-center gap-2">
                   <Button
@@ -347,6 +511,16 @@ export default function DataTablePage() {
                   >
                     Exit Mapping Mode
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowSavePipelineDialog(true)}
+                    disabled={Object.keys(columnMapping).length === 0}
+                    className="flex items-center gap-2"
+                  >
+                    <Workflow className="w-4 h-4" />
+                    Save as Pipeline
+                  </Button>
                   <Button
                     size="sm"
                     onClick={handleApplyMapping}
@@ -358,21 +532,67 @@ export default function DataTablePage() {
                     ) : (
                       <ArrowRight className="w-4 h-4" />
                     )}
-                    Apply Mapping
+                    {lookupProcessing.isProcessing
+                      ? `Looking up... ${lookupProcessing.progress}%`
+                      : "Apply Mapping"}
                   </Button>
+                  {lookupProcessing.isProcessing && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => lookupRunRef.current?.abort()}
+                    >
+                      Cancel
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
-            {mappingMode && selectedShape && (
+            {mappingMode && selectedShape && schemaDrift && lastMapping && (
+              <SchemaDriftAlert
+                report={schemaDrift}
+                lastAppliedAt={lastMapping.appliedAt}
+                acknowledged={driftAcknowledged}
+                onAcknowledgedChange={setDriftAcknowledged}
+                className="mb-4"
+              />
+            )}
+            {mappingMode && mappableShape && (
               <ColumnMapping
                 importColumns={importColumns}
-                targetShape={selectedShape}
+                targetShape={mappableShape}
+                sampleRows={data}
+                learnedMappings={learnedMappings}
+                onManageLearnedMappings={() => setShowLearnedMappings(true)}
                 onMappingChange={handleMappingChange}
+                mappingRules={mappingRules}
+                onMappingRulesChange={setMappingRules}
                 onApplyMapping={handleApplyMapping}
+                applyBlockedReason={
+                  driftBlocksApply ? "review column changes" : undefined
+                }
                 isApplying={isApplyingMapping}
                 className="mb-4"
               />
             )}
+            {mappingMode && selectedShape && (
+              <EnumValueMapping
+                targetShape={selectedShape}
+                rows={data}
+                columnMapping={columnMapping}
+                mappingRules={mappingRules}
+                valueMaps={enumValueMaps}
+                onValueMapsChange={setEnumValueMaps}
+                className="mb-4"
+              />
+            )}
+            {!mappingMode && activeDiff && (
+              <DatasetDiffView
+                diff={activeDiff}
+                onClose={() => dispatch(clearDatasetDiff())}
+                className="mb-4"
+              />
+            )}
 
             <DataTable
               data={data}
@@ -527,6 +747,33 @@ export default function DataTablePage() {
         </div>
       )}
 
+      {selectedShape && (
+        <LearnedMappingsManager
+          isOpen={showLearnedMappings}
+          onClose={() => setShowLearnedMappings(false)}
+          targetShape={selectedShape}
+        />
+      )}
+
+      <DatasetCompareDialog
+        isOpen={showCompareDialog}
+        onClose={() => setShowCompareDialog(false)}
+        rows={data}
+        columns={importColumns}
+        targetShapeId={appliedTargetShapeId}
+      />
+
+      {selectedShape && (
+        <SavePipelineDialog
+          isOpen={showSavePipelineDialog}
+          onClose={() => setShowSavePipelineDialog(false)}
+          targetShape={selectedShape}
+          importColumns={importColumns}
+          columnMapping={columnMapping}
+          mappingRules={mappingRules}
+        />
+      )}
+
       {/* Delete Template Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -0,0 +1,565 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAppDispatch } from "@/lib/hooks";
+import {
+  mergeDuplicateRows,
+  type RowMerge,
+  type TableRow,
+} from "@/lib/features/tableSlice";
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  buildRowMerge,
+  findDuplicates,
+  getDefaultMergePicks,
+  type DuplicateDetectionOptions,
+  type DuplicateDetectionResult,
+  type DuplicateMatchMode,
+  type DuplicateSimilarity,
+} from "@/lib/utils/duplicate-detection";
+import { formatClipboardValue } from "@/lib/utils/range-clipboard";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow as TableRowComponent,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { ChevronLeft, ChevronRight, Merge } from "lucide-react";
+
+type ClusterAction = "keep" | "merge" | "skip";
+
+/**
+ * What to do with one cluster: keep one row as it is, keep it with values
+ * picked from the others, or leave every row alone
+ */
+interface ClusterDecision {
+  action: ClusterAction;
+  keepRowId: string;
+  /** Column -> row ID supplying the value, for merges */
+  picks: Record<string, string>;
+}
+
+const rowIdOf = (row: TableRow) => row._rowId ?? String(row.id);
+
+/**
+ * Review progress, in the layout of the fuzzy match review
+ */
+function ReviewStats({
+  decisions,
+  total,
+}: {
+  decisions: ClusterDecision[];
+  total: number;
+}) {
+  const count = (action: ClusterAction) =>
+    decisions.filter(decision => decision.action === action).length;
+  const stats = [
+    { label: "Kept", value: count("keep"), className: "text-green-600" },
+    { label: "Merged", value: count("merge"), className: "text-blue-600" },
+    { label: "Skipped", value: count("skip"), className: "text-red-600" },
+    {
+      label: "Pending",
+      value: total - decisions.length,
+      className: "text-gray-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Review Progress</div>
+        <div className="text-sm text-muted-foreground">
+          {decisions.length} of {total} groups reviewed
+        </div>
+      </div>
+      <Progress
+        value={total > 0 ? (decisions.length / total) * 100 : 0}
+        className="h-2"
+      />
+      <div className="grid grid-cols-4 gap-4 text-center">
+        {stats.map(stat => (
+          <div key={stat.label} className="space-y-1">
+            <div className={cn("text-2xl font-bold", stat.className)}>
+              {stat.value}
+            </div>
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface DuplicateReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: TableRow[];
+  columnOrder: string[];
+  /** Computed columns, shown but recalculated rather than merged */
+  computedColumnIds?: string[];
+}
+
+export function DuplicateReviewDialog({
+  isOpen,
+  onClose,
+  data,
+  columnOrder,
+  computedColumnIds = [],
+}: DuplicateReviewDialogProps) {
+  const dispatch = useAppDispatch();
+  const [options, setOptions] = useState<DuplicateDetectionOptions>(
+    DEFAULT_DUPLICATE_OPTIONS
+  );
+  const [result, setResult] = useState<DuplicateDetectionResult | null>(null);
+  const [decisions, setDecisions] = useState<Map<number, ClusterDecision>>(
+    new Map()
+  );
+  // Choices made on a group before deciding it
+  const [drafts, setDrafts] = useState<Map<number, ClusterDecision>>(new Map());
+  const [current, setCurrent] = useState(0);
+
+  // Each opening starts a new search; key columns are kept between searches
+  useEffect(() => {
+    if (!isOpen) return;
+    setResult(null);
+    setDecisions(new Map());
+    setDrafts(new Map());
+    setCurrent(0);
+    setOptions(previous => ({
+      ...previous,
+      keyColumns: previous.keyColumns.filter(columnId =>
+        columnOrder.includes(columnId)
+      ),
+    }));
+  }, [isOpen, columnOrder]);
+
+  const rowsById = useMemo(
+    () => new Map(data.map((row, index) => [rowIdOf(row), { row, index }])),
+    [data]
+  );
+  const mergeColumns = useMemo(
+    () => columnOrder.filter(columnId => !computedColumnIds.includes(columnId)),
+    [columnOrder, computedColumnIds]
+  );
+
+  const clusters = useMemo(() => result?.clusters ?? [], [result]);
+  const cluster = clusters[current];
+  const clusterRows = useMemo(
+    () =>
+      (cluster?.rowIds ?? []).flatMap(rowId => {
+        const entry = rowsById.get(rowId);
+        return entry ? [entry] : [];
+      }),
+    [cluster, rowsById]
+  );
+
+  // A group starts from its decision, or from keeping its first row
+  const defaultDraft = useMemo<ClusterDecision | null>(() => {
+    if (clusterRows.length === 0) return null;
+    const rows = clusterRows.map(entry => entry.row);
+    const keepRowId = rowIdOf(rows[0]);
+    return {
+      action: "keep",
+      keepRowId,
+      picks: getDefaultMergePicks(rows, keepRowId, mergeColumns),
+    };
+  }, [clusterRows, mergeColumns]);
+  const draft = drafts.get(current) ?? decisions.get(current) ?? defaultDraft;
+  const setDraft = (next: ClusterDecision) =>
+    setDrafts(previous => new Map(previous).set(current, next));
+
+  const updateOption = <K extends keyof DuplicateDetectionOptions>(
+    key: K,
+    value: DuplicateDetectionOptions[K]
+  ) => setOptions(previous => ({ ...previous, [key]: value }));
+
+  const toggleKeyColumn = (columnId: string, checked: boolean) =>
+    updateOption(
+      "keyColumns",
+      checked
+        ? columnOrder.filter(
+            id => id === columnId || options.keyColumns.includes(id)
+          )
+        : options.keyColumns.filter(id => id !== columnId)
+    );
+
+  const handleFind = () => {
+    setResult(findDuplicates(data, options));
+    setDecisions(new Map());
+    setDrafts(new Map());
+    setCurrent(0);
+  };
+
+  const selectKeptRow = (keepRowId: string) => {
+    if (!draft) return;
+    const rows = clusterRows.map(entry => entry.row);
+    setDraft({
+      ...draft,
+      keepRowId,
+      picks: getDefaultMergePicks(rows, keepRowId, mergeColumns),
+    });
+  };
+
+  const pickValue = (columnId: string, rowId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      action: "merge",
+      picks: { ...draft.picks, [columnId]: rowId },
+    });
+  };
+
+  const decide = (action: ClusterAction) => {
+    if (!draft) return;
+    setDecisions(previous =>
+      new Map(previous).set(current, { ...draft, action })
+    );
+    if (current < clusters.length - 1) setCurrent(current + 1);
+  };
+
+  // Keep the first row of every group not reviewed yet
+  const keepFirstInRemaining = () => {
+    setDecisions(previous => {
+      const next = new Map(previous);
+      clusters.forEach((remaining, index) => {
+        if (next.has(index)) return;
+        next.set(index, {
+          action: "keep",
+          keepRowId: remaining.rowIds[0],
+          picks: {},
+        });
+      });
+      return next;
+    });
+  };
+
+  const merges = useMemo(() => {
+    const list: RowMerge[] = [];
+    decisions.forEach((decision, index) => {
+      if (decision.action === "skip") return;
+      const rows = clusters[index].rowIds.flatMap(rowId => {
+        const entry = rowsById.get(rowId);
+        return entry ? [entry.row] : [];
+      });
+      list.push(
+        buildRowMerge(
+          rows,
+          decision.keepRowId,
+          decision.action === "merge" ? decision.picks : {}
+        )
+      );
+    });
+    return list;
+  }, [decisions, clusters, rowsById]);
+  const removedCount = merges.reduce(
+    (total, merge) => total + merge.removeRowIds.length,
+    0
+  );
+
+  const handleApply = () => {
+    if (merges.length === 0) return;
+    dispatch(mergeDuplicateRows({ merges }));
+    toast({
+      title: "Duplicates merged",
+      description: `Merged ${merges.length} group${
+        merges.length === 1 ? "" : "s"
+      } and removed ${removedCount} row${removedCount === 1 ? "" : "s"}`,
+    });
+    onClose();
+  };
+
+  const renderSetup = () => (
+    <>
+      <div className="space-y-2">
+        <Label>Key columns</Label>
+        <p className="text-xs text-muted-foreground">
+          Rows are compared on these columns only.
+        </p>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {columnOrder.map(columnId => (
+            <div key={columnId} className="flex items-center gap-2">
+              <Checkbox
+                id={`duplicate-key-${columnId}`}
+                checked={options.keyColumns.includes(columnId)}
+                onCheckedChange={checked =>
+                  toggleKeyColumn(columnId, checked === true)
+                }
+              />
+              <Label
+                htmlFor={`duplicate-key-${columnId}`}
+                className="text-sm font-mono"
+              >
+                {columnId}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Match</Label>
+          <Select
+            value={options.mode}
+            onValueChange={value =>
+              updateOption("mode", value as DuplicateMatchMode)
+            }
+          >
+            <SelectTrigger aria-label="Match mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="exact">Exact (ignoring case)</SelectItem>
+              <SelectItem value="fuzzy">Similar values</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {options.mode === "fuzzy" && (
+          <div className="space-y-2">
+            <Label>Similarity</Label>
+            <Select
+              value={options.similarity}
+              onValueChange={value =>
+                updateOption("similarity", value as DuplicateSimilarity)
+              }
+            >
+              <SelectTrigger aria-label="Similarity algorithm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="combined">Combined</SelectItem>
+                <SelectItem value="jaroWinkler">
+                  Jaro-Winkler (names)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {options.mode === "fuzzy" && (
+        <div className="space-y-2">
+          <Label>
+            Minimum similarity: {Math.round(options.threshold * 100)}%
+          </Label>
+          <Slider
+            value={[options.threshold]}
+            onValueChange={([value]) => updateOption("threshold", value)}
+            min={0.7}
+            max={1}
+            step={0.01}
+          />
+        </div>
+      )}
+
+      {result && clusters.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No duplicates found on {options.keyColumns.join(", ")}.
+        </p>
+      )}
+    </>
+  );
+
+  const renderCluster = () => {
+    if (!cluster || !draft) return null;
+    return (
+      <>
+        <ReviewStats
+          decisions={[...decisions.values()]}
+          total={clusters.length}
+        />
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrent(current - 1)}
+              disabled={current === 0}
+              aria-label="Previous group"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">
+              Group {current + 1} of {clusters.length}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrent(current + 1)}
+              disabled={current === clusters.length - 1}
+              aria-label="Next group"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Badge variant="secondary">
+              {Math.round(cluster.similarity * 100)}% similar
+            </Badge>
+            {decisions.has(current) && (
+              <Badge variant="outline">{decisions.get(current)?.action}</Badge>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={keepFirstInRemaining}>
+            Keep first row in remaining groups
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Choose the row to keep. To merge, click the values the kept row should
+          take from the other rows.
+        </p>
+
+        <ScrollArea className="max-h-80 rounded-md border">
+          <RadioGroup value={draft.keepRowId} onValueChange={selectKeptRow}>
+            <Table>
+              <TableHeader>
+                <TableRowComponent>
+                  <TableHead className="w-16">Keep</TableHead>
+                  <TableHead className="w-16">Row</TableHead>
+                  {columnOrder.map(columnId => (
+                    <TableHead
+                      key={columnId}
+                      className={cn(
+                        "font-mono text-xs",
+                        options.keyColumns.includes(columnId) && "font-bold"
+                      )}
+                    >
+                      {columnId}
+                    </TableHead>
+                  ))}
+                </TableRowComponent>
+              </TableHeader>
+              <TableBody>
+                {clusterRows.map(({ row, index }) => {
+                  const rowId = rowIdOf(row);
+                  return (
+                    <TableRowComponent key={rowId}>
+                      <TableCell>
+                        <RadioGroupItem
+                          value={rowId}
+                          aria-label={`Keep row ${index + 1}`}
+                        />
+                      </TableCell>
+                      <TableCell>{index + 1}</TableCell>
+                      {columnOrder.map(columnId => {
+                        const mergeable = mergeColumns.includes(columnId);
+                        const picked =
+                          mergeable &&
+                          (draft.picks[columnId] ?? draft.keepRowId) === rowId;
+                        return (
+                          <TableCell
+                            key={columnId}
+                            className={cn(
+                              "font-mono text-xs",
+                              mergeable && "cursor-pointer hover:bg-muted",
+                              picked && "bg-primary/10 font-semibold"
+                            )}
+                            onClick={
+                              mergeable
+                                ? () => pickValue(columnId, rowId)
+                                : undefined
+                            }
+                          >
+                            {formatClipboardValue(row[columnId])}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRowComponent>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </RadioGroup>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => decide("skip")}>
+            Not duplicates
+          </Button>
+          <Button variant="outline" onClick={() => decide("keep")}>
+            Keep selected row
+          </Button>
+          <Button onClick={() => decide("merge")}>Merge values</Button>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Merge className="h-5 w-5" />
+            Find Duplicates
+          </DialogTitle>
+          <DialogDescription>
+            Review each group of duplicate rows and keep one, merge them or
+            leave them. Applying is a single history entry and can be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result && clusters.length > 0 ? renderCluster() : renderSetup()}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="text-sm text-muted-foreground">
+            {result &&
+              clusters.length > 0 &&
+              `${clusters.length} group${clusters.length === 1 ? "" : "s"} found on ${options.keyColumns.join(", ")}`}
+          </div>
+          <div className="flex gap-2">
+            {result && clusters.length > 0 ? (
+              <>
+                <Button variant="outline" onClick={() => setResult(null)}>
+                  Change search
+                </Button>
+                <Button onClick={handleApply} disabled={merges.length === 0}>
+                  Remove {removedCount} row{removedCount === 1 ? "" : "s"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleFind}
+                  disabled={options.keyColumns.length === 0}
+                >
+                  Find duplicates
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -84,7 +84,7 @@ export function EditableCell({
   const inputRef = useRef<HTMLInputElement | HTMLSelectElement>(null);
 
   const columnId = String(column.id);
-  const rowId = String(row.original.id);
+  const rowId = String(row.original._rowId ?? row.original.id);
 
   // Check if this cell is currently being edited
   const isEditing =
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAppDispatch } from "@/lib/hooks";
+import { replaceCells, type TableRow } from "@/lib/features/tableSlice";
+import {
+  DEFAULT_FIND_REPLACE_OPTIONS,
+  previewFindReplace,
+  type FindMode,
+  type FindReplaceOptions,
+} from "@/lib/utils/find-replace";
+import { formatClipboardValue } from "@/lib/utils/range-clipboard";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow as TableRowComponent,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { Replace } from "lucide-react";
+
+/** Cells listed in the preview; the replacement still covers every match */
+const PREVIEW_LIMIT = 200;
+
+interface FindReplaceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: TableRow[];
+  columnOrder: string[];
+  /** Columns to search when the dialog opens, e.g. those of the selected cells */
+  initialColumns?: string[];
+}
+
+export function FindReplaceDialog({
+  isOpen,
+  onClose,
+  data,
+  columnOrder,
+  initialColumns = [],
+}: FindReplaceDialogProps) {
+  const dispatch = useAppDispatch();
+  const [options, setOptions] = useState<FindReplaceOptions>(
+    DEFAULT_FIND_REPLACE_OPTIONS
+  );
+
+  // Start from the current selection each time the dialog opens
+  const initialColumnKey = initialColumns.join("\n");
+  useEffect(() => {
+    if (isOpen) {
+      setOptions(current => ({
+        ...current,
+        columns: initialColumnKey ? initialColumnKey.split("\n") : [],
+      }));
+    }
+  }, [isOpen, initialColumnKey]);
+
+  const preview = useMemo(
+    () => (isOpen ? previewFindReplace(data, options) : null),
+    [isOpen, data, options]
+  );
+
+  const updateOption = <K extends keyof FindReplaceOptions>(
+    key: K,
+    value: FindReplaceOptions[K]
+  ) => setOptions(current => ({ ...current, [key]: value }));
+
+  const toggleColumn = (columnId: string, checked: boolean) =>
+    updateOption(
+      "columns",
+      checked
+        ? columnOrder.filter(
+            id => id === columnId || options.columns.includes(id)
+          )
+        : options.columns.filter(id => id !== columnId)
+    );
+
+  const handleReplace = () => {
+    if (!preview || preview.updates.length === 0) return;
+
+    dispatch(
+      replaceCells({
+        updates: preview.updates,
+        find: options.find,
+        replace: options.replace,
+      })
+    );
+    toast({
+      title: "Replaced",
+      description: `Replaced ${preview.updates.length} cell${
+        preview.updates.length === 1 ? "" : "s"
+      } in ${preview.rowCount} row${preview.rowCount === 1 ? "" : "s"}`,
+    });
+    onClose();
+  };
+
+  const matchCount = preview?.matches.length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Replace className="h-5 w-5" />
+            Find and Replace
+          </DialogTitle>
+          <DialogDescription>
+            Review every affected cell before replacing. The replacement is a
+            single history entry and can be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="find-text">Find</Label>
+            <Input
+              id="find-text"
+              value={options.find}
+              onChange={event => updateOption("find", event.target.value)}
+              className="font-mono"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="replace-text">Replace with</Label>
+            <Input
+              id="replace-text"
+              value={options.replace}
+              placeholder={options.mode === "regex" ? "e.g. $2, $1" : ""}
+              onChange={event => updateOption("replace", event.target.value)}
+              className="font-mono"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <Select
+            value={options.mode}
+            onValueChange={value => updateOption("mode", value as FindMode)}
+          >
+            <SelectTrigger aria-label="Match mode" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="literal">Plain text</SelectItem>
+              <SelectItem value="regex">Regular expression</SelectItem>
+            </SelectContent>
+          </Select>
+          {(
+            [
+              ["caseSensitive", "Match case"],
+              ["wholeCell", "Whole cell"],
+            ] as const
+          ).map(([key, label]) => (
+            <div key={key} className="flex items-center gap-2">
+              <Switch
+                id={`find-${key}`}
+                checked={options[key]}
+                onCheckedChange={checked => updateOption(key, checked)}
+              />
+              <Label htmlFor={`find-${key}`} className="text-sm">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Columns</Label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="find-all-columns"
+                checked={options.columns.length === 0}
+                onCheckedChange={() => updateOption("columns", [])}
+              />
+              <Label htmlFor="find-all-columns" className="text-sm">
+                All columns
+              </Label>
+            </div>
+            {columnOrder.map(columnId => (
+              <div key={columnId} className="flex items-center gap-2">
+                <Checkbox
+                  id={`find-column-${columnId}`}
+                  checked={options.columns.includes(columnId)}
+                  onCheckedChange={checked =>
+                    toggleColumn(columnId, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`find-column-${columnId}`}
+                  className="text-sm font-mono"
+                >
+                  {columnId}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label>Preview</Label>
+            {preview && !preview.error && (
+              <Badge variant="secondary">
+                {matchCount} cell{matchCount === 1 ? "" : "s"} in{" "}
+                {preview.rowCount} row{preview.rowCount === 1 ? "" : "s"}
+              </Badge>
+            )}
+          </div>
+          {options.find && preview?.error ? (
+            <p className="text-sm text-destructive">{preview.error}</p>
+          ) : matchCount > 0 && preview ? (
+            <ScrollArea className="h-64 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRowComponent>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRowComponent>
+                </TableHeader>
+                <TableBody>
+                  {preview.matches.slice(0, PREVIEW_LIMIT).map(match => (
+                    <TableRowComponent key={`${match.rowId}:${match.columnId}`}>
+                      <TableCell>{match.rowIndex + 1}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {match.columnId}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground line-through">
+                        {formatClipboardValue(match.before)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {formatClipboardValue(match.after)}
+                      </TableCell>
+                    </TableRowComponent>
+                  ))}
+                </TableBody>
+              </Table>
+              {matchCount > PREVIEW_LIMIT && (
+                <p className="p-2 text-xs text-muted-foreground">
+                  and {matchCount - PREVIEW_LIMIT} more cells
+                </p>
+              )}
+            </ScrollArea>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {options.find ? "No cells match." : "Enter text to find."}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleReplace} disabled={matchCount === 0}>
+            Replace {matchCount} cell{matchCount === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,8 +9,11 @@ import { Separator } from "@/components/ui/separator";
 import { Wand2, Database, Table, ArrowRight } from "lucide-react";
 import { setData } from "@/lib/features/tableSlice";
 import { loadShapes } from "@/lib/features/targetShapesSlice";
+import { setLastImportSource } from "@/lib/features/pipelinesSlice";
+import type { PipelineSourceOptions } from "@/lib/types/pipelines";
 import { DataImport } from "./data-import";
 import { PersistenceStatus } from "@/components/persistence-status";
+import { ImportPipelines } from "@/components/import-pipelines";
 import { useEffect } from "react";
 
 export default function PlaygroundPage() {
@@ -24,7 +27,8 @@ export default function PlaygroundPage() {
     dispatch(loadShapes());
   }, [dispatch]);
 
-  const handleImport = (importedData: any[]) => {
+  const handleImport = (importedData: any[], source: PipelineSourceOptions) => {
+    dispatch(setLastImportSource(source));
     dispatch(setData(importedData));
     // Add a small delay to ensure the data is set before redirecting
     setTimeout(() => {
@@ -53,6 +57,11 @@ export default function PlaygroundPage() {
           {/* Main Data Import Section */}
           <DataImport onImport={handleImport} dataCount={data.length} />
 
+          {/* Saved Import Pipelines */}
+          <ImportPipelines
+            onOpenData={() => router.push("/playground/data-table")}
+          />
+
           {/* Additional Tools Section */}
           <div className="mt-8">
             <Separator className="my-6" />
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState } from "react";
+import { useAppDispatch } from "@/lib/hooks";
+import {
+  addColumn,
+  deleteColumn,
+  deleteRows,
+  duplicateColumn,
+  duplicateRows,
+  insertRow,
+  renameColumn,
+} from "@/lib/features/tableSlice";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ArrowDownToLine,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ArrowUpToLine,
+  Copy,
+  Pencil,
+  Sigma,
+  Trash2,
+} from "lucide-react";
+
+/**
+ * Where the context menu was opened: a row (with the cell's column) or a
+ * column header
+ */
+export interface TableContextMenuTarget {
+  x: number;
+  y: number;
+  /** Row ID (`_rowId`, or `id` for rows without one) */
+  rowId?: string;
+  /** Index of the row in the table data */
+  rowIndex?: number;
+  columnId?: string;
+}
+
+type ColumnNameMode = "add-left" | "add-right" | "rename" | "duplicate";
+
+interface TableContextMenuProps {
+  target: TableContextMenuTarget | null;
+  onClose: () => void;
+  columnOrder: string[];
+  /** Selected row IDs; row actions apply to all of them when the row is selected */
+  selectedRowIds: string[];
+  /** Names of computed columns, which offer "Edit formula" */
+  computedColumnIds?: string[];
+  onEditFormula?: (columnId: string) => void;
+}
+
+const isMac = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Format a keyboard shortcut for the current platform
+ */
+export const formatShortcut = (keys: string) =>
+  keys.replace("Mod", isMac() ? "⌘" : "Ctrl");
+
+/**
+ * Keyboard shortcuts for row structure, handled on focused table rows
+ */
+export const ROW_SHORTCUTS = {
+  insertBelow: "Mod+Enter",
+  insertAbove: "Mod+Shift+Enter",
+  duplicate: "Mod+D",
+  delete: "Mod+Backspace",
+} as const;
+
+/**
+ * Keyboard shortcuts for a selected range of cells, handled on the table.
+ * While cells are selected, `Mod+D` fills down instead of duplicating the row.
+ */
+export const RANGE_SHORTCUTS = {
+  fillDown: "Mod+D",
+} as const;
+
+/**
+ * Match a keyboard event against a shortcut such as "Mod+Shift+Enter"
+ */
+export function matchesShortcut(
+  event: Pick<
+    KeyboardEvent,
+    "key" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey"
+  >,
+  shortcut: string
+): boolean {
+  const parts = shortcut.split("+");
+  const key = parts[parts.length - 1];
+  const wantsMod = parts.includes("Mod");
+  const wantsShift = parts.includes("Shift");
+
+  return (
+    event.key.toLowerCase() === key.toLowerCase() &&
+    (event.ctrlKey || event.metaKey) === wantsMod &&
+    event.shiftKey === wantsShift &&
+    !event.altKey
+  );
+}
+
+/**
+ * Suggest a column name that isn't taken yet ("notes", "notes_2", ...)
+ */
+export function getUniqueColumnName(base: string, existing: string[]): string {
+  if (!existing.includes(base)) return base;
+  let suffix = 2;
+  while (existing.includes(`${base}_${suffix}`)) suffix++;
+  return `${base}_${suffix}`;
+}
+
+/**
+ * Reason a column name can't be used, or null when it can
+ */
+export function getColumnNameError(
+  name: string,
+  existing: string[],
+  currentName?: string
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "Enter a column name";
+  if (trimmed.startsWith("_")) return "Column names can't start with _";
+  if (trimmed !== currentName && existing.includes(trimmed)) {
+    return `A column named "${trimmed}" already exists`;
+  }
+  return null;
+}
+
+const COLUMN_NAME_TITLES: Record<ColumnNameMode, string> = {
+  "add-left": "Insert Column Left",
+  "add-right": "Insert Column Right",
+  rename: "Rename Column",
+  duplicate: "Duplicate Column",
+};
+
+/**
+ * Context menu for inserting, duplicating and deleting rows and columns
+ */
+export function TableContextMenu({
+  target,
+  onClose,
+  columnOrder,
+  selectedRowIds,
+  computedColumnIds = [],
+  onEditFormula,
+}: TableContextMenuProps) {
+  const dispatch = useAppDispatch();
+  const [columnDialog, setColumnDialog] = useState<{
+    mode: ColumnNameMode;
+    columnId: string;
+  } | null>(null);
+  const [columnName, setColumnName] = useState("");
+
+  const columnId = target?.columnId;
+  const rowIndex = target?.rowIndex;
+  const rowIds =
+    target?.rowId === undefined
+      ? []
+      : selectedRowIds.includes(target.rowId)
+        ? selectedRowIds
+        : [target.rowId];
+  const rowLabel = rowIds.length > 1 ? `${rowIds.length} rows` : "row";
+
+  const openColumnDialog = (mode: ColumnNameMode, columnId: string) => {
+    setColumnName(
+      mode === "rename"
+        ? columnId
+        : getUniqueColumnName(
+            mode === "duplicate" ? `${columnId}_copy` : "new_column",
+            columnOrder
+          )
+    );
+    setColumnDialog({ mode, columnId });
+  };
+
+  const nameError = columnDialog
+    ? getColumnNameError(
+        columnName,
+        columnOrder,
+        columnDialog.mode === "rename" ? columnDialog.columnId : undefined
+      )
+    : null;
+
+  const handleColumnDialogSubmit = () => {
+    if (!columnDialog || nameError) return;
+    const { mode, columnId } = columnDialog;
+    const name = columnName.trim();
+    const position = columnOrder.indexOf(columnId);
+
+    if (mode === "add-left") {
+      dispatch(addColumn({ name, index: position }));
+    } else if (mode === "add-right") {
+      dispatch(addColumn({ name, index: position + 1 }));
+    } else if (mode === "rename") {
+      if (name !== columnId) dispatch(renameColumn({ columnId, name }));
+    } else {
+      dispatch(duplicateColumn({ columnId, name }));
+    }
+    setColumnDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu
+        open={target !== null}
+        onOpenChange={open => !open && onClose()}
+      >
+        <DropdownMenuTrigger asChild>
+          <span
+            aria-hidden
+            className="fixed h-0 w-0"
+            style={{ left: target?.x ?? 0, top: target?.y ?? 0 }}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {rowIndex !== undefined && (
+            <>
+              <DropdownMenuLabel>Row</DropdownMenuLabel>
+              <DropdownMenuItem
+                onClick={() => dispatch(insertRow({ index: rowIndex }))}
+              >
+                <ArrowUpToLine className="mr-2 h-4 w-4" />
+                Insert row above
+                <DropdownMenuShortcut>
+                  {formatShortcut(ROW_SHORTCUTS.insertAbove)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => dispatch(insertRow({ index: rowIndex + 1 }))}
+              >
+                <ArrowDownToLine className="mr-2 h-4 w-4" />
+                Insert row below
+                <DropdownMenuShortcut>
+                  {formatShortcut(ROW_SHORTCUTS.insertBelow)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => dispatch(duplicateRows({ rowIds }))}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate {rowLabel}
+                <DropdownMenuShortcut>
+                  {formatShortcut(ROW_SHORTCUTS.duplicate)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => dispatch(deleteRows({ rowIds }))}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete {rowLabel}
+                <DropdownMenuShortcut>
+                  {formatShortcut(ROW_SHORTCUTS.delete)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </>
+          )}
+          {rowIndex !== undefined && columnId && <DropdownMenuSeparator />}
+          {columnId && (
+            <>
+              <DropdownMenuLabel className="truncate">
+                Column: {columnId}
+              </DropdownMenuLabel>
+              {onEditFormula && computedColumnIds.includes(columnId) && (
+                <DropdownMenuItem onClick={() => onEditFormula(columnId)}>
+                  <Sigma className="mr-2 h-4 w-4" />
+                  Edit formula…
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={() => openColumnDialog("add-left", columnId)}
+              >
+                <ArrowLeftToLine className="mr-2 h-4 w-4" />
+                Insert column left
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => openColumnDialog("add-right", columnId)}
+              >
+                <ArrowRightToLine className="mr-2 h-4 w-4" />
+                Insert column right
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => openColumnDialog("rename", columnId)}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename column
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => openColumnDialog("duplicate", columnId)}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate column
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => dispatch(deleteColumn({ columnId }))}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete column
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={columnDialog !== null}
+        onOpenChange={open => !open && setColumnDialog(null)}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {columnDialog ? COLUMN_NAME_TITLES[columnDialog.mode] : ""}
+            </DialogTitle>
+            <DialogDescription>
+              {columnDialog?.mode === "duplicate"
+                ? `The new column is a copy of "${columnDialog.columnId}".`
+                : "Column names are used as keys in exported data."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={event => {
+              event.preventDefault();
+              handleColumnDialogSubmit();
+            }}
+            className="space-y-2"
+          >
+            <Label htmlFor="table-column-name">Column name</Label>
+            <Input
+              id="table-column-name"
+              value={columnName}
+              onChange={event => setColumnName(event.target.value)}
+              autoFocus
+            />
+            {nameError && (
+              <p className="text-sm text-destructive">{nameError}</p>
+            )}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setColumnDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleColumnDialogSubmit} disabled={!!nameError}>
+              {columnDialog?.mode === "rename" ? "Rename" : "Add column"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -40,6 +40,7 @@ import type {
   LookupField,
   EnumField,
   LookupMatch,
+  LookupKeyPart,
   SmartMatching,
   DerivedField,
 } from "@/lib/types/target-shapes";
@@ -351,6 +352,9 @@ const FieldsStep: React.FC<WorkflowStepProps> = ({
             key={field.id}
             field={field}
             onUpdate={updates => updateField(field.id, updates)}
+            inputColumns={data.fields
+              .filter(other => other.id !== field.id && other.name)
+              .map(other => other.name)}
             onRemove={() => removeField(field.id)}
             isEditing={editingField?.id === field.id}
             onEdit={() => setEditingField(field)}
@@ -568,7 +572,12 @@ const ReviewStep: React.FC<WorkflowStepProps> = ({
                               Match:
                             </span>
                             <span className="font-mono">
-                              {lookupField.match.on} → {lookupField.match.get}
+                              {lookupField.match.keys?.length
+                                ? lookupField.match.keys
+                                    .map(part => `${part.input}:${part.on}`)
+                                    .join(" + ")
+                                : lookupField.match.on}{" "}
+                              → {lookupField.match.get}
                             </span>
                           </div>
                         )}
@@ -628,11 +637,14 @@ const ReviewStep: React.FC<WorkflowStepProps> = ({
 interface LookupConfigurationProps {
   field: LookupField;
   onUpdate: (updates: Partial<LookupField>) => void;
+  /** Names of the other fields in the shape, offered as composite key inputs */
+  inputColumns: string[];
 }
 
 const LookupConfiguration: React.FC<LookupConfigurationProps> = ({
   field,
   onUpdate,
+  inputColumns,
 }) => {
   const dispatch = useAppDispatch();
   const referenceFiles = useAppSelector(selectReferenceFilesList);
@@ -661,6 +673,42 @@ const LookupConfiguration: React.FC<LookupConfigurationProps> = ({
     });
   };
 
+  const keyParts = field.match?.keys || [];
+  const isComposite = keyParts.length > 0;
+
+  // The single match column mirrors the first key part
+  const handleKeyPartsUpdate = (keys: LookupKeyPart[]) => {
+    handleMatchConfigUpdate(
+      keys.length > 0 ? { keys, on: keys[0].on } : { keys: undefined }
+    );
+  };
+
+  const handleCompositeToggle = (enabled: boolean) => {
+    handleKeyPartsUpdate(
+      enabled ? [{ input: field.name, on: field.match?.on || "" }] : []
+    );
+  };
+
+  const handleAddKeyPart = () => {
+    handleKeyPartsUpdate([
+      ...keyParts,
+      { input: inputColumns[0] || "", on: selectedReference?.columns[0] || "" },
+    ]);
+  };
+
+  const handleUpdateKeyPart = (
+    index: number,
+    updates: Partial<LookupKeyPart>
+  ) => {
+    handleKeyPartsUpdate(
+      keyParts.map((part, i) => (i === index ? { ...part, ...updates } : part))
+    );
+  };
+
+  const handleRemoveKeyPart = (index: number) => {
+    handleKeyPartsUpdate(keyParts.filter((_, i) => i !== index));
+  };
+
   const handleSmartMatchingUpdate = (updates: Partial<SmartMatching>) => {
     onUpdate({
       smartMatching: { ...field.smartMatching, ...updates },
@@ -820,7 +868,7 @@ const LookupConfiguration: React.FC<LookupConfigurationProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.json"
+          accept=".csv,.json,.xlsx,.xls,.ods"
           onChange={handleFileUpload}
           className="hidden"
         />
@@ -859,31 +907,157 @@ const LookupConfiguration: React.FC<LookupConfigurationProps> = ({
 
       {selectedReference && (
         <>
+          {/* Composite Key */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="composite-key"
+                checked={isComposite}
+                onCheckedChange={handleCompositeToggle}
+              />
+              <Label htmlFor="composite-key">Match on multiple columns</Label>
+            </div>
+
+            {isComposite && (
+              <div className="space-y-2">
+                {keyParts.map((part, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="flex-1">
+                          {part.input || "Input column"}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        {[field.name, ...inputColumns]
+                          .filter(Boolean)
+                          .map(column => (
+                            <DropdownMenuItem
+                              key={column}
+                              onClick={() =>
+                                handleUpdateKeyPart(index, { input: column })
+                              }
+                            >
+                              {column}
+                            </DropdownMenuItem>
+                          ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="flex-1">
+                          {part.on || "Reference column"}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        {selectedReference.columns.map(column => (
+                          <DropdownMenuItem
+                            key={column}
+                            onClick={() =>
+                              handleUpdateKeyPart(index, { on: column })
+                            }
+                          >
+                            {column}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      aria-label="Fuzzy weight"
+                      title="Fuzzy weight"
+                      value={part.weight ?? 1}
+                      onChange={e =>
+                        handleUpdateKeyPart(index, {
+                          weight: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      className="w-20"
+                    />
+                    <div className="flex items-center space-x-1">
+                      <Switch
+                        id={`key-part-exact-${index}`}
+                        checked={part.exact || false}
+                        onCheckedChange={exact =>
+                          handleUpdateKeyPart(index, { exact })
+                        }
+                      />
+                      <Label
+                        htmlFor={`key-part-exact-${index}`}
+                        className="text-xs"
+                      >
+                        Exact
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Switch
+                        id={`key-part-punctuation-${index}`}
+                        checked={
+                          part.normalization?.removePunctuation || false
+                        }
+                        onCheckedChange={removePunctuation =>
+                          handleUpdateKeyPart(index, {
+                            normalization: {
+                              ...part.normalization,
+                              removePunctuation,
+                            },
+                          })
+                        }
+                      />
+                      <Label
+                        htmlFor={`key-part-punctuation-${index}`}
+                        className="text-xs"
+                      >
+                        Ignore punctuation
+                      </Label>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveKeyPart(index)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={handleAddKeyPart}>
+                  <Plus className="mr-2 h-3 w-3" />
+                  Add Key Column
+                </Button>
+              </div>
+            )}
+          </div>
+
           {/* Match Configuration */}
           <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="match-on">Match On Column</Label>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className="mt-1 w-full justify-start"
-                  >
-                    {field.match?.on || "Select column"}
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent>
-                  {selectedReference.columns.map(column => (
-                    <DropdownMenuItem
-                      key={column}
-                      onClick={() => handleMatchConfigUpdate({ on: column })}
+            {!isComposite && (
+              <div>
+                <Label htmlFor="match-on">Match On Column</Label>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="mt-1 w-full justify-start"
                     >
-                      {column}
-                    </DropdownMenuItem>
-                  ))}
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </div>
+                      {field.match?.on || "Select column"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    {selectedReference.columns.map(column => (
+                      <DropdownMenuItem
+                        key={column}
+                        onClick={() => handleMatchConfigUpdate({ on: column })}
+                      >
+                        {column}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )}
 
             <div>
               <Label htmlFor="match-get">Return Column</Label>
@@ -1134,6 +1308,7 @@ const EnumConfiguration: React.FC<EnumConfigurationProps> = ({
 interface FieldEditorProps {
   field: TargetField;
   onUpdate: (updates: Partial<TargetField>) => void;
+  inputColumns: string[];
   onRemove: () => void;
   isEditing: boolean;
   onEdit: () => void;
@@ -1143,6 +1318,7 @@ interface FieldEditorProps {
 const FieldEditor: React.FC<FieldEditorProps> = ({
   field,
   onUpdate,
+  inputColumns,
   onRemove,
   isEditing,
   onEdit,
@@ -1245,6 +1421,7 @@ const FieldEditor: React.FC<FieldEditorProps> = ({
             <LookupConfiguration
               field={field as LookupField}
               onUpdate={onUpdate}
+              inputColumns={inputColumns}
             />
           )}
 
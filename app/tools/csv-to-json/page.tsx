@@ -17,6 +17,16 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { NavBar } from "@/components/nav-bar";
 import { Switch } from "@/components/ui/switch";
 import { ToolExplanation } from "@/components/tool-explanation";
+import { parseCsv } from "@/lib/utils/csv-parser";
+
+// Delimiter options; "auto" sniffs the delimiter from the input
+const DELIMITER_CHARS: Record<string, string | undefined> = {
+  auto: undefined,
+  comma: ",",
+  tab: "\t",
+  semicolon: ";",
+  pipe: "|",
+};
 
 export default function CsvToJsonPage() {
   return (
@@ -85,12 +95,12 @@ function CsvToJsonExplanation() {
           types.
         </li>
         <li>
-          <strong>Multiple Delimiter Support:</strong> Handles comma, tab, and
-          semicolon delimiters to accommodate various CSV formats.
+          <strong>Multiple Delimiter Support:</strong> Handles comma, tab,
+          semicolon and pipe delimiters, or detects the delimiter automatically.
         </li>
         <li>
           <strong>Quoted Field Handling:</strong> Properly processes quoted
-          fields that may contain delimiters or special characters.
+          fields that may contain delimiters, line breaks or escaped quotes.
         </li>
         <li>
           <strong>Pretty Printing:</strong> Formats the JSON output with proper
@@ -136,8 +146,8 @@ function CsvToJsonExplanation() {
         </li>
         <li>
           <strong>Choose the Right Delimiter:</strong> Make sure to select the
-          delimiter that matches your CSV data format (comma, tab, or
-          semicolon).
+          delimiter that matches your CSV data format (comma, tab, semicolon or
+          pipe), or leave it on auto-detect.
         </li>
         <li>
           <strong>Check for Special Characters:</strong> If your CSV contains
@@ -184,7 +194,7 @@ function CsvToJsonTool() {
   const [csvInput, setCsvInput] = useState("");
   const [jsonOutput, setJsonOutput] = useState("");
   const [copied, setCopied] = useState(false);
-  const [delimiter, setDelimiter] = useState("comma");
+  const [delimiter, setDelimiter] = useState("auto");
   const [prettyPrint, setPrettyPrint] = useState(true);
   const [firstRowAsHeaders, setFirstRowAsHeaders] = useState(true);
 
@@ -200,10 +210,13 @@ function CsvToJsonTool() {
     }
 
     try {
-      // Split into lines and filter out empty lines
-      const lines = csvInput.split("\n").filter(line => line.trim());
+      // Parse records, keeping quoted line breaks inside their fields
+      const { rows } = parseCsv(csvInput, {
+        delimiter: DELIMITER_CHARS[delimiter],
+        trim: false,
+      });
 
-      if (lines.length === 0) {
+      if (rows.length === 0) {
         toast({
           title: "No data found",
           description: "Please enter valid CSV data",
@@ -212,13 +225,6 @@ function CsvToJsonTool() {
         return;
       }
 
-      // Determine the delimiter to use
-      const delimiterChar =
-        delimiter === "comma" ? "," : delimiter === "tab" ? "\t" : ";";
-
-      // Parse each line
-      const rows = lines.map(line => parseCsvLine(line, delimiterChar));
-
       // Process data
       let headers;
       let dataRows;
@@ -289,41 +295,6 @@ function CsvToJsonTool() {
     }
   };
 
-  // Parse a CSV line, handling quoted fields
-  const parseCsvLine = (line, delimiter) => {
-    const result = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        // Handle quotes - toggle inQuotes state
-        if (inQuotes && i < line.length - 1 && line[i + 1] === '"') {
-          // Double quotes inside quoted field - add a single quote
-          current += '"';
-          i++; // Skip the next quote
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        // End of field
-        result.push(current);
-        current = "";
-      } else {
-        // Add character to current field
-        current += char;
-      }
-    }
-
-    // Add the last field
-    result.push(current);
-
-    return result;
-  };
-
   const copyToClipboard = async () => {
     try {
       await navigator.clipboard.writeText(jsonOutput);
@@ -380,11 +351,15 @@ function CsvToJsonTool() {
               <div className="space-y-2">
                 <Label>Delimiter</Label>
                 <RadioGroup
-                  defaultValue="comma"
+                  defaultValue="auto"
                   value={delimiter}
                   onValueChange={setDelimiter}
-                  className="flex space-x-4"
+                  className="flex flex-wrap gap-4"
                 >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="auto" id="auto-delimiter" />
+                    <Label htmlFor="auto-delimiter">Auto</Label>
+                  </div>
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="comma" id="comma-delimiter" />
                     <Label htmlFor="comma-delimiter">Comma</Label>
@@ -400,6 +375,10 @@ function CsvToJsonTool() {
                     />
                     <Label htmlFor="semicolon-delimiter">Semicolon</Label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="pipe" id="pipe-delimiter" />
+                    <Label htmlFor="pipe-delimiter">Pipe</Label>
+                  </div>
                 </RadioGroup>
               </div>
 
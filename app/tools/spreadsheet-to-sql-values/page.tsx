@@ -16,6 +16,14 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { NavBar } from "@/components/nav-bar";
 import { ToolExplanation } from "@/components/tool-explanation";
+import { parseCsv } from "@/lib/utils/csv-parser";
+
+const DELIMITER_CHARS: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+};
 
 export default function SqlConverterPage() {
   return (
@@ -75,7 +83,10 @@ function SqlConverterExplanation() {
           format
         </li>
         <li>Choose your desired output format (VALUES or UPDATE Loop)</li>
-        <li>Select the appropriate delimiter for your data (tab or comma)</li>
+        <li>
+          Select the appropriate delimiter for your data (tab, comma, semicolon
+          or pipe)
+        </li>
         <li>For UPDATE loops, enter your table name and WHERE column</li>
         <li>Paste your spreadsheet data into the input field</li>
         <li>Click "Convert to SQL" to generate the SQL statements</li>
@@ -218,10 +229,13 @@ function SqlConverterTool() {
     }
 
     try {
-      // Split into lines and filter out empty lines
-      const lines = csvInput.split("\n").filter(line => line.trim());
+      // Parse records; quoted cells copied from spreadsheets may span lines
+      const { rows } = parseCsv(csvInput, {
+        delimiter: DELIMITER_CHARS[delimiter] ?? "\t",
+        trim: false,
+      });
 
-      if (lines.length === 0) {
+      if (rows.length === 0) {
         toast({
           title: "No data found",
           description: "Please enter valid data",
@@ -230,13 +244,6 @@ function SqlConverterTool() {
         return;
       }
 
-      // Determine the delimiter to use
-      const delimiterChar =
-        delimiter === "tab" ? "\t" : delimiter === "comma" ? "," : "\t";
-
-      // Parse each line
-      const rows = lines.map(line => parseLine(line, delimiterChar));
-
       if (outputFormat === "update") {
         // Extract headers from first row
         const csvHeaders = rows[0];
@@ -415,46 +422,6 @@ a1b2c3d4-e5f6-7890-abcd-ef1234567890	Sarah	Johnson	sarah.johnson@example.com`);
     setWhereColumn("external_id");
   };
 
-  const parseLine = (line: string, delimiter: string): string[] => {
-    // For tab-delimited data, just split by tabs
-    if (delimiter === "\t") {
-      return line.split("\t");
-    }
-
-    // For comma-delimited data, handle quoted fields
-    const result = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        // Handle quotes - toggle inQuotes state
-        if (inQuotes && i < line.length - 1 && line[i + 1] === '"') {
-          // Double quotes inside quoted field - add a single quote
-          current += '"';
-          i++; // Skip the next quote
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        // End of field
-        result.push(current);
-        current = "";
-      } else {
-        // Add character to current field
-        current += char;
-      }
-    }
-
-    // Add the last field
-    result.push(current);
-
-    return result;
-  };
-
   const copyToClipboard = async () => {
     try {
       await navigator.clipboard.writeText(sqlOutput);
@@ -531,7 +498,7 @@ a1b2c3d4-e5f6-7890-abcd-ef1234567890	Sarah	Johnson	sarah.johnson@example.com`);
                   defaultValue="tab"
                   value={delimiter}
                   onValueChange={setDelimiter}
-                  className="flex space-x-4"
+                  className="flex flex-wrap gap-4"
                 >
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="tab" id="tab" />
@@ -541,6 +508,14 @@ a1b2c3d4-e5f6-7890-abcd-ef1234567890	Sarah	Johnson	sarah.johnson@example.com`);
                     <RadioGroupItem value="comma" id="comma" />
                     <Label htmlFor="comma">Comma</Label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="semicolon" id="semicolon" />
+                    <Label htmlFor="semicolon">Semicolon</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="pipe" id="pipe" />
+                    <Label htmlFor="pipe">Pipe</Label>
+                  </div>
                 </RadioGroup>
               </div>
             </div>
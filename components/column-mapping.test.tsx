@@ -170,6 +170,64 @@ describe("ColumnMapping Component", () => {
     expect(applyButton).toHaveTextContent("missing required fields");
   });
 
+  it("counts fields filled by a combine rule as mapped", () => {
+    const nameShape: TargetShape = {
+      ...mockTargetShape,
+      fields: [
+        {
+          id: "full-name",
+          name: "Full Name",
+          type: "string",
+          required: true,
+        },
+      ] as TargetField[],
+    };
+
+    render(
+      <ColumnMapping
+        importColumns={mockImportColumns}
+        targetShape={nameShape}
+        onMappingChange={mockOnMappingChange}
+        mappingRules={[
+          {
+            kind: "combine",
+            targetFieldId: "full-name",
+            sourceColumns: ["firstName", "lastName"],
+          },
+        ]}
+        onMappingRulesChange={vi.fn()}
+        onApplyMapping={mockOnApplyMapping}
+      />
+    );
+
+    expect(screen.getByText("1/1 required fields mapped")).toBeInTheDocument();
+    expect(
+      screen.getByText("firstName + lastName → Full Name")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: /apply mapping/i })
+    ).not.toBeDisabled();
+  });
+
+  it("blocks applying while a block reason is set", () => {
+    render(
+      <ColumnMapping
+        importColumns={mockImportColumns}
+        targetShape={{
+          ...mockTargetShape,
+          fields: mockTargetShape.fields.filter(f => !f.required),
+        }}
+        onMappingChange={mockOnMappingChange}
+        onApplyMapping={mockOnApplyMapping}
+        applyBlockedReason="review column changes"
+      />
+    );
+
+    const applyButton = screen.getByRole("button", { name: /apply mapping/i });
+    expect(applyButton).toBeDisabled();
+    expect(applyButton).toHaveTextContent("(review column changes)");
+  });
+
   it("shows unmapped columns warning", async () => {
     const smallTargetShape: TargetShape = {
       ...mockTargetShape,
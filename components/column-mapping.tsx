@@ -17,18 +17,39 @@ import {
   AlertCircle,
   CheckCircle,
   Sparkles,
+  Brain,
 } from "lucide-react";
 import type { TargetShape, TargetField } from "@/lib/types/target-shapes";
 import {
   generateMappingSuggestions,
   getDetailedMappingSuggestions,
+  type MappingSuggestionOptions,
 } from "@/lib/utils/mapping-suggestion-engine";
+import type { LearnedMapping } from "@/lib/types/mapping-memory";
+import type { ColumnMappingRule } from "@/lib/types/column-mapping";
+import {
+  describeMappingRule,
+  getMappedFieldIds,
+  getRuleSourceColumns,
+} from "@/lib/utils/column-mapping-rules";
+import { MappingRulesEditor } from "@/components/mapping-rules-editor";
 
 interface ColumnMappingProps {
   importColumns: string[];
   targetShape: TargetShape;
+  /** Imported rows, profiled so suggestions can use column values */
+  sampleRows?: Record<string, unknown>[];
+  /** Mappings previously applied to this target shape */
+  learnedMappings?: LearnedMapping[];
+  /** Opens the learned mappings manager */
+  onManageLearnedMappings?: () => void;
   onMappingChange: (mapping: Record<string, string>) => void;
+  /** Combine and split rules; the rules editor shows when `onMappingRulesChange` is set */
+  mappingRules?: ColumnMappingRule[];
+  onMappingRulesChange?: (rules: ColumnMappingRule[]) => void;
   onApplyMapping: () => void;
+  /** Blocks applying, e.g. until column changes are acknowledged */
+  applyBlockedReason?: string;
   className?: string;
   isApplying?: boolean;
 }
@@ -36,17 +57,24 @@ interface ColumnMappingProps {
 // Legacy helper function kept for backward compatibility
 function suggestColumnMapping(
   importColumns: string[],
-  targetFields: TargetField[]
+  targetFields: TargetField[],
+  options?: MappingSuggestionOptions
 ): Record<string, string> {
   // Use the new sophisticated suggestion engine
-  return generateMappingSuggestions(importColumns, targetFields);
+  return generateMappingSuggestions(importColumns, targetFields, options);
 }
 
 export function ColumnMapping({
   importColumns,
   targetShape,
+  sampleRows,
+  learnedMappings,
+  onManageLearnedMappings,
   onMappingChange,
+  mappingRules = [],
+  onMappingRulesChange,
   onApplyMapping,
+  applyBlockedReason,
   className = "",
   isApplying = false,
 }: ColumnMappingProps) {
@@ -56,21 +84,38 @@ export function ColumnMapping({
     ReturnType<typeof getDetailedMappingSuggestions>
   >([]);
   const onMappingChangeRef = useRef(onMappingChange);
+  // Read through refs so cell edits and alias edits don't reset the mapping
+  const sampleRowsRef = useRef(sampleRows);
+  const learnedMappingsRef = useRef(learnedMappings);
 
-  // Keep ref updated
+  // Keep refs updated
   useEffect(() => {
     onMappingChangeRef.current = onMappingChange;
   }, [onMappingChange]);
 
+  useEffect(() => {
+    sampleRowsRef.current = sampleRows;
+  }, [sampleRows]);
+
+  useEffect(() => {
+    learnedMappingsRef.current = learnedMappings;
+  }, [learnedMappings]);
+
   // Initialize with suggested mappings
   useEffect(() => {
+    const options = {
+      sampleRows: sampleRowsRef.current,
+      learnedMappings: learnedMappingsRef.current,
+    };
     const suggestedMapping = suggestColumnMapping(
       importColumns,
-      targetShape.fields
+      targetShape.fields,
+      options
     );
     const detailedSuggestions = getDetailedMappingSuggestions(
       importColumns,
-      targetShape.fields
+      targetShape.fields,
+      options
     );
 
     setMapping(suggestedMapping);
@@ -85,13 +130,19 @@ export function ColumnMapping({
 
   // Function to regenerate suggestions
   const regenerateSuggestions = () => {
+    const options = {
+      sampleRows: sampleRowsRef.current,
+      learnedMappings: learnedMappingsRef.current,
+    };
     const suggestedMapping = generateMappingSuggestions(
       importColumns,
-      targetShape.fields
+      targetShape.fields,
+      options
     );
     const detailedSuggestions = getDetailedMappingSuggestions(
       importColumns,
-      targetShape.fields
+      targetShape.fields,
+      options
     );
 
     setMapping(suggestedMapping);
@@ -122,6 +173,28 @@ export function ColumnMapping({
     onMappingChangeRef.current(newMapping);
   };
 
+  // Fields filled by a rule drop their 1:1 mapping so the rule wins
+  const handleRulesChange = (rules: ColumnMappingRule[]) => {
+    const ruleFieldIds = getMappedFieldIds({}, rules);
+    const newMapping = Object.fromEntries(
+      Object.entries(mapping).filter(([fieldId]) => !ruleFieldIds.has(fieldId))
+    );
+
+    if (Object.keys(newMapping).length !== Object.keys(mapping).length) {
+      setMapping(newMapping);
+      setUsedColumns(new Set(Object.values(newMapping)));
+      onMappingChangeRef.current(newMapping);
+    }
+    onMappingRulesChange?.(rules);
+  };
+
+  const getRuleForField = (fieldId: string) =>
+    mappingRules.find(rule =>
+      rule.kind === "combine"
+        ? rule.targetFieldId === fieldId
+        : rule.targets.some(target => target.targetFieldId === fieldId)
+    );
+
   const getAvailableColumns = (currentFieldId: string): string[] => {
     const currentlyMapped = mapping[currentFieldId];
     return importColumns.filter(
@@ -137,6 +210,11 @@ export function ColumnMapping({
   // Get match type display info
   const getMatchTypeInfo = (matchType: string) => {
     switch (matchType) {
+      case "learned":
+        return {
+          label: "Learned",
+          color: "text-indigo-600 dark:text-indigo-400",
+        };
       case "exact":
         return { label: "Exact", color: "text-green-600 dark:text-green-400" };
       case "snake_case":
@@ -154,14 +232,24 @@ export function ColumnMapping({
           label: "Fuzzy",
           color: "text-orange-600 dark:text-orange-400",
         };
+      case "content":
+        return {
+          label: "Values",
+          color: "text-teal-600 dark:text-teal-400",
+        };
       default:
         return { label: "Unknown", color: "text-gray-600 dark:text-gray-400" };
     }
   };
 
+  const mappedFieldIds = getMappedFieldIds(mapping, mappingRules);
   const requiredFields = targetShape.fields.filter(f => f.required);
-  const mappedRequiredFields = requiredFields.filter(f => mapping[f.id]);
-  const unmappedRequiredFields = requiredFields.filter(f => !mapping[f.id]);
+  const mappedRequiredFields = requiredFields.filter(f =>
+    mappedFieldIds.has(f.id)
+  );
+  const unmappedRequiredFields = requiredFields.filter(
+    f => !mappedFieldIds.has(f.id)
+  );
 
   const canApplyMapping = unmappedRequiredFields.length === 0;
 
@@ -173,15 +261,28 @@ export function ColumnMapping({
             <Target className="w-5 h-5" />
             Column Mapping: {targetShape.name}
           </CardTitle>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={regenerateSuggestions}
-            className="flex items-center gap-2"
-          >
-            <Sparkles className="w-4 h-4" />
-            Auto-Suggest
-          </Button>
+          <div className="flex items-center gap-2">
+            {onManageLearnedMappings && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onManageLearnedMappings}
+                className="flex items-center gap-2"
+              >
+                <Brain className="w-4 h-4" />
+                Learned ({learnedMappings?.length ?? 0})
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={regenerateSuggestions}
+              className="flex items-center gap-2"
+            >
+              <Sparkles className="w-4 h-4" />
+              Auto-Suggest
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -234,6 +335,19 @@ export function ColumnMapping({
 
                         // Only show confidence badges for non-perfect matches (less than 100%)
                         // This reduces visual clutter for obvious exact matches
+                        if (suggestionInfo.matchType === "learned") {
+                          return (
+                            <Badge
+                              variant="outline"
+                              className={`text-xs ${getMatchTypeInfo("learned").color}`}
+                              title={suggestionInfo.evidence?.reasons.join(
+                                "\n"
+                              )}
+                            >
+                              Learned
+                            </Badge>
+                          );
+                        }
                         if (confidencePercent < 100) {
                           const matchInfo = getMatchTypeInfo(
                             suggestionInfo.matchType
@@ -242,6 +356,9 @@ export function ColumnMapping({
                             <Badge
                               variant="outline"
                               className={`text-xs ${matchInfo.color}`}
+                              title={suggestionInfo.evidence?.reasons.join(
+                                "\n"
+                              )}
                             >
                               {matchInfo.label} ({confidencePercent}%)
                             </Badge>
@@ -261,33 +378,45 @@ export function ColumnMapping({
 
                 {/* Column Selection */}
                 <div className="w-48">
-                  <Select
-                    value={mapping[field.id] || "none"}
-                    onValueChange={value =>
-                      handleMappingChange(field.id, value)
-                    }
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select column..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">
-                        <span className="text-muted-foreground">
-                          No mapping
-                        </span>
-                      </SelectItem>
-                      {getAvailableColumns(field.id).map(column => (
-                        <SelectItem key={column} value={column}>
-                          {column}
+                  {getRuleForField(field.id) ? (
+                    <div
+                      className="text-sm text-muted-foreground truncate"
+                      title={describeMappingRule(
+                        getRuleForField(field.id)!,
+                        targetShape.fields
+                      )}
+                    >
+                      From rule
+                    </div>
+                  ) : (
+                    <Select
+                      value={mapping[field.id] || "none"}
+                      onValueChange={value =>
+                        handleMappingChange(field.id, value)
+                      }
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select column..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">
+                          <span className="text-muted-foreground">
+                            No mapping
+                          </span>
                         </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                        {getAvailableColumns(field.id).map(column => (
+                          <SelectItem key={column} value={column}>
+                            {column}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
 
                 {/* Mapping Status Indicator */}
                 <div className="w-6 flex justify-center">
-                  {mapping[field.id] ? (
+                  {mappedFieldIds.has(field.id) ? (
                     <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
                   ) : field.required ? (
                     <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400" />
@@ -300,10 +429,20 @@ export function ColumnMapping({
           </div>
         </div>
 
+        {onMappingRulesChange && (
+          <MappingRulesEditor
+            importColumns={importColumns}
+            fields={targetShape.fields}
+            rules={mappingRules}
+            onRulesChange={handleRulesChange}
+          />
+        )}
+
         {/* Unmapped Columns Warning */}
         {(() => {
+          const ruleColumns = new Set(getRuleSourceColumns(mappingRules));
           const unmappedColumns = importColumns.filter(
-            col => !usedColumns.has(col)
+            col => !usedColumns.has(col) && !ruleColumns.has(col)
           );
           return (
             unmappedColumns.length > 0 && (
@@ -329,7 +468,7 @@ export function ColumnMapping({
         <div className="flex justify-end pt-4 border-t border-border dark:border-border">
           <Button
             onClick={onApplyMapping}
-            disabled={!canApplyMapping || isApplying}
+            disabled={!canApplyMapping || !!applyBlockedReason || isApplying}
             className="flex items-center gap-2"
           >
             {isApplying ? (
@@ -338,7 +477,10 @@ export function ColumnMapping({
               <ArrowRight className="w-4 h-4" />
             )}
             Apply Mapping{" "}
-            {!canApplyMapping && !isApplying && "(missing required fields)"}
+            {!isApplying &&
+              (!canApplyMapping
+                ? "(missing required fields)"
+                : applyBlockedReason && `(${applyBlockedReason})`)}
           </Button>
         </div>
       </CardContent>
@@ -14,6 +14,11 @@ import {
   X,
   Undo2,
   Redo2,
+  Rows3,
+  Columns3,
+  Replace,
+  Sigma,
+  Merge,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -21,10 +26,11 @@ import {
   selectCurrentIndex,
   setCurrentIndex,
 } from "@/lib/features/historySlice";
-import {
-  restoreStateToAction,
-  getActionSummary,
-} from "@/lib/utils/time-travel";
+import { restoreStateToIndex, getActionSummary } from "@/lib/utils/time-travel";
+
+// Row and column insert/duplicate/rename/delete actions
+const ROW_STRUCTURE_ACTION = /\/(insertRow|duplicateRows|deleteRows)$/;
+const COLUMN_STRUCTURE_ACTION = /\/(add|rename|duplicate|delete)Column$/;
 
 interface CompactHistoryProps {
   className?: string;
@@ -60,9 +66,8 @@ export function CompactHistory({ className }: CompactHistoryProps) {
   const handleUndo = useCallback(() => {
     if (canUndo) {
       const targetIndex = currentIndex - 1;
-      const targetAction = history[targetIndex];
-      if (targetAction) {
-        restoreStateToAction(dispatch, targetAction);
+      if (history[targetIndex]) {
+        restoreStateToIndex(dispatch, history, targetIndex);
         dispatch(setCurrentIndex(targetIndex));
       }
     }
@@ -71,9 +76,8 @@ export function CompactHistory({ className }: CompactHistoryProps) {
   const handleRedo = useCallback(() => {
     if (canRedo) {
       const targetIndex = currentIndex + 1;
-      const targetAction = history[targetIndex];
-      if (targetAction) {
-        restoreStateToAction(dispatch, targetAction);
+      if (history[targetIndex]) {
+        restoreStateToIndex(dispatch, history, targetIndex);
         dispatch(setCurrentIndex(targetIndex));
       }
     }
@@ -123,7 +127,7 @@ export function CompactHistory({ className }: CompactHistoryProps) {
     const targetAction = history[actionIndex];
     if (targetAction) {
       // Restore the state to this action
-      restoreStateToAction(dispatch, targetAction);
+      restoreStateToIndex(dispatch, history, actionIndex);
 
       // Create a new action that references the restored action
       const newAction = {
@@ -151,6 +155,16 @@ export function CompactHistory({ className }: CompactHistoryProps) {
       return <FileText className="w-4 h-4" />;
     if (actionType.includes("updateCell"))
       return <FileText className="w-4 h-4" />;
+    if (actionType.includes("replaceCells"))
+      return <Replace className="w-4 h-4" />;
+    if (actionType.includes("mergeDuplicateRows"))
+      return <Merge className="w-4 h-4" />;
+    if (ROW_STRUCTURE_ACTION.test(actionType))
+      return <Rows3 className="w-4 h-4" />;
+    if (COLUMN_STRUCTURE_ACTION.test(actionType))
+      return <Columns3 className="w-4 h-4" />;
+    if (actionType.includes("ComputedField"))
+      return <Sigma className="w-4 h-4" />;
     if (actionType.includes("Sort") || actionType.includes("toggleColumnSort"))
       return <Settings className="w-4 h-4" />;
     if (actionType.includes("Filter")) return <User className="w-4 h-4" />;
@@ -168,8 +182,18 @@ export function CompactHistory({ className }: CompactHistoryProps) {
       return "bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300";
     if (actionType.includes("setData") || actionType.includes("importJsonData"))
       return "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300";
-    if (actionType.includes("updateCell"))
+    if (
+      actionType.includes("updateCell") ||
+      actionType.includes("replaceCells")
+    )
       return "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300";
+    if (
+      ROW_STRUCTURE_ACTION.test(actionType) ||
+      actionType.includes("mergeDuplicateRows") ||
+      COLUMN_STRUCTURE_ACTION.test(actionType) ||
+      actionType.includes("ComputedField")
+    )
+      return "bg-teal-100 dark:bg-teal-900/20 text-teal-800 dark:text-teal-300";
     if (actionType.includes("Sort"))
       return "bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300";
     if (actionType.includes("Filter"))
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { CsvExportPreset } from "@/lib/types/export-presets";
+import {
+  CSV_DIALECT_PRESETS,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  convertToCsv,
+  downloadFile,
+  generateFilename,
+  type CsvExportOptions,
+} from "@/lib/utils/csv-export";
+import { exportPresetStorage } from "@/lib/utils/export-preset-storage";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { FileText, Trash2 } from "lucide-react";
+
+/** Rows included in the preview */
+const PREVIEW_ROWS = 5;
+
+const DEFAULT_PRESET = "default";
+
+const DELIMITERS = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+interface CsvExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: Record<string, any>[];
+  currentVersion?: number;
+}
+
+export function CsvExportDialog({
+  isOpen,
+  onClose,
+  data,
+  currentVersion,
+}: CsvExportDialogProps) {
+  const [savedPresets, setSavedPresets] = useState<CsvExportPreset[]>([]);
+  const [presetId, setPresetId] = useState(DEFAULT_PRESET);
+  const [options, setOptions] = useState<CsvExportOptions>(
+    DEFAULT_CSV_EXPORT_OPTIONS
+  );
+  const [columnText, setColumnText] = useState("");
+  const [presetName, setPresetName] = useState("");
+
+  useEffect(() => {
+    if (isOpen) setSavedPresets(exportPresetStorage.getAll());
+  }, [isOpen]);
+
+  const exportOptions = useMemo<CsvExportOptions>(() => {
+    const columns = columnText
+      .split("\n")
+      .map(column => column.trim())
+      .filter(Boolean);
+    return { ...options, columns: columns.length > 0 ? columns : undefined };
+  }, [options, columnText]);
+
+  const preview = useMemo(() => {
+    if (!isOpen || data.length === 0) return "";
+    return convertToCsv(data.slice(0, PREVIEW_ROWS), exportOptions);
+  }, [isOpen, data, exportOptions]);
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const saved = savedPresets.find(item => item.id === id);
+    const presetOptions =
+      (saved ?? CSV_DIALECT_PRESETS.find(item => item.id === id))?.options ??
+      {};
+
+    setOptions({ ...DEFAULT_CSV_EXPORT_OPTIONS, ...presetOptions });
+    setColumnText((presetOptions.columns ?? []).join("\n"));
+    setPresetName(saved?.name ?? "");
+  };
+
+  const updateOption = <K extends keyof CsvExportOptions>(
+    key: K,
+    value: CsvExportOptions[K]
+  ) => setOptions(current => ({ ...current, [key]: value }));
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    const preset = exportPresetStorage.save(name, exportOptions);
+    setSavedPresets(exportPresetStorage.getAll());
+    setPresetId(preset.id);
+    toast({
+      title: "Preset saved",
+      description: `CSV export preset "${preset.name}" has been saved`,
+    });
+  };
+
+  const handleDeletePreset = () => {
+    exportPresetStorage.delete(presetId);
+    setSavedPresets(exportPresetStorage.getAll());
+    applyPreset(DEFAULT_PRESET);
+  };
+
+  const handleExport = () => {
+    try {
+      const csvContent = convertToCsv(data, exportOptions);
+      const filename = generateFilename("table-data", "csv", currentVersion);
+      downloadFile(csvContent, filename, "text/csv");
+
+      toast({
+        title: "Export successful",
+        description: `CSV file "${filename}" has been downloaded`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("CSV export error:", error);
+      toast({
+        title: "Export failed",
+        description: "Failed to export CSV file. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSavedPreset = savedPresets.some(preset => preset.id === presetId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            CSV Export Options
+          </DialogTitle>
+          <DialogDescription>
+            Match the CSV dialect a downstream system expects and save it as a
+            preset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Preset</Label>
+            <Select value={presetId} onValueChange={applyPreset}>
+              <SelectTrigger aria-label="Preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PRESET}>Default</SelectItem>
+                {CSV_DIALECT_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+                {savedPresets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isSavedPreset && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDeletePreset}
+              aria-label="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Delimiter</Label>
+            <Select
+              value={exportOptions.delimiter}
+              onValueChange={value => updateOption("delimiter", value)}
+            >
+              <SelectTrigger aria-label="Delimiter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIMITERS.map(item => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Quoting</Label>
+            <Select
+              value={exportOptions.quoting}
+              onValueChange={value =>
+                updateOption("quoting", value as CsvExportOptions["quoting"])
+              }
+            >
+              <SelectTrigger aria-label="Quoting">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="minimal">When needed</SelectItem>
+                <SelectItem value="all">All fields</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Line endings</Label>
+            <Select
+              value={exportOptions.lineEnding}
+              onValueChange={value =>
+                updateOption(
+                  "lineEnding",
+                  value as CsvExportOptions["lineEnding"]
+                )
+              }
+            >
+              <SelectTrigger aria-label="Line endings">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={"\n"}>LF (Unix, macOS)</SelectItem>
+                <SelectItem value={"\r\n"}>CRLF (Windows)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="csv-null-value">Null values</Label>
+            <Input
+              id="csv-null-value"
+              value={exportOptions.nullValue ?? ""}
+              placeholder="Empty"
+              onChange={event => updateOption("nullValue", event.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {(
+            [
+              ["includeHeaders", "Include header row"],
+              ["includeBom", "Add UTF-8 BOM (for Excel)"],
+              [
+                "protectFormulas",
+                "Protect against formulas (cells starting with =, +, - or @)",
+              ],
+            ] as const
+          ).map(([key, label]) => (
+            <div key={key} className="flex items-center gap-2">
+              <Switch
+                id={`csv-${key}`}
+                checked={Boolean(exportOptions[key])}
+                onCheckedChange={checked => updateOption(key, checked)}
+              />
+              <Label htmlFor={`csv-${key}`} className="text-sm">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="csv-columns">Column order</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setColumnText(
+                  Object.keys(data[0] ?? {})
+                    .filter(key => !key.startsWith("_"))
+                    .join("\n")
+                )
+              }
+            >
+              Use table columns
+            </Button>
+          </div>
+          <Textarea
+            id="csv-columns"
+            value={columnText}
+            placeholder="All columns, one per line to fix the order"
+            onChange={event => setColumnText(event.target.value)}
+            className="font-mono text-xs h-24"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Preview</Label>
+          <Textarea
+            readOnly
+            value={preview}
+            className="font-mono text-xs h-32"
+            aria-label="CSV preview"
+          />
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="csv-preset-name">Save as preset</Label>
+            <Input
+              id="csv-preset-name"
+              value={presetName}
+              placeholder="e.g. Payroll vendor"
+              onChange={event => setPresetName(event.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            Save preset
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={data.length === 0}>
+            Download CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks";
+import {
+  compareWithSavedDataset,
+  deleteDataset,
+  saveDataset,
+} from "@/lib/features/datasetsSlice";
+import type { TableRow } from "@/lib/features/tableSlice";
+import { datasetStorage } from "@/lib/utils/dataset-storage";
+import { suggestKeyColumns } from "@/lib/utils/dataset-diff";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { GitCompare, Save, Trash2 } from "lucide-react";
+
+interface DatasetCompareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current table rows */
+  rows: TableRow[];
+  /** Columns of the current rows */
+  columns: string[];
+  targetShapeId?: string | null;
+}
+
+export function DatasetCompareDialog({
+  isOpen,
+  onClose,
+  rows,
+  columns,
+  targetShapeId,
+}: DatasetCompareDialogProps) {
+  const dispatch = useAppDispatch();
+  const datasets = useAppSelector(state => state.datasets.datasets);
+  const [name, setName] = useState("");
+  const [datasetId, setDatasetId] = useState("");
+  const [keyColumn, setKeyColumn] = useState("");
+
+  const selectedDataset = datasets.find(d => d.id === datasetId);
+
+  // Columns shared with the selected dataset; unique ones are suggested first
+  const keyOptions = useMemo(() => {
+    const dataset = datasetId ? datasetStorage.getById(datasetId) : null;
+    if (!dataset) return { suggested: [], shared: [] };
+
+    const suggested = suggestKeyColumns(dataset.rows, rows);
+    const shared = columns.filter(
+      column => dataset.columns.includes(column) && !suggested.includes(column)
+    );
+    return { suggested, shared };
+  }, [datasetId, rows, columns]);
+
+  const selectDataset = (id: string) => {
+    setDatasetId(id);
+    setKeyColumn("");
+  };
+
+  const handleSave = () => {
+    const datasetName =
+      name.trim() || `Import ${new Date().toLocaleDateString()}`;
+    dispatch(saveDataset({ name: datasetName, rows, columns, targetShapeId }));
+    toast({
+      title: "Dataset saved",
+      description: `Later imports can be compared with "${datasetName}"`,
+    });
+    setName("");
+  };
+
+  const handleDelete = () => {
+    if (!datasetId) return;
+    dispatch(deleteDataset(datasetId));
+    selectDataset("");
+  };
+
+  const handleCompare = () => {
+    const key = keyColumn || keyOptions.suggested[0];
+    if (!datasetId || !key) return;
+
+    dispatch(compareWithSavedDataset({ datasetId, rows, keyColumn: key }));
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare with Previous Import
+          </DialogTitle>
+          <DialogDescription>
+            Save this data to compare later imports with it, or compare it with
+            a saved dataset to see added, removed and changed rows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dataset-name">Save current data</Label>
+            <div className="flex gap-2">
+              <Input
+                id="dataset-name"
+                value={name}
+                placeholder={`Import ${new Date().toLocaleDateString()}`}
+                onChange={event => setName(event.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSave}
+                disabled={rows.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          {datasets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved datasets yet.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label>Saved dataset</Label>
+                <div className="flex gap-2">
+                  <Select value={datasetId} onValueChange={selectDataset}>
+                    <SelectTrigger aria-label="Saved dataset">
+                      <SelectValue placeholder="Choose a dataset" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {datasets.map(dataset => (
+                        <SelectItem key={dataset.id} value={dataset.id}>
+                          {dataset.name} ({dataset.rowCount} rows)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDelete}
+                    disabled={!selectedDataset}
+                    aria-label="Delete saved dataset"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {selectedDataset && (
+                  <p className="text-xs text-muted-foreground">
+                    Saved {new Date(selectedDataset.savedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+
+              {selectedDataset && (
+                <div className="space-y-2">
+                  <Label>Key column</Label>
+                  <Select
+                    value={keyColumn || keyOptions.suggested[0] || ""}
+                    onValueChange={setKeyColumn}
+                  >
+                    <SelectTrigger aria-label="Key column">
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {keyOptions.suggested.map(column => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                      {keyOptions.shared.map(column => (
+                        <SelectItem key={column} value={column}>
+                          <span className="text-muted-foreground">
+                            {column} (not unique)
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {keyOptions.suggested.length === 0 &&
+                    keyOptions.shared.length === 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        The datasets have no columns in common.
+                      </p>
+                    )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCompare}
+            disabled={
+              !selectedDataset || !(keyColumn || keyOptions.suggested[0])
+            }
+          >
+            Compare
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import type { DatasetDiff } from "@/lib/types/dataset-diff";
+import type { TableRow as DataRow } from "@/lib/features/tableSlice";
+import {
+  datasetDiffToCsv,
+  type DatasetDiffCategory,
+} from "@/lib/utils/dataset-diff";
+import { downloadFile, generateFilename } from "@/lib/utils/csv-export";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { AlertTriangle, Download, GitCompare, X } from "lucide-react";
+
+/** Rows rendered per tab; exports include every row */
+const MAX_VISIBLE_ROWS = 100;
+
+interface DatasetDiffViewProps {
+  diff: DatasetDiff;
+  onClose: () => void;
+  className?: string;
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "" : String(value);
+
+export function DatasetDiffView({
+  diff,
+  onClose,
+  className = "",
+}: DatasetDiffViewProps) {
+  const { added, removed, changed, unchangedCount, duplicateKeys } = diff;
+
+  const handleExport = (category: DatasetDiffCategory) => {
+    try {
+      const csv = datasetDiffToCsv(diff, category);
+      const filename = generateFilename(`diff-${category}`, "csv");
+      downloadFile(csv, filename, "text/csv");
+    } catch (error) {
+      console.error("Diff export error:", error);
+      toast({
+        title: "Export failed",
+        description: `Failed to export ${category} rows. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportButton = (category: DatasetDiffCategory, count: number) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleExport(category)}
+      disabled={count === 0}
+      className="flex items-center gap-2"
+    >
+      <Download className="w-4 h-4" />
+      Export {category} as CSV
+    </Button>
+  );
+
+  const truncationNote = (count: number) =>
+    count > MAX_VISIBLE_ROWS && (
+      <p className="text-xs text-muted-foreground">
+        Showing the first {MAX_VISIBLE_ROWS} of {count} rows.
+      </p>
+    );
+
+  const rowsTable = (rows: DataRow[]) =>
+    rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No rows.</p>
+    ) : (
+      <div className="border rounded-md overflow-auto max-h-[400px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {diff.columns.map(column => (
+                <TableHead key={column}>{column}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, MAX_VISIBLE_ROWS).map((row, index) => (
+              <TableRow key={index}>
+                {diff.columns.map(column => (
+                  <TableCell key={column}>{formatValue(row[column])}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              Changes since &quot;{diff.baseDatasetName}&quot;
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">
+                Matched on {diff.keyColumn}:
+              </span>
+              <Badge
+                variant="outline"
+                className="text-green-700 dark:text-green-300"
+              >
+                {added.length} added
+              </Badge>
+              <Badge
+                variant="outline"
+                className="text-red-700 dark:text-red-300"
+              >
+                {removed.length} removed
+              </Badge>
+              <Badge
+                variant="outline"
+                className="text-orange-700 dark:text-orange-300"
+              >
+                {changed.length} changed
+              </Badge>
+              <Badge variant="outline">{unchangedCount} unchanged</Badge>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label="Close comparison"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {duplicateKeys.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-yellow-700 dark:text-yellow-300">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {duplicateKeys.length} key value
+              {duplicateKeys.length === 1 ? " appears" : "s appear"} on more
+              than one row; only the first row of each was compared (
+              {duplicateKeys.slice(0, 5).join(", ")}
+              {duplicateKeys.length > 5 ? ", ..." : ""}).
+            </span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="changed">
+          <TabsList>
+            <TabsTrigger value="changed">
+              Changed ({changed.length})
+            </TabsTrigger>
+            <TabsTrigger value="added">Added ({added.length})</TabsTrigger>
+            <TabsTrigger value="removed">
+              Removed ({removed.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="changed" className="space-y-3">
+            <div className="flex items-center justify-between">
+              {truncationNote(changed.length) || <span />}
+              {exportButton("changed", changed.length)}
+            </div>
+            {changed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rows.</p>
+            ) : (
+              <div className="border rounded-md overflow-auto max-h-[400px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {diff.columns.map(column => (
+                        <TableHead key={column}>{column}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changed.slice(0, MAX_VISIBLE_ROWS).map(row => (
+                      <TableRow key={row.key}>
+                        {diff.columns.map(column => {
+                          const change = row.changes.find(
+                            c => c.field === column
+                          );
+                          return change ? (
+                            <TableCell
+                              key={column}
+                              className="bg-orange-50 dark:bg-orange-950"
+                              title={`Was: ${formatValue(change.previous)}`}
+                            >
+                              <span className="line-through text-muted-foreground mr-2">
+                                {formatValue(change.previous)}
+                              </span>
+                              <span>{formatValue(change.current)}</span>
+                            </TableCell>
+                          ) : (
+                            <TableCell key={column}>
+                              {formatValue(row.current[column])}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="added" className="space-y-3">
+            <div className="flex items-center justify-between">
+              {truncationNote(added.length) || <span />}
+              {exportButton("added", added.length)}
+            </div>
+            {rowsTable(added)}
+          </TabsContent>
+
+          <TabsContent value="removed" className="space-y-3">
+            <div className="flex items-center justify-between">
+              {truncationNote(removed.length) || <span />}
+              {exportButton("removed", removed.length)}
+            </div>
+            {rowsTable(removed)}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
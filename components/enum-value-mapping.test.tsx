@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { EnumValueMapping } from "./enum-value-mapping";
+import type { TargetShape, TargetField } from "@/lib/types/target-shapes";
+
+const shape: TargetShape = {
+  id: "shape-1",
+  name: "Accounts",
+  version: "1.0.0",
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  fields: [
+    { id: "name", name: "Name", type: "string", required: true },
+    {
+      id: "status",
+      name: "Status",
+      type: "enum",
+      required: false,
+      options: [
+        { value: "active", label: "Active" },
+        { value: "inactive", label: "Inactive" },
+      ],
+    },
+  ] as TargetField[],
+};
+
+const rows = [
+  { _rowId: "r1", name: "Ana", state: "Act." },
+  { _rowId: "r2", name: "Bo", state: "Act." },
+  { _rowId: "r3", name: "Cy", state: "Closed" },
+];
+
+describe("EnumValueMapping Component", () => {
+  it("lists distinct source values with their proposals", () => {
+    render(
+      <EnumValueMapping
+        targetShape={shape}
+        rows={rows}
+        columnMapping={{ name: "name", status: "state" }}
+        valueMaps={{}}
+        onValueMapsChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("Act.")).toBeInTheDocument();
+    expect(screen.getByText("2 rows")).toBeInTheDocument();
+    expect(screen.getByText("Abbreviation")).toBeInTheDocument();
+    expect(screen.getByText("Needs review")).toBeInTheDocument();
+    expect(
+      screen.getByText("2 distinct values, 2 to review")
+    ).toBeInTheDocument();
+  });
+
+  it("starts the value map from the proposals", () => {
+    const onValueMapsChange = vi.fn();
+
+    render(
+      <EnumValueMapping
+        targetShape={shape}
+        rows={rows}
+        columnMapping={{ status: "state" }}
+        valueMaps={{}}
+        onValueMapsChange={onValueMapsChange}
+      />
+    );
+
+    expect(onValueMapsChange).toHaveBeenCalledWith({
+      status: { "Act.": "active" },
+    });
+  });
+
+  it("renders nothing when no enum field is mapped", () => {
+    const { container } = render(
+      <EnumValueMapping
+        targetShape={shape}
+        rows={rows}
+        columnMapping={{ name: "name" }}
+        valueMaps={{}}
+        onValueMapsChange={vi.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { EnumField, TargetShape } from "@/lib/types/target-shapes";
+import type { ColumnMappingRule } from "@/lib/types/column-mapping";
+import {
+  getMappedFieldIds,
+  mapRowToFields,
+} from "@/lib/utils/column-mapping-rules";
+import {
+  suggestEnumValueMappings,
+  toEnumValueMap,
+  type EnumValueSuggestion,
+} from "@/lib/utils/enum-value-mapping";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, Check, ListChecks } from "lucide-react";
+
+const KEEP_VALUE = "__keep__";
+const NO_RULES: ColumnMappingRule[] = [];
+
+const reviewKey = (fieldId: string, sourceValue: string) =>
+  `${fieldId}\u0000${sourceValue}`;
+
+interface EnumValueMappingProps {
+  targetShape: TargetShape;
+  /** Imported rows */
+  rows: Record<string, unknown>[];
+  columnMapping: Record<string, string>;
+  mappingRules?: ColumnMappingRule[];
+  /** Enum field ID -> (source value -> option value) */
+  valueMaps: Record<string, Record<string, string>>;
+  onValueMapsChange: (
+    valueMaps: Record<string, Record<string, string>>
+  ) => void;
+  className?: string;
+}
+
+const MATCH_LABELS: Record<EnumValueSuggestion["matchType"], string> = {
+  saved: "Saved",
+  exact: "Exact",
+  prefix: "Abbreviation",
+  initial: "Initial",
+  fuzzy: "Fuzzy",
+  none: "Needs review",
+};
+
+export function EnumValueMapping({
+  targetShape,
+  rows,
+  columnMapping,
+  mappingRules = NO_RULES,
+  valueMaps,
+  onValueMapsChange,
+  className = "",
+}: EnumValueMappingProps) {
+  // Suggestions the user has looked at and accepted or changed
+  const [reviewed, setReviewed] = useState<Set<string>>(new Set());
+  const reviewedRef = useRef(reviewed);
+  const onValueMapsChangeRef = useRef(onValueMapsChange);
+  const valueMapsRef = useRef(valueMaps);
+
+  // Keep refs updated
+  useEffect(() => {
+    onValueMapsChangeRef.current = onValueMapsChange;
+    valueMapsRef.current = valueMaps;
+    reviewedRef.current = reviewed;
+  }, [onValueMapsChange, valueMaps, reviewed]);
+
+  const enumFields = useMemo(() => {
+    const mappedFieldIds = getMappedFieldIds(columnMapping, mappingRules);
+    return targetShape.fields.filter(
+      (field): field is EnumField =>
+        field.type === "enum" && mappedFieldIds.has(field.id)
+    );
+  }, [targetShape.fields, columnMapping, mappingRules]);
+
+  const suggestionsByField = useMemo(
+    () =>
+      Object.fromEntries(
+        enumFields.map(field => {
+          // Map rows for this field alone, without its saved value map
+          const mappingFields = [{ id: field.id, name: field.name }];
+          const values = rows.map(
+            row =>
+              mapRowToFields(row, columnMapping, mappingRules, mappingFields)[
+                field.name
+              ]
+          );
+          return [field.id, suggestEnumValueMappings(field, values)];
+        })
+      ) as Record<string, EnumValueSuggestion[]>,
+    [enumFields, rows, columnMapping, mappingRules]
+  );
+
+  // Fill in suggestions for values not mapped or reviewed yet, so newly
+  // mapped fields and columns start from the proposed options
+  useEffect(() => {
+    const current = valueMapsRef.current;
+    let changed = false;
+    const next = { ...current };
+
+    enumFields.forEach(field => {
+      const additions = toEnumValueMap(
+        (suggestionsByField[field.id] ?? []).filter(
+          suggestion =>
+            !(suggestion.sourceValue in (current[field.id] ?? {})) &&
+            !reviewedRef.current.has(
+              reviewKey(field.id, suggestion.sourceValue)
+            )
+        )
+      );
+      if (!current[field.id] || Object.keys(additions).length > 0) {
+        next[field.id] = { ...current[field.id], ...additions };
+        changed = true;
+      }
+    });
+
+    if (changed) onValueMapsChangeRef.current(next);
+  }, [enumFields, suggestionsByField]);
+
+  if (enumFields.length === 0) return null;
+
+  const markReviewed = (fieldId: string, sourceValue: string) =>
+    setReviewed(current =>
+      new Set(current).add(reviewKey(fieldId, sourceValue))
+    );
+
+  const setOption = (
+    fieldId: string,
+    sourceValue: string,
+    optionValue: string
+  ) => {
+    const fieldMap = { ...(valueMaps[fieldId] ?? {}) };
+    if (optionValue === KEEP_VALUE) {
+      delete fieldMap[sourceValue];
+    } else {
+      fieldMap[sourceValue] = optionValue;
+    }
+    onValueMapsChange({ ...valueMaps, [fieldId]: fieldMap });
+    markReviewed(fieldId, sourceValue);
+  };
+
+  const needsReview = (fieldId: string, suggestion: EnumValueSuggestion) =>
+    suggestion.matchType !== "saved" &&
+    suggestion.matchType !== "exact" &&
+    !reviewed.has(reviewKey(fieldId, suggestion.sourceValue));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Enum Values
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {enumFields.map(field => {
+          const suggestions = suggestionsByField[field.id] ?? [];
+          const fieldMap = valueMaps[field.id] ?? {};
+          const reviewCount = suggestions.filter(s =>
+            needsReview(field.id, s)
+          ).length;
+
+          return (
+            <div key={field.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{field.name}</h4>
+                <span className="text-xs text-muted-foreground">
+                  {suggestions.length} distinct value
+                  {suggestions.length === 1 ? "" : "s"}
+                  {reviewCount > 0 && `, ${reviewCount} to review`}
+                </span>
+              </div>
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No values in the imported data.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {suggestions.map(suggestion => {
+                    const mapped = fieldMap[suggestion.sourceValue];
+                    const isReviewed = !needsReview(field.id, suggestion);
+                    const isConfirmed = reviewed.has(
+                      reviewKey(field.id, suggestion.sourceValue)
+                    );
+                    return (
+                      <div
+                        key={suggestion.sourceValue}
+                        className="flex items-center gap-3 p-2 border border-border rounded-lg text-sm"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <span className="font-mono truncate">
+                            {suggestion.sourceValue}
+                          </span>
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {suggestion.count} row
+                            {suggestion.count === 1 ? "" : "s"}
+                          </span>
+                        </div>
+                        <Badge
+                          variant="outline"
+                          className={`text-xs ${
+                            suggestion.matchType === "none" && !isReviewed
+                              ? "text-orange-600 dark:text-orange-400"
+                              : ""
+                          }`}
+                        >
+                          {isConfirmed
+                            ? "Confirmed"
+                            : suggestion.matchType === "fuzzy"
+                              ? `${MATCH_LABELS.fuzzy} (${Math.round(
+                                  suggestion.confidence * 100
+                                )}%)`
+                              : MATCH_LABELS[suggestion.matchType]}
+                        </Badge>
+                        <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        <div className="w-48">
+                          <Select
+                            value={mapped ?? KEEP_VALUE}
+                            onValueChange={value =>
+                              setOption(field.id, suggestion.sourceValue, value)
+                            }
+                          >
+                            <SelectTrigger
+                              className="w-full"
+                              aria-label={`Option for ${suggestion.sourceValue}`}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={KEEP_VALUE}>
+                                <span className="text-muted-foreground">
+                                  Keep as is
+                                </span>
+                              </SelectItem>
+                              {field.options.map(option => (
+                                <SelectItem
+                                  key={option.value}
+                                  value={option.value}
+                                >
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-8 flex justify-center">
+                          {!isReviewed && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() =>
+                                markReviewed(field.id, suggestion.sourceValue)
+                              }
+                              aria-label={`Confirm ${suggestion.sourceValue}`}
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
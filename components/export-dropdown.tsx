@@ -1,33 +1,69 @@
 "use client";
 
 import { useState } from "react";
-import { Download, FileText, FileJson, ChevronDown } from "lucide-react";
+import {
+  Download,
+  FileText,
+  FileJson,
+  ChevronDown,
+  Database,
+  FileCheck,
+  Split,
+  Settings2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { toast } from "@/components/ui/use-toast";
 import {
+  CSV_DIALECT_PRESETS,
   convertToCsv,
   generateFilename,
   downloadFile,
+  type CsvExportOptions,
 } from "@/lib/utils/csv-export";
+import { exportPresetStorage } from "@/lib/utils/export-preset-storage";
+import type { CsvExportPreset } from "@/lib/types/export-presets";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import { CsvExportDialog } from "@/components/csv-export-dialog";
+import { SqlExportDialog } from "@/components/sql-export-dialog";
+import { TypedExportDialog } from "@/components/typed-export-dialog";
+import { SplitExportDialog } from "@/components/split-export-dialog";
 
 interface ExportDropdownProps {
   data: Record<string, any>[];
   currentVersion?: number;
   disabled?: boolean;
+  /** Applied target shape, used for typed, SQL and valid/rejected export */
+  targetShape?: TargetShape | null;
 }
 
 export function ExportDropdown({
   data,
   currentVersion,
   disabled = false,
+  targetShape,
 }: ExportDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [showSqlDialog, setShowSqlDialog] = useState(false);
+  const [showTypedDialog, setShowTypedDialog] = useState(false);
+  const [showSplitDialog, setShowSplitDialog] = useState(false);
+  const [showCsvDialog, setShowCsvDialog] = useState(false);
+  const [savedPresets, setSavedPresets] = useState<CsvExportPreset[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    // Presets can change in the CSV options dialog, so reload them on open
+    if (open) setSavedPresets(exportPresetStorage.getAll());
+    setIsOpen(open);
+  };
 
   const handleExportJson = () => {
     if (!data || data.length === 0) {
@@ -60,7 +96,7 @@ export function ExportDropdown({
     }
   };
 
-  const handleExportCsv = () => {
+  const handleExportCsv = (options: CsvExportOptions = {}) => {
     if (!data || data.length === 0) {
       toast({
         title: "No data to export",
@@ -75,6 +111,7 @@ export function ExportDropdown({
         delimiter: ",",
         includeHeaders: true,
         escapeQuotes: true,
+        ...options,
       });
       const filename = generateFilename("table-data", "csv", currentVersion);
       downloadFile(csvContent, filename, "text/csv");
@@ -96,29 +133,124 @@ export function ExportDropdown({
   };
 
   return (
-    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="outline"
-          size="sm"
-          disabled={disabled}
-          className="flex items-center gap-2"
-        >
-          <Download className="h-4 w-4" />
-          Export
-          <ChevronDown className="h-4 w-4" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-40">
-        <DropdownMenuItem onClick={handleExportJson} className="cursor-pointer">
-          <FileJson className="mr-2 h-4 w-4" />
-          JSON
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={handleExportCsv} className="cursor-pointer">
-          <FileText className="mr-2 h-4 w-4" />
-          CSV
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu open={isOpen} onOpenChange={handleOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem
+            onClick={handleExportJson}
+            className="cursor-pointer"
+          >
+            <FileJson className="mr-2 h-4 w-4" />
+            JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => handleExportCsv()}
+            className="cursor-pointer"
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            CSV
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="cursor-pointer">
+              <FileText className="mr-2 h-4 w-4" />
+              CSV presets
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              {[...CSV_DIALECT_PRESETS, ...savedPresets].map(preset => (
+                <DropdownMenuItem
+                  key={preset.id}
+                  onClick={() => handleExportCsv(preset.options)}
+                  className="cursor-pointer"
+                >
+                  {preset.name}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => setShowCsvDialog(true)}
+                className="cursor-pointer"
+              >
+                <Settings2 className="mr-2 h-4 w-4" />
+                CSV options...
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem
+            onClick={() => setShowSqlDialog(true)}
+            className="cursor-pointer"
+          >
+            <Database className="mr-2 h-4 w-4" />
+            SQL...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setShowTypedDialog(true)}
+            disabled={!targetShape}
+            title={
+              targetShape ? undefined : "Apply a target shape to export types"
+            }
+            className="cursor-pointer"
+          >
+            <FileCheck className="mr-2 h-4 w-4" />
+            Typed...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setShowSplitDialog(true)}
+            disabled={!targetShape}
+            title={
+              targetShape
+                ? undefined
+                : "Apply a target shape to split by validation"
+            }
+            className="cursor-pointer"
+          >
+            <Split className="mr-2 h-4 w-4" />
+            Valid / Rejected...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CsvExportDialog
+        isOpen={showCsvDialog}
+        onClose={() => setShowCsvDialog(false)}
+        data={data}
+        currentVersion={currentVersion}
+      />
+      <SqlExportDialog
+        isOpen={showSqlDialog}
+        onClose={() => setShowSqlDialog(false)}
+        data={data}
+        targetShape={targetShape}
+        currentVersion={currentVersion}
+      />
+      {targetShape && (
+        <>
+          <TypedExportDialog
+            isOpen={showTypedDialog}
+            onClose={() => setShowTypedDialog(false)}
+            data={data}
+            targetShape={targetShape}
+            currentVersion={currentVersion}
+          />
+          <SplitExportDialog
+            isOpen={showSplitDialog}
+            onClose={() => setShowSplitDialog(false)}
+            data={data}
+            targetShape={targetShape}
+            currentVersion={currentVersion}
+          />
+        </>
+      )}
+    </>
   );
 }
@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks";
+import {
+  clearPipelineReport,
+  deletePipeline,
+  loadPipelines,
+  runImportPipeline,
+} from "@/lib/features/pipelinesSlice";
+import { downloadFile } from "@/lib/utils/csv-export";
+import type { ImportPipeline, PipelineRunReport } from "@/lib/types/pipelines";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Play,
+  Trash2,
+  Workflow,
+  X,
+} from "lucide-react";
+
+interface ImportPipelinesProps {
+  /** Called after a successful run, e.g. to open the data table */
+  onOpenData?: () => void;
+}
+
+export function ImportPipelines({ onOpenData }: ImportPipelinesProps) {
+  const dispatch = useAppDispatch();
+  const { pipelines, isRunning, progress, lastReport, error } = useAppSelector(
+    state => state.pipelines
+  );
+  const shapes = useAppSelector(state => state.targetShapes.shapes);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingPipelineId, setPendingPipelineId] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    dispatch(loadPipelines());
+  }, [dispatch]);
+
+  const chooseFile = (pipelineId: string) => {
+    setPendingPipelineId(pipelineId);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !pendingPipelineId) return;
+
+    const action = await dispatch(
+      runImportPipeline({
+        pipelineId: pendingPipelineId,
+        file: { bytes: await file.arrayBuffer(), name: file.name },
+      })
+    );
+
+    if (runImportPipeline.fulfilled.match(action)) {
+      const { output, report } = action.payload;
+      downloadFile(output.content, output.filename, output.mimeType);
+      toast({
+        title: "Pipeline complete",
+        description: `${report.rowCount} records processed from ${file.name}`,
+      });
+    } else if (!action.meta.aborted) {
+      toast({
+        title: "Pipeline failed",
+        description: action.error.message || "Pipeline run failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const shapeName = (pipeline: ImportPipeline) =>
+    shapes.find(shape => shape.id === pipeline.targetShapeId)?.name ??
+    "Missing target shape";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="h-4 w-4" />
+          Import Pipelines
+        </CardTitle>
+        <CardDescription>
+          Replay a saved import, mapping, lookups and export on a new file. Save
+          a pipeline from mapping mode in the data table.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,.xlsx,.xls,.ods"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {pipelines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved pipelines yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {pipelines.map(pipeline => (
+              <div
+                key={pipeline.id}
+                className="flex items-center justify-between gap-3 rounded-md border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">
+                      {pipeline.name}
+                    </span>
+                    <Badge variant="outline" className="text-xs">
+                      {pipeline.source.format.toUpperCase()} →{" "}
+                      {pipeline.export.format.toUpperCase()}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {shapeName(pipeline)}
+                    {pipeline.lastRun &&
+                      ` · last run ${new Date(pipeline.lastRun.ranAt).toLocaleString()} (${pipeline.lastRun.rowCount} rows)`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => chooseFile(pipeline.id)}
+                    disabled={isRunning}
+                  >
+                    <Play className="w-3 h-3 mr-1" />
+                    Run on file
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => dispatch(deletePipeline(pipeline.id))}
+                    disabled={isRunning}
+                    aria-label={`Delete ${pipeline.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isRunning && (
+          <div className="space-y-1">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">
+              Running pipeline… {progress}%
+            </p>
+          </div>
+        )}
+
+        {error && !isRunning && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        {lastReport && (
+          <PipelineReport
+            report={lastReport}
+            onDismiss={() => dispatch(clearPipelineReport())}
+            onOpenData={onOpenData}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PipelineReportProps {
+  report: PipelineRunReport;
+  onDismiss: () => void;
+  onOpenData?: () => void;
+}
+
+function PipelineReport({
+  report,
+  onDismiss,
+  onOpenData,
+}: PipelineReportProps) {
+  const rowDelta =
+    report.previousRowCount !== undefined
+      ? report.rowCount - report.previousRowCount
+      : null;
+
+  return (
+    <div className="rounded-md border bg-muted/40 p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          {report.pipelineName}
+          {report.fileName && ` · ${report.fileName}`}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onDismiss}
+          aria-label="Dismiss report"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <span className="text-muted-foreground">Rows</span>
+        <span>
+          {report.rowCount}
+          {rowDelta !== null &&
+            ` (${rowDelta >= 0 ? "+" : ""}${rowDelta} since last run)`}
+        </span>
+        <span className="text-muted-foreground">Cells transformed</span>
+        <span>
+          {report.transformation.cellsChanged}
+          {report.transformation.failedCells > 0 &&
+            ` (${report.transformation.failedCells} failed)`}
+        </span>
+        {report.lookups && (
+          <>
+            <span className="text-muted-foreground">Lookups</span>
+            <span>
+              {report.lookups.exactMatches + report.lookups.normalizedMatches}{" "}
+              matched, {report.lookups.fuzzyMatches} fuzzy,{" "}
+              {report.lookups.noMatches} unmatched
+            </span>
+          </>
+        )}
+        {report.missingColumns.length > 0 && (
+          <>
+            <span className="text-muted-foreground">Missing columns</span>
+            <span>{report.missingColumns.join(", ")}</span>
+          </>
+        )}
+        {report.addedColumns.length > 0 && (
+          <>
+            <span className="text-muted-foreground">New columns</span>
+            <span>{report.addedColumns.join(", ")}</span>
+          </>
+        )}
+      </div>
+
+      {report.warnings.length > 0 && (
+        <ul className="space-y-1">
+          {report.warnings.map(warning => (
+            <li
+              key={warning}
+              className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400"
+            >
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onOpenData && (
+        <Button size="sm" variant="outline" onClick={onOpenData}>
+          Open Data Table
+          <ArrowRight className="w-3 h-3 ml-2" />
+        </Button>
+      )}
+    </div>
+  );
+}
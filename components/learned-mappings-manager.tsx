@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks";
+import {
+  clearLearnedMappings,
+  deleteLearnedMapping,
+  updateLearnedMapping,
+} from "@/lib/features/mappingMemorySlice";
+import type { LearnedMapping } from "@/lib/types/mapping-memory";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, Brain, Check, Pencil, Trash2, X } from "lucide-react";
+
+interface LearnedMappingsManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetShape: TargetShape;
+}
+
+export function LearnedMappingsManager({
+  isOpen,
+  onClose,
+  targetShape,
+}: LearnedMappingsManagerProps) {
+  const dispatch = useAppDispatch();
+  const allLearnedMappings = useAppSelector(
+    state => state.mappingMemory.learnedMappings
+  );
+  const learnedMappings = useMemo(
+    () =>
+      allLearnedMappings.filter(
+        mapping => mapping.targetShapeId === targetShape.id
+      ),
+    [allLearnedMappings, targetShape.id]
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftHeader, setDraftHeader] = useState("");
+  const [draftFieldId, setDraftFieldId] = useState("");
+
+  const startEditing = (mapping: LearnedMapping) => {
+    setEditingId(mapping.id);
+    setDraftHeader(mapping.sourceHeader);
+    setDraftFieldId(mapping.fieldId);
+  };
+
+  const saveEdit = () => {
+    const field = targetShape.fields.find(f => f.id === draftFieldId);
+    if (!editingId || !field || !draftHeader.trim()) return;
+
+    dispatch(
+      updateLearnedMapping({
+        id: editingId,
+        updates: {
+          sourceHeader: draftHeader.trim(),
+          fieldId: field.id,
+          fieldName: field.name,
+        },
+      })
+    );
+    setEditingId(null);
+  };
+
+  const fieldLabel = (mapping: LearnedMapping) =>
+    targetShape.fields.find(f => f.id === mapping.fieldId)?.name ??
+    `${mapping.fieldName} (removed)`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Learned Mappings: {targetShape.name}
+          </DialogTitle>
+          <DialogDescription>
+            Source headers you mapped before are matched first on the next
+            import. Edit or remove aliases that no longer apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        {learnedMappings.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            No learned mappings yet. Applying a mapping records its columns.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {learnedMappings.map(mapping =>
+              editingId === mapping.id ? (
+                <div
+                  key={mapping.id}
+                  className="flex items-center gap-2 rounded-md border p-2"
+                >
+                  <Input
+                    value={draftHeader}
+                    onChange={event => setDraftHeader(event.target.value)}
+                    aria-label="Source header"
+                    className="h-8"
+                  />
+                  <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <Select value={draftFieldId} onValueChange={setDraftFieldId}>
+                    <SelectTrigger className="h-8 w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetShape.fields.map(field => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={saveEdit}
+                    aria-label="Save"
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setEditingId(null)}
+                    aria-label="Cancel"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div
+                  key={mapping.id}
+                  className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-mono truncate">
+                      {mapping.sourceHeader}
+                    </span>
+                    <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <span className="font-medium truncate">
+                      {fieldLabel(mapping)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="text-xs text-muted-foreground mr-2">
+                      used {mapping.timesUsed}×, last{" "}
+                      {new Date(mapping.lastUsedAt).toLocaleDateString()}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => startEditing(mapping)}
+                      aria-label={`Edit ${mapping.sourceHeader}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => dispatch(deleteLearnedMapping(mapping.id))}
+                      aria-label={`Forget ${mapping.sourceHeader}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => dispatch(clearLearnedMappings(targetShape.id))}
+            disabled={learnedMappings.length === 0}
+            className="text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Forget all for this shape
+          </Button>
+          <Button size="sm" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import { useState } from "react";
+import type { TargetField } from "@/lib/types/target-shapes";
+import type {
+  ColumnMappingRule,
+  SplitMappingRule,
+} from "@/lib/types/column-mapping";
+import { describeMappingRule } from "@/lib/utils/column-mapping-rules";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Combine, Plus, Split, Trash2, X } from "lucide-react";
+
+interface MappingRulesEditorProps {
+  importColumns: string[];
+  fields: TargetField[];
+  rules: ColumnMappingRule[];
+  onRulesChange: (rules: ColumnMappingRule[]) => void;
+}
+
+type DraftMode = "combine" | "split" | null;
+
+export function MappingRulesEditor({
+  importColumns,
+  fields,
+  rules,
+  onRulesChange,
+}: MappingRulesEditorProps) {
+  const [mode, setMode] = useState<DraftMode>(null);
+
+  // Combine draft
+  const [combineFieldId, setCombineFieldId] = useState("");
+  const [combineColumns, setCombineColumns] = useState<string[]>([]);
+  const [separator, setSeparator] = useState(" ");
+  const [template, setTemplate] = useState("");
+
+  // Split draft
+  const [splitColumn, setSplitColumn] = useState("");
+  const [splitSeparator, setSplitSeparator] = useState(",");
+  const [splitTargets, setSplitTargets] = useState<SplitMappingRule["targets"]>(
+    [{ targetFieldId: "", index: 0 }]
+  );
+
+  // A field can only be filled by one rule
+  const ruleFieldIds = new Set(
+    rules.flatMap(rule =>
+      rule.kind === "combine"
+        ? [rule.targetFieldId]
+        : rule.targets.map(target => target.targetFieldId)
+    )
+  );
+  const availableFields = fields.filter(field => !ruleFieldIds.has(field.id));
+
+  const resetDrafts = () => {
+    setMode(null);
+    setCombineFieldId("");
+    setCombineColumns([]);
+    setSeparator(" ");
+    setTemplate("");
+    setSplitColumn("");
+    setSplitSeparator(",");
+    setSplitTargets([{ targetFieldId: "", index: 0 }]);
+  };
+
+  const toggleCombineColumn = (column: string) => {
+    setCombineColumns(current =>
+      current.includes(column)
+        ? current.filter(c => c !== column)
+        : [...current, column]
+    );
+  };
+
+  const addCombineRule = () => {
+    if (!combineFieldId || combineColumns.length === 0) return;
+    onRulesChange([
+      ...rules,
+      {
+        kind: "combine",
+        targetFieldId: combineFieldId,
+        sourceColumns: combineColumns,
+        separator,
+        ...(template.trim() ? { template: template.trim() } : {}),
+      },
+    ]);
+    resetDrafts();
+  };
+
+  const addSplitRule = () => {
+    const targets = splitTargets.filter(target => target.targetFieldId);
+    if (!splitColumn || !splitSeparator || targets.length === 0) return;
+    onRulesChange([
+      ...rules,
+      {
+        kind: "split",
+        sourceColumn: splitColumn,
+        separator: splitSeparator,
+        targets,
+      },
+    ]);
+    resetDrafts();
+  };
+
+  const updateSplitTarget = (
+    position: number,
+    updates: Partial<SplitMappingRule["targets"][number]>
+  ) => {
+    setSplitTargets(current =>
+      current.map((target, i) =>
+        i === position ? { ...target, ...updates } : target
+      )
+    );
+  };
+
+  const splitFieldIds = new Set(splitTargets.map(t => t.targetFieldId));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Combined &amp; Split Columns</h4>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMode(mode === "combine" ? null : "combine")}
+            className="flex items-center gap-2"
+          >
+            <Combine className="w-4 h-4" />
+            Combine
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMode(mode === "split" ? null : "split")}
+            className="flex items-center gap-2"
+          >
+            <Split className="w-4 h-4" />
+            Split
+          </Button>
+        </div>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="space-y-2">
+          {rules.map((rule, position) => (
+            <div
+              key={position}
+              className="flex items-center justify-between gap-2 p-2 border border-border rounded-lg text-sm"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="outline" className="text-xs">
+                  {rule.kind === "combine" ? "Combined" : "Split"}
+                </Badge>
+                <span className="truncate">
+                  {describeMappingRule(rule, fields)}
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRulesChange(rules.filter(r => r !== rule))}
+                aria-label={`Remove rule ${describeMappingRule(rule, fields)}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === "combine" && (
+        <div className="space-y-3 p-3 border border-border rounded-lg">
+          <div className="space-y-1">
+            <Label>Target field</Label>
+            <Select value={combineFieldId} onValueChange={setCombineFieldId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select field..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableFields.map(field => (
+                  <SelectItem key={field.id} value={field.id}>
+                    {field.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Source columns (in order)</Label>
+            <div className="flex flex-wrap gap-2">
+              {importColumns.map(column => {
+                const order = combineColumns.indexOf(column);
+                return (
+                  <Button
+                    key={column}
+                    size="sm"
+                    variant={order === -1 ? "outline" : "secondary"}
+                    onClick={() => toggleCombineColumn(column)}
+                  >
+                    {order !== -1 && `${order + 1}. `}
+                    {column}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="combine-separator">Separator</Label>
+              <Input
+                id="combine-separator"
+                value={separator}
+                onChange={event => setSeparator(event.target.value)}
+                disabled={template.trim() !== ""}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="combine-template">Template (optional)</Label>
+              <Input
+                id="combine-template"
+                value={template}
+                placeholder={
+                  combineColumns.length > 1
+                    ? `{${combineColumns[1]}}, {${combineColumns[0]}}`
+                    : "{Last}, {First}"
+                }
+                onChange={event => setTemplate(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={resetDrafts}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={addCombineRule}
+              disabled={!combineFieldId || combineColumns.length === 0}
+            >
+              Add rule
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {mode === "split" && (
+        <div className="space-y-3 p-3 border border-border rounded-lg">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Source column</Label>
+              <Select value={splitColumn} onValueChange={setSplitColumn}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select column..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {importColumns.map(column => (
+                    <SelectItem key={column} value={column}>
+                      {column}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="split-separator">Separator</Label>
+              <Input
+                id="split-separator"
+                value={splitSeparator}
+                onChange={event => setSplitSeparator(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Parts (negative positions count from the end)</Label>
+            {splitTargets.map((target, position) => (
+              <div key={position} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={target.index}
+                  onChange={event =>
+                    updateSplitTarget(position, {
+                      index: Number(event.target.value) || 0,
+                    })
+                  }
+                  aria-label="Part position"
+                  className="w-20"
+                />
+                <Select
+                  value={target.targetFieldId}
+                  onValueChange={value =>
+                    updateSplitTarget(position, { targetFieldId: value })
+                  }
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select field..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableFields
+                      .filter(
+                        field =>
+                          field.id === target.targetFieldId ||
+                          !splitFieldIds.has(field.id)
+                      )
+                      .map(field => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    setSplitTargets(current =>
+                      current.filter((_, i) => i !== position)
+                    )
+                  }
+                  disabled={splitTargets.length === 1}
+                  aria-label="Remove part"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setSplitTargets(current => [
+                  ...current,
+                  { targetFieldId: "", index: current.length },
+                ])
+              }
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add part
+            </Button>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={resetDrafts}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={addSplitRule}
+              disabled={
+                !splitColumn ||
+                !splitSeparator ||
+                !splitTargets.some(target => target.targetFieldId)
+              }
+            >
+              Add rule
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -59,7 +59,7 @@ describe("ReferenceUploadDialog", () => {
     expect(screen.getByText("Upload Reference Data")).toBeInTheDocument();
     expect(
       screen.getByText(
-        "Upload a CSV or JSON file to use as reference data for lookups."
+        "Upload a CSV, JSON or spreadsheet file to use as reference data for lookups."
       )
     ).toBeInTheDocument();
   });
@@ -91,7 +91,7 @@ describe("ReferenceUploadDialog", () => {
       screen.getByText("Drop your file here or click to browse")
     ).toBeInTheDocument();
     expect(
-      screen.getByText("Supports CSV and JSON files up to 10MB")
+      screen.getByText("Supports CSV, JSON and Excel/ODS files up to 10MB")
     ).toBeInTheDocument();
   });
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -23,6 +23,13 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { referenceDataManager } from "@/lib/utils/reference-data-manager";
+import {
+  isSpreadsheetFile,
+  readWorkbook,
+  sheetToRows,
+  type SpreadsheetWorkbook,
+} from "@/lib/utils/spreadsheet-parser";
+import { SpreadsheetSheetPicker } from "@/components/spreadsheet-sheet-picker";
 import type {
   ReferenceDataInfo,
   ValidationResult,
@@ -42,6 +49,7 @@ interface FileValidation {
   file: File;
   validation: ValidationResult;
   preview: Record<string, unknown>[];
+  workbook?: SpreadsheetWorkbook;
   error?: string;
 }
 
@@ -62,10 +70,26 @@ export function ReferenceUploadDialog({
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [customId, setCustomId] = useState("");
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState(1);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const workbook = fileValidation?.workbook;
+  const preview = useMemo(() => {
+    if (!workbook || !sheetName) return fileValidation?.preview || [];
+    try {
+      return sheetToRows(workbook, sheetName, {
+        headerRow: headerRow - 1,
+      }).slice(0, 5);
+    } catch {
+      return [];
+    }
+  }, [fileValidation, workbook, sheetName, headerRow]);
+
   const resetState = useCallback(() => {
     setSelectedFile(null);
+    setSheetName("");
+    setHeaderRow(1);
     setFileValidation(null);
     setIsUploading(false);
     setUploadProgress(0);
@@ -83,14 +107,21 @@ export function ReferenceUploadDialog({
       try {
         // Validate file type
         const validTypes = ["text/csv", "application/json", "text/plain"];
-        const validExtensions = [".csv", ".json", ".txt"];
+        const validExtensions = [
+          ".csv",
+          ".json",
+          ".txt",
+          ".xlsx",
+          ".xls",
+          ".ods",
+        ];
         const hasValidType =
           validTypes.includes(file.type) ||
           validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
 
         if (!hasValidType) {
           throw new Error(
-            "Invalid file type. Please upload a CSV or JSON file."
+            "Invalid file type. Please upload a CSV, JSON or spreadsheet file."
           );
         }
 
@@ -103,6 +134,12 @@ export function ReferenceUploadDialog({
         const validation =
           await referenceDataManager.validateReferenceData(file);
 
+        // Spreadsheets are previewed per sheet via the sheet picker
+        if (isSpreadsheetFile(file.name)) {
+          const workbook = readWorkbook(await file.arrayBuffer());
+          return { file, validation, preview: [], workbook };
+        }
+
         // Generate preview data
         const text = await file.text();
         let preview: Record<string, unknown>[] = [];
@@ -165,6 +202,8 @@ export function ReferenceUploadDialog({
 
       const validation = await validateFile(file);
       setFileValidation(validation);
+      setSheetName(validation.workbook?.sheets[0]?.name || "");
+      setHeaderRow(1);
 
       // Auto-generate ID from filename
       if (!customId) {
@@ -214,6 +253,9 @@ export function ReferenceUploadDialog({
 
       let referenceId: string;
       let referenceInfo: ReferenceDataInfo;
+      const spreadsheetOptions = workbook
+        ? { sheetName, headerRow: headerRow - 1 }
+        : {};
 
       if (mode === "replace" && existingReferenceId) {
         // Replace existing reference data
@@ -222,14 +264,15 @@ export function ReferenceUploadDialog({
         referenceInfo = await referenceDataManager.uploadReferenceFile(
           selectedFile,
           referenceId,
-          { overwrite: true }
+          { overwrite: true, ...spreadsheetOptions }
         );
       } else {
         // Upload new reference data
         const finalId = customId || `ref_${Date.now()}`;
         referenceInfo = await referenceDataManager.uploadReferenceFile(
           selectedFile,
-          finalId
+          finalId,
+          spreadsheetOptions
         );
         referenceId = referenceInfo.id;
       }
@@ -254,6 +297,9 @@ export function ReferenceUploadDialog({
     mode,
     existingReferenceId,
     customId,
+    workbook,
+    sheetName,
+    headerRow,
     onSuccess,
     onError,
     handleClose,
@@ -285,7 +331,8 @@ export function ReferenceUploadDialog({
               <>Replacing: {existingReferenceInfo.filename}</>
             ) : (
               <>
-                Upload a CSV or JSON file to use as reference data for lookups.
+                Upload a CSV, JSON or spreadsheet file to use as reference data
+                for lookups.
               </>
             )}
           </DialogDescription>
@@ -312,7 +359,7 @@ export function ReferenceUploadDialog({
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.json,.txt"
+              accept=".csv,.json,.txt,.xlsx,.xls,.ods"
               onChange={handleFileInputChange}
               className="hidden"
             />
@@ -346,7 +393,7 @@ export function ReferenceUploadDialog({
                     Drop your file here or click to browse
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    Supports CSV and JSON files up to 10MB
+                    Supports CSV, JSON and Excel/ODS files up to 10MB
                   </div>
                 </div>
               </div>
@@ -425,51 +472,60 @@ export function ReferenceUploadDialog({
                 </div>
               )}
 
+              {/* Sheet Selection */}
+              {fileValidation.validation.valid && workbook && (
+                <SpreadsheetSheetPicker
+                  workbook={workbook}
+                  sheetName={sheetName}
+                  onSheetChange={setSheetName}
+                  headerRow={headerRow}
+                  onHeaderRowChange={setHeaderRow}
+                  idPrefix="reference"
+                />
+              )}
+
               {/* Data Preview */}
-              {fileValidation.validation.valid &&
-                fileValidation.preview.length > 0 && (
-                  <div className="space-y-2">
-                    <div className="text-sm font-medium">Data Preview</div>
-                    <div className="border rounded-md overflow-auto max-h-48">
-                      <table className="w-full text-xs">
-                        <thead className="bg-muted">
-                          <tr>
-                            {Object.keys(fileValidation.preview[0]).map(
-                              header => (
-                                <th
-                                  key={header}
-                                  className="px-2 py-1 text-left font-medium"
-                                >
-                                  {header}
-                                </th>
-                              )
-                            )}
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {fileValidation.preview.map((row, index) => (
-                            <tr key={index} className="border-t">
-                              {Object.values(row).map((value, cellIndex) => (
-                                <td key={cellIndex} className="px-2 py-1">
-                                  {value != null ? (
-                                    String(value)
-                                  ) : (
-                                    <span className="text-muted-foreground italic">
-                                      empty
-                                    </span>
-                                  )}
-                                </td>
-                              ))}
-                            </tr>
+              {fileValidation.validation.valid && preview.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Data Preview</div>
+                  <div className="border rounded-md overflow-auto max-h-48">
+                    <table className="w-full text-xs">
+                      <thead className="bg-muted">
+                        <tr>
+                          {Object.keys(preview[0]).map(header => (
+                            <th
+                              key={header}
+                              className="px-2 py-1 text-left font-medium"
+                            >
+                              {header}
+                            </th>
                           ))}
-                        </tbody>
-                      </table>
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      Showing first {fileValidation.preview.length} rows
-                    </div>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.map((row, index) => (
+                          <tr key={index} className="border-t">
+                            {Object.values(row).map((value, cellIndex) => (
+                              <td key={cellIndex} className="px-2 py-1">
+                                {value != null ? (
+                                  String(value)
+                                ) : (
+                                  <span className="text-muted-foreground italic">
+                                    empty
+                                  </span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
-                )}
+                  <div className="text-xs text-muted-foreground">
+                    Showing first {preview.length} rows
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
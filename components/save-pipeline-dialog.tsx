@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks";
+import { savePipeline } from "@/lib/features/pipelinesSlice";
+import type { PipelineExportOptions } from "@/lib/types/pipelines";
+import type { ColumnMappingRule } from "@/lib/types/column-mapping";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { Workflow } from "lucide-react";
+
+interface SavePipelineDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetShape: TargetShape;
+  /** Columns of the imported data */
+  importColumns: string[];
+  /** Target field ID -> import column */
+  columnMapping: Record<string, string>;
+  /** Combine and split rules */
+  mappingRules?: ColumnMappingRule[];
+}
+
+export function SavePipelineDialog({
+  isOpen,
+  onClose,
+  targetShape,
+  importColumns,
+  columnMapping,
+  mappingRules = [],
+}: SavePipelineDialogProps) {
+  const dispatch = useAppDispatch();
+  const lastImportSource = useAppSelector(
+    state => state.pipelines.lastImportSource
+  );
+  const [name, setName] = useState("");
+  const [exportFormat, setExportFormat] =
+    useState<PipelineExportOptions["format"]>("csv");
+  const [runLookups, setRunLookups] = useState(true);
+
+  const mappedCount =
+    Object.values(columnMapping).filter(Boolean).length + mappingRules.length;
+
+  const handleSave = () => {
+    const pipelineName = name.trim() || `${targetShape.name} import`;
+
+    dispatch(
+      savePipeline({
+        name: pipelineName,
+        source: lastImportSource ?? { format: "csv", hasHeaders: true },
+        sourceColumns: importColumns,
+        columnMapping: Object.fromEntries(
+          Object.entries(columnMapping).filter(([, column]) => column)
+        ),
+        mappingRules: mappingRules.length > 0 ? mappingRules : undefined,
+        targetShapeId: targetShape.id,
+        targetShapeUpdatedAt: targetShape.updatedAt,
+        lookup: { enabled: runLookups },
+        export: { format: exportFormat },
+      })
+    );
+
+    toast({
+      title: "Pipeline saved",
+      description: `"${pipelineName}" can be run on new files from the playground`,
+    });
+    setName("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Save as Pipeline
+          </DialogTitle>
+          <DialogDescription>
+            Record the import options, {mappedCount} column mapping
+            {mappedCount === 1 ? "" : "s"} to &quot;{targetShape.name}&quot;,
+            lookups and export format so they can be replayed on a new file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pipeline-name">Name</Label>
+            <Input
+              id="pipeline-name"
+              value={name}
+              placeholder={`${targetShape.name} import`}
+              onChange={event => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Export format</Label>
+            <Select
+              value={exportFormat}
+              onValueChange={value =>
+                setExportFormat(value as PipelineExportOptions["format"])
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="pipeline-lookups"
+              checked={runLookups}
+              onCheckedChange={setRunLookups}
+            />
+            <Label htmlFor="pipeline-lookups" className="text-sm">
+              Run lookups
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={mappedCount === 0}>
+            Save Pipeline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import type { SchemaDriftReport } from "@/lib/utils/schema-drift";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+
+interface SchemaDriftAlertProps {
+  report: SchemaDriftReport;
+  /** When the mapping the file is compared with was applied (ISO string) */
+  lastAppliedAt: string;
+  acknowledged: boolean;
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+  className?: string;
+}
+
+export function SchemaDriftAlert({
+  report,
+  lastAppliedAt,
+  acknowledged,
+  onAcknowledgedChange,
+  className = "",
+}: SchemaDriftAlertProps) {
+  if (!report.hasDrift) return null;
+
+  const { addedColumns, droppedColumns, renamedColumns } = report;
+  const lostFields = droppedColumns.flatMap(column => column.fieldNames);
+
+  return (
+    <div
+      className={`p-4 bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-lg space-y-3 ${className}`}
+    >
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+        <div>
+          <div className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+            Columns changed since the last import
+          </div>
+          <div className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
+            Compared with the mapping applied on{" "}
+            {new Date(lastAppliedAt).toLocaleDateString()}.
+            {lostFields.length > 0 &&
+              ` ${lostFields.join(", ")} will be empty unless mapped to another column.`}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {droppedColumns.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">Dropped:</span>
+            {droppedColumns.map(({ column, fieldNames }) => (
+              <Badge
+                key={column}
+                variant="outline"
+                className="text-red-700 dark:text-red-300"
+                title={
+                  fieldNames.length > 0
+                    ? `Filled ${fieldNames.join(", ")}`
+                    : "Was not mapped"
+                }
+              >
+                {column}
+                {fieldNames.length > 0 && ` → ${fieldNames.join(", ")}`}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {renamedColumns.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">Likely renamed:</span>
+            {renamedColumns.map(({ from, to, similarity }) => (
+              <Badge
+                key={from}
+                variant="outline"
+                className="flex items-center gap-1 text-orange-700 dark:text-orange-300"
+              >
+                {from}
+                <ArrowRight className="w-3 h-3" />
+                {to} ({Math.round(similarity * 100)}%)
+              </Badge>
+            ))}
+          </div>
+        )}
+        {addedColumns.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">Added:</span>
+            {addedColumns.map(column => (
+              <Badge key={column} variant="outline">
+                {column}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="acknowledge-schema-drift"
+          checked={acknowledged}
+          onCheckedChange={checked => onAcknowledgedChange(checked === true)}
+        />
+        <Label htmlFor="acknowledge-schema-drift" className="text-sm">
+          I reviewed these column changes
+        </Label>
+      </div>
+    </div>
+  );
+}
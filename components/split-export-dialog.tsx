@@ -0,0 +1,162 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import {
+  SPLIT_EXPORT_FORMATS,
+  splitByValidation,
+  writeSplitFile,
+  type SplitExportFormat,
+} from "@/lib/utils/validation-split-export";
+import { downloadFile, generateFilename } from "@/lib/utils/csv-export";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { Split } from "lucide-react";
+
+interface SplitExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: Record<string, any>[];
+  /** Applied target shape the rows are validated against */
+  targetShape: TargetShape;
+  currentVersion?: number;
+}
+
+export function SplitExportDialog({
+  isOpen,
+  onClose,
+  data,
+  targetShape,
+  currentVersion,
+}: SplitExportDialogProps) {
+  const [format, setFormat] = useState<SplitExportFormat>("csv");
+
+  const split = useMemo(
+    () => (isOpen ? splitByValidation(data, targetShape) : null),
+    [isOpen, data, targetShape]
+  );
+
+  const handleDownload = (side: "valid" | "rejected") => {
+    if (!split) return;
+
+    try {
+      const rows = side === "valid" ? split.valid : split.rejected;
+      const file = writeSplitFile(
+        rows,
+        format,
+        side === "valid" ? "Valid" : "Rejected"
+      );
+      const filename = generateFilename(
+        `table-data-${side}`,
+        file.extension,
+        currentVersion
+      );
+      downloadFile(file.content, filename, file.mimeType);
+
+      toast({
+        title: "Export successful",
+        description: `${format.toUpperCase()} file "${filename}" has been downloaded`,
+      });
+    } catch (error) {
+      console.error("Split export error:", error);
+      toast({
+        title: "Export failed",
+        description: `Failed to export ${side} rows. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="h-5 w-5" />
+            Valid / Rejected Export
+          </DialogTitle>
+          <DialogDescription>
+            Rows are validated against &quot;{targetShape.name}&quot;. Rows with
+            errors go to the rejected file, one line per error with the row
+            number, field, rule, message and suggested fix.
+          </DialogDescription>
+        </DialogHeader>
+
+        {split && (
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">
+              {split.stats.validRows} valid row
+              {split.stats.validRows === 1 ? "" : "s"}
+            </Badge>
+            <Badge
+              variant={
+                split.stats.rejectedRows > 0 ? "destructive" : "secondary"
+              }
+            >
+              {split.stats.rejectedRows} rejected row
+              {split.stats.rejectedRows === 1 ? "" : "s"}
+            </Badge>
+            <Badge variant="outline">
+              {split.stats.errors} error{split.stats.errors === 1 ? "" : "s"}
+            </Badge>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select
+            value={format}
+            onValueChange={value => setFormat(value as SplitExportFormat)}
+          >
+            <SelectTrigger aria-label="Format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPLIT_EXPORT_FORMATS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleDownload("rejected")}
+            disabled={!split || split.rejected.length === 0}
+          >
+            Download rejected
+          </Button>
+          <Button
+            onClick={() => handleDownload("valid")}
+            disabled={!split || split.valid.length === 0}
+          >
+            Download valid
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
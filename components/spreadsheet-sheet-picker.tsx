@@ -0,0 +1,76 @@
+"use client";
+
+import { Sheet } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SpreadsheetWorkbook } from "@/lib/utils/spreadsheet-parser";
+
+interface SpreadsheetSheetPickerProps {
+  workbook: SpreadsheetWorkbook;
+  sheetName: string;
+  onSheetChange: (sheetName: string) => void;
+  /** One-based header row number as shown in spreadsheet apps */
+  headerRow: number;
+  onHeaderRowChange: (headerRow: number) => void;
+  idPrefix?: string;
+}
+
+export function SpreadsheetSheetPicker({
+  workbook,
+  sheetName,
+  onSheetChange,
+  headerRow,
+  onHeaderRowChange,
+  idPrefix = "spreadsheet",
+}: SpreadsheetSheetPickerProps) {
+  const selectedSheet = workbook.sheets.find(sheet => sheet.name === sheetName);
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-sheet`}>Sheet</Label>
+        <Select value={sheetName} onValueChange={onSheetChange}>
+          <SelectTrigger id={`${idPrefix}-sheet`} className="w-full">
+            <SelectValue placeholder="Select sheet..." />
+          </SelectTrigger>
+          <SelectContent>
+            {workbook.sheets.map(sheet => (
+              <SelectItem key={sheet.name} value={sheet.name}>
+                <span className="flex items-center gap-2">
+                  <Sheet className="h-3 w-3" />
+                  {sheet.name}
+                  <span className="text-xs text-muted-foreground">
+                    {sheet.rowCount} rows
+                  </span>
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-header-row`}>Header row</Label>
+        <Input
+          id={`${idPrefix}-header-row`}
+          type="number"
+          min={1}
+          max={Math.max(selectedSheet?.rowCount || 1, 1)}
+          value={headerRow}
+          onChange={e =>
+            onHeaderRowChange(Math.max(1, Number(e.target.value) || 1))
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          Rows above the header row are skipped.
+        </p>
+      </div>
+    </div>
+  );
+}
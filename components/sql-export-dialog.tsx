@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import {
+  SQL_DIALECTS,
+  convertToSql,
+  getSqlColumns,
+  toSqlTableName,
+  type SqlDialect,
+  type SqlExportOptions,
+} from "@/lib/utils/sql-export";
+import { downloadFile, generateFilename } from "@/lib/utils/csv-export";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "lucide-react";
+
+/** Rows included in the preview */
+const PREVIEW_ROWS = 3;
+
+const NO_KEY = "__none__";
+
+interface SqlExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: Record<string, any>[];
+  /** Applied target shape, used for column types and the table name */
+  targetShape?: TargetShape | null;
+  currentVersion?: number;
+}
+
+export function SqlExportDialog({
+  isOpen,
+  onClose,
+  data,
+  targetShape,
+  currentVersion,
+}: SqlExportDialogProps) {
+  const [dialect, setDialect] = useState<SqlDialect>("postgresql");
+  const [tableName, setTableName] = useState("");
+  const [includeCreateTable, setIncludeCreateTable] = useState(true);
+  const [mode, setMode] =
+    useState<NonNullable<SqlExportOptions["mode"]>>("insert");
+  const [keyColumn, setKeyColumn] = useState(NO_KEY);
+
+  const columns = useMemo(
+    () => getSqlColumns(data, targetShape),
+    [data, targetShape]
+  );
+
+  const options = useMemo<SqlExportOptions>(
+    () => ({
+      dialect,
+      tableName:
+        tableName.trim() || toSqlTableName(targetShape?.name ?? "table_data"),
+      includeCreateTable,
+      mode,
+      keyColumns: keyColumn === NO_KEY ? [] : [keyColumn],
+    }),
+    [dialect, tableName, targetShape, includeCreateTable, mode, keyColumn]
+  );
+  const needsKey = mode === "upsert" && keyColumn === NO_KEY;
+
+  const preview = useMemo(() => {
+    if (needsKey || data.length === 0) return "";
+    try {
+      return convertToSql(data.slice(0, PREVIEW_ROWS), options, targetShape);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [data, options, targetShape, needsKey]);
+
+  const handleExport = () => {
+    try {
+      const sql = convertToSql(data, options, targetShape);
+      const filename = generateFilename("table-data", "sql", currentVersion);
+      downloadFile(sql, filename, "application/sql");
+
+      toast({
+        title: "Export successful",
+        description: `SQL file "${filename}" has been downloaded`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("SQL export error:", error);
+      toast({
+        title: "Export failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to export SQL file. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Export as SQL
+          </DialogTitle>
+          <DialogDescription>
+            {targetShape
+              ? `Column types come from "${targetShape.name}".`
+              : "No target shape is applied, so columns are typed from their values."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Dialect</Label>
+            <Select
+              value={dialect}
+              onValueChange={value => setDialect(value as SqlDialect)}
+            >
+              <SelectTrigger aria-label="Dialect">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SQL_DIALECTS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sql-table-name">Table name</Label>
+            <Input
+              id="sql-table-name"
+              value={tableName}
+              placeholder={toSqlTableName(targetShape?.name ?? "table_data")}
+              onChange={event => setTableName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Statements</Label>
+            <Select
+              value={mode}
+              onValueChange={value => setMode(value as typeof mode)}
+            >
+              <SelectTrigger aria-label="Statements">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="insert">INSERT</SelectItem>
+                <SelectItem value="upsert">Upsert</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Key column</Label>
+            <Select value={keyColumn} onValueChange={setKeyColumn}>
+              <SelectTrigger aria-label="Key column">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_KEY}>
+                  <span className="text-muted-foreground">None</span>
+                </SelectItem>
+                {columns.map(column => (
+                  <SelectItem key={column.name} value={column.name}>
+                    {column.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="sql-create-table"
+            checked={includeCreateTable}
+            onCheckedChange={setIncludeCreateTable}
+          />
+          <Label htmlFor="sql-create-table" className="text-sm">
+            Include CREATE TABLE
+          </Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Preview</Label>
+          <Textarea
+            readOnly
+            value={
+              needsKey ? "Choose a key column to generate upserts." : preview
+            }
+            className="font-mono text-xs h-48"
+            aria-label="SQL preview"
+          />
+          {data.length > PREVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {PREVIEW_ROWS} of {data.length} rows.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={needsKey || data.length === 0}
+          >
+            Download SQL
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TargetShape } from "@/lib/types/target-shapes";
+import {
+  coerceRows,
+  typedRowsToCsv,
+  type TypedExportOptions,
+} from "@/lib/utils/typed-export";
+import { downloadFile, generateFilename } from "@/lib/utils/csv-export";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { AlertTriangle, FileCheck } from "lucide-react";
+
+/** Failures listed in the dialog; the count covers all of them */
+const MAX_LISTED_FAILURES = 10;
+
+const AS_PARSED = "as-parsed";
+const ISO = "iso";
+
+const DATE_FORMATS = [
+  { value: "yyyy-MM-dd", label: "2024-01-31 (ISO)" },
+  { value: "MM/dd/yyyy", label: "01/31/2024" },
+  { value: "dd/MM/yyyy", label: "31/01/2024" },
+  { value: "dd.MM.yyyy", label: "31.01.2024" },
+];
+
+const DATETIME_FORMATS = [
+  { value: ISO, label: "ISO 8601 with offset" },
+  { value: "yyyy-MM-dd HH:mm:ss", label: "2024-01-31 13:45:00" },
+  { value: "MM/dd/yyyy HH:mm", label: "01/31/2024 13:45" },
+];
+
+interface TypedExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: Record<string, any>[];
+  /** Applied target shape whose field types the values are coerced to */
+  targetShape: TargetShape;
+  currentVersion?: number;
+}
+
+export function TypedExportDialog({
+  isOpen,
+  onClose,
+  data,
+  targetShape,
+  currentVersion,
+}: TypedExportDialogProps) {
+  const [format, setFormat] = useState<"json" | "csv">("json");
+  const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0].value);
+  const [datetimeFormat, setDatetimeFormat] = useState(ISO);
+  const [decimalPlaces, setDecimalPlaces] = useState(AS_PARSED);
+  const [decimalSeparator, setDecimalSeparator] =
+    useState<NonNullable<TypedExportOptions["decimalSeparator"]>>(".");
+  const [percentageAs, setPercentageAs] =
+    useState<NonNullable<TypedExportOptions["percentageAs"]>>("number");
+
+  const options = useMemo<TypedExportOptions>(
+    () => ({
+      dateFormat,
+      datetimeFormat: datetimeFormat === ISO ? undefined : datetimeFormat,
+      decimalPlaces:
+        decimalPlaces === AS_PARSED ? undefined : Number(decimalPlaces),
+      decimalSeparator,
+      percentageAs,
+    }),
+    [dateFormat, datetimeFormat, decimalPlaces, decimalSeparator, percentageAs]
+  );
+
+  const result = useMemo(
+    () => (isOpen ? coerceRows(data, targetShape.fields, options) : null),
+    [isOpen, data, targetShape.fields, options]
+  );
+
+  const handleExport = () => {
+    if (!result) return;
+
+    try {
+      const filename = generateFilename(
+        "table-data-typed",
+        format,
+        currentVersion
+      );
+      if (format === "json") {
+        downloadFile(
+          JSON.stringify(result.data, null, 2),
+          filename,
+          "application/json"
+        );
+      } else {
+        downloadFile(
+          typedRowsToCsv(result.data, targetShape.fields, options),
+          filename,
+          "text/csv"
+        );
+      }
+
+      toast({
+        title: "Export successful",
+        description:
+          result.stats.failedCells > 0
+            ? `"${filename}" has been downloaded; ${result.stats.failedCells} values could not be converted and were left empty`
+            : `${format.toUpperCase()} file "${filename}" has been downloaded`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Typed export error:", error);
+      toast({
+        title: "Export failed",
+        description: "Failed to export typed data. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectField = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    items: { value: string; label: string }[]
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {items.map(item => (
+            <SelectItem key={item.value} value={item.value}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5" />
+            Typed Export
+          </DialogTitle>
+          <DialogDescription>
+            Values are converted to the field types of &quot;
+            {targetShape.name}&quot;: numbers, booleans and dates instead of
+            text.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {selectField(
+            "Format",
+            format,
+            value => setFormat(value as typeof format),
+            [
+              { value: "json", label: "JSON" },
+              { value: "csv", label: "CSV" },
+            ]
+          )}
+          {selectField("Dates", dateFormat, setDateFormat, DATE_FORMATS)}
+          {selectField(
+            "Date and time",
+            datetimeFormat,
+            setDatetimeFormat,
+            DATETIME_FORMATS
+          )}
+          {selectField("Decimal places", decimalPlaces, setDecimalPlaces, [
+            { value: AS_PARSED, label: "As written" },
+            { value: "0", label: "0" },
+            { value: "2", label: "2" },
+            { value: "4", label: "4" },
+          ])}
+          {selectField(
+            "Source numbers",
+            decimalSeparator,
+            value => setDecimalSeparator(value as typeof decimalSeparator),
+            [
+              { value: ".", label: "1,200.50" },
+              { value: ",", label: "1.200,50" },
+            ]
+          )}
+          {selectField(
+            "Percentages",
+            percentageAs,
+            value => setPercentageAs(value as typeof percentageAs),
+            [
+              { value: "number", label: "50% as 50" },
+              { value: "fraction", label: "50% as 0.5" },
+            ]
+          )}
+        </div>
+
+        {result && result.failures.length > 0 && (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-yellow-800 dark:text-yellow-200">
+              <AlertTriangle className="w-4 h-4" />
+              {result.stats.failedCells} value
+              {result.stats.failedCells === 1 ? "" : "s"} could not be converted
+              and will be exported as empty
+            </div>
+            <ul className="text-xs text-yellow-700 dark:text-yellow-300 space-y-1">
+              {result.failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                <li key={`${failure.rowIndex}:${failure.fieldName}`}>
+                  Row {failure.rowIndex + 1}, {failure.fieldName}: &quot;
+                  {String(failure.value)}&quot; ({failure.message.toLowerCase()}
+                  )
+                </li>
+              ))}
+              {result.failures.length > MAX_LISTED_FAILURES && (
+                <li>and {result.failures.length - MAX_LISTED_FAILURES} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={data.length === 0}>
+            Download {format.toUpperCase()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
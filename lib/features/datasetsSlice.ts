@@ -0,0 +1,99 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type {
+  DatasetDiff,
+  SavedDatasetSummary,
+} from "@/lib/types/dataset-diff";
+import type { TableRow } from "@/lib/features/tableSlice";
+import { datasetStorage } from "@/lib/utils/dataset-storage";
+import { compareWithDataset } from "@/lib/utils/dataset-diff";
+
+interface DatasetsState {
+  datasets: SavedDatasetSummary[];
+  /** Result of the last comparison, shown above the table */
+  activeDiff: DatasetDiff | null;
+  error: string | null;
+}
+
+const initialState: DatasetsState = {
+  datasets: typeof window === "undefined" ? [] : datasetStorage.getSummaries(),
+  activeDiff: null,
+  error: null,
+};
+
+export const datasetsSlice = createSlice({
+  name: "datasets",
+  initialState,
+  reducers: {
+    // Load saved dataset summaries from storage
+    loadDatasets: state => {
+      state.datasets = datasetStorage.getSummaries();
+      state.error = null;
+    },
+
+    // Save the current rows as a dataset to compare later imports with
+    saveDataset: (
+      state,
+      action: PayloadAction<{
+        name: string;
+        rows: TableRow[];
+        columns: string[];
+        targetShapeId?: string | null;
+      }>
+    ) => {
+      try {
+        state.datasets.push(datasetStorage.save(action.payload));
+        state.error = null;
+      } catch {
+        state.error = "Failed to save dataset";
+      }
+    },
+
+    // Delete a saved dataset
+    deleteDataset: (state, action: PayloadAction<string>) => {
+      if (datasetStorage.delete(action.payload)) {
+        state.datasets = state.datasets.filter(d => d.id !== action.payload);
+        if (state.activeDiff?.baseDatasetId === action.payload) {
+          state.activeDiff = null;
+        }
+        state.error = null;
+      } else {
+        state.error = "Failed to delete dataset";
+      }
+    },
+
+    // Compare rows with a saved dataset through a key column
+    compareWithSavedDataset: (
+      state,
+      action: PayloadAction<{
+        datasetId: string;
+        rows: TableRow[];
+        keyColumn: string;
+      }>
+    ) => {
+      const { datasetId, rows, keyColumn } = action.payload;
+      const dataset = datasetStorage.getById(datasetId);
+
+      if (dataset) {
+        state.activeDiff = compareWithDataset(dataset, rows, keyColumn);
+        state.error = null;
+      } else {
+        state.error = "Saved dataset not found";
+      }
+    },
+
+    // Hide the comparison
+    clearDatasetDiff: state => {
+      state.activeDiff = null;
+    },
+  },
+});
+
+export const {
+  loadDatasets,
+  saveDataset,
+  deleteDataset,
+  compareWithSavedDataset,
+  clearDatasetDiff,
+} = datasetsSlice.actions;
+
+export default datasetsSlice.reducer;
@@ -1,12 +1,14 @@
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { createSlice, current, PayloadAction } from "@reduxjs/toolkit";
 import type { RootState } from "@/lib/store";
+import { getTableSnapshotAt, type TablePatch } from "../utils/history-patches";
 
 export interface HistoryAction {
   type: string;
   payload?: any;
   timestamp: number;
   id: string;
-  stateSnapshot?: any; // Store state at this point
+  patches?: TablePatch[]; // Changes to the table since the previous entry
+  stateSnapshot?: any; // Table state checkpoint, only on some entries
 }
 
 interface HistoryState {
@@ -40,7 +42,17 @@ export const historySlice = createSlice({
 
       // Limit history size
       if (state.actions.length > state.maxHistorySize) {
-        state.actions = state.actions.slice(-state.maxHistorySize);
+        const dropped = state.actions.length - state.maxHistorySize;
+
+        // The oldest kept entry must be a checkpoint to rebuild the rest
+        if (!state.actions[dropped].stateSnapshot) {
+          state.actions[dropped].stateSnapshot = getTableSnapshotAt(
+            current(state.actions),
+            dropped
+          );
+        }
+
+        state.actions = state.actions.slice(dropped);
         state.currentIndex = state.actions.length - 1;
       }
     },
@@ -0,0 +1,139 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type {
+  AppliedMappingSnapshot,
+  LearnedMapping,
+} from "@/lib/types/mapping-memory";
+import type { ColumnMappingRule } from "@/lib/types/column-mapping";
+import type { TargetField } from "@/lib/types/target-shapes";
+import { mappingMemoryStorage } from "@/lib/utils/mapping-memory-storage";
+
+interface MappingMemoryState {
+  learnedMappings: LearnedMapping[];
+  /** Target shape ID -> mapping applied most recently */
+  lastMappings: Record<string, AppliedMappingSnapshot>;
+  error: string | null;
+}
+
+const initialState: MappingMemoryState = {
+  learnedMappings:
+    typeof window === "undefined" ? [] : mappingMemoryStorage.getAll(),
+  lastMappings:
+    typeof window === "undefined" ? {} : mappingMemoryStorage.getLastMappings(),
+  error: null,
+};
+
+export const mappingMemorySlice = createSlice({
+  name: "mappingMemory",
+  initialState,
+  reducers: {
+    // Load all learned mappings
+    loadLearnedMappings: state => {
+      state.learnedMappings = mappingMemoryStorage.getAll();
+      state.lastMappings = mappingMemoryStorage.getLastMappings();
+      state.error = null;
+    },
+
+    // Remember the column mapping applied to a target shape; with the
+    // file's columns it also becomes the shape's last mapping
+    recordAppliedMapping: (
+      state,
+      action: PayloadAction<{
+        targetShapeId: string;
+        columnMapping: Record<string, string>;
+        fields: Pick<TargetField, "id" | "name">[];
+        sourceColumns?: string[];
+        mappingRules?: ColumnMappingRule[];
+      }>
+    ) => {
+      const {
+        targetShapeId,
+        columnMapping,
+        fields,
+        sourceColumns,
+        mappingRules,
+      } = action.payload;
+      try {
+        state.learnedMappings = mappingMemoryStorage.record(
+          targetShapeId,
+          columnMapping,
+          fields
+        );
+        if (sourceColumns) {
+          state.lastMappings = mappingMemoryStorage.recordLastMapping({
+            targetShapeId,
+            sourceColumns,
+            columnMapping,
+            ...(mappingRules?.length ? { mappingRules } : {}),
+            appliedAt: new Date().toISOString(),
+          });
+        }
+        state.error = null;
+      } catch {
+        state.error = "Failed to save learned mappings";
+      }
+    },
+
+    // Edit a learned mapping
+    updateLearnedMapping: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        updates: Partial<
+          Pick<LearnedMapping, "sourceHeader" | "fieldId" | "fieldName">
+        >;
+      }>
+    ) => {
+      const { id, updates } = action.payload;
+      const updated = mappingMemoryStorage.update(id, updates);
+
+      if (updated) {
+        const index = state.learnedMappings.findIndex(m => m.id === id);
+        if (index !== -1) {
+          state.learnedMappings[index] = updated;
+        }
+        state.error = null;
+      } else {
+        state.error = "Failed to update learned mapping";
+      }
+    },
+
+    // Forget one learned mapping
+    deleteLearnedMapping: (state, action: PayloadAction<string>) => {
+      if (mappingMemoryStorage.delete(action.payload)) {
+        state.learnedMappings = state.learnedMappings.filter(
+          m => m.id !== action.payload
+        );
+        state.error = null;
+      } else {
+        state.error = "Failed to delete learned mapping";
+      }
+    },
+
+    // Forget the learned mappings of a target shape, or all of them
+    clearLearnedMappings: (
+      state,
+      action: PayloadAction<string | undefined>
+    ) => {
+      if (action.payload) {
+        mappingMemoryStorage.deleteForShape(action.payload);
+        state.learnedMappings = state.learnedMappings.filter(
+          m => m.targetShapeId !== action.payload
+        );
+      } else {
+        mappingMemoryStorage.clear();
+        state.learnedMappings = [];
+      }
+      state.error = null;
+    },
+  },
+});
+
+export const {
+  loadLearnedMappings,
+  recordAppliedMapping,
+  updateLearnedMapping,
+  deleteLearnedMapping,
+  clearLearnedMappings,
+} = mappingMemorySlice.actions;
+
+export default mappingMemorySlice.reducer;
@@ -0,0 +1,205 @@
+import { createSlice, PayloadAction, createAsyncThunk } from "@reduxjs/toolkit";
+import type { RootState } from "@/lib/store";
+import type {
+  ImportPipeline,
+  PipelineRunReport,
+  PipelineSourceOptions,
+} from "@/lib/types/pipelines";
+import { pipelineStorage } from "@/lib/utils/pipeline-storage";
+import { targetShapesStorage } from "@/lib/utils/target-shapes-storage";
+import {
+  PipelineError,
+  runPipeline,
+  summarizePipelineRun,
+  type PipelineInputFile,
+  type PipelineOutput,
+} from "@/lib/utils/pipeline-runner";
+import {
+  setAppliedTargetShapeId,
+  setColumnOrder,
+  setData,
+  setTransformationReport,
+} from "./tableSlice";
+
+interface PipelinesState {
+  pipelines: ImportPipeline[];
+  /** Source options of the last manual import, recorded into new pipelines */
+  lastImportSource: PipelineSourceOptions | null;
+  isRunning: boolean;
+  progress: number;
+  lastReport: PipelineRunReport | null;
+  error: string | null;
+}
+
+// Replay a saved pipeline on a new file and load the result into the table
+export const runImportPipeline = createAsyncThunk(
+  "pipelines/run",
+  async (
+    { pipelineId, file }: { pipelineId: string; file: PipelineInputFile },
+    { dispatch, getState, signal }
+  ): Promise<{
+    pipeline: ImportPipeline;
+    report: PipelineRunReport;
+    output: PipelineOutput;
+  }> => {
+    const state = getState() as RootState;
+    const pipeline =
+      state.pipelines.pipelines.find(p => p.id === pipelineId) ??
+      pipelineStorage.getById(pipelineId);
+    if (!pipeline) {
+      throw new PipelineError(`Pipeline "${pipelineId}" not found`);
+    }
+
+    const targetShape =
+      state.targetShapes.shapes.find(s => s.id === pipeline.targetShapeId) ??
+      targetShapesStorage.getById(pipeline.targetShapeId);
+    if (!targetShape) {
+      throw new PipelineError(
+        `Target shape for pipeline "${pipeline.name}" no longer exists`
+      );
+    }
+
+    const result = await runPipeline(pipeline, targetShape, file, {
+      signal,
+      onProgress: (processed, total) =>
+        dispatch(setPipelineProgress(Math.floor((processed / total) * 100))),
+    });
+
+    // Table settings first, so the setData history entry captures them
+    dispatch(setColumnOrder(result.columnOrder));
+    dispatch(setAppliedTargetShapeId(targetShape.id));
+    dispatch(setTransformationReport(result.transformationReport));
+    dispatch(setData(result.data));
+
+    const updatedPipeline =
+      pipelineStorage.update(pipeline.id, {
+        lastRun: summarizePipelineRun(result.report, result.sourceColumns),
+      }) ?? pipeline;
+
+    return {
+      pipeline: updatedPipeline,
+      report: result.report,
+      output: result.output,
+    };
+  }
+);
+
+const initialState: PipelinesState = {
+  pipelines: typeof window === "undefined" ? [] : pipelineStorage.getAll(),
+  lastImportSource: null,
+  isRunning: false,
+  progress: 0,
+  lastReport: null,
+  error: null,
+};
+
+export const pipelinesSlice = createSlice({
+  name: "pipelines",
+  initialState,
+  reducers: {
+    // Load all pipelines
+    loadPipelines: state => {
+      state.pipelines = pipelineStorage.getAll();
+      state.error = null;
+    },
+
+    // Save a new pipeline
+    savePipeline: (
+      state,
+      action: PayloadAction<
+        Omit<ImportPipeline, "id" | "createdAt" | "updatedAt">
+      >
+    ) => {
+      try {
+        state.pipelines.push(pipelineStorage.save(action.payload));
+        state.error = null;
+      } catch {
+        state.error = "Failed to save pipeline";
+      }
+    },
+
+    // Update an existing pipeline
+    updatePipeline: (
+      state,
+      action: PayloadAction<{ id: string; updates: Partial<ImportPipeline> }>
+    ) => {
+      const { id, updates } = action.payload;
+      const updatedPipeline = pipelineStorage.update(id, updates);
+
+      if (updatedPipeline) {
+        const index = state.pipelines.findIndex(p => p.id === id);
+        if (index !== -1) {
+          state.pipelines[index] = updatedPipeline;
+        }
+        state.error = null;
+      } else {
+        state.error = "Failed to update pipeline";
+      }
+    },
+
+    // Delete a pipeline
+    deletePipeline: (state, action: PayloadAction<string>) => {
+      if (pipelineStorage.delete(action.payload)) {
+        state.pipelines = state.pipelines.filter(p => p.id !== action.payload);
+        state.error = null;
+      } else {
+        state.error = "Failed to delete pipeline";
+      }
+    },
+
+    // Remember how the current data was imported
+    setLastImportSource: (
+      state,
+      action: PayloadAction<PipelineSourceOptions | null>
+    ) => {
+      state.lastImportSource = action.payload;
+    },
+
+    setPipelineProgress: (state, action: PayloadAction<number>) => {
+      state.progress = action.payload;
+    },
+
+    clearPipelineReport: state => {
+      state.lastReport = null;
+      state.error = null;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(runImportPipeline.pending, state => {
+        state.isRunning = true;
+        state.progress = 0;
+        state.lastReport = null;
+        state.error = null;
+      })
+      .addCase(runImportPipeline.fulfilled, (state, action) => {
+        const { pipeline, report } = action.payload;
+        state.isRunning = false;
+        state.progress = 100;
+        state.lastReport = report;
+
+        const index = state.pipelines.findIndex(p => p.id === pipeline.id);
+        if (index !== -1) {
+          state.pipelines[index] = pipeline;
+        }
+      })
+      .addCase(runImportPipeline.rejected, (state, action) => {
+        state.isRunning = false;
+        state.error = action.meta.aborted
+          ? null
+          : action.error.message || "Pipeline run failed";
+      });
+  },
+});
+
+export const {
+  loadPipelines,
+  savePipeline,
+  updatePipeline,
+  deletePipeline,
+  setLastImportSource,
+  setPipelineProgress,
+  clearPipelineReport,
+} = pipelinesSlice.actions;
+
+export default pipelinesSlice.reducer;
@@ -3,8 +3,29 @@ import { configureStore } from "@reduxjs/toolkit";
 import tableReducer, {
   setData,
   applyTemplate,
+  updateCells,
+  startEditing,
+  insertRow,
+  duplicateRows,
+  deleteRows,
+  mergeDuplicateRows,
+  addColumn,
+  renameColumn,
+  duplicateColumn,
+  deleteColumn,
+  updateCell,
+  setSorting,
+  setColumnVisibility,
+  setRowSelection,
+  importJsonData,
+  setAppliedTargetShapeId,
   type TableRow,
 } from "./tableSlice";
+import targetShapesReducer, {
+  removeComputedField,
+  saveComputedField,
+} from "./targetShapesSlice";
+import type { TargetShape } from "../types/target-shapes";
 
 describe("Table Slice", () => {
   const createTestStore = () => {
@@ -128,6 +149,67 @@ describe("Table Slice", () => {
       });
     });
 
+    it("should combine and split columns with mapping rules", () => {
+      const store = createTestStore();
+
+      store.dispatch(
+        setData([
+          {
+            _rowId: "row1",
+            first: "John",
+            last: "Doe",
+            location: "Austin, TX",
+          },
+        ])
+      );
+
+      store.dispatch(
+        applyTemplate({
+          targetShapeId: "person-template",
+          targetShapeName: "Person Template",
+          columnMapping: {},
+          mappingRules: [
+            {
+              kind: "combine",
+              targetFieldId: "field_name",
+              sourceColumns: ["first", "last"],
+            },
+            {
+              kind: "split",
+              sourceColumn: "location",
+              separator: ",",
+              targets: [
+                { targetFieldId: "field_city", index: 0 },
+                { targetFieldId: "field_state", index: 1 },
+              ],
+            },
+          ],
+          fieldMappings: {
+            field_name: "Name",
+            field_city: "City",
+            field_state: "State",
+            field_country: "Country",
+          },
+          targetFields: [
+            { id: "field_name", name: "Name" },
+            { id: "field_city", name: "City" },
+            { id: "field_state", name: "State" },
+            { id: "field_country", name: "Country" },
+          ],
+        })
+      );
+
+      const state = store.getState().table;
+
+      expect(state.data[0]).toEqual({
+        _rowId: "row1",
+        Name: "John Doe",
+        City: "Austin",
+        State: "TX",
+      });
+      expect(state.columnOrder).toEqual(["Name", "City", "State"]);
+    });
+
     it("should preserve _rowId and handle missing source fields gracefully", () => {
       const store = createTestStore();
 
@@ -182,6 +264,75 @@ describe("Table Slice", () => {
       expect(state.data[0]).not.toHaveProperty("Last Name");
     });
 
+    it("should run field transformation rules and store a report", () => {
+      const store = createTestStore();
+
+      store.dispatch(
+        setData([
+          { _rowId: "row1", name: "  john doe ", code: "SKU-123" },
+          { _rowId: "row2", name: "jane", code: "unknown" },
+        ])
+      );
+
+      store.dispatch(
+        applyTemplate({
+          targetShapeId: "product-template",
+          targetShapeName: "Product Template",
+          columnMapping: { field_name: "name", field_code: "code" },
+          fieldMappings: { field_name: "Name", field_code: "Code" },
+          targetFields: [
+            {
+              id: "field_name",
+              name: "Name",
+              transformation: [
+                { type: "uppercase", parameters: {}, order: 2 },
+                { type: "trim", parameters: {}, order: 1 },
+              ],
+            },
+            {
+              id: "field_code",
+              name: "Code",
+              transformation: [
+                { type: "extract", parameters: { pattern: "\\d+" }, order: 1 },
+              ],
+            },
+          ],
+        })
+      );
+
+      const state = store.getState().table;
+
+      expect(state.data[0]).toEqual({
+        _rowId: "row1",
+        Name: "JOHN DOE",
+        Code: "123",
+      });
+      expect(state.data[1]).toEqual({
+        _rowId: "row2",
+        Name: "JANE",
+        Code: "unknown",
+      });
+
+      expect(state.transformationReport?.stats).toEqual({
+        totalRows: 2,
+        fieldsWithRules: 2,
+        cellsChanged: 3,
+        failedCells: 1,
+      });
+      expect(state.transformationReport?.changes[0]).toMatchObject({
+        rowId: "row1",
+        fieldName: "Name",
+        before: "  john doe ",
+        after: "JOHN DOE",
+        appliedRules: ["trim", "uppercase"],
+      });
+      expect(state.transformationReport?.failures[0]).toMatchObject({
+        rowId: "row2",
+        fieldName: "Code",
+        ruleType: "extract",
+      });
+    });
+
     it("should set default sorting to first non-underscore column when no sorting exists", () => {
       const store = createTestStore();
 
@@ -691,4 +842,395 @@ describe("Table Slice", () => {
       });
     });
   });
+
+  describe("row and column structure", () => {
+    const rows: TableRow[] = [
+      { _rowId: "row1", name: "Ann", city: "Oslo" },
+      { _rowId: "row2", name: "Bo", city: "Rome" },
+    ];
+
+    const createLoadedStore = () => {
+      const store = createTestStore();
+      store.dispatch(setData(rows));
+      return store;
+    };
+
+    it("should insert an empty row with a generated _rowId", () => {
+      const store = createLoadedStore();
+      store.dispatch(insertRow({ index: 1 }));
+      const { data } = store.getState().table;
+
+      expect(data).toHaveLength(3);
+      expect(data[1]._rowId).toMatch(/^cs_/);
+      expect(data[1]).toMatchObject({ name: "", city: "" });
+      expect(data[2]._rowId).toBe("row2");
+    });
+
+    it("should duplicate rows below their originals", () => {
+      const store = createLoadedStore();
+      store.dispatch(duplicateRows({ rowIds: ["row1", "row2"] }));
+      const { data } = store.getState().table;
+
+      expect(data.map(row => row.name)).toEqual(["Ann", "Ann", "Bo", "Bo"]);
+      expect(data[1]._rowId).toMatch(/^cs_/);
+      expect(data[1]._rowId).not.toBe(data[3]._rowId);
+    });
+
+    it("should edit a duplicated row without touching the original", () => {
+      const store = createLoadedStore();
+      store.dispatch(duplicateRows({ rowIds: ["row1"] }));
+      const copyId = store.getState().table.data[1]._rowId as string;
+      store.dispatch(
+        updateCell({ rowId: copyId, columnId: "name", value: "Cy" })
+      );
+
+      expect(store.getState().table.data.map(row => row.name)).toEqual([
+        "Ann",
+        "Cy",
+        "Bo",
+      ]);
+    });
+
+    it("should update several cells in one action", () => {
+      const store = createLoadedStore();
+      store.dispatch(startEditing({ rowId: "row1", columnId: "name" }));
+      store.dispatch(
+        updateCells({
+          updates: [
+            { rowId: "row1", columnId: "city", value: "Paris" },
+            { rowId: "row2", columnId: "city", value: "Paris" },
+            { rowId: "missing", columnId: "city", value: "Lima" },
+          ],
+          source: "fillDown",
+        })
+      );
+      const state = store.getState().table;
+
+      expect(state.data.map(row => row.city)).toEqual(["Paris", "Paris"]);
+      expect(state.editingCell).toBeNull();
+    });
+
+    it("should delete rows and their selection", () => {
+      const store = createLoadedStore();
+      store.dispatch(setRowSelection({ row1: true, row2: true }));
+      store.dispatch(deleteRows({ rowIds: ["row1"] }));
+      const state = store.getState().table;
+
+      expect(state.data.map(row => row._rowId)).toEqual(["row2"]);
+      expect(state.rowSelection).toEqual({ row2: true });
+    });
+
+    it("should merge duplicate rows into the kept row", () => {
+      const store = createTestStore();
+      store.dispatch(
+        setData([
+          ...rows,
+          { _rowId: "row3", name: "Ann", city: "" },
+          { _rowId: "row4", name: "bo", city: "Roma" },
+        ])
+      );
+      store.dispatch(setRowSelection({ row3: true }));
+      store.dispatch(
+        mergeDuplicateRows({
+          merges: [
+            {
+              keepRowId: "row3",
+              removeRowIds: ["row1"],
+              values: { city: "Oslo" },
+            },
+            { keepRowId: "row2", removeRowIds: ["row4"], values: {} },
+          ],
+        })
+      );
+      const state = store.getState().table;
+
+      expect(state.data).toEqual([
+        { _rowId: "row2", name: "Bo", city: "Rome" },
+        { _rowId: "row3", name: "Ann", city: "Oslo" },
+      ]);
+      expect(state.rowSelection).toEqual({ row3: true });
+    });
+
+    it("should add columns at a position and ignore taken names", () => {
+      const store = createLoadedStore();
+      store.dispatch(addColumn({ name: "email", index: 1 }));
+      store.dispatch(addColumn({ name: "city" }));
+      store.dispatch(addColumn({ name: "_hidden" }));
+      const state = store.getState().table;
+
+      expect(state.columnOrder).toEqual(["name", "email", "city"]);
+      expect(state.data[0]).toEqual({
+        _rowId: "row1",
+        name: "Ann",
+        city: "Oslo",
+        email: "",
+      });
+    });
+
+    it("should rename a column in data, order, sorting and visibility", () => {
+      const store = createLoadedStore();
+      store.dispatch(setSorting([{ id: "city", desc: true }]));
+      store.dispatch(setColumnVisibility({ city: false }));
+      store.dispatch(renameColumn({ columnId: "city", name: "town" }));
+      const state = store.getState().table;
+
+      expect(Object.keys(state.data[0])).toEqual(["_rowId", "name", "town"]);
+      expect(state.data[0].town).toBe("Oslo");
+      expect(state.columnOrder).toEqual(["name", "town"]);
+      expect(state.sorting).toEqual([{ id: "town", desc: true }]);
+      expect(state.columnVisibility).toEqual({ town: false });
+    });
+
+    it("should not rename onto an existing column", () => {
+      const store = createLoadedStore();
+      store.dispatch(renameColumn({ columnId: "city", name: "name" }));
+
+      expect(store.getState().table.data[0]).toEqual(rows[0]);
+    });
+
+    it("should duplicate a column next to the original", () => {
+      const store = createLoadedStore();
+      store.dispatch(duplicateColumn({ columnId: "name", name: "name_copy" }));
+      const state = store.getState().table;
+
+      expect(state.columnOrder).toEqual(["name", "name_copy", "city"]);
+      expect(state.data[1].name_copy).toBe("Bo");
+    });
+
+    it("should delete a column and clear its sorting", () => {
+      const store = createLoadedStore();
+      store.dispatch(setSorting([{ id: "city", desc: false }]));
+      store.dispatch(deleteColumn({ columnId: "city" }));
+      const state = store.getState().table;
+
+      expect(state.columnOrder).toEqual(["name"]);
+      expect(state.data[0]).toEqual({ _rowId: "row1", name: "Ann" });
+      expect(state.sorting).toEqual([]);
+    });
+  });
+
+  describe("computed columns", () => {
+    const createComputedStore = () => {
+      const store = createTestStore();
+      store.dispatch(
+        setData([
+          { _rowId: "row1", price: 2, qty: 3 },
+          { _rowId: "row2", price: 5, qty: 1 },
+        ])
+      );
+      store.dispatch(
+        applyTemplate({
+          targetShapeId: "orders",
+          targetShapeName: "Orders",
+          columnMapping: { price: "price", qty: "qty" },
+          fieldMappings: { price: "price", qty: "qty", total: "total" },
+          targetFields: [
+            { id: "price", name: "price" },
+            { id: "qty", name: "qty" },
+            { id: "total", name: "total", formula: "price * qty" },
+          ],
+        })
+      );
+      return store;
+    };
+
+    it("should compute formula fields when a shape is applied", () => {
+      const state = createComputedStore().getState().table;
+
+      expect(state.columnOrder).toEqual(["price", "qty", "total"]);
+      expect(state.data.map(row => row.total)).toEqual([6, 5]);
+    });
+
+    it("should recompute a row when a cell it depends on changes", () => {
+      const store = createComputedStore();
+      store.dispatch(updateCell({ rowId: "row1", columnId: "qty", value: 10 }));
+      store.dispatch(
+        updateCells({
+          updates: [{ rowId: "row2", columnId: "price", value: "" }],
+          source: "clear",
+        })
+      );
+
+      expect(store.getState().table.data.map(row => row.total)).toEqual([
+        20,
+        null,
+      ]);
+    });
+
+    it("should add, rename and remove computed columns of the applied shape", () => {
+      const store = createComputedStore();
+      const field = {
+        type: "string" as const,
+        required: false,
+      };
+
+      store.dispatch(
+        saveComputedField({
+          shapeId: "orders",
+          takenNames: [],
+          field: { ...field, id: "label", name: "label", formula: '"#" & qty' },
+        })
+      );
+      store.dispatch(
+        saveComputedField({
+          shapeId: "orders",
+          takenNames: [],
+          field: {
+            ...field,
+            id: "total",
+            name: "amount",
+            formula: "price * qty * 2",
+          },
+        })
+      );
+      let state = store.getState().table;
+
+      expect(state.columnOrder).toEqual(["price", "qty", "amount", "label"]);
+      expect(state.data[0]).toEqual({
+        _rowId: "row1",
+        price: 2,
+        qty: 3,
+        amount: 12,
+        label: "#3",
+      });
+
+      store.dispatch(
+        removeComputedField({ shapeId: "orders", fieldId: "label" })
+      );
+      store.dispatch(
+        saveComputedField({
+          shapeId: "other-shape",
+          takenNames: [],
+          field: { ...field, id: "x", name: "x", formula: "1" },
+        })
+      );
+      state = store.getState().table;
+
+      expect(state.columnOrder).toEqual(["price", "qty", "amount"]);
+      expect(state.computedColumns.map(column => column.name)).toEqual([
+        "amount",
+      ]);
+      expect("label" in state.data[0]).toBe(false);
+    });
+
+    it("should reject a name taken by a shape field missing from the table", () => {
+      const orders: TargetShape = {
+        id: "orders",
+        name: "Orders",
+        version: "1.0.0",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+        fields: [
+          { id: "price", name: "price", type: "number", required: false },
+          { id: "status", name: "status", type: "string", required: false },
+        ],
+      };
+      const store = configureStore({
+        reducer: { table: tableReducer, targetShapes: targetShapesReducer },
+        preloadedState: {
+          targetShapes: {
+            shapes: [orders],
+            selectedShapeId: null,
+            isLoading: false,
+            error: null,
+          },
+        },
+      });
+      store.dispatch(setData([{ _rowId: "row1", price: 2, qty: 3 }]));
+      store.dispatch(setAppliedTargetShapeId("orders"));
+
+      store.dispatch(
+        saveComputedField({
+          shapeId: "orders",
+          field: {
+            id: "status_formula",
+            name: "status",
+            type: "string",
+            required: false,
+            formula: '"paid"',
+          },
+          takenNames: ["price", "qty", "status"],
+        })
+      );
+
+      const { table, targetShapes } = store.getState();
+      expect(targetShapes.error).toBe("A field named 'status' already exists");
+      expect(targetShapes.shapes[0].fields).toHaveLength(2);
+      expect(table.computedColumns).toEqual([]);
+      expect(table.columnOrder).toEqual(["price", "qty"]);
+    });
+
+    it("should not compute the previous shape's formulas on new data", () => {
+      const store = createComputedStore();
+      store.dispatch(setData([{ _rowId: "row1", price: 4, qty: 2 }]));
+      store.dispatch(updateCell({ rowId: "row1", columnId: "qty", value: 3 }));
+
+      expect(store.getState().table.computedColumns).toEqual([]);
+      expect(store.getState().table.data[0]).toEqual({
+        _rowId: "row1",
+        price: 4,
+        qty: 3,
+      });
+
+      const imported = createComputedStore();
+      imported.dispatch(
+        importJsonData(JSON.stringify([{ _rowId: "row1", name: "Ann" }]))
+      );
+      imported.dispatch(
+        updateCell({ rowId: "row1", columnId: "name", value: "Bo" })
+      );
+
+      expect(imported.getState().table.data[0]).toEqual({
+        _rowId: "row1",
+        name: "Bo",
+      });
+    });
+
+    it("should compute lookup results without changing the payload", () => {
+      const payloadRows: TableRow[] = [{ _rowId: "row1", price: 2, qty: 4 }];
+      const result = {
+        data: payloadRows,
+        errors: [],
+        statistics: { processed: 1, matched: 0, fuzzy: 0, failed: 0 },
+        fuzzyMatches: [],
+      };
+
+      const state = tableReducer(createTestStore().getState().table, {
+        type: "table/processDataWithLookups/fulfilled",
+        payload: result,
+        meta: {
+          arg: {
+            targetShape: {
+              id: "orders",
+              fields: [
+                { id: "price", name: "price" },
+                { id: "qty", name: "qty" },
+                { id: "total", name: "total", formula: "price * qty" },
+              ],
+            },
+          },
+        },
+      });
+
+      expect(state.data[0].total).toBe(8);
+      expect(state.columnOrder).toEqual(["price", "qty", "total"]);
+      expect(payloadRows[0]).toEqual({ _rowId: "row1", price: 2, qty: 4 });
+      expect(state.lookupProcessing.result?.data[0]).not.toHaveProperty(
+        "total"
+      );
+    });
+
+    it("should drop computed columns when another shape is applied", () => {
+      const store = createComputedStore();
+      store.dispatch(setAppliedTargetShapeId("orders"));
+
+      expect(store.getState().table.computedColumns).toHaveLength(1);
+
+      store.dispatch(setAppliedTargetShapeId("other-shape"));
+      store.dispatch(updateCell({ rowId: "row1", columnId: "qty", value: 10 }));
+
+      expect(store.getState().table.computedColumns).toEqual([]);
+      expect(store.getState().table.data[0].total).toBe(6);
+    });
+  });
 });
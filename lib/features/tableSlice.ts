@@ -12,9 +12,34 @@ import {
   ProcessedLookupResult,
   LookupProcessingOptions,
 } from "../utils/lookup-processor";
-import type { TargetShape, LookupField } from "../types/target-shapes";
-import type { RowValidationMetadata, ValidationState } from "../types/validation";
+import { runLookupProcessing } from "../utils/lookup-worker-client";
+import {
+  transformData,
+  TransformationReport,
+} from "../utils/transformation-engine";
+import type {
+  TargetShape,
+  LookupField,
+  TransformationRule,
+} from "../types/target-shapes";
+import type {
+  RowValidationMetadata,
+  ValidationState,
+} from "../types/validation";
 import { createEmptyValidationState } from "../types/validation";
+import type { ColumnMappingRule } from "../types/column-mapping";
+import {
+  getMappedFieldIds,
+  mapRowToFields,
+} from "../utils/column-mapping-rules";
+import { generateRowId } from "../utils/id-generator";
+import {
+  computeColumnValues,
+  getComputedColumns,
+  isComputedFieldNameTaken,
+  type ComputedColumn,
+} from "../utils/formula-engine";
+import { removeComputedField, saveComputedField } from "./targetShapesSlice";
 
 // Flexible row data type for dynamic data import and transformation
 export type TableRow = Record<string, unknown> & {
@@ -130,10 +155,11 @@ export const defaultData: TableRow[] = [
   },
 ];
 
-interface TableState {
+export interface TableState {
   data: TableRow[];
   columnOrder: string[]; // Array of field keys that determines column display order
   appliedTargetShapeId: string | null; // ID of currently applied target shape (null = default shape)
+  computedColumns: ComputedColumn[]; // Formula columns of the applied shape, in evaluation order
   sorting: SortingState;
   columnFilters: ColumnFiltersState;
   columnVisibility: VisibilityState;
@@ -158,12 +184,16 @@ interface TableState {
 
   // Validation state
   validation: ValidationState;
+
+  // Result of the last transformation run (null until a shape with rules is applied)
+  transformationReport: TransformationReport | null;
 }
 
 const initialState: TableState = {
   data: [],
   columnOrder: [], // Will be set when data is loaded
   appliedTargetShapeId: null, // null = default/auto-generated shape
+  computedColumns: [],
   sorting: [], // Will be set dynamically when data is loaded
   columnFilters: [],
   columnVisibility: {}, // No hidden columns by default
@@ -186,6 +216,7 @@ const initialState: TableState = {
     error: null,
   },
   validation: createEmptyValidationState(),
+  transformationReport: null,
 };
 
 // Async thunk for processing data with lookups
@@ -201,7 +232,7 @@ export const processDataWithLookups = createAsyncThunk(
       targetShape: TargetShape;
       options?: LookupProcessingOptions;
     },
-    { dispatch }
+    { dispatch, signal }
   ) => {
     // Set up progress callback
     const onProgress = (processed: number, total: number) => {
@@ -209,14 +240,12 @@ export const processDataWithLookups = createAsyncThunk(
       dispatch(setLookupProgress(progress));
     };
 
-    const result = await lookupProcessor.processDataWithLookups(
-      data,
-      targetShape,
-      {
-        ...options,
-        onProgress,
-      }
-    );
+    // Runs in a Web Worker when available; aborting the thunk terminates it
+    const result = await runLookupProcessing(data, targetShape, {
+      ...options,
+      onProgress,
+      signal,
+    });
 
     return result;
   }
@@ -247,6 +276,99 @@ export const updateLookupValue = createAsyncThunk(
   }
 );
 
+/**
+ * Whether a row is the one identified by `rowId`: its `_rowId`, or its `id`
+ * for rows created before row IDs were injected
+ */
+const isRow = (row: TableRow, rowId: string) =>
+  row._rowId !== undefined ? row._rowId === rowId : String(row.id) === rowId;
+
+// The ID `isRow` matches a row by, for Set and Map lookups
+const getRowKey = (row: TableRow) =>
+  row._rowId !== undefined ? row._rowId : String(row.id);
+
+/**
+ * A new value for one cell; `rowId` as in `isRow`
+ */
+export interface CellUpdate {
+  rowId: string;
+  columnId: string;
+  value: unknown;
+}
+
+/**
+ * One group of duplicate rows folded into a single row; row IDs as in `isRow`
+ */
+export interface RowMerge {
+  /** Row that stays in place of the group */
+  keepRowId: string;
+  /** Rows removed from the table */
+  removeRowIds: string[];
+  /** Values written to the kept row, for field-by-field merges */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Recompute the computed columns of the given rows (every row by default)
+ */
+const recomputeRows = (state: TableState, rows: TableRow[] = state.data) => {
+  if (state.computedColumns.length === 0) return;
+  rows.forEach(row => {
+    Object.assign(row, computeColumnValues(row, state.computedColumns));
+  });
+};
+
+/**
+ * Write cell updates, looking each row up once, then recompute the
+ * computed columns of the rows that changed
+ */
+const applyCellUpdates = (state: TableState, updates: CellUpdate[]) => {
+  const rowsById = new Map(
+    state.data.map(row => [row._rowId ?? String(row.id), row])
+  );
+  const updatedRows = new Set<TableRow>();
+  updates.forEach(({ rowId, columnId, value }) => {
+    const row = rowsById.get(rowId);
+    if (row) {
+      row[columnId] = value;
+      updatedRows.add(row);
+    }
+  });
+  recomputeRows(state, [...updatedRows]);
+};
+
+/**
+ * Rename a key while keeping its position among the row's keys
+ */
+const renameRowKey = (row: TableRow, from: string, to: string): TableRow =>
+  Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key === from ? to : key, value])
+  ) as TableRow;
+
+/**
+ * Point sorting, filters and visibility at a renamed column, or drop them
+ * when the column is deleted (`to` is null)
+ */
+const replaceColumnReferences = (
+  state: TableState,
+  from: string,
+  to: string | null
+) => {
+  state.sorting = state.sorting.flatMap(sort =>
+    sort.id !== from ? [sort] : to ? [{ ...sort, id: to }] : []
+  );
+  state.columnFilters = state.columnFilters.flatMap(filter =>
+    filter.id !== from ? [filter] : to ? [{ ...filter, id: to }] : []
+  );
+  if (from in state.columnVisibility) {
+    const { [from]: visible, ...rest } = state.columnVisibility;
+    state.columnVisibility = to ? { ...rest, [to]: visible } : rest;
+  }
+  state.grouping = state.grouping.flatMap(id =>
+    id !== from ? [id] : to ? [to] : []
+  );
+};
+
 export const tableSlice = createSlice({
   name: "table",
   initialState,
@@ -255,6 +377,8 @@ export const tableSlice = createSlice({
     setData: (state, action: PayloadAction<TableRow[]>) => {
       state.data = action.payload;
       state.error = null;
+      // New data doesn't come from the applied shape's formulas
+      state.computedColumns = [];
 
       // Set column order from data keys if not already set
       if (action.payload.length > 0 && state.columnOrder.length === 0) {
@@ -282,30 +406,39 @@ export const tableSlice = createSlice({
         targetShapeId: string;
         targetShapeName: string;
         columnMapping: Record<string, string>; // targetFieldId -> sourceColumnName
+        mappingRules?: ColumnMappingRule[]; // Combined and split columns
         fieldMappings: Record<string, string>; // targetFieldId -> targetFieldName
-        targetFields: Array<{ id: string; name: string }>; // Target shape fields in order
+        targetFields: Array<{
+          id: string;
+          name: string;
+          transformation?: TransformationRule[];
+          valueMap?: Record<string, string>; // Enum source value -> option value
+          formula?: string; // Computed fields
+        }>; // Target shape fields in order
       }>
     ) => {
-      const { targetShapeId, columnMapping, targetFields } = action.payload;
+      const {
+        targetShapeId,
+        columnMapping,
+        mappingRules = [],
+        targetFields,
+      } = action.payload;
+      const mappedFieldIds = getMappedFieldIds(columnMapping, mappingRules);
 
       // Transform data according to mapping using current state data
-      const transformedData = state.data.map(row => {
-        const newRow: Record<string, unknown> = { _rowId: row._rowId }; // Preserve internal ID
-
-        // Apply column mappings
-        Object.entries(columnMapping).forEach(
-          ([targetFieldId, sourceColumn]) => {
-            const targetField = targetFields.find(f => f.id === targetFieldId);
-            if (targetField && row[sourceColumn] !== undefined) {
-              newRow[targetField.name] = row[sourceColumn];
-            }
-          }
-        );
+      const transformedData = state.data.map(row =>
+        mapRowToFields(row, columnMapping, mappingRules, targetFields)
+      );
 
-        return newRow;
-      });
+      // Run each mapped field's transformation rules
+      const { data: cleanedData, report } = transformData(
+        transformedData,
+        targetFields.filter(field => mappedFieldIds.has(field.id))
+      );
 
-      state.data = transformedData;
+      state.data = cleanedData;
+      state.transformationReport =
+        report.stats.fieldsWithRules > 0 ? report : null;
       state.error = null;
 
       // Set applied target shape ID
@@ -313,9 +446,14 @@ export const tableSlice = createSlice({
 
       // Set column order based on target shape field order
       state.columnOrder = targetFields
-        .filter(field => columnMapping[field.id]) // Only include mapped fields
+        .filter(
+          field => mappedFieldIds.has(field.id) || field.formula !== undefined
+        ) // Only include mapped and computed fields
         .map(field => field.name); // Use target field names from targetFields
 
+      state.computedColumns = getComputedColumns(targetFields);
+      recomputeRows(state);
+
       // Set default sorting to first column when data is transformed
       if (state.columnOrder.length > 0) {
         state.sorting = [{ id: state.columnOrder[0], desc: false }];
@@ -431,6 +569,7 @@ export const tableSlice = createSlice({
           state.data = parsedData;
           state.importData = "";
           state.error = null;
+          state.computedColumns = [];
 
           // Set column order from data keys
           if (parsedData.length > 0) {
@@ -463,14 +602,208 @@ export const tableSlice = createSlice({
       }>
     ) => {
       const { rowId, columnId, value } = action.payload;
-      const rowIndex = state.data.findIndex(row => row.id === rowId);
+      let rowIndex = state.data.findIndex(row => row._rowId === rowId);
+      if (rowIndex === -1) {
+        rowIndex = state.data.findIndex(row => row.id === rowId);
+      }
       if (rowIndex !== -1) {
         (state.data[rowIndex] as any)[columnId] = value;
+        recomputeRows(state, [state.data[rowIndex]]);
       }
       // Clear editing state when cell is updated
       state.editingCell = null;
     },
 
+    // Several cells at once (paste, fill down), recorded as one history entry
+    updateCells: (
+      state,
+      action: PayloadAction<{
+        updates: CellUpdate[];
+        source?: "paste" | "fillDown" | "clear";
+      }>
+    ) => {
+      applyCellUpdates(state, action.payload.updates);
+      state.editingCell = null;
+    },
+
+    // Find and replace; `find` and `replace` only describe the history entry
+    replaceCells: (
+      state,
+      action: PayloadAction<{
+        updates: CellUpdate[];
+        find: string;
+        replace: string;
+      }>
+    ) => {
+      applyCellUpdates(state, action.payload.updates);
+      state.editingCell = null;
+    },
+
+    // Row structure
+    insertRow: {
+      reducer: (
+        state,
+        action: PayloadAction<{ index: number; rowId: string }>
+      ) => {
+        const { index, rowId } = action.payload;
+        const row: TableRow = { _rowId: rowId };
+        state.columnOrder.forEach(columnId => {
+          row[columnId] = "";
+        });
+        recomputeRows(state, [row]);
+        const position = Math.max(0, Math.min(index, state.data.length));
+        state.data.splice(position, 0, row);
+      },
+      prepare: (payload: { index: number }) => ({
+        payload: { ...payload, rowId: generateRowId() },
+      }),
+    },
+    duplicateRows: {
+      reducer: (
+        state,
+        action: PayloadAction<{ rowIds: string[]; newRowIds: string[] }>
+      ) => {
+        const { rowIds, newRowIds } = action.payload;
+        const positions = new Map<string, number>();
+        rowIds.forEach((rowId, position) => {
+          if (!positions.has(rowId)) positions.set(rowId, position);
+        });
+
+        // Each copy goes right after its row
+        const rows: TableRow[] = [];
+        state.data.forEach(row => {
+          rows.push(row);
+          const position = positions.get(getRowKey(row));
+          if (position === undefined) return;
+
+          const { _validationMetadata: _metadata, ...values } = row;
+          rows.push({
+            ...structuredClone(values),
+            _rowId: newRowIds[position],
+          });
+        });
+        state.data = rows;
+      },
+      prepare: (payload: { rowIds: string[] }) => ({
+        payload: {
+          ...payload,
+          newRowIds: payload.rowIds.map(() => generateRowId()),
+        },
+      }),
+    },
+    deleteRows: (state, action: PayloadAction<{ rowIds: string[] }>) => {
+      const { rowIds } = action.payload;
+      const removed = new Set(rowIds);
+      state.data = state.data.filter(row => !removed.has(getRowKey(row)));
+      rowIds.forEach(rowId => {
+        delete state.rowSelection[rowId];
+      });
+      if (state.editingCell && removed.has(state.editingCell.rowId)) {
+        state.editingCell = null;
+      }
+    },
+    // Duplicate review; every merge is recorded as one history entry
+    mergeDuplicateRows: (
+      state,
+      action: PayloadAction<{ merges: RowMerge[] }>
+    ) => {
+      const rowsById = new Map(
+        state.data.map(row => [row._rowId ?? String(row.id), row])
+      );
+      const keptRows: TableRow[] = [];
+      const removedRowIds = new Set<string>();
+      action.payload.merges.forEach(({ keepRowId, removeRowIds, values }) => {
+        const row = rowsById.get(keepRowId);
+        if (!row) return;
+        Object.assign(row, values);
+        keptRows.push(row);
+        removeRowIds.forEach(rowId => removedRowIds.add(rowId));
+      });
+      recomputeRows(state, keptRows);
+
+      state.data = state.data.filter(
+        row => !removedRowIds.has(row._rowId ?? String(row.id))
+      );
+      removedRowIds.forEach(rowId => {
+        delete state.rowSelection[rowId];
+      });
+      if (state.editingCell && removedRowIds.has(state.editingCell.rowId)) {
+        state.editingCell = null;
+      }
+    },
+
+    // Column structure
+    addColumn: (
+      state,
+      action: PayloadAction<{ name: string; index?: number }>
+    ) => {
+      const { name, index = state.columnOrder.length } = action.payload;
+      if (!name || name.startsWith("_") || state.columnOrder.includes(name)) {
+        return;
+      }
+
+      state.data.forEach(row => {
+        row[name] = "";
+      });
+      const position = Math.max(0, Math.min(index, state.columnOrder.length));
+      state.columnOrder.splice(position, 0, name);
+    },
+    renameColumn: (
+      state,
+      action: PayloadAction<{ columnId: string; name: string }>
+    ) => {
+      const { columnId, name } = action.payload;
+      if (
+        !name ||
+        name === columnId ||
+        name.startsWith("_") ||
+        state.columnOrder.includes(name) ||
+        !state.columnOrder.includes(columnId)
+      ) {
+        return;
+      }
+
+      state.data = state.data.map(row => renameRowKey(row, columnId, name));
+      state.columnOrder = state.columnOrder.map(id =>
+        id === columnId ? name : id
+      );
+      replaceColumnReferences(state, columnId, name);
+      state.computedColumns.forEach(column => {
+        if (column.name === columnId) column.name = name;
+      });
+    },
+    duplicateColumn: (
+      state,
+      action: PayloadAction<{ columnId: string; name: string }>
+    ) => {
+      const { columnId, name } = action.payload;
+      const position = state.columnOrder.indexOf(columnId);
+      if (
+        position === -1 ||
+        !name ||
+        name.startsWith("_") ||
+        state.columnOrder.includes(name)
+      ) {
+        return;
+      }
+
+      state.data.forEach(row => {
+        row[name] = structuredClone(row[columnId]);
+      });
+      state.columnOrder.splice(position + 1, 0, name);
+    },
+    deleteColumn: (state, action: PayloadAction<{ columnId: string }>) => {
+      const { columnId } = action.payload;
+      state.data.forEach(row => {
+        delete row[columnId];
+      });
+      state.columnOrder = state.columnOrder.filter(id => id !== columnId);
+      replaceColumnReferences(state, columnId, null);
+      state.computedColumns = state.computedColumns.filter(
+        column => column.name !== columnId
+      );
+    },
+
     // Edit state management
     startEditing: (
       state,
@@ -488,6 +821,10 @@ export const tableSlice = createSlice({
 
     // Set applied target shape ID
     setAppliedTargetShapeId: (state, action: PayloadAction<string | null>) => {
+      // Computed columns belong to the shape they were applied with
+      if (action.payload !== state.appliedTargetShapeId) {
+        state.computedColumns = [];
+      }
       state.appliedTargetShapeId = action.payload;
     },
 
@@ -506,11 +843,26 @@ export const tableSlice = createSlice({
       // No state changes needed - this is just for history tracking
     },
 
+    // Replace history-tracked table state in one step (undo/redo, time travel)
+    restoreTableSnapshot: (
+      state,
+      action: PayloadAction<Partial<TableState>>
+    ) => {
+      Object.assign(state, action.payload);
+      state.editingCell = null;
+    },
+
     // Lookup processing reducers
     setLookupProgress: (state, action: PayloadAction<number>) => {
       state.lookupProcessing.progress = action.payload;
     },
 
+    setTransformationReport: (
+      state,
+      action: PayloadAction<TransformationReport | null>
+    ) => {
+      state.transformationReport = action.payload;
+    },
     clearLookupProcessing: state => {
       state.lookupProcessing = {
         isProcessing: false,
@@ -534,12 +886,27 @@ export const tableSlice = createSlice({
         state.lookupProcessing.result = action.payload;
         state.lookupProcessing.error = null;
 
-        // Update table data with processed results
-        state.data = action.payload.data;
+        // Computed fields see the looked-up values
+        state.appliedTargetShapeId =
+          action.meta?.arg?.targetShape?.id ?? state.appliedTargetShapeId;
+        const computedColumns = getComputedColumns(
+          action.meta?.arg?.targetShape?.fields ?? []
+        );
+        state.computedColumns = computedColumns;
+
+        // Update table data with processed results. The payload rows aren't
+        // drafts, so computed values go into copies rather than the result
+        state.data =
+          computedColumns.length === 0
+            ? action.payload.data
+            : action.payload.data.map(row => ({
+                ...row,
+                ...computeColumnValues(row, computedColumns),
+              }));
 
         // Update column order to match the actual data structure
-        if (action.payload.data.length > 0) {
-          const newColumns = Object.keys(action.payload.data[0]).filter(
+        if (state.data.length > 0) {
+          const newColumns = Object.keys(state.data[0]).filter(
             key => !key.startsWith("_")
           );
           // Replace column order with actual columns from processed data
@@ -549,8 +916,9 @@ export const tableSlice = createSlice({
       })
       .addCase(processDataWithLookups.rejected, (state, action) => {
         state.lookupProcessing.isProcessing = false;
-        state.lookupProcessing.error =
-          action.error.message || "Lookup processing failed";
+        state.lookupProcessing.error = action.meta.aborted
+          ? null
+          : action.error.message || "Lookup processing failed";
       })
 
       // Handle updateLookupValue async thunk
@@ -561,8 +929,72 @@ export const tableSlice = createSlice({
           const rowIndex = state.data.findIndex(row => row._rowId === rowId);
           if (rowIndex !== -1) {
             state.data[rowIndex] = result.updatedRow;
+            recomputeRows(state, [state.data[rowIndex]]);
+          }
+        }
+      })
+
+      // Computed fields added, edited or removed on the applied shape
+      .addCase(saveComputedField, (state, action) => {
+        const { shapeId, field, takenNames } = action.payload;
+        if (shapeId !== state.appliedTargetShapeId) return;
+
+        const column = {
+          fieldId: field.id,
+          name: field.name,
+          formula: field.formula,
+        };
+        const existing = state.computedColumns.find(
+          ({ fieldId }) => fieldId === field.id
+        );
+        // A new or renamed column can't take the name of another column
+        if (
+          isComputedFieldNameTaken(
+            field.name,
+            [...takenNames, ...state.columnOrder],
+            existing?.name
+          )
+        ) {
+          return;
+        }
+
+        if (!existing) {
+          state.computedColumns.push(column);
+          state.columnOrder.push(field.name);
+        } else {
+          const previousName = existing.name;
+          if (previousName !== field.name) {
+            state.data = state.data.map(row =>
+              renameRowKey(row, previousName, field.name)
+            );
+            state.columnOrder = state.columnOrder.map(id =>
+              id === previousName ? field.name : id
+            );
+            replaceColumnReferences(state, previousName, field.name);
           }
+          Object.assign(existing, column);
         }
+        recomputeRows(state);
+      })
+      .addCase(removeComputedField, (state, action) => {
+        const { shapeId, fieldId } = action.payload;
+        if (shapeId !== state.appliedTargetShapeId) return;
+
+        const name = state.computedColumns.find(
+          column => column.fieldId === fieldId
+        )?.name;
+        if (name === undefined) return;
+
+        state.computedColumns = state.computedColumns.filter(
+          column => column.fieldId !== fieldId
+        );
+        state.data.forEach(row => {
+          delete row[name];
+        });
+        state.columnOrder = state.columnOrder.filter(id => id !== name);
+        replaceColumnReferences(state, name, null);
+        // Formulas that used the column now see it as empty
+        recomputeRows(state);
       });
   },
 });
@@ -587,11 +1019,23 @@ export const {
   setError,
   importJsonData,
   updateCell,
+  updateCells,
+  replaceCells,
+  insertRow,
+  duplicateRows,
+  deleteRows,
+  mergeDuplicateRows,
+  addColumn,
+  renameColumn,
+  duplicateColumn,
+  deleteColumn,
   startEditing,
   stopEditing,
   setAppliedTargetShapeId,
   restoreFromHistory,
+  restoreTableSnapshot,
   setLookupProgress,
+  setTransformationReport,
   clearLookupProcessing,
 } = tableSlice.actions;
 
@@ -4,6 +4,7 @@ import type {
   TargetShape,
   TargetField,
   LookupField,
+  ComputedField,
 } from "@/lib/types/target-shapes";
 import { referenceDataManager } from "@/lib/utils/reference-data-manager";
 import { generateLookupValidation } from "@/lib/utils/lookup-validation";
@@ -11,6 +12,7 @@ import {
   generateSmartColumnName,
   generateSmartDescription,
 } from "@/lib/utils/smart-column-naming";
+import { isComputedFieldNameTaken } from "@/lib/utils/formula-engine";
 
 // Note: generateLookupValidation function moved to lookup-validation.ts for better organization
 
@@ -456,6 +458,106 @@ export const targetShapesSlice = createSlice({
         state.error = `Failed to update derived fields: ${error instanceof Error ? error.message : "Unknown error"}`;
       }
     },
+
+    // Computed Field Management Actions
+
+    // Add a computed field, or replace the one with the same ID.
+    // `takenNames` are the table's columns and the shape's field names, so
+    // the table accepts or rejects the field as the shape does
+    saveComputedField: (
+      state,
+      action: PayloadAction<{
+        shapeId: string;
+        field: ComputedField;
+        takenNames: string[];
+      }>
+    ) => {
+      const { shapeId, field, takenNames } = action.payload;
+      try {
+        const shape = state.shapes.find(s => s.id === shapeId);
+        if (!shape) {
+          state.error = `Target shape with ID '${shapeId}' not found`;
+          return;
+        }
+
+        if (
+          isComputedFieldNameTaken(
+            field.name,
+            [...takenNames, ...shape.fields.map(f => f.name)],
+            shape.fields.find(f => f.id === field.id)?.name
+          )
+        ) {
+          state.error = `A field named '${field.name}' already exists`;
+          return;
+        }
+
+        const fieldIndex = shape.fields.findIndex(f => f.id === field.id);
+        const updatedFields =
+          fieldIndex === -1
+            ? [...shape.fields, field]
+            : shape.fields.map(f => (f.id === field.id ? field : f));
+
+        const updatedShape = {
+          ...shape,
+          fields: updatedFields,
+          updatedAt: new Date().toISOString(),
+        };
+
+        // Save to storage
+        const savedShape = targetShapesStorage.update(shapeId, updatedShape);
+        if (savedShape) {
+          const index = state.shapes.findIndex(s => s.id === shapeId);
+          if (index !== -1) {
+            state.shapes[index] = savedShape;
+          }
+          state.error = null;
+        } else {
+          state.error = "Failed to save computed field";
+        }
+      } catch (error) {
+        state.error = `Failed to save computed field: ${error instanceof Error ? error.message : "Unknown error"}`;
+      }
+    },
+
+    // Remove a computed field
+    removeComputedField: (
+      state,
+      action: PayloadAction<{ shapeId: string; fieldId: string }>
+    ) => {
+      const { shapeId, fieldId } = action.payload;
+      try {
+        const shape = state.shapes.find(s => s.id === shapeId);
+        if (!shape) {
+          state.error = `Target shape with ID '${shapeId}' not found`;
+          return;
+        }
+
+        if (!shape.fields.some(f => f.id === fieldId)) {
+          state.error = `Field with ID '${fieldId}' not found`;
+          return;
+        }
+
+        const updatedShape = {
+          ...shape,
+          fields: shape.fields.filter(f => f.id !== fieldId),
+          updatedAt: new Date().toISOString(),
+        };
+
+        // Save to storage
+        const savedShape = targetShapesStorage.update(shapeId, updatedShape);
+        if (savedShape) {
+          const index = state.shapes.findIndex(s => s.id === shapeId);
+          if (index !== -1) {
+            state.shapes[index] = savedShape;
+          }
+          state.error = null;
+        } else {
+          state.error = "Failed to remove computed field";
+        }
+      } catch (error) {
+        state.error = `Failed to remove computed field: ${error instanceof Error ? error.message : "Unknown error"}`;
+      }
+    },
   },
   extraReducers: builder => {
     builder
@@ -488,6 +590,8 @@ export const {
   removeLookupField,
   refreshLookupValidation,
   updateDerivedFields,
+  saveComputedField,
+  removeComputedField,
 } = targetShapesSlice.actions;
 
 export default targetShapesSlice.reducer;
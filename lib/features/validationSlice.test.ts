@@ -0,0 +1,136 @@
+import { configureStore } from "@reduxjs/toolkit";
+import { describe, it, expect } from "vitest";
+import tableReducer, {
+  setData,
+  setAppliedTargetShapeId,
+  updateCell,
+  updateCells,
+} from "./tableSlice";
+import targetShapesReducer from "./targetShapesSlice";
+import validationReducer, {
+  validationMiddleware,
+  selectImportReadyRowIds,
+} from "./validationSlice";
+import { ValidationStatus } from "../types/validation";
+import type { TargetShape } from "../types/target-shapes";
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Employees",
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  fields: [
+    { id: "f_id", name: "id", type: "string", required: true },
+    { id: "f_age", name: "age", type: "integer", required: true },
+  ],
+};
+
+const createTestStore = () =>
+  configureStore({
+    reducer: {
+      table: tableReducer,
+      targetShapes: targetShapesReducer,
+      validation: validationReducer,
+    },
+    preloadedState: {
+      targetShapes: {
+        shapes: [shape],
+        selectedShapeId: null,
+        isLoading: false,
+        error: null,
+      },
+    },
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware().concat(validationMiddleware),
+  });
+
+// Thunks dispatched by the middleware resolve on the next microtask
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("Validation Slice", () => {
+  it("should not validate when no target shape is applied", async () => {
+    const store = createTestStore();
+
+    store.dispatch(setData([{ _rowId: "r1", id: "1", age: "x" }]));
+    await flush();
+
+    expect(store.getState().validation.rows).toEqual({});
+  });
+
+  it("should validate all rows when a shape is applied", async () => {
+    const store = createTestStore();
+
+    store.dispatch(
+      setData([
+        { _rowId: "r1", id: "1", age: "30" },
+        { _rowId: "r2", id: "2", age: "old" },
+      ])
+    );
+    store.dispatch(setAppliedTargetShapeId("shape_1"));
+    await flush();
+
+    const state = store.getState().validation;
+    expect(state.targetShapeId).toBe("shape_1");
+    expect(state.rows.r1.status).toBe(ValidationStatus.VALID);
+    expect(state.rows.r2.status).toBe(ValidationStatus.ERRORS);
+    expect(state.summary.totalErrors).toBe(1);
+    expect(selectImportReadyRowIds(store.getState() as any)).toEqual(["r1"]);
+  });
+
+  it("should revalidate only the edited row after updateCell", async () => {
+    const store = createTestStore();
+
+    store.dispatch(
+      setData([
+        { _rowId: "r1", id: "1", age: "30" },
+        { _rowId: "r2", id: "2", age: "old" },
+      ])
+    );
+    store.dispatch(setAppliedTargetShapeId("shape_1"));
+    await flush();
+
+    const untouched = store.getState().validation.rows.r1;
+
+    store.dispatch(updateCell({ rowId: "2", columnId: "age", value: "41" }));
+    await flush();
+
+    const state = store.getState().validation;
+    expect(state.rows.r2.status).toBe(ValidationStatus.VALID);
+    expect(state.rows.r1).toBe(untouched);
+    expect(state.summary.totalErrors).toBe(0);
+  });
+
+  it("should revalidate every pasted row after updateCells", async () => {
+    const store = createTestStore();
+
+    store.dispatch(
+      setData([
+        { _rowId: "r1", id: "1", age: "young" },
+        { _rowId: "r2", id: "2", age: "old" },
+        { _rowId: "r3", id: "3", age: "50" },
+      ])
+    );
+    store.dispatch(setAppliedTargetShapeId("shape_1"));
+    await flush();
+
+    const untouched = store.getState().validation.rows.r3;
+
+    store.dispatch(
+      updateCells({
+        updates: [
+          { rowId: "r1", columnId: "age", value: 20 },
+          { rowId: "r2", columnId: "age", value: 60 },
+        ],
+        source: "paste",
+      })
+    );
+    await flush();
+
+    const state = store.getState().validation;
+    expect(state.rows.r1.status).toBe(ValidationStatus.VALID);
+    expect(state.rows.r2.status).toBe(ValidationStatus.VALID);
+    expect(state.rows.r3).toBe(untouched);
+    expect(state.summary.totalErrors).toBe(0);
+  });
+});
@@ -0,0 +1,200 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import type { RootState } from "@/lib/store";
+import type { TargetShape } from "../types/target-shapes";
+import type {
+  RowValidationMetadata,
+  ValidationState,
+} from "../types/validation";
+import {
+  createEmptyValidationState,
+  ValidationStatus,
+} from "../types/validation";
+import {
+  getValidationRowId,
+  summarizeValidation,
+  validateRow,
+  validateTable,
+} from "../utils/validation-engine";
+
+interface ValidationSliceState {
+  /** Row validation metadata keyed by `_rowId` */
+  rows: Record<string, RowValidationMetadata>;
+  /** Aggregated counts across all rows */
+  summary: ValidationState;
+  /** Target shape the results were computed against */
+  targetShapeId: string | null;
+}
+
+const initialState: ValidationSliceState = {
+  rows: {},
+  summary: createEmptyValidationState(),
+  targetShapeId: null,
+};
+
+/**
+ * Find the target shape currently applied to the table
+ */
+const getAppliedShape = (state: RootState): TargetShape | null => {
+  const { appliedTargetShapeId } = state.table;
+  if (!appliedTargetShapeId) return null;
+  return (
+    state.targetShapes.shapes.find(
+      shape => shape.id === appliedTargetShapeId
+    ) || null
+  );
+};
+
+// Async thunk for validating every row against the applied target shape
+export const validateTableData = createAsyncThunk<
+  {
+    targetShapeId: string | null;
+    rows: Record<string, RowValidationMetadata>;
+    summary: ValidationState;
+  },
+  void,
+  { state: RootState }
+>("validation/validateTable", async (_, { getState }) => {
+  const state = getState();
+  const shape = getAppliedShape(state);
+
+  if (!shape) {
+    return {
+      targetShapeId: null,
+      rows: {},
+      summary: createEmptyValidationState(),
+    };
+  }
+
+  const { rows, state: summary } = validateTable(state.table.data, shape);
+  return { targetShapeId: shape.id, rows, summary };
+});
+
+// Async thunk for revalidating specific rows after edits
+export const revalidateRows = createAsyncThunk<
+  RowValidationMetadata[],
+  string[],
+  { state: RootState }
+>("validation/revalidateRows", async (rowIds, { getState }) => {
+  const state = getState();
+  const shape = getAppliedShape(state);
+  if (!shape) return [];
+
+  const wanted = new Set(rowIds);
+  const options = { lookupValues: new Map() };
+  return state.table.data.flatMap((row, index) => {
+    const rowId = getValidationRowId(row, index);
+    return wanted.has(rowId) ? [validateRow(row, rowId, shape, options)] : [];
+  });
+});
+
+export const validationSlice = createSlice({
+  name: "validation",
+  initialState,
+  reducers: {
+    clearValidation: () => initialState,
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(validateTableData.pending, state => {
+        state.summary.isValidating = true;
+      })
+      .addCase(validateTableData.fulfilled, (state, action) => {
+        state.rows = action.payload.rows;
+        state.summary = action.payload.summary;
+        state.targetShapeId = action.payload.targetShapeId;
+      })
+      .addCase(validateTableData.rejected, state => {
+        state.summary.isValidating = false;
+      })
+      .addCase(revalidateRows.fulfilled, (state, action) => {
+        if (action.payload.length === 0) return;
+        action.payload.forEach(row => {
+          state.rows[row.rowId] = row;
+        });
+        state.summary = summarizeValidation(
+          state.rows,
+          state.summary.totalRows
+        );
+      });
+  },
+});
+
+// Actions that replace table data or the applied shape and need a full pass
+const FULL_VALIDATION_ACTIONS = [
+  "table/setData",
+  "table/importJsonData",
+  "table/applyTemplate",
+  "table/setAppliedTargetShapeId",
+  "table/processDataWithLookups/fulfilled",
+  "table/restoreTableSnapshot",
+  "table/insertRow",
+  "table/duplicateRows",
+  "table/deleteRows",
+  "table/mergeDuplicateRows",
+  "table/addColumn",
+  "table/renameColumn",
+  "table/duplicateColumn",
+  "table/deleteColumn",
+  "targetShapes/updateTargetShape",
+  "targetShapes/saveComputedField",
+  "targetShapes/removeComputedField",
+];
+
+// Actions that change individual rows and only need those rows revalidated
+const ROW_VALIDATION_ACTIONS = [
+  "table/updateCell",
+  "table/updateCells",
+  "table/replaceCells",
+  "table/updateLookupValue/fulfilled",
+];
+
+/**
+ * Validation middleware
+ *
+ * Keeps the validation slice in sync with the table: full validation runs when
+ * data or the applied shape changes, and only the edited rows are revalidated
+ * after cell updates.
+ */
+export const validationMiddleware =
+  (store: any) => (next: any) => (action: any) => {
+    const result = next(action);
+
+    if (FULL_VALIDATION_ACTIONS.includes(action.type)) {
+      store.dispatch(validateTableData());
+    } else if (ROW_VALIDATION_ACTIONS.includes(action.type)) {
+      const editedIds = new Set<string>(
+        action.payload?.updates
+          ? action.payload.updates.map(
+              (update: { rowId: string }) => update.rowId
+            )
+          : [action.payload?.rowId]
+      );
+      const data = (store.getState() as RootState).table.data;
+      const rowIds = data
+        .map((row, index) => ({ row, key: getValidationRowId(row, index) }))
+        .filter(
+          ({ row, key }) => editedIds.has(key) || editedIds.has(String(row.id))
+        )
+        .map(({ key }) => key);
+
+      if (rowIds.length > 0) {
+        store.dispatch(revalidateRows(rowIds));
+      }
+    }
+
+    return result;
+  };
+
+export const { clearValidation } = validationSlice.actions;
+
+// Selectors
+export const selectValidationSummary = (state: RootState) =>
+  state.validation.summary;
+export const selectRowValidation = (state: RootState, rowId: string) =>
+  state.validation.rows[rowId];
+export const selectImportReadyRowIds = (state: RootState) =>
+  Object.values(state.validation.rows)
+    .filter(row => row.status !== ValidationStatus.ERRORS)
+    .map(row => row.rowId);
+
+export default validationSlice.reducer;
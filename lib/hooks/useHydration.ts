@@ -1,29 +1,46 @@
 import { useEffect, useState } from "react";
 import { useDispatch } from "react-redux";
 import { reduxPersistence } from "@/lib/utils/redux-persistence";
+import { initializeStorage } from "@/lib/utils/localStorage";
 import { restoreFromStorage } from "@/lib/store";
+import { loadShapes } from "@/lib/features/targetShapesSlice";
 
 /**
  * Hook to handle client-side hydration and load persisted state
  *
  * This ensures that any persisted state is loaded after the component
- * mounts on the client side, preventing hydration mismatches.
+ * mounts on the client side, preventing hydration mismatches. Storage is
+ * moved onto IndexedDB first, so anything read before that (such as the
+ * initial target shapes) is reloaded afterwards.
  */
 export function useHydration() {
   const [isHydrated, setIsHydrated] = useState(false);
   const dispatch = useDispatch();
 
   useEffect(() => {
-    // Load persisted state on client side after initial render
-    const persistedState = reduxPersistence.loadState();
+    let cancelled = false;
 
-    if (persistedState) {
-      // Restore entire state with a single action
-      dispatch(restoreFromStorage(persistedState));
-    }
+    const hydrate = async () => {
+      await initializeStorage();
+      // Load persisted state on client side after initial render
+      const persistedState = await reduxPersistence.loadStateAsync();
+      if (cancelled) return;
 
-    // Mark as hydrated
-    setIsHydrated(true);
+      if (persistedState) {
+        // Restore entire state with a single action
+        dispatch(restoreFromStorage(persistedState));
+      }
+      dispatch(loadShapes());
+
+      // Mark as hydrated
+      setIsHydrated(true);
+    };
+
+    hydrate();
+
+    return () => {
+      cancelled = true;
+    };
   }, [dispatch]);
 
   return { isHydrated };
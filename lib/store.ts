@@ -4,10 +4,34 @@ import historyReducer from "./features/historySlice";
 import targetShapesReducer from "./features/targetShapesSlice";
 import persistenceReducer from "./features/persistenceSlice";
 import referenceDataReducer from "./features/referenceDataSlice";
+import pipelinesReducer from "./features/pipelinesSlice";
+import mappingMemoryReducer from "./features/mappingMemorySlice";
+import datasetsReducer from "./features/datasetsSlice";
+import validationReducer, {
+  validationMiddleware,
+} from "./features/validationSlice";
 import {
   reduxPersistence,
   createPersistenceMiddleware,
 } from "./utils/redux-persistence";
+import {
+  countEntriesSinceCheckpoint,
+  createHistoryEntry,
+  createTableSnapshot,
+  type TableSnapshot,
+} from "./utils/history-patches";
+
+// Actions after which the table no longer matches the last history entry
+const HISTORY_CHAIN_BREAKING_ACTIONS = [
+  "history/clearHistory",
+  "history/importHistory",
+  "history/setCurrentIndex",
+  "table/restoreTableSnapshot",
+];
+
+// Actions recorded with a checkpoint as well as patches, so
+// `restoreStateToAction` can restore or undo them without the rest of history
+const CHECKPOINT_ACTIONS = ["table/replaceCells"];
 
 /**
  * History tracking middleware
@@ -21,73 +45,119 @@ import {
  * 2. Optionally add action summaries in lib/utils/time-travel.ts
  * 3. See docs/history-system.md for complete integration guide
  */
-const historyMiddleware = (store: any) => (next: any) => (action: any) => {
-  const result = next(action);
+const historyMiddleware = (store: any) => {
+  // Table state recorded with the last entry; new entries are diffed against
+  // it. Cleared when history is replaced or the table is restored, so the
+  // next entry starts from a checkpoint.
+  let recordedTable: TableSnapshot | null = null;
 
-  // Skip history actions to prevent infinite loops
-  if (action.type.startsWith("history/")) {
-    return result;
-  }
+  return (next: any) => (action: any) => {
+    // Checkpointed actions are diffed against the table before them when no
+    // table was recorded (first entry, after time travel), so they can
+    // still be undone
+    const tableBefore =
+      !recordedTable && CHECKPOINT_ACTIONS.includes(action.type)
+        ? createTableSnapshot(store.getState().table)
+        : null;
+    const result = next(action);
 
-  // Only track meaningful user actions, skip internal/automatic actions
-  // Add new action types here to include them in history tracking
-  const meaningfulActions = [
-    "table/setData", // Data loading/resetting
-    "table/applyTemplate", // Template application
-    "table/importJsonData", // JSON data import
-    "table/updateCell", // Cell editing
-    "table/setSorting", // Column sorting
-    "table/toggleColumnSort",
-    "table/setColumnFilters", // Column filtering
-    "table/setColumnVisibility", // Column visibility
-    "table/setGlobalFilter", // Global search
-    "table/restoreFromHistory", // History restoration
-    "targetShapes/saveTargetShape", // Template builder: Save target shape
-    "targetShapes/saveTargetShapeAsync/fulfilled", // Template builder: Save target shape (async)
-    "targetShapes/updateTargetShape", // Template builder: Update target shape
-    "targetShapes/deleteTargetShape", // Template builder: Delete target shape
-    "targetShapes/addLookupField", // Lookup field creation
-    "targetShapes/updateLookupField", // Lookup field updates
-    "targetShapes/removeLookupField", // Lookup field removal
-    "targetShapes/refreshLookupValidation", // Lookup validation refresh
-    "targetShapes/updateDerivedFields", // Derived field updates
-    "referenceData/uploadFileSuccess", // Reference data upload
-    "referenceData/updateFileData", // Reference data editing
-    "referenceData/deleteFile", // Reference data deletion
-    "table/processDataWithLookups/fulfilled", // Lookup data processing
-    "table/updateLookupValue/fulfilled", // Real-time lookup updates
-    "lookup/acceptFuzzyMatch", // Fuzzy match review: Accept match
-    "lookup/rejectFuzzyMatch", // Fuzzy match review: Reject match
-    "lookup/batchAcceptMatches", // Fuzzy match review: Batch accept
-    "lookup/batchRejectMatches", // Fuzzy match review: Batch reject
-    "lookup/manualEntryForMatch", // Fuzzy match review: Manual entry
-  ];
-
-  // Skip actions that are not meaningful user interactions
-  if (!meaningfulActions.includes(action.type)) {
-    return result;
-  }
+    if (HISTORY_CHAIN_BREAKING_ACTIONS.includes(action.type)) {
+      recordedTable = null;
+    }
 
-  // Add timestamp to action for history tracking
-  const actionWithTimestamp = {
-    ...action,
-    timestamp: Date.now(),
-    id: Math.random().toString(36).substr(2, 9),
-    stateSnapshot: store.getState().table, // Store current table state
-  };
+    // Skip history actions to prevent infinite loops
+    if (action.type.startsWith("history/")) {
+      return result;
+    }
+
+    // Only track meaningful user actions, skip internal/automatic actions
+    // Add new action types here to include them in history tracking
+    const meaningfulActions = [
+      "table/setData", // Data loading/resetting
+      "table/applyTemplate", // Template application
+      "table/importJsonData", // JSON data import
+      "table/updateCell", // Cell editing
+      "table/updateCells", // Paste, fill down and clearing ranges
+      "table/replaceCells", // Find and replace
+      "table/insertRow", // Row and column structure
+      "table/duplicateRows",
+      "table/deleteRows",
+      "table/mergeDuplicateRows",
+      "table/addColumn",
+      "table/renameColumn",
+      "table/duplicateColumn",
+      "table/deleteColumn",
+      "table/setSorting", // Column sorting
+      "table/toggleColumnSort",
+      "table/setColumnFilters", // Column filtering
+      "table/setColumnVisibility", // Column visibility
+      "table/setGlobalFilter", // Global search
+      "table/restoreFromHistory", // History restoration
+      "targetShapes/saveTargetShape", // Template builder: Save target shape
+      "targetShapes/saveTargetShapeAsync/fulfilled", // Template builder: Save target shape (async)
+      "targetShapes/updateTargetShape", // Template builder: Update target shape
+      "targetShapes/deleteTargetShape", // Template builder: Delete target shape
+      "targetShapes/addLookupField", // Lookup field creation
+      "targetShapes/updateLookupField", // Lookup field updates
+      "targetShapes/removeLookupField", // Lookup field removal
+      "targetShapes/refreshLookupValidation", // Lookup validation refresh
+      "targetShapes/updateDerivedFields", // Derived field updates
+      "targetShapes/saveComputedField", // Computed column creation and edits
+      "targetShapes/removeComputedField", // Computed column removal
+      "referenceData/uploadFileSuccess", // Reference data upload
+      "referenceData/updateFileData", // Reference data editing
+      "referenceData/deleteFile", // Reference data deletion
+      "table/processDataWithLookups/fulfilled", // Lookup data processing
+      "table/updateLookupValue/fulfilled", // Real-time lookup updates
+      "lookup/acceptFuzzyMatch", // Fuzzy match review: Accept match
+      "lookup/rejectFuzzyMatch", // Fuzzy match review: Reject match
+      "lookup/batchAcceptMatches", // Fuzzy match review: Batch accept
+      "lookup/batchRejectMatches", // Fuzzy match review: Batch reject
+      "lookup/manualEntryForMatch", // Fuzzy match review: Manual entry
+    ];
 
-  // Dispatch to history slice
-  store.dispatch({ type: "history/addAction", payload: actionWithTimestamp });
+    // Skip actions that are not meaningful user interactions
+    if (!meaningfulActions.includes(action.type)) {
+      return result;
+    }
 
-  // Also store in window for backward compatibility (only in browser)
-  if (typeof window !== "undefined") {
-    if (!window.__REDUX_HISTORY__) {
-      window.__REDUX_HISTORY__ = [];
+    // Record table changes as patches, with periodic full checkpoints
+    const { history, table } = store.getState();
+    const tableSnapshot = createTableSnapshot(table);
+    const entry = createHistoryEntry(
+      recordedTable ?? tableBefore,
+      tableSnapshot,
+      countEntriesSinceCheckpoint(history.actions),
+      CHECKPOINT_ACTIONS.includes(action.type)
+    );
+    recordedTable = tableSnapshot;
+
+    // Add timestamp to action for history tracking
+    const actionWithTimestamp = {
+      ...action,
+      timestamp: Date.now(),
+      id: Math.random().toString(36).substr(2, 9),
+      ...entry,
+    };
+
+    // Dispatch to history slice
+    store.dispatch({ type: "history/addAction", payload: actionWithTimestamp });
+
+    // Also store in window for backward compatibility (only in browser)
+    if (typeof window !== "undefined") {
+      if (!window.__REDUX_HISTORY__) {
+        window.__REDUX_HISTORY__ = [];
+      }
+      window.__REDUX_HISTORY__.push({
+        type: action.type,
+        payload: action.payload,
+        timestamp: actionWithTimestamp.timestamp,
+        id: actionWithTimestamp.id,
+      });
     }
-    window.__REDUX_HISTORY__.push(actionWithTimestamp);
-  }
 
-  return result;
+    return result;
+  };
 };
 
 // Global action type for restoring from storage
@@ -189,6 +259,17 @@ export const makeStore = () => {
       "table/setData",
       "table/importJsonData",
       "table/updateCell",
+      "table/updateCells",
+      "table/replaceCells",
+      "table/insertRow",
+      "table/duplicateRows",
+      "table/deleteRows",
+      "table/mergeDuplicateRows",
+      "table/addColumn",
+      "table/renameColumn",
+      "table/duplicateColumn",
+      "table/deleteColumn",
+      "table/restoreTableSnapshot",
       "table/setSorting",
       "table/toggleColumnSort",
       "targetShapes/saveTargetShape",
@@ -199,6 +280,8 @@ export const makeStore = () => {
       "targetShapes/removeLookupField",
       "targetShapes/refreshLookupValidation",
       "targetShapes/updateDerivedFields",
+      "targetShapes/saveComputedField",
+      "targetShapes/removeComputedField",
       "referenceData/uploadFileSuccess",
       "referenceData/updateFileData",
       "referenceData/deleteFile",
@@ -221,13 +304,18 @@ export const makeStore = () => {
       targetShapes: targetShapesReducer,
       persistence: persistenceReducer,
       referenceData: referenceDataReducer,
+      validation: validationReducer,
+      pipelines: pipelinesReducer,
+      mappingMemory: mappingMemoryReducer,
+      datasets: datasetsReducer,
     },
     preloadedState: persistedState,
     middleware: getDefaultMiddleware =>
       getDefaultMiddleware().concat(
         historyMiddleware,
         persistenceMiddleware,
-        stateRestorationMiddleware
+        stateRestorationMiddleware,
+        validationMiddleware
       ),
   });
 
@@ -0,0 +1,68 @@
+/**
+ * Column Mapping Rule Types
+ *
+ * A plain column mapping (target field ID -> source column) fills each
+ * target field from exactly one source column. Mapping rules cover the other
+ * cases: several source columns combined into one field, and one source
+ * column split across several fields.
+ */
+
+/**
+ * Build one target field from several source columns
+ *
+ * @example
+ * ```typescript
+ * const fullName: CombineMappingRule = {
+ *   kind: 'combine',
+ *   targetFieldId: 'field_full_name',
+ *   sourceColumns: ['First', 'Last'],
+ *   separator: ' '
+ * };
+ *
+ * // Or with a template referencing columns in braces
+ * const sortName: CombineMappingRule = {
+ *   kind: 'combine',
+ *   targetFieldId: 'field_sort_name',
+ *   sourceColumns: ['First', 'Last'],
+ *   template: '{Last}, {First}'
+ * };
+ * ```
+ */
+export interface CombineMappingRule {
+  kind: "combine";
+  targetFieldId: string;
+  /** Source columns in join order */
+  sourceColumns: string[];
+  /** Joins the non-empty values (default: " "); ignored when `template` is set */
+  separator?: string;
+  /** Output template with `{Column Name}` placeholders */
+  template?: string;
+}
+
+/**
+ * Fill several target fields from the parts of one source column
+ *
+ * @example
+ * ```typescript
+ * const address: SplitMappingRule = {
+ *   kind: 'split',
+ *   sourceColumn: 'Address',
+ *   separator: ',',
+ *   targets: [
+ *     { targetFieldId: 'field_street', index: 0 },
+ *     { targetFieldId: 'field_city', index: 1 },
+ *     { targetFieldId: 'field_zip', index: -1 }
+ *   ]
+ * };
+ * ```
+ */
+export interface SplitMappingRule {
+  kind: "split";
+  sourceColumn: string;
+  /** Separator between parts; parts are trimmed and empty parts dropped */
+  separator: string;
+  /** Part index per target field; negative indexes count from the end */
+  targets: Array<{ targetFieldId: string; index: number }>;
+}
+
+export type ColumnMappingRule = CombineMappingRule | SplitMappingRule;
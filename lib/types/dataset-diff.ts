@@ -0,0 +1,90 @@
+/**
+ * Dataset Diff Types
+ *
+ * A saved dataset is a snapshot of the table (for example last month's
+ * roster). A new import is compared with it row by row through a key column
+ * to see which rows were added, removed or changed.
+ */
+
+import type { TableRow } from "../features/tableSlice";
+
+/**
+ * Saved dataset without its rows, as listed in the UI
+ */
+export interface SavedDatasetSummary {
+  /** Unique identifier (dset_ prefix) */
+  id: string;
+  name: string;
+  /** Column names in display order */
+  columns: string[];
+  rowCount: number;
+  /** Target shape applied to the table when it was saved */
+  targetShapeId?: string | null;
+  /** When the snapshot was taken (ISO string) */
+  savedAt: string;
+}
+
+/**
+ * A saved dataset with its rows
+ *
+ * @example
+ * ```typescript
+ * const march: SavedDataset = {
+ *   id: 'dset_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   name: 'Roster 2024-03',
+ *   columns: ['employee_id', 'name', 'department'],
+ *   rowCount: 2,
+ *   rows: [
+ *     { employee_id: 'E1', name: 'Ana', department: 'Sales' },
+ *     { employee_id: 'E2', name: 'Bo', department: 'Ops' }
+ *   ],
+ *   savedAt: '2024-03-31T00:00:00.000Z'
+ * };
+ * ```
+ */
+export interface SavedDataset extends SavedDatasetSummary {
+  /** Rows without internal keys (`_rowId`) */
+  rows: TableRow[];
+}
+
+/**
+ * One field that differs between the saved and the new row
+ */
+export interface FieldChange {
+  field: string;
+  previous: unknown;
+  current: unknown;
+}
+
+/**
+ * A row present in both datasets whose values differ
+ */
+export interface ChangedRow {
+  /** Key column value shared by both rows */
+  key: string;
+  previous: TableRow;
+  current: TableRow;
+  changes: FieldChange[];
+}
+
+/**
+ * Result of comparing a dataset with a saved one
+ */
+export interface DatasetDiff {
+  /** Saved dataset the data was compared with */
+  baseDatasetId: string;
+  baseDatasetName: string;
+  keyColumn: string;
+  /** Columns of either dataset, new data first */
+  columns: string[];
+  /** Rows whose key is not in the saved dataset */
+  added: TableRow[];
+  /** Saved rows whose key is missing from the new data */
+  removed: TableRow[];
+  changed: ChangedRow[];
+  unchangedCount: number;
+  /** Keys found on more than one row; only their first row is matched */
+  duplicateKeys: string[];
+  /** When the comparison ran (ISO string) */
+  comparedAt: string;
+}
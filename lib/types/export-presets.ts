@@ -0,0 +1,24 @@
+/**
+ * Export Preset Types
+ *
+ * A CSV export preset is a named set of `CsvExportOptions` (delimiter,
+ * quoting, line endings, BOM, null token, column order, formula protection)
+ * that matches what a downstream system expects, so the same file layout can
+ * be exported again from the export dropdown.
+ */
+
+import type { CsvExportOptions } from "../utils/csv-export";
+
+/**
+ * A saved CSV export preset
+ */
+export interface CsvExportPreset {
+  /** Unique identifier (xpre_ prefix) */
+  id: string;
+  name: string;
+  options: CsvExportOptions;
+  /** Creation timestamp (ISO string) */
+  createdAt: string;
+  /** Last update timestamp (ISO string) */
+  updatedAt: string;
+}
@@ -0,0 +1,70 @@
+/**
+ * Learned Mapping Types
+ *
+ * Column mappings the user accepted, remembered per target shape so the
+ * same vendor headers map themselves on the next import.
+ */
+
+import type { ColumnMappingRule } from "./column-mapping";
+
+/**
+ * A source header remembered as an alias for a target field
+ *
+ * @example
+ * ```typescript
+ * const alias: LearnedMapping = {
+ *   id: 'alias_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   targetShapeId: 'shape_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   fieldId: 'field_employee_id',
+ *   fieldName: 'employee_id',
+ *   sourceHeader: 'Emp #',
+ *   timesUsed: 3,
+ *   createdAt: '2024-01-01T00:00:00.000Z',
+ *   lastUsedAt: '2024-03-01T00:00:00.000Z'
+ * };
+ * ```
+ */
+export interface LearnedMapping {
+  /** Unique identifier (alias_ prefix) */
+  id: string;
+  /** Target shape the mapping belongs to */
+  targetShapeId: string;
+  /** Target field ID */
+  fieldId: string;
+  /** Target field name when the mapping was learned (for display) */
+  fieldName: string;
+  /** Source column header as it appeared in the import */
+  sourceHeader: string;
+  /** Number of times this mapping was applied */
+  timesUsed: number;
+  /** First time the mapping was applied (ISO string) */
+  createdAt: string;
+  /** Most recent time the mapping was applied (ISO string) */
+  lastUsedAt: string;
+}
+
+/**
+ * The mapping most recently applied to a target shape, kept so the next file
+ * mapped to the shape can be compared with it (schema drift)
+ *
+ * @example
+ * ```typescript
+ * const lastMapping: AppliedMappingSnapshot = {
+ *   targetShapeId: 'shape_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   sourceColumns: ['Emp #', 'E-mail', 'Notes'],
+ *   columnMapping: { field_employee_id: 'Emp #', field_email: 'E-mail' },
+ *   appliedAt: '2024-03-01T00:00:00.000Z'
+ * };
+ * ```
+ */
+export interface AppliedMappingSnapshot {
+  targetShapeId: string;
+  /** Every column of the file that was mapped */
+  sourceColumns: string[];
+  /** Target field ID -> source column */
+  columnMapping: Record<string, string>;
+  /** Combine and split rules applied with the mapping */
+  mappingRules?: ColumnMappingRule[];
+  /** When the mapping was applied (ISO string) */
+  appliedAt: string;
+}
@@ -0,0 +1,155 @@
+/**
+ * Import Pipeline Types
+ *
+ * A pipeline records the steps of one import session (source format, column
+ * mapping, target shape, lookup options and export format) so they can be
+ * replayed on a new file in one step.
+ */
+
+import type { ColumnMappingRule } from "./column-mapping";
+
+/**
+ * How the source file is parsed
+ */
+export interface PipelineSourceOptions {
+  /** Source format */
+  format: "csv" | "json" | "spreadsheet";
+  /** Field delimiter for CSV sources (sniffed when omitted) */
+  delimiter?: string;
+  /** Whether the first (or header) row holds column names */
+  hasHeaders: boolean;
+  /** Sheet to read from spreadsheet sources (first non-empty sheet when omitted) */
+  sheetName?: string;
+  /** One-based header row for spreadsheet sources (default: 1) */
+  headerRow?: number;
+}
+
+/**
+ * Options for the lookup step
+ */
+export interface PipelineLookupOptions {
+  /** Run lookups for the target shape's lookup fields */
+  enabled: boolean;
+  /** Fuzzy matches below this confidence are collected for review */
+  minConfidence?: number;
+}
+
+/**
+ * Format of the file produced at the end of a run
+ */
+export interface PipelineExportOptions {
+  format: "csv" | "json";
+  /** Field delimiter for CSV output (default: ",") */
+  delimiter?: string;
+  /** Whether CSV output starts with a header row (default: true) */
+  includeHeaders?: boolean;
+  /** Prefix for generated file names (default: the pipeline name) */
+  filenamePrefix?: string;
+}
+
+/**
+ * Summary of the last run, kept on the pipeline so the next run can report
+ * what changed
+ */
+export interface PipelineRunSummary {
+  /** When the run finished (ISO string) */
+  ranAt: string;
+  /** Name of the file the run read */
+  fileName?: string;
+  /** Number of rows imported */
+  rowCount: number;
+  /** Columns found in the source file */
+  sourceColumns: string[];
+  /** Lookup values that found no match */
+  unmatchedLookups: number;
+  /** Cells whose transformation failed */
+  failedCells: number;
+}
+
+/**
+ * A saved import pipeline
+ *
+ * @example
+ * ```typescript
+ * const weeklyVendorImport: ImportPipeline = {
+ *   id: 'pipe_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   name: 'Acme weekly inventory',
+ *   source: { format: 'csv', delimiter: ';', hasHeaders: true },
+ *   sourceColumns: ['Item No', 'Desc', 'Qty'],
+ *   columnMapping: { field_sku: 'Item No', field_quantity: 'Qty' },
+ *   targetShapeId: 'shape_01H9X2K3L4M5N6P7Q8R9S0T1U',
+ *   lookup: { enabled: true, minConfidence: 0.8 },
+ *   export: { format: 'csv' },
+ *   createdAt: '2024-01-01T00:00:00.000Z',
+ *   updatedAt: '2024-01-01T00:00:00.000Z'
+ * };
+ * ```
+ */
+export interface ImportPipeline {
+  /** Unique identifier (pipe_ prefix) */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Optional description */
+  description?: string;
+  /** How the source file is parsed */
+  source: PipelineSourceOptions;
+  /** Source columns seen when the pipeline was recorded */
+  sourceColumns: string[];
+  /** Target field ID -> source column name */
+  columnMapping: Record<string, string>;
+  /** Combine and split rules applied alongside `columnMapping` */
+  mappingRules?: ColumnMappingRule[];
+  /** Target shape the data is mapped to */
+  targetShapeId: string;
+  /** `updatedAt` of the target shape when the pipeline was recorded */
+  targetShapeUpdatedAt?: string;
+  /** Lookup step options */
+  lookup: PipelineLookupOptions;
+  /** Output format */
+  export: PipelineExportOptions;
+  /** Summary of the most recent run */
+  lastRun?: PipelineRunSummary;
+  /** Creation timestamp (ISO string) */
+  createdAt: string;
+  /** Last update timestamp (ISO string) */
+  updatedAt: string;
+}
+
+/**
+ * What happened during a pipeline run, compared with the recording and the
+ * previous run
+ */
+export interface PipelineRunReport {
+  pipelineId: string;
+  pipelineName: string;
+  /** When the run finished (ISO string) */
+  ranAt: string;
+  fileName?: string;
+  /** Rows imported in this run */
+  rowCount: number;
+  /** Rows imported in the previous run, if any */
+  previousRowCount?: number;
+  /** Source columns not present when the pipeline was recorded */
+  addedColumns: string[];
+  /** Recorded source columns missing from this file */
+  missingColumns: string[];
+  /** Target fields left empty because their source column is missing */
+  unmappedFields: string[];
+  /** Whether the target shape was edited since the pipeline was recorded */
+  shapeChanged: boolean;
+  /** Transformation results */
+  transformation: {
+    cellsChanged: number;
+    failedCells: number;
+  };
+  /** Lookup results (omitted when the lookup step did not run) */
+  lookups?: {
+    exactMatches: number;
+    normalizedMatches: number;
+    fuzzyMatches: number;
+    noMatches: number;
+  };
+  /** Human-readable notes for anything that needs attention */
+  warnings: string[];
+}
@@ -24,7 +24,7 @@ export interface ReferenceDataInfo {
   /** File size in bytes */
   fileSize: number;
   /** Detected file format */
-  format: "csv" | "json";
+  format: ReferenceDataFormat;
   /** Optional metadata */
   metadata?: {
     /** Original file MIME type */
@@ -35,9 +35,18 @@ export interface ReferenceDataInfo {
     hasHeaders?: boolean;
     /** Character encoding detected */
     encoding?: string;
+    /** Sheet the rows were read from (spreadsheet files) */
+    sheetName?: string;
+    /** Zero-based header row index (spreadsheet files) */
+    headerRow?: number;
   };
 }
 
+/**
+ * Supported reference file formats (spreadsheet covers .xlsx, .xls and .ods)
+ */
+export type ReferenceDataFormat = "csv" | "json" | "spreadsheet";
+
 /**
  * Parsed reference data with metadata
  */
@@ -58,6 +67,10 @@ export interface UploadReferenceOptions {
   delimiter?: string;
   /** Whether the file has headers (auto-detected if not provided) */
   hasHeaders?: boolean;
+  /** Sheet to read from spreadsheet files (defaults to the first sheet) */
+  sheetName?: string;
+  /** Zero-based header row for spreadsheet files (default: 0) */
+  headerRow?: number;
   /** Additional metadata to store */
   metadata?: Record<string, any>;
 }
@@ -73,11 +86,15 @@ export interface ValidationResult {
   /** Warning messages for potential issues */
   warnings: string[];
   /** Detected file format */
-  format?: "csv" | "json";
+  format?: ReferenceDataFormat;
+  /** Sheet names found in spreadsheet files */
+  sheetNames?: string[];
   /** Detected delimiter for CSV */
   delimiter?: string;
   /** Whether headers were detected */
   hasHeaders?: boolean;
+  /** Detected character encoding for CSV */
+  encoding?: string;
 }
 
 /**
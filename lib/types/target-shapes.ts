@@ -174,15 +174,75 @@ export interface ShapeTemplate {
  *   get: 'dept_id',         // Return department ID as the value
  *   show: 'dept_full_name'  // Display full department name in UI
  * };
+ *
+ * // Composite key: match an employee on first name + last name + department
+ * const employeeMatch: LookupMatch = {
+ *   on: 'first_name',
+ *   get: 'employee_id',
+ *   keys: [
+ *     { input: 'first_name', on: 'first_name' },
+ *     { input: 'last_name', on: 'last_name', weight: 2 },
+ *     { input: 'department', on: 'dept_name', exact: true }
+ *   ]
+ * };
  * ```
  */
 export interface LookupMatch {
-  /** Column name in reference data to match input values against */
+  /**
+   * Column name in reference data to match input values against. With
+   * composite `keys` this mirrors the first key part's reference column.
+   */
   on: string;
   /** Column name in reference data to return as the lookup result */
   get: string;
   /** Optional column name to display in UI (defaults to 'get' column) */
   show?: string;
+  /**
+   * Composite match key. When set, the lookup reads each part from its own
+   * input column instead of the field's value, and a reference row matches
+   * only when every part matches.
+   */
+  keys?: LookupKeyPart[];
+}
+
+/**
+ * Normalization applied to both sides of a key part before comparing.
+ * Unset options fall back to the lookup defaults (case-insensitive, trimmed,
+ * accents removed, whitespace collapsed, punctuation kept).
+ */
+export interface LookupKeyNormalization {
+  caseSensitive?: boolean;
+  trimWhitespace?: boolean;
+  removeAccents?: boolean;
+  collapseWhitespace?: boolean;
+  removePunctuation?: boolean;
+}
+
+/**
+ * One part of a composite lookup key, pairing an input column with the
+ * reference column it is matched against.
+ *
+ * @example
+ * ```typescript
+ * const skuPart: LookupKeyPart = {
+ *   input: 'sku',
+ *   on: 'product_sku',
+ *   exact: true,
+ *   normalization: { removePunctuation: true }
+ * };
+ * ```
+ */
+export interface LookupKeyPart {
+  /** Column in the input row that supplies this part of the key */
+  input: string;
+  /** Column in reference data to match this part against */
+  on: string;
+  /** Per-part normalization options */
+  normalization?: LookupKeyNormalization;
+  /** Relative weight of this part in the fuzzy similarity score (default: 1) */
+  weight?: number;
+  /** Require this part to match after normalization, even when fuzzy matching */
+  exact?: boolean;
 }
 
 /**
@@ -254,6 +314,8 @@ export interface EnumField extends TargetField {
   options: EnumOption[];
   /** Whether values must be unique across the dataset */
   unique?: boolean;
+  /** Source value -> option value, confirmed during import and reused by later imports */
+  valueMap?: Record<string, string>;
 }
 
 /**
@@ -315,6 +377,27 @@ export interface LookupField extends TargetField {
   allowReferenceEdit?: boolean;
 }
 
+/**
+ * Field whose values are computed from other columns by a formula rather
+ * than imported. Computed values are read-only and recompute whenever a cell
+ * they depend on changes. See `lib/utils/formula-engine.ts` for the syntax.
+ *
+ * @example
+ * ```typescript
+ * const total: ComputedField = {
+ *   id: 'total',
+ *   name: 'total',
+ *   type: 'currency',
+ *   required: false,
+ *   formula: 'round(price * qty, 2)'
+ * };
+ * ```
+ */
+export interface ComputedField extends TargetField {
+  /** Formula evaluated against each row */
+  formula: string;
+}
+
 // Shape Selection/Creation Options
 export interface ShapeSelection {
   type: "saved" | "template" | "new";
@@ -11,6 +11,7 @@ import type {
 } from "@/lib/utils/column-transformer";
 import type { TableRow } from "@/lib/features/tableSlice";
 import { LookupEditableCell } from "@/app/playground/lookup-editable-cell";
+import { isComputedField } from "@/lib/utils/formula-engine";
 
 /**
  * Generates column definitions from a target shape
@@ -156,6 +157,26 @@ function generateColumnFromTargetField(
     };
   }
 
+  // Computed fields are read-only; the formula shows on hover
+  if (isComputedField(field)) {
+    return {
+      accessorKey: field.name as keyof TableRow,
+      header: field.name,
+      cell: (info: any) => (
+        <div className="flex items-center" title={field.formula}>
+          <span className="text-muted-foreground">
+            {String(info.getValue() ?? "")}
+          </span>
+          <span className="ml-1 text-xs italic text-muted-foreground">fx</span>
+        </div>
+      ),
+      meta: {
+        ...meta,
+        editable: false,
+      },
+    };
+  }
+
   // Check if this is a derived field from a lookup (read-only)
   const isDerivedField = field.metadata?.source?.startsWith("lookup:");
   if (isDerivedField) {
@@ -0,0 +1,158 @@
+/**
+ * Tests for Column Mapping Rules
+ *
+ * Covers combining several source columns into one field, splitting one
+ * column across several fields, and how rules mix with the plain mapping.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  combineColumnValues,
+  describeMappingRule,
+  getMappedFieldIds,
+  getRuleSourceColumns,
+  mapRowToFields,
+  splitColumnValue,
+} from "./column-mapping-rules";
+import type {
+  CombineMappingRule,
+  SplitMappingRule,
+} from "../types/column-mapping";
+
+const fields = [
+  { id: "f_name", name: "name" },
+  { id: "f_email", name: "email" },
+  { id: "f_street", name: "street" },
+  { id: "f_city", name: "city" },
+  { id: "f_zip", name: "zip" },
+];
+
+const nameRule: CombineMappingRule = {
+  kind: "combine",
+  targetFieldId: "f_name",
+  sourceColumns: ["First", "Last"],
+};
+
+const addressRule: SplitMappingRule = {
+  kind: "split",
+  sourceColumn: "Address",
+  separator: ",",
+  targets: [
+    { targetFieldId: "f_street", index: 0 },
+    { targetFieldId: "f_city", index: 1 },
+    { targetFieldId: "f_zip", index: -1 },
+  ],
+};
+
+describe("combineColumnValues", () => {
+  it("should join non-empty values with the separator", () => {
+    expect(
+      combineColumnValues({ First: " Ada ", Last: "Lovelace" }, nameRule)
+    ).toBe("Ada Lovelace");
+    expect(
+      combineColumnValues(
+        { First: "Ada", Last: "" },
+        { ...nameRule, separator: "-" }
+      )
+    ).toBe("Ada");
+  });
+
+  it("should fill a template from column placeholders", () => {
+    expect(
+      combineColumnValues(
+        { First: "Ada", Last: "Lovelace" },
+        { ...nameRule, template: "{Last}, {First}" }
+      )
+    ).toBe("Lovelace, Ada");
+  });
+});
+
+describe("splitColumnValue", () => {
+  it("should pick parts by position, counting negatives from the end", () => {
+    expect(
+      splitColumnValue("1 Main St, Springfield, IL, 12345", addressRule)
+    ).toEqual({ f_street: "1 Main St", f_city: "Springfield", f_zip: "12345" });
+  });
+
+  it("should leave out parts that do not exist", () => {
+    expect(
+      splitColumnValue("1 Main St", {
+        ...addressRule,
+        targets: [
+          { targetFieldId: "f_street", index: 0 },
+          { targetFieldId: "f_city", index: 1 },
+        ],
+      })
+    ).toEqual({ f_street: "1 Main St" });
+    expect(splitColumnValue(null, addressRule)).toEqual({});
+  });
+});
+
+describe("mapRowToFields", () => {
+  it("should apply the column mapping and rules together", () => {
+    const row = mapRowToFields(
+      {
+        _rowId: "r1",
+        First: "Ada",
+        Last: "Lovelace",
+        Mail: "ada@example.com",
+        Address: "1 Main St, London",
+        Notes: "dropped",
+      },
+      { f_email: "Mail" },
+      [nameRule, addressRule],
+      fields
+    );
+
+    expect(row).toEqual({
+      _rowId: "r1",
+      email: "ada@example.com",
+      name: "Ada Lovelace",
+      street: "1 Main St",
+      city: "London",
+      zip: "London",
+    });
+  });
+
+  it("should rewrite values of fields with an enum value map", () => {
+    expect(
+      mapRowToFields(
+        { _rowId: "r1", Status: "Act." },
+        { f_status: "Status" },
+        [],
+        [{ id: "f_status", name: "status", valueMap: { "act.": "active" } }]
+      )
+    ).toEqual({ _rowId: "r1", status: "active" });
+  });
+
+  it("should skip rules whose source columns are absent", () => {
+    expect(
+      mapRowToFields(
+        { _rowId: "r1", Mail: "a@b.co" },
+        {},
+        [nameRule, addressRule],
+        fields
+      )
+    ).toEqual({ _rowId: "r1" });
+  });
+});
+
+describe("rule helpers", () => {
+  it("should list mapped fields and rule source columns", () => {
+    expect([
+      ...getMappedFieldIds({ f_email: "Mail", f_zip: "" }, [nameRule]),
+    ]).toEqual(["f_email", "f_name"]);
+    expect(getRuleSourceColumns([nameRule, addressRule])).toEqual([
+      "First",
+      "Last",
+      "Address",
+    ]);
+  });
+
+  it("should describe rules with field names", () => {
+    expect(describeMappingRule(nameRule, fields)).toBe("First + Last → name");
+    expect(describeMappingRule(addressRule, fields)).toBe(
+      "Address → street, city, zip"
+    );
+  });
+});
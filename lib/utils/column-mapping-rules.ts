@@ -0,0 +1,218 @@
+/**
+ * Column Mapping Rules
+ *
+ * Maps imported rows to target fields using a plain column mapping (one
+ * source column per field) plus combine and split rules (many-to-one and
+ * one-to-many). Shared by template application, lookup processing and
+ * import pipelines so every path maps rows the same way.
+ *
+ * @example
+ * ```typescript
+ * import { mapRowToFields } from './column-mapping-rules';
+ *
+ * mapRowToFields(
+ *   { _rowId: 'cs_1', First: 'Ada', Last: 'Lovelace', Address: '1 Main St, Springfield, 12345' },
+ *   { field_email: 'Email' },
+ *   [
+ *     { kind: 'combine', targetFieldId: 'field_name', sourceColumns: ['First', 'Last'] },
+ *     {
+ *       kind: 'split',
+ *       sourceColumn: 'Address',
+ *       separator: ',',
+ *       targets: [
+ *         { targetFieldId: 'field_street', index: 0 },
+ *         { targetFieldId: 'field_zip', index: -1 },
+ *       ],
+ *     },
+ *   ],
+ *   fields
+ * );
+ * // { _rowId: 'cs_1', name: 'Ada Lovelace', street: '1 Main St', zip: '12345' }
+ * ```
+ */
+
+import type {
+  ColumnMappingRule,
+  CombineMappingRule,
+  SplitMappingRule,
+} from "../types/column-mapping";
+import { createEnumValueMapper } from "./enum-value-mapping";
+
+interface MappableField {
+  id: string;
+  name: string;
+  /** Enum value map applied to the field's mapped values */
+  valueMap?: Record<string, string>;
+}
+
+type Row = Record<string, unknown>;
+
+// Value maps are reused across rows, so their mappers are built once
+const valueMappers = new WeakMap<
+  Record<string, string>,
+  (value: unknown) => unknown
+>();
+
+const getValueMapper = (valueMap: Record<string, string>) => {
+  let mapper = valueMappers.get(valueMap);
+  if (!mapper) {
+    mapper = createEnumValueMapper(valueMap);
+    valueMappers.set(valueMap, mapper);
+  }
+  return mapper;
+};
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === "";
+
+/**
+ * Combine several source values into one
+ */
+export function combineColumnValues(
+  row: Row,
+  rule: CombineMappingRule
+): string {
+  if (rule.template) {
+    return rule.template
+      .replace(/\{([^}]+)\}/g, (_, column: string) =>
+        isEmpty(row[column]) ? "" : String(row[column]).trim()
+      )
+      .trim();
+  }
+
+  return rule.sourceColumns
+    .map(column => row[column])
+    .filter(value => !isEmpty(value))
+    .map(value => String(value).trim())
+    .join(rule.separator ?? " ");
+}
+
+/**
+ * Split one source value into target field ID -> part
+ */
+export function splitColumnValue(
+  value: unknown,
+  rule: SplitMappingRule
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (isEmpty(value) || !rule.separator) return result;
+
+  const parts = String(value)
+    .split(rule.separator)
+    .map(part => part.trim())
+    .filter(part => part !== "");
+
+  rule.targets.forEach(({ targetFieldId, index }) => {
+    const part = index < 0 ? parts[parts.length + index] : parts[index];
+    if (part !== undefined) {
+      result[targetFieldId] = part;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Map one source row to target field names. Internal keys (`_rowId`) are
+ * kept; unmapped source columns are dropped. Fields with a `valueMap` have
+ * their values rewritten to the mapped enum options.
+ */
+export function mapRowToFields(
+  row: Row,
+  columnMapping: Record<string, string>,
+  mappingRules: ColumnMappingRule[] = [],
+  fields: MappableField[]
+): Row {
+  const newRow: Row = { _rowId: row._rowId };
+  const fieldName = (fieldId: string) =>
+    fields.find(field => field.id === fieldId)?.name;
+
+  Object.entries(columnMapping).forEach(([targetFieldId, sourceColumn]) => {
+    const name = fieldName(targetFieldId);
+    if (name && sourceColumn && row[sourceColumn] !== undefined) {
+      newRow[name] = row[sourceColumn];
+    }
+  });
+
+  mappingRules.forEach(rule => {
+    if (rule.kind === "combine") {
+      const name = fieldName(rule.targetFieldId);
+      if (name && rule.sourceColumns.some(column => column in row)) {
+        newRow[name] = combineColumnValues(row, rule);
+      }
+      return;
+    }
+
+    if (!(rule.sourceColumn in row)) return;
+    const parts = splitColumnValue(row[rule.sourceColumn], rule);
+    rule.targets.forEach(({ targetFieldId }) => {
+      const name = fieldName(targetFieldId);
+      if (name) newRow[name] = parts[targetFieldId] ?? "";
+    });
+  });
+
+  fields.forEach(field => {
+    if (field.valueMap && field.name in newRow) {
+      newRow[field.name] = getValueMapper(field.valueMap)(newRow[field.name]);
+    }
+  });
+
+  return newRow;
+}
+
+/**
+ * Target field IDs filled by a mapping and its rules
+ */
+export function getMappedFieldIds(
+  columnMapping: Record<string, string>,
+  mappingRules: ColumnMappingRule[] = []
+): Set<string> {
+  const ids = new Set(
+    Object.entries(columnMapping)
+      .filter(([, column]) => column)
+      .map(([fieldId]) => fieldId)
+  );
+  mappingRules.forEach(rule => {
+    if (rule.kind === "combine") {
+      ids.add(rule.targetFieldId);
+    } else {
+      rule.targets.forEach(target => ids.add(target.targetFieldId));
+    }
+  });
+  return ids;
+}
+
+/**
+ * Source columns read by mapping rules
+ */
+export function getRuleSourceColumns(
+  mappingRules: ColumnMappingRule[]
+): string[] {
+  return [
+    ...new Set(
+      mappingRules.flatMap(rule =>
+        rule.kind === "combine" ? rule.sourceColumns : [rule.sourceColumn]
+      )
+    ),
+  ];
+}
+
+/**
+ * Short human-readable description of a rule
+ */
+export function describeMappingRule(
+  rule: ColumnMappingRule,
+  fields: MappableField[]
+): string {
+  const fieldName = (fieldId: string) =>
+    fields.find(field => field.id === fieldId)?.name ?? fieldId;
+
+  if (rule.kind === "combine") {
+    const sources = rule.template || rule.sourceColumns.join(" + ");
+    return `${sources} → ${fieldName(rule.targetFieldId)}`;
+  }
+
+  return `${rule.sourceColumn} → ${rule.targets
+    .map(target => fieldName(target.targetFieldId))
+    .join(", ")}`;
+}
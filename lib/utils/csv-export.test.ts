@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { CSV_DIALECT_PRESETS, convertToCsv } from "./csv-export";
+
+const rows = [
+  { id: 1, name: "Smith, Ann", note: 'Says "hi"' },
+  { id: 2, name: "Bo", note: null },
+];
+
+describe("convertToCsv", () => {
+  it("should quote only fields that need it by default", () => {
+    expect(convertToCsv(rows)).toBe(
+      'id,name,note\n1,"Smith, Ann","Says ""hi"""\n2,Bo,'
+    );
+  });
+
+  it("should quote fields holding the configured delimiter", () => {
+    expect(convertToCsv([{ a: "x;y", b: "1,5" }], { delimiter: ";" })).toBe(
+      'a;b\n"x;y";1,5'
+    );
+  });
+
+  it("should quote every field when asked, but not the null token", () => {
+    expect(convertToCsv(rows, { quoting: "all", nullValue: "NULL" })).toBe(
+      '"id","name","note"\n"1","Smith, Ann","Says ""hi"""\n"2","Bo",NULL'
+    );
+  });
+
+  it("should use CRLF line endings and a BOM", () => {
+    const csv = convertToCsv([{ a: "1" }, { a: "2" }], {
+      lineEnding: "\r\n",
+      includeBom: true,
+    });
+
+    expect(csv).toBe("\uFEFFa\r\n1\r\n2");
+  });
+
+  it("should quote values with carriage returns", () => {
+    expect(convertToCsv([{ a: "x\ry" }])).toBe('a\n"x\ry"');
+  });
+
+  it("should export a fixed column order", () => {
+    expect(convertToCsv(rows, { columns: ["note", "id", "missing"] })).toBe(
+      'note,id,missing\n"Says ""hi""",1,\n,2,'
+    );
+  });
+
+  it("should protect formula-like text but not signed numbers", () => {
+    const csv = convertToCsv(
+      [
+        { v: "=SUM(A1:A2)" },
+        { v: "+1+cmd|' /C calc'!A0" },
+        { v: "@foo" },
+        { v: "-12.5" },
+        { v: -3 },
+        { v: "a=b" },
+      ],
+      { protectFormulas: true }
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "v",
+      "'=SUM(A1:A2)",
+      "'+1+cmd|' /C calc'!A0",
+      "'@foo",
+      "-12.5",
+      "-3",
+      "a=b",
+    ]);
+  });
+
+  it("should throw on empty data", () => {
+    expect(() => convertToCsv([])).toThrow(
+      "No data provided for CSV conversion"
+    );
+  });
+});
+
+describe("CSV_DIALECT_PRESETS", () => {
+  it("should write Excel files with a BOM, CRLF and formula protection", () => {
+    const excel = CSV_DIALECT_PRESETS.find(preset => preset.id === "excel");
+
+    expect(convertToCsv([{ a: "=1" }], excel?.options)).toBe("\uFEFFa\r\n'=1");
+  });
+});
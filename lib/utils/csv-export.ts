@@ -8,8 +8,70 @@ export interface CsvExportOptions {
   delimiter?: string;
   includeHeaders?: boolean;
   escapeQuotes?: boolean;
+  /** "minimal" quotes fields that need it, "all" quotes every field (default: minimal) */
+  quoting?: "minimal" | "all";
+  /** Line ending between records (default: \n) */
+  lineEnding?: "\n" | "\r\n";
+  /** Start the file with a UTF-8 byte order mark so Excel detects the encoding */
+  includeBom?: boolean;
+  /** Written unquoted for null and undefined values (default: empty) */
+  nullValue?: string;
+  /** Export exactly these columns in this order instead of every key */
+  columns?: string[];
+  /** Prefix text starting with =, +, - or @ with a quote so spreadsheets don't run it */
+  protectFormulas?: boolean;
 }
 
+export const DEFAULT_CSV_EXPORT_OPTIONS: Required<
+  Omit<CsvExportOptions, "columns">
+> = {
+  delimiter: ",",
+  includeHeaders: true,
+  escapeQuotes: true,
+  quoting: "minimal",
+  lineEnding: "\n",
+  includeBom: false,
+  nullValue: "",
+  protectFormulas: false,
+};
+
+/**
+ * Built-in dialects for common downstream systems
+ */
+export const CSV_DIALECT_PRESETS: {
+  id: string;
+  name: string;
+  options: CsvExportOptions;
+}[] = [
+  {
+    id: "excel",
+    name: "Excel",
+    options: { lineEnding: "\r\n", includeBom: true, protectFormulas: true },
+  },
+  {
+    id: "rfc4180",
+    name: "RFC 4180",
+    options: { lineEnding: "\r\n" },
+  },
+  {
+    id: "quote-all",
+    name: "Quote all fields",
+    options: { quoting: "all" },
+  },
+  {
+    id: "mysql-load-data",
+    name: "MySQL LOAD DATA",
+    options: { nullValue: "\\N" },
+  },
+];
+
+const UTF8_BOM = "\uFEFF";
+
+const FORMULA_PREFIXES = ["=", "+", "-", "@"];
+
+// Signed numbers such as "-12.5" start with a formula character but are safe
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
 /**
  * Converts an array of objects to CSV format
  *
@@ -21,11 +83,8 @@ export function convertToCsv(
   data: Record<string, any>[],
   options: CsvExportOptions = {}
 ): string {
-  const {
-    delimiter = ",",
-    includeHeaders = true,
-    escapeQuotes = true,
-  } = options;
+  const { delimiter, includeHeaders, includeBom, lineEnding, ...fieldOptions } =
+    { ...DEFAULT_CSV_EXPORT_OPTIONS, ...options };
 
   if (!data || data.length === 0) {
     throw new Error("No data provided for CSV conversion");
@@ -35,21 +94,25 @@ export function convertToCsv(
     throw new Error("Data must be an array of objects");
   }
 
-  // Get all unique keys from all objects
-  const allKeys = new Set<string>();
-  data.forEach(obj => {
-    Object.keys(obj).forEach(key => allKeys.add(key));
-  });
-  const headers = Array.from(allKeys);
+  let headers: string[];
+  if (options.columns && options.columns.length > 0) {
+    headers = options.columns;
+  } else {
+    // Get all unique keys from all objects
+    const allKeys = new Set<string>();
+    data.forEach(obj => {
+      Object.keys(obj).forEach(key => allKeys.add(key));
+    });
+    headers = Array.from(allKeys);
+  }
 
+  const fieldFormat = { ...fieldOptions, delimiter };
   const rows: string[] = [];
 
   // Add headers if requested
   if (includeHeaders) {
     rows.push(
-      headers
-        .map(header => escapeCsvField(header, escapeQuotes))
-        .join(delimiter)
+      headers.map(header => escapeCsvField(header, fieldFormat)).join(delimiter)
     );
   }
 
@@ -57,44 +120,64 @@ export function convertToCsv(
   data.forEach(obj => {
     const row = headers.map(header => {
       const value = obj[header];
-      return escapeCsvField(value, escapeQuotes);
+      return escapeCsvField(value, fieldFormat);
     });
     rows.push(row.join(delimiter));
   });
 
-  return rows.join("\n");
+  return (includeBom ? UTF8_BOM : "") + rows.join(lineEnding);
 }
 
 /**
  * Escapes a field value for CSV format
  *
  * @param value - The value to escape
- * @param escapeQuotes - Whether to escape quotes
+ * @param format - Delimiter, quoting and null handling
  * @returns Escaped CSV field
  */
-function escapeCsvField(value: any, escapeQuotes: boolean = true): string {
+function escapeCsvField(
+  value: any,
+  format: Required<
+    Pick<
+      CsvExportOptions,
+      "delimiter" | "escapeQuotes" | "quoting" | "nullValue" | "protectFormulas"
+    >
+  >
+): string {
   if (value === null || value === undefined) {
-    return "";
+    return format.nullValue;
   }
 
-  const stringValue = String(value);
+  let stringValue = String(value);
 
-  // If the value contains delimiter, newline, or quotes, wrap in quotes
   if (
-    stringValue.includes(",") ||
-    stringValue.includes("\n") ||
-    stringValue.includes('"')
+    format.protectFormulas &&
+    typeof value === "string" &&
+    FORMULA_PREFIXES.includes(stringValue.charAt(0)) &&
+    !NUMERIC_PATTERN.test(stringValue)
   ) {
-    if (escapeQuotes) {
-      // Escape quotes by doubling them
-      const escapedValue = stringValue.replace(/"/g, '""');
-      return `"${escapedValue}"`;
-    } else {
-      return `"${stringValue}"`;
-    }
+    stringValue = `'${stringValue}`;
+  }
+
+  // If the value contains the delimiter, a line break, or quotes, wrap in quotes
+  const needsQuotes =
+    format.quoting === "all" ||
+    stringValue.includes(format.delimiter) ||
+    stringValue.includes("\n") ||
+    stringValue.includes("\r") ||
+    stringValue.includes('"');
+
+  if (!needsQuotes) {
+    return stringValue;
   }
 
-  return stringValue;
+  if (format.escapeQuotes) {
+    // Escape quotes by doubling them
+    const escapedValue = stringValue.replace(/"/g, '""');
+    return `"${escapedValue}"`;
+  } else {
+    return `"${stringValue}"`;
+  }
 }
 
 /**
@@ -125,18 +208,18 @@ export function generateFilename(
 /**
  * Downloads data as a file
  *
- * @param content - File content
+ * @param content - File content (text, or binary for workbooks)
  * @param filename - Filename
  * @param mimeType - MIME type
  * @throws Error if download fails
  */
 export function downloadFile(
-  content: string,
+  content: string | ArrayBuffer,
   filename: string,
   mimeType: string
 ): void {
   try {
-    if (!content) {
+    if (typeof content === "string" ? !content : content.byteLength === 0) {
       throw new Error("No content to download");
     }
 
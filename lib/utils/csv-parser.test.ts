@@ -0,0 +1,194 @@
+/**
+ * Tests for CSV Parser
+ *
+ * Covers RFC 4180 quoting rules, delimiter sniffing, encoding detection and
+ * chunked parsing across field and line-ending boundaries.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CsvParser,
+  CsvParseError,
+  parseCsv,
+  parseCsvFile,
+  csvRowsToObjects,
+  detectDelimiter,
+  detectEncoding,
+  decodeCsvBytes,
+} from "./csv-parser";
+
+describe("parseCsv", () => {
+  it("should handle quoted delimiters, newlines and escaped quotes", () => {
+    const { rows } = parseCsv(
+      'name,note\n"Doe, Jane","line 1\nline 2"\nBob,"said ""hi"""'
+    );
+
+    expect(rows).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", "line 1\nline 2"],
+      ["Bob", 'said "hi"'],
+    ]);
+  });
+
+  it("should handle CRLF, bare CR and a leading BOM", () => {
+    expect(parseCsv("﻿a,b\r\n1,2\r3,4\r\n").rows).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("should skip blank lines but keep empty trailing fields", () => {
+    expect(parseCsv("a,b\n\n1,\n", { delimiter: "," }).rows).toEqual([
+      ["a", "b"],
+      ["1", ""],
+    ]);
+  });
+
+  it("should trim unquoted fields but preserve quoted whitespace", () => {
+    expect(parseCsv('a , " b " \n', { delimiter: "," }).rows).toEqual([
+      ["a", " b "],
+    ]);
+    expect(parseCsv("a , b", { delimiter: ",", trim: false }).rows).toEqual([
+      ["a ", " b"],
+    ]);
+  });
+
+  it("should throw CsvParseError for unterminated quotes", () => {
+    expect(() => parseCsv('a,b\n1,"oops\n2,3', { delimiter: "," })).toThrow(
+      CsvParseError
+    );
+    try {
+      parseCsv('a,b\n1,"oops', { delimiter: "," });
+    } catch (error) {
+      expect((error as CsvParseError).line).toBe(2);
+    }
+  });
+
+  it("should close unterminated quotes at end of input when not strict", () => {
+    expect(
+      parseCsv('a,b\n1,"oops\n2', { delimiter: ",", strict: false }).rows
+    ).toEqual([
+      ["a", "b"],
+      ["1", "oops\n2"],
+    ]);
+  });
+});
+
+describe("CsvParser", () => {
+  it("should produce the same records regardless of chunk boundaries", () => {
+    const text = 'id,quote\r\n1,"a ""b""\r\nc"\r\n2,d\r\n';
+    const expected = parseCsv(text, { delimiter: "," }).rows;
+
+    for (let size = 1; size <= 4; size++) {
+      const parser = new CsvParser({ delimiter: "," });
+      const rows: string[][] = [];
+      for (let i = 0; i < text.length; i += size) {
+        rows.push(...parser.push(text.slice(i, i + size)));
+      }
+      rows.push(...parser.flush());
+      expect(rows).toEqual(expected);
+    }
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("should sniff comma, tab, semicolon and pipe", () => {
+    expect(detectDelimiter("a,b,c\n1,2,3")).toBe(",");
+    expect(detectDelimiter("a\tb\n1\t2")).toBe("\t");
+    expect(detectDelimiter("name;price\nWidget;1,50\nGadget;2,75")).toBe(";");
+    expect(detectDelimiter("a|b|c\n1|2|3")).toBe("|");
+  });
+
+  it("should ignore delimiters inside quoted fields", () => {
+    expect(detectDelimiter('name;city\n"Doe, Jane";"Paris, FR"')).toBe(";");
+  });
+});
+
+describe("detectEncoding", () => {
+  it("should detect BOMs and fall back to windows-1252", () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe(
+      "utf-8"
+    );
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe(
+      "utf-16le"
+    );
+    expect(detectEncoding(new TextEncoder().encode("café"))).toBe("utf-8");
+    // "café" in Windows-1252
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe(
+      "windows-1252"
+    );
+  });
+
+  it("should decode bytes and strip the BOM", () => {
+    const { text, encoding } = decodeCsvBytes(
+      new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00])
+    );
+    expect(encoding).toBe("utf-16le");
+    expect(text).toBe("a,b");
+  });
+});
+
+describe("csvRowsToObjects", () => {
+  it("should key rows by unique headers", () => {
+    expect(
+      csvRowsToObjects([["name", "name", ""], ["Ann", "A.", "x"], ["Bob"]])
+    ).toEqual([
+      { name: "Ann", name_2: "A.", col3: "x" },
+      { name: "Bob", name_2: "", col3: "" },
+    ]);
+  });
+
+  it("should generate column names without headers", () => {
+    expect(csvRowsToObjects([["1", "2"]], { hasHeaders: false })).toEqual([
+      { col1: "1", col2: "2" },
+    ]);
+  });
+});
+
+describe("parseCsvFile", () => {
+  it("should stream a file in chunks and report progress", async () => {
+    const content = 'id;note\n1;"multi\nline"\n2;plain\n';
+    const file = new File([content], "data.csv");
+    const progress: number[] = [];
+
+    const result = await parseCsvFile(file, {
+      chunkSize: 5,
+      onProgress: ({ bytesRead }) => progress.push(bytesRead),
+    });
+
+    expect(result.delimiter).toBe(";");
+    expect(result.encoding).toBe("utf-8");
+    expect(result.rows).toEqual([
+      ["id", "note"],
+      ["1", "multi\nline"],
+      ["2", "plain"],
+    ]);
+    expect(progress[progress.length - 1]).toBe(file.size);
+  });
+
+  it("should hand rows to onRows instead of collecting them", async () => {
+    const file = new File(["a,b\n1,2\n3,4\n"], "data.csv");
+    const batches: string[][][] = [];
+
+    const result = await parseCsvFile(file, {
+      chunkSize: 4,
+      onRows: rows => batches.push(rows),
+    });
+
+    expect(result.rows).toEqual([]);
+    expect(result.rowCount).toBe(3);
+    expect(batches.flat()).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("should decode multi-byte characters split across chunks", async () => {
+    const file = new File([new TextEncoder().encode("name\nJosé\n")], "a.csv");
+    const result = await parseCsvFile(file, { chunkSize: 8 });
+
+    expect(result.rows).toEqual([["name"], ["José"]]);
+  });
+});
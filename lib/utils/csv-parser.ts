@@ -0,0 +1,479 @@
+/**
+ * CSV Parser
+ *
+ * RFC 4180 CSV parsing shared by data import, reference data and the CSV
+ * tools. The parser is an incremental state machine, so text can be fed in
+ * arbitrary chunks and fields may span chunk boundaries.
+ *
+ * Features:
+ * - Quoted fields with embedded delimiters, newlines and escaped quotes ("")
+ * - LF, CRLF and bare CR line endings
+ * - Delimiter sniffing for comma, tab, semicolon and pipe
+ * - Encoding detection (UTF-8/UTF-16 BOMs, Windows-1252 fallback)
+ * - Chunked file streaming that yields to the event loop between chunks
+ *
+ * @example
+ * ```typescript
+ * import { parseCsv, csvRowsToObjects, parseCsvFile } from './csv-parser';
+ *
+ * const { rows, delimiter } = parseCsv('name;note\nAnn;"line 1\nline 2"');
+ * console.log(delimiter); // ';'
+ * console.log(csvRowsToObjects(rows)); // [{ name: 'Ann', note: 'line 1\nline 2' }]
+ *
+ * const result = await parseCsvFile(file, {
+ *   onProgress: ({ bytesRead, totalBytes }) => setProgress(bytesRead / totalBytes),
+ * });
+ * ```
+ */
+
+/**
+ * Delimiters recognised by the sniffer, in tie-break order
+ */
+export const CSV_DELIMITERS = [",", "\t", ";", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/**
+ * Text encodings recognised by `detectEncoding`
+ */
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+/**
+ * Options shared by the parsing entry points
+ */
+export interface CsvParseOptions {
+  /** Field delimiter; sniffed from the input when omitted */
+  delimiter?: string;
+  /** Trim whitespace around unquoted fields (default: true) */
+  trim?: boolean;
+  /** Drop lines that contain no characters (default: true) */
+  skipEmptyLines?: boolean;
+  /**
+   * Throw on an unterminated quoted field (default: true). When false, the
+   * field is closed at the end of input.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Result of parsing CSV text
+ */
+export interface CsvParseResult {
+  /** Parsed records, one array of fields per record */
+  rows: string[][];
+  /** Delimiter used for parsing */
+  delimiter: string;
+}
+
+/**
+ * Progress reported while streaming a file
+ */
+export interface CsvStreamProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowCount: number;
+}
+
+/**
+ * Options for streaming a file through the parser
+ */
+export interface CsvStreamOptions extends CsvParseOptions {
+  /** Bytes read per chunk (default: 1MB) */
+  chunkSize?: number;
+  /** Text encoding; detected from the first chunk when omitted */
+  encoding?: CsvEncoding;
+  /**
+   * Receives parsed records after each chunk. When provided, records are
+   * handed off instead of being accumulated in the result.
+   */
+  onRows?: (rows: string[][]) => void;
+  /** Called after each chunk is parsed */
+  onProgress?: (progress: CsvStreamProgress) => void;
+  /** Cancels parsing between chunks */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of streaming a file through the parser
+ */
+export interface CsvFileParseResult extends CsvParseResult {
+  encoding: CsvEncoding;
+  rowCount: number;
+}
+
+/**
+ * Error raised for malformed CSV input
+ */
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public line?: number
+  ) {
+    super(message);
+    this.name = "CsvParseError";
+  }
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const SNIFF_RECORD_LIMIT = 20;
+
+type ParserState =
+  | "fieldStart"
+  | "unquoted"
+  | "quoted"
+  | "quoteInQuoted"
+  | "afterQuoted";
+
+/**
+ * Incremental CSV parser. Feed text with `push` and call `flush` once the
+ * input is exhausted; both return the records completed by that call.
+ */
+export class CsvParser {
+  private readonly delimiter: string;
+  private readonly trim: boolean;
+  private readonly skipEmptyLines: boolean;
+  private readonly strict: boolean;
+  private state: ParserState = "fieldStart";
+  private field = "";
+  private fieldQuoted = false;
+  private record: string[] = [];
+  private pendingCR = false;
+  private line = 1;
+  private quoteStartLine = 1;
+
+  constructor(options: CsvParseOptions = {}) {
+    this.delimiter = options.delimiter ?? ",";
+    this.trim = options.trim ?? true;
+    this.skipEmptyLines = options.skipEmptyLines ?? true;
+    this.strict = options.strict ?? true;
+  }
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // A CR ending the previous chunk may be the first half of CRLF
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === "\n") continue;
+      }
+
+      switch (this.state) {
+        case "quoted":
+          if (char === '"') {
+            this.state = "quoteInQuoted";
+          } else {
+            if (char === "\n") this.line++;
+            this.field += char;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            this.field += '"';
+            this.state = "quoted";
+          } else {
+            this.state = "afterQuoted";
+            this.consumeUnquoted(char, rows);
+          }
+          break;
+
+        case "fieldStart":
+        case "unquoted":
+        case "afterQuoted":
+          this.consumeUnquoted(char, rows);
+          break;
+      }
+    }
+
+    return rows;
+  }
+
+  flush(): string[][] {
+    if (this.state === "quoted" && this.strict) {
+      throw new CsvParseError(
+        `Unterminated quoted field starting on line ${this.quoteStartLine}`,
+        this.quoteStartLine
+      );
+    }
+
+    const rows: string[][] = [];
+    if (this.state !== "fieldStart" || this.record.length > 0) {
+      this.endRecord(rows);
+    }
+    this.pendingCR = false;
+    return rows;
+  }
+
+  private consumeUnquoted(char: string, rows: string[][]): void {
+    if (char === this.delimiter) {
+      this.endField();
+    } else if (char === "\n" || char === "\r") {
+      this.endRecord(rows);
+      this.line++;
+      this.pendingCR = char === "\r";
+    } else if (
+      char === '"' &&
+      (this.state === "fieldStart" ||
+        (this.state === "unquoted" && this.trim && !this.field.trim()))
+    ) {
+      // Opening quote, optionally preceded by whitespace when trimming
+      this.field = "";
+      this.fieldQuoted = true;
+      this.quoteStartLine = this.line;
+      this.state = "quoted";
+    } else if (this.state === "afterQuoted") {
+      // Text after a closing quote is invalid RFC 4180; keep it leniently
+      if (!this.trim || char.trim()) this.field += char;
+    } else {
+      this.field += char;
+      this.state = "unquoted";
+    }
+  }
+
+  private endField(): void {
+    this.record.push(
+      this.trim && !this.fieldQuoted ? this.field.trim() : this.field
+    );
+    this.field = "";
+    this.fieldQuoted = false;
+    this.state = "fieldStart";
+  }
+
+  private endRecord(rows: string[][]): void {
+    const isEmptyLine =
+      this.record.length === 0 && !this.fieldQuoted && !this.field.trim();
+    this.endField();
+
+    if (!(this.skipEmptyLines && isEmptyLine)) {
+      rows.push(this.record);
+    }
+    this.record = [];
+  }
+}
+
+/**
+ * Guess the delimiter of a CSV sample. Prefers the delimiter that splits the
+ * sampled records into the most consistent number of fields (more than one).
+ */
+export function detectDelimiter(
+  sample: string,
+  candidates: readonly string[] = CSV_DELIMITERS
+): string {
+  let best = candidates[0] ?? ",";
+  let bestScore = { consistency: 0, fields: 1 };
+
+  for (const delimiter of candidates) {
+    const parser = new CsvParser({ delimiter });
+    const records = parser.push(sample);
+    try {
+      records.push(...parser.flush());
+    } catch {
+      // A truncated sample may end inside a quoted field
+    }
+
+    // The last record of a truncated sample may be incomplete
+    const sampled = records.slice(
+      0,
+      Math.min(SNIFF_RECORD_LIMIT, Math.max(1, records.length - 1))
+    );
+    if (sampled.length === 0) continue;
+
+    const fields = sampled[0].length;
+    if (fields < 2) continue;
+
+    const consistency =
+      sampled.filter(record => record.length === fields).length /
+      sampled.length;
+
+    if (
+      consistency > bestScore.consistency ||
+      (consistency === bestScore.consistency && fields > bestScore.fields)
+    ) {
+      best = delimiter;
+      bestScore = { consistency, fields };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Detect the text encoding of raw bytes from a byte order mark, falling back
+ * to Windows-1252 when the bytes are not valid UTF-8. Pass `isPartial` when
+ * the bytes are the first chunk of a larger file.
+ */
+export function detectEncoding(
+  bytes: Uint8Array,
+  isPartial = false
+): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, {
+      stream: isPartial,
+    });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Decode raw bytes into text, detecting the encoding and dropping any BOM
+ */
+export function decodeCsvBytes(
+  data: ArrayBuffer | Uint8Array,
+  encoding?: CsvEncoding
+): { text: string; encoding: CsvEncoding } {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const detected = encoding ?? detectEncoding(bytes);
+  return { text: new TextDecoder(detected).decode(bytes), encoding: detected };
+}
+
+/**
+ * Parse CSV text into records
+ */
+export function parseCsv(
+  text: string,
+  options: CsvParseOptions = {}
+): CsvParseResult {
+  // Pasted text may still carry a BOM
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter =
+    options.delimiter ?? detectDelimiter(input.slice(0, 64 * 1024));
+  const parser = new CsvParser({ ...options, delimiter });
+
+  return { rows: [...parser.push(input), ...parser.flush()], delimiter };
+}
+
+/**
+ * Build unique column names from a header record. Blank headers become
+ * `colN` and repeated headers get a numeric suffix (`Name`, `Name_2`).
+ */
+export function buildUniqueHeaders(
+  headerValues: unknown[],
+  width: number = headerValues.length
+): string[] {
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, i) => {
+    const base = String(headerValues[i] ?? "").trim() || `col${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base}_${count}` : base;
+  });
+}
+
+/**
+ * Convert parsed records into objects keyed by header. Without headers,
+ * columns are named `col1`, `col2`, ...
+ */
+export function csvRowsToObjects(
+  rows: string[][],
+  options: { hasHeaders?: boolean } = {}
+): Record<string, string>[] {
+  const { hasHeaders = true } = options;
+  if (rows.length === 0) return [];
+
+  const dataRows = hasHeaders ? rows.slice(1) : rows;
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = buildUniqueHeaders(hasHeaders ? rows[0] : [], width);
+
+  return dataRows.map(values => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      row[header] = values[i] ?? "";
+    });
+    return row;
+  });
+}
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsArrayBuffer(blob);
+  });
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Stream a file through the parser in chunks, yielding to the event loop
+ * between chunks so large files do not block the UI.
+ */
+export async function parseCsvFile(
+  file: Blob,
+  options: CsvStreamOptions = {}
+): Promise<CsvFileParseResult> {
+  const {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    onRows,
+    onProgress,
+    signal,
+  } = options;
+  const totalBytes = file.size;
+
+  let encoding = options.encoding;
+  let decoder: TextDecoder | null = null;
+  let parser: CsvParser | null = null;
+  let delimiter = options.delimiter ?? ",";
+  const collected: string[][] = [];
+  let rowCount = 0;
+
+  const emit = (rows: string[][]) => {
+    if (rows.length === 0) return;
+    rowCount += rows.length;
+    if (onRows) {
+      onRows(rows);
+    } else {
+      for (const row of rows) collected.push(row);
+    }
+  };
+
+  for (let offset = 0; offset < totalBytes; offset += chunkSize) {
+    if (signal?.aborted) {
+      throw new CsvParseError("CSV parsing was cancelled");
+    }
+
+    const bytes = new Uint8Array(
+      await readBlob(file.slice(offset, offset + chunkSize))
+    );
+    encoding ??= detectEncoding(bytes, offset + chunkSize < totalBytes);
+    decoder ??= new TextDecoder(encoding);
+
+    const text = decoder.decode(bytes, { stream: true });
+    if (!parser) {
+      delimiter = options.delimiter ?? detectDelimiter(text);
+      parser = new CsvParser({ ...options, delimiter });
+    }
+    emit(parser.push(text));
+
+    onProgress?.({
+      bytesRead: Math.min(offset + chunkSize, totalBytes),
+      totalBytes,
+      rowCount,
+    });
+    await nextTick();
+  }
+
+  if (parser && decoder) {
+    emit(parser.push(decoder.decode()));
+    emit(parser.flush());
+  }
+
+  return {
+    rows: collected,
+    delimiter,
+    encoding: encoding ?? "utf-8",
+    rowCount,
+  };
+}
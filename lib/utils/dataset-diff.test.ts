@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareWithDataset,
+  datasetDiffToCsv,
+  diffDatasets,
+  diffRows,
+  getDatasetColumns,
+  suggestKeyColumns,
+} from "./dataset-diff";
+import type { SavedDataset } from "../types/dataset-diff";
+
+const march = [
+  { employee_id: "E1", name: "Ana", department: "Sales", salary: 50000 },
+  { employee_id: "E2", name: "Bo", department: "Ops", salary: 45000 },
+  { employee_id: "E3", name: "Cy", department: "IT", salary: 60000 },
+];
+
+const april = [
+  {
+    _rowId: "row-1",
+    employee_id: "E1",
+    name: "Ana",
+    department: "Ops",
+    salary: "50000",
+  },
+  {
+    _rowId: "row-2",
+    employee_id: "E2",
+    name: "Bo",
+    department: "Ops",
+    salary: "45000",
+  },
+  {
+    _rowId: "row-3",
+    employee_id: "E4",
+    name: "Di",
+    department: "IT",
+    salary: "52000",
+  },
+];
+
+describe("diffDatasets", () => {
+  it("should split rows into added, removed, changed and unchanged", () => {
+    const result = diffDatasets(march, april, "employee_id");
+
+    expect(result.added.map(row => row.employee_id)).toEqual(["E4"]);
+    expect(result.removed.map(row => row.employee_id)).toEqual(["E3"]);
+    expect(result.changed).toHaveLength(1);
+    expect(result.changed[0].key).toBe("E1");
+    expect(result.changed[0].changes).toEqual([
+      { field: "department", previous: "Sales", current: "Ops" },
+    ]);
+    expect(result.unchangedCount).toBe(1);
+    expect(result.duplicateKeys).toEqual([]);
+  });
+
+  it("should compare values as trimmed text", () => {
+    const result = diffDatasets(
+      [{ id: 1, name: "Ana" }],
+      [{ id: "1", name: " Ana " }],
+      "id"
+    );
+
+    expect(result.changed).toEqual([]);
+    expect(result.unchangedCount).toBe(1);
+  });
+
+  it("should only compare columns present in both datasets", () => {
+    const result = diffDatasets(
+      [{ id: "1", name: "Ana", legacy: "x" }],
+      [{ id: "1", name: "Ana", email: "ana@example.com" }],
+      "id"
+    );
+
+    expect(result.changed).toEqual([]);
+    expect(result.unchangedCount).toBe(1);
+  });
+
+  it("should report duplicate keys and match their first row", () => {
+    const result = diffDatasets(
+      [{ id: "1", name: "Ana" }],
+      [
+        { id: "1", name: "Ana" },
+        { id: "1", name: "Anna" },
+      ],
+      "id"
+    );
+
+    expect(result.duplicateKeys).toEqual(["1"]);
+    expect(result.unchangedCount).toBe(1);
+    expect(result.changed).toEqual([]);
+  });
+
+  it("should count rows without a key as added or removed", () => {
+    const result = diffDatasets(
+      [{ id: "", name: "Old" }],
+      [{ id: "", name: "New" }],
+      "id"
+    );
+
+    expect(result.added).toEqual([{ id: "", name: "New" }]);
+    expect(result.removed).toEqual([{ id: "", name: "Old" }]);
+  });
+});
+
+describe("diffRows", () => {
+  it("should list changed fields in column order", () => {
+    expect(
+      diffRows({ a: "1", b: "2", c: "3" }, { a: "1", b: "x", c: null }, [
+        "a",
+        "b",
+        "c",
+      ])
+    ).toEqual([
+      { field: "b", previous: "2", current: "x" },
+      { field: "c", previous: "3", current: "" },
+    ]);
+  });
+});
+
+describe("getDatasetColumns", () => {
+  it("should skip internal keys", () => {
+    expect(getDatasetColumns(april)).toEqual([
+      "employee_id",
+      "name",
+      "department",
+      "salary",
+    ]);
+  });
+});
+
+describe("suggestKeyColumns", () => {
+  it("should suggest shared unique columns, ID-like names first", () => {
+    expect(suggestKeyColumns(march, april)).toEqual([
+      "employee_id",
+      "name",
+      "salary",
+    ]);
+  });
+});
+
+describe("compareWithDataset", () => {
+  it("should describe the comparison", () => {
+    const dataset: SavedDataset = {
+      id: "dset_1",
+      name: "March",
+      columns: ["employee_id", "name", "department", "salary", "notes"],
+      rowCount: march.length,
+      rows: march,
+      savedAt: "2024-03-31T00:00:00.000Z",
+    };
+
+    const diff = compareWithDataset(dataset, april, "employee_id");
+
+    expect(diff.baseDatasetId).toBe("dset_1");
+    expect(diff.baseDatasetName).toBe("March");
+    expect(diff.keyColumn).toBe("employee_id");
+    expect(diff.columns).toEqual([
+      "employee_id",
+      "name",
+      "department",
+      "salary",
+      "notes",
+    ]);
+    expect(diff.changed).toHaveLength(1);
+  });
+});
+
+describe("datasetDiffToCsv", () => {
+  const diff = {
+    columns: ["employee_id", "department"],
+    ...diffDatasets(march, april, "employee_id"),
+  };
+
+  it("should export added and removed rows with the diff columns", () => {
+    expect(datasetDiffToCsv(diff, "added")).toBe(
+      "employee_id,department\nE4,IT"
+    );
+    expect(datasetDiffToCsv(diff, "removed")).toBe(
+      "employee_id,department\nE3,IT"
+    );
+  });
+
+  it("should export changed rows with their new values and changed fields", () => {
+    expect(datasetDiffToCsv(diff, "changed")).toBe(
+      "employee_id,department,changed_fields\nE1,Ops,department"
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Dataset Diff
+ *
+ * Compares re-imported data with a saved dataset (for example this month's
+ * roster with last month's). Rows are matched through a key column; each
+ * matched pair is diffed with jsondiffpatch, the library behind the JSON diff
+ * tool, to list the fields that changed.
+ *
+ * Values are compared as trimmed text, so `1` and `"1"` are equal, and only
+ * columns present in both datasets are compared: adding a column does not
+ * mark every row as changed.
+ *
+ * @example
+ * ```typescript
+ * import { diffDatasets } from './dataset-diff';
+ *
+ * const diff = diffDatasets(saved.rows, currentRows, 'employee_id');
+ * // {
+ * //   added: [{ employee_id: 'E3', ... }],
+ * //   removed: [],
+ * //   changed: [{ key: 'E1', changes: [{ field: 'department', previous: 'Sales', current: 'Ops' }], ... }],
+ * //   unchangedCount: 1,
+ * //   duplicateKeys: []
+ * // }
+ * ```
+ */
+
+import { diff, type ModifiedDelta, type ObjectDelta } from "jsondiffpatch";
+import type { TableRow } from "../features/tableSlice";
+import type {
+  ChangedRow,
+  DatasetDiff,
+  FieldChange,
+  SavedDataset,
+} from "../types/dataset-diff";
+import { convertToCsv } from "./csv-export";
+
+export type DatasetDiffResult = Pick<
+  DatasetDiff,
+  "added" | "removed" | "changed" | "unchangedCount" | "duplicateKeys"
+>;
+
+export type DatasetDiffCategory = "added" | "removed" | "changed";
+
+const normalizeValue = (value: unknown): string =>
+  value === null || value === undefined ? "" : String(value).trim();
+
+/**
+ * Column names of rows in first-seen order, internal keys (`_rowId`) excluded
+ */
+export function getDatasetColumns(rows: TableRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row =>
+    Object.keys(row).forEach(key => {
+      if (!key.startsWith("_")) columns.add(key);
+    })
+  );
+  return [...columns];
+}
+
+/**
+ * Index rows by key value. Rows with an empty key are left out; only the
+ * first row of a duplicated key is indexed.
+ */
+function indexByKey(rows: TableRow[], keyColumn: string) {
+  const byKey = new Map<string, TableRow>();
+  const duplicates = new Set<string>();
+
+  rows.forEach(row => {
+    const key = normalizeValue(row[keyColumn]);
+    if (!key) return;
+    if (byKey.has(key)) {
+      duplicates.add(key);
+    } else {
+      byKey.set(key, row);
+    }
+  });
+
+  return { byKey, duplicates };
+}
+
+/**
+ * Fields that differ between two rows, limited to `columns`
+ */
+export function diffRows(
+  previous: TableRow,
+  current: TableRow,
+  columns: string[]
+): FieldChange[] {
+  const toText = (row: TableRow) =>
+    Object.fromEntries(
+      columns.map(column => [column, normalizeValue(row[column])])
+    );
+
+  // Both sides hold the same columns as text, so the delta is an object of
+  // [previous, current] pairs
+  const delta = diff(toText(previous), toText(current)) as
+    | ObjectDelta
+    | undefined;
+  if (!delta) return [];
+
+  return columns
+    .filter(column => column in delta)
+    .map(column => {
+      const [previousValue, currentValue] = delta[column] as ModifiedDelta;
+      return { field: column, previous: previousValue, current: currentValue };
+    });
+}
+
+/**
+ * Compare rows with a saved dataset's rows through a key column
+ */
+export function diffDatasets(
+  previousRows: TableRow[],
+  currentRows: TableRow[],
+  keyColumn: string
+): DatasetDiffResult {
+  const previousIndex = indexByKey(previousRows, keyColumn);
+  const currentIndex = indexByKey(currentRows, keyColumn);
+
+  const previousColumns = new Set(getDatasetColumns(previousRows));
+  const sharedColumns = getDatasetColumns(currentRows).filter(
+    column => column !== keyColumn && previousColumns.has(column)
+  );
+
+  const hasKey = (row: TableRow) => normalizeValue(row[keyColumn]) !== "";
+
+  // Rows without a key can't be matched, so they count as added or removed
+  const added = currentRows.filter(
+    row =>
+      !hasKey(row) || !previousIndex.byKey.has(normalizeValue(row[keyColumn]))
+  );
+  const removed = previousRows.filter(
+    row =>
+      !hasKey(row) || !currentIndex.byKey.has(normalizeValue(row[keyColumn]))
+  );
+
+  const changed: ChangedRow[] = [];
+  let unchangedCount = 0;
+  currentIndex.byKey.forEach((current, key) => {
+    const previous = previousIndex.byKey.get(key);
+    if (!previous) return;
+
+    const changes = diffRows(previous, current, sharedColumns);
+    if (changes.length > 0) {
+      changed.push({ key, previous, current, changes });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  const duplicateKeys = [
+    ...new Set([...previousIndex.duplicates, ...currentIndex.duplicates]),
+  ];
+
+  return { added, removed, changed, unchangedCount, duplicateKeys };
+}
+
+/**
+ * Compare rows with a saved dataset
+ */
+export function compareWithDataset(
+  dataset: SavedDataset,
+  currentRows: TableRow[],
+  keyColumn: string
+): DatasetDiff {
+  return {
+    baseDatasetId: dataset.id,
+    baseDatasetName: dataset.name,
+    keyColumn,
+    columns: [
+      ...new Set([...getDatasetColumns(currentRows), ...dataset.columns]),
+    ],
+    ...diffDatasets(dataset.rows, currentRows, keyColumn),
+    comparedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Columns whose values identify rows in both datasets: present in both and
+ * filled with unique values in each. Columns named like an ID come first.
+ */
+export function suggestKeyColumns(
+  previousRows: TableRow[],
+  currentRows: TableRow[]
+): string[] {
+  const isUnique = (rows: TableRow[], column: string) => {
+    const values = rows.map(row => normalizeValue(row[column]));
+    return values.every(Boolean) && new Set(values).size === values.length;
+  };
+  const looksLikeId = (column: string) =>
+    /(^|[^a-z])id$|key|code|#/i.test(column);
+
+  const previousColumns = new Set(getDatasetColumns(previousRows));
+  return getDatasetColumns(currentRows)
+    .filter(
+      column =>
+        previousColumns.has(column) &&
+        isUnique(previousRows, column) &&
+        isUnique(currentRows, column)
+    )
+    .sort((a, b) => Number(looksLikeId(b)) - Number(looksLikeId(a)));
+}
+
+/**
+ * Rows of one diff category as CSV. Changed rows hold their new values,
+ * followed by a `changed_fields` column.
+ */
+export function datasetDiffToCsv(
+  datasetDiff: Pick<DatasetDiff, DatasetDiffCategory | "columns">,
+  category: DatasetDiffCategory
+): string {
+  const pick = (row: TableRow) =>
+    Object.fromEntries(
+      datasetDiff.columns.map(column => [column, row[column] ?? ""])
+    );
+
+  const rows =
+    category === "changed"
+      ? datasetDiff.changed.map(({ current, changes }) => ({
+          ...pick(current),
+          changed_fields: changes.map(change => change.field).join("; "),
+        }))
+      : datasetDiff[category].map(pick);
+
+  return convertToCsv(rows);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { datasetStorage } from "./dataset-storage";
+
+const store: Record<string, unknown> = {};
+
+// Mock the storage utility
+vi.mock("./localStorage", () => ({
+  storage: {
+    getItem: vi.fn((key: string) =>
+      key in store ? structuredClone(store[key]) : null
+    ),
+    setItem: vi.fn((key: string, value: unknown) => {
+      store[key] = structuredClone(value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+  },
+}));
+
+describe("datasetStorage", () => {
+  beforeEach(() => {
+    datasetStorage.clear();
+  });
+
+  it("should save rows without internal keys and return a summary", () => {
+    const summary = datasetStorage.save({
+      name: "March",
+      rows: [{ _rowId: "row-1", id: "1", name: "Ana" }],
+      columns: ["id", "name"],
+      targetShapeId: "shape_1",
+    });
+
+    expect(summary.id).toMatch(/^dset_/);
+    expect(summary).not.toHaveProperty("rows");
+    expect(summary.rowCount).toBe(1);
+
+    const saved = datasetStorage.getById(summary.id);
+    expect(saved?.rows).toEqual([{ id: "1", name: "Ana" }]);
+    expect(saved?.targetShapeId).toBe("shape_1");
+    expect(datasetStorage.getSummaries()).toEqual([summary]);
+  });
+
+  it("should delete a saved dataset", () => {
+    const summary = datasetStorage.save({
+      name: "March",
+      rows: [],
+      columns: [],
+    });
+
+    expect(datasetStorage.delete(summary.id)).toBe(true);
+    expect(datasetStorage.delete(summary.id)).toBe(false);
+    expect(datasetStorage.getAll()).toEqual([]);
+  });
+});
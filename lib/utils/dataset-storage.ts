@@ -0,0 +1,81 @@
+import type {
+  SavedDataset,
+  SavedDatasetSummary,
+} from "@/lib/types/dataset-diff";
+import type { TableRow } from "@/lib/features/tableSlice";
+import { generateDatasetId } from "@/lib/utils/id-generator";
+import { storage } from "@/lib/utils/localStorage";
+
+const STORAGE_KEY = "citrus-surf-saved-datasets";
+
+// Rows are stored without internal keys (`_rowId`)
+const stripInternalKeys = (row: TableRow): TableRow =>
+  Object.fromEntries(
+    Object.entries(row).filter(([key]) => !key.startsWith("_"))
+  ) as TableRow;
+
+const toSummary = ({ rows: _rows, ...summary }: SavedDataset) => summary;
+
+// Saved Dataset Storage
+export const datasetStorage = {
+  // Get all saved datasets with their rows
+  getAll(): SavedDataset[] {
+    try {
+      const stored = storage.getItem<SavedDataset[]>(STORAGE_KEY);
+      return stored ?? [];
+    } catch (error) {
+      console.error("Error loading saved datasets:", error);
+      return [];
+    }
+  },
+
+  // Get all saved datasets without their rows
+  getSummaries(): SavedDatasetSummary[] {
+    return this.getAll().map(toSummary);
+  },
+
+  // Get a specific dataset by ID
+  getById(id: string): SavedDataset | null {
+    return this.getAll().find(dataset => dataset.id === id) || null;
+  },
+
+  // Save a snapshot of table rows
+  save(dataset: {
+    name: string;
+    rows: TableRow[];
+    columns: string[];
+    targetShapeId?: string | null;
+  }): SavedDatasetSummary {
+    const newDataset: SavedDataset = {
+      id: generateDatasetId(),
+      name: dataset.name,
+      columns: dataset.columns,
+      rowCount: dataset.rows.length,
+      rows: dataset.rows.map(stripInternalKeys),
+      targetShapeId: dataset.targetShapeId ?? null,
+      savedAt: new Date().toISOString(),
+    };
+
+    const datasets = this.getAll();
+    datasets.push(newDataset);
+    storage.setItem(STORAGE_KEY, datasets);
+
+    return toSummary(newDataset);
+  },
+
+  // Delete a saved dataset
+  delete(id: string): boolean {
+    const datasets = this.getAll();
+    const filtered = datasets.filter(dataset => dataset.id !== id);
+
+    if (filtered.length === datasets.length) return false;
+
+    storage.setItem(STORAGE_KEY, filtered);
+    return true;
+  },
+
+  // Clear all saved datasets
+  clear(): void {
+    storage.removeItem(STORAGE_KEY);
+  },
+};
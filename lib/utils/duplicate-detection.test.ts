@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { TableRow } from "../features/tableSlice";
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  MAX_BLOCK_SIZE,
+  buildRowMerge,
+  findDuplicates,
+  getDefaultMergePicks,
+  type DuplicateDetectionOptions,
+} from "./duplicate-detection";
+
+const contacts: TableRow[] = [
+  { _rowId: "r1", first: "Jonathan", last: "Smith", email: "jon@example.com" },
+  { _rowId: "r2", first: "Maria", last: "Garcia", email: "maria@example.com" },
+  { _rowId: "r3", first: "jonathan ", last: "SMITH", email: "" },
+  { _rowId: "r4", first: "Jonathon", last: "Smith", email: "jon@example.com" },
+  { id: 5, first: "María", last: "García", email: "maria@example.com" },
+  { _rowId: "r6", first: "", last: "", email: "" },
+  { _rowId: "r7", first: "", last: "", email: "" },
+];
+
+const find = (options: Partial<DuplicateDetectionOptions>) =>
+  findDuplicates(contacts, { ...DEFAULT_DUPLICATE_OPTIONS, ...options });
+
+describe("duplicate detection", () => {
+  it("should group exact duplicates ignoring case, accents and spacing", () => {
+    const { clusters } = find({ keyColumns: ["first", "last"] });
+
+    expect(clusters).toEqual([
+      { rowIds: ["r1", "r3"], similarity: 1 },
+      { rowIds: ["r2", "5"], similarity: 1 },
+    ]);
+  });
+
+  it("should group similar rows in fuzzy mode", () => {
+    const { clusters } = find({
+      keyColumns: ["first", "last", "email"],
+      mode: "fuzzy",
+      threshold: 0.9,
+    });
+
+    expect(clusters.map(cluster => cluster.rowIds)).toEqual([
+      ["r1", "r4"],
+      ["r2", "5"],
+    ]);
+    expect(clusters[0].similarity).toBeGreaterThanOrEqual(0.9);
+    expect(clusters[0].similarity).toBeLessThan(1);
+  });
+
+  it("should score a column empty in one row as a mismatch", () => {
+    const { clusters } = find({
+      keyColumns: ["first", "last", "email"],
+      mode: "fuzzy",
+      threshold: 0.6,
+      similarity: "jaroWinkler",
+    });
+
+    // r3 has no email, so it matches r1 on two of three columns
+    expect(clusters[0].rowIds).toEqual(["r1", "r3", "r4"]);
+    expect(clusters[0].similarity).toBeCloseTo(2 / 3);
+  });
+
+  it("should not compare every pair of a large table", () => {
+    const rows: TableRow[] = Array.from({ length: 2000 }, (_, index) => ({
+      _rowId: `r${index}`,
+      name: `Person ${index}`,
+    }));
+    rows.push({ _rowId: "dup", name: "Person 1234" });
+
+    const { clusters, comparisons } = findDuplicates(rows, {
+      ...DEFAULT_DUPLICATE_OPTIONS,
+      keyColumns: ["name"],
+      mode: "fuzzy",
+      threshold: 0.99,
+    });
+
+    expect(clusters).toEqual([{ rowIds: ["r1234", "dup"], similarity: 1 }]);
+    expect(comparisons).toBeLessThan((rows.length * MAX_BLOCK_SIZE) / 2);
+  });
+
+  it("should build merges from picked values", () => {
+    const rows = [contacts[0], contacts[2]];
+    const picks = getDefaultMergePicks(rows, "r3", ["first", "email"]);
+
+    expect(picks).toEqual({ first: "r3", email: "r1" });
+    expect(buildRowMerge(rows, "r3", picks)).toEqual({
+      keepRowId: "r3",
+      removeRowIds: ["r1"],
+      values: { email: "jon@example.com" },
+    });
+    expect(buildRowMerge(rows, "r1")).toEqual({
+      keepRowId: "r1",
+      removeRowIds: ["r3"],
+      values: {},
+    });
+  });
+});
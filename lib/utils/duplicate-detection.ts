@@ -0,0 +1,288 @@
+/**
+ * Duplicate Detection
+ *
+ * Finds rows that describe the same record, judged on some key columns.
+ * Exact mode groups rows whose key values are equal once normalized (case,
+ * accents, extra whitespace). Fuzzy mode scores rows with `combinedSimilarity`
+ * or `jaroWinklerSimilarity`, averaged over the key columns, and groups rows
+ * scoring at or above a threshold; groups are transitive, so A~B and B~C put
+ * A, B and C in one cluster.
+ *
+ * Fuzzy mode doesn't score every pair of rows. Rows are put into blocks by
+ * cheap keys (the Soundex code of each key value's first word and its first
+ * characters) and only rows sharing a block are scored. Blocks larger than
+ * `MAX_BLOCK_SIZE` are sorted and scored within a sliding window.
+ *
+ * @example
+ * ```typescript
+ * import { findDuplicates } from './duplicate-detection';
+ *
+ * const { clusters } = findDuplicates(rows, {
+ *   ...DEFAULT_DUPLICATE_OPTIONS,
+ *   keyColumns: ['first_name', 'last_name', 'email'],
+ *   mode: 'fuzzy',
+ * });
+ * clusters[0]; // { rowIds: ['cs_01', 'cs_07'], similarity: 0.93 }
+ * ```
+ */
+
+import type { RowMerge, TableRow } from "../features/tableSlice";
+import { soundex } from "./fuzzy-index";
+import {
+  combinedSimilarity,
+  jaroWinklerSimilarity,
+  normalizeString,
+} from "./string-similarity";
+
+export type DuplicateMatchMode = "exact" | "fuzzy";
+
+export type DuplicateSimilarity = "combined" | "jaroWinkler";
+
+export interface DuplicateDetectionOptions {
+  /** Columns that identify a record; rows with all of them empty are skipped */
+  keyColumns: string[];
+  mode: DuplicateMatchMode;
+  /** Minimum average similarity of the key columns, for fuzzy mode (0-1) */
+  threshold: number;
+  /** Similarity algorithm for fuzzy mode */
+  similarity: DuplicateSimilarity;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+  keyColumns: [],
+  mode: "exact",
+  threshold: 0.9,
+  similarity: "combined",
+};
+
+/**
+ * Rows found to be the same record
+ */
+export interface DuplicateCluster {
+  /** Row IDs (`_rowId`, or `id` for rows without one) in table order */
+  rowIds: string[];
+  /** Lowest score of the matches that formed the cluster; 1 when exact */
+  similarity: number;
+}
+
+export interface DuplicateDetectionResult {
+  clusters: DuplicateCluster[];
+  /** Pairs of rows scored, far fewer than every pair in fuzzy mode */
+  comparisons: number;
+}
+
+/** Blocks up to this size are scored pairwise */
+export const MAX_BLOCK_SIZE = 100;
+/** In larger blocks, each row is scored against this many sorted neighbours */
+const BLOCK_WINDOW = 20;
+/** Characters of each key value used as a blocking key */
+const PREFIX_LENGTH = 3;
+
+const SIMILARITY_FUNCTIONS: Record<
+  DuplicateSimilarity,
+  (a: string, b: string) => number
+> = {
+  combined: combinedSimilarity,
+  jaroWinkler: jaroWinklerSimilarity,
+};
+
+const rowIdOf = (row: TableRow) => row._rowId ?? String(row.id);
+
+const normalizeKeyValue = (value: unknown) =>
+  value === null || value === undefined
+    ? ""
+    : normalizeString(
+        typeof value === "object" ? JSON.stringify(value) : String(value)
+      );
+
+function blockingKeysOf(values: string[]): string[] {
+  const keys: string[] = [];
+  values.forEach((value, column) => {
+    if (!value) return;
+    const phonetic = soundex(value.split(" ")[0]);
+    if (phonetic) keys.push(`${column}:${phonetic}`);
+    const compact = value.replace(/[^a-z0-9]/g, "");
+    if (compact) keys.push(`${column}:${compact.slice(0, PREFIX_LENGTH)}`);
+  });
+  return keys;
+}
+
+/**
+ * Average similarity of two rows' key values; columns empty in both rows
+ * don't count
+ */
+function scorePair(
+  a: string[],
+  b: string[],
+  similarity: (a: string, b: string) => number
+): number {
+  let total = 0;
+  let count = 0;
+  a.forEach((value, column) => {
+    const other = b[column];
+    if (!value && !other) return;
+    count++;
+    if (value === other) total += 1;
+    else if (value && other) total += similarity(value, other);
+  });
+  return count === 0 ? 0 : total / count;
+}
+
+/**
+ * Group rows that are the same record on the key columns
+ */
+export function findDuplicates(
+  rows: TableRow[],
+  options: DuplicateDetectionOptions
+): DuplicateDetectionResult {
+  const { keyColumns, mode, threshold } = options;
+  if (keyColumns.length === 0) return { clusters: [], comparisons: 0 };
+
+  const keyValues = rows.map(row =>
+    keyColumns.map(column => normalizeKeyValue(row[column]))
+  );
+  const hasKey = keyValues.map(values => values.some(Boolean));
+
+  // Union-find over row indexes, tracking each cluster's weakest match
+  const parent = rows.map((_, index) => index);
+  const weakest = rows.map(() => 1);
+  const find = (index: number) => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number, score: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const root = Math.min(rootA, rootB);
+    parent[Math.max(rootA, rootB)] = root;
+    weakest[root] = Math.min(weakest[rootA], weakest[rootB], score);
+  };
+
+  let comparisons = 0;
+
+  if (mode === "exact") {
+    const firstByKey = new Map<string, number>();
+    keyValues.forEach((values, index) => {
+      if (!hasKey[index]) return;
+      const key = JSON.stringify(values);
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, index);
+      else union(first, index, 1);
+    });
+  } else {
+    const similarity = SIMILARITY_FUNCTIONS[options.similarity];
+    const blocks = new Map<string, number[]>();
+    keyValues.forEach((values, index) => {
+      if (!hasKey[index]) return;
+      new Set(blockingKeysOf(values)).forEach(key => {
+        const block = blocks.get(key);
+        if (block) block.push(index);
+        else blocks.set(key, [index]);
+      });
+    });
+
+    const compare = (a: number, b: number) => {
+      if (find(a) === find(b)) return;
+      comparisons++;
+      const score = scorePair(keyValues[a], keyValues[b], similarity);
+      if (score >= threshold) union(a, b, score);
+    };
+
+    blocks.forEach(block => {
+      if (block.length <= MAX_BLOCK_SIZE) {
+        for (let i = 0; i < block.length; i++) {
+          for (let j = i + 1; j < block.length; j++)
+            compare(block[i], block[j]);
+        }
+        return;
+      }
+      const sorted = [...block].sort((a, b) =>
+        keyValues[a].join("\u0000").localeCompare(keyValues[b].join("\u0000"))
+      );
+      for (let i = 0; i < sorted.length; i++) {
+        const end = Math.min(sorted.length, i + BLOCK_WINDOW + 1);
+        for (let j = i + 1; j < end; j++) compare(sorted[i], sorted[j]);
+      }
+    });
+  }
+
+  const members = new Map<number, number[]>();
+  rows.forEach((_, index) => {
+    if (!hasKey[index]) return;
+    const root = find(index);
+    const list = members.get(root);
+    if (list) list.push(index);
+    else members.set(root, [index]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  members.forEach((indexes, root) => {
+    if (indexes.length < 2) return;
+    clusters.push({
+      rowIds: indexes.map(index => rowIdOf(rows[index])),
+      similarity: weakest[root],
+    });
+  });
+
+  // Roots are each cluster's first row, so this keeps table order
+  return { clusters, comparisons };
+}
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+/**
+ * Which row supplies each column of a merged row: the kept row, or the first
+ * other row with a value where the kept row is empty
+ *
+ * @returns Column -> row ID
+ */
+export function getDefaultMergePicks(
+  rows: TableRow[],
+  keepRowId: string,
+  columns: string[]
+): Record<string, string> {
+  const kept = rows.find(row => rowIdOf(row) === keepRowId);
+  return Object.fromEntries(
+    columns.map(column => {
+      const source =
+        kept && !isEmpty(kept[column])
+          ? kept
+          : (rows.find(row => !isEmpty(row[column])) ?? kept);
+      return [column, source ? rowIdOf(source) : keepRowId];
+    })
+  );
+}
+
+/**
+ * The merge that keeps one row of a cluster, with values picked from other
+ * rows, and removes the rest
+ *
+ * @param picks Column -> ID of the row whose value the kept row takes;
+ *   columns without a pick keep their value
+ */
+export function buildRowMerge(
+  rows: TableRow[],
+  keepRowId: string,
+  picks: Record<string, string> = {}
+): RowMerge {
+  const byId = new Map(rows.map(row => [rowIdOf(row), row]));
+  const kept = byId.get(keepRowId);
+  const values: Record<string, unknown> = {};
+
+  Object.entries(picks).forEach(([column, rowId]) => {
+    const source = byId.get(rowId);
+    if (kept && source && source !== kept && source[column] !== kept[column]) {
+      values[column] = source[column];
+    }
+  });
+
+  return {
+    keepRowId,
+    removeRowIds: [...byId.keys()].filter(rowId => rowId !== keepRowId),
+    values,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for Enum Value Mapping
+ *
+ * Covers option proposals for source vocabulary, value maps built from
+ * reviewed proposals, and merging maps into saved enum fields.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  collectDistinctValues,
+  createEnumValueMapper,
+  mergeEnumValueMaps,
+  suggestEnumOption,
+  suggestEnumValueMappings,
+  toEnumValueMap,
+} from "./enum-value-mapping";
+import type { EnumField, TargetField } from "../types/target-shapes";
+
+const statusField: EnumField = {
+  id: "f_status",
+  name: "status",
+  type: "enum",
+  required: false,
+  options: [
+    { value: "active", label: "Active" },
+    { value: "inactive", label: "Inactive" },
+    { value: "on_hold", label: "On Hold" },
+  ],
+};
+
+describe("collectDistinctValues", () => {
+  it("should count non-empty values, most frequent first", () => {
+    expect(collectDistinctValues(["A", "B", "A", "", null, "B", "A"])).toEqual([
+      { value: "A", count: 3 },
+      { value: "B", count: 2 },
+    ]);
+  });
+});
+
+describe("suggestEnumOption", () => {
+  const { options } = statusField;
+
+  it("should match option values and labels ignoring case and punctuation", () => {
+    expect(suggestEnumOption("active ", options)).toMatchObject({
+      optionValue: "active",
+      matchType: "exact",
+    });
+    expect(suggestEnumOption("ON HOLD", options)).toMatchObject({
+      optionValue: "on_hold",
+      matchType: "exact",
+    });
+  });
+
+  it("should match abbreviations and initials that identify one option", () => {
+    expect(suggestEnumOption("Act.", options)).toMatchObject({
+      optionValue: "active",
+      matchType: "prefix",
+    });
+    expect(suggestEnumOption("A", options)).toMatchObject({
+      optionValue: "active",
+      matchType: "initial",
+    });
+    expect(suggestEnumOption("O", options).optionValue).toBe("on_hold");
+  });
+
+  it("should fall back to fuzzy similarity and leave unknown values", () => {
+    expect(suggestEnumOption("Inactve", options)).toMatchObject({
+      optionValue: "inactive",
+      matchType: "fuzzy",
+    });
+    expect(suggestEnumOption("Closed", options)).toMatchObject({
+      optionValue: null,
+      matchType: "none",
+    });
+  });
+
+  it("should prefer a saved mapping", () => {
+    expect(
+      suggestEnumOption("Closed", options, { closed: "inactive" })
+    ).toMatchObject({ optionValue: "inactive", matchType: "saved" });
+  });
+});
+
+describe("value maps", () => {
+  it("should build a value map from proposals and rewrite values", () => {
+    const suggestions = suggestEnumValueMappings(statusField, [
+      "Act.",
+      "A",
+      "Closed",
+      "Act.",
+    ]);
+    const valueMap = toEnumValueMap(suggestions);
+
+    expect(valueMap).toEqual({ "Act.": "active", A: "active" });
+
+    const mapValue = createEnumValueMapper(valueMap);
+    expect(mapValue("act")).toBe("active");
+    expect(mapValue("Closed")).toBe("Closed");
+    expect(mapValue(null)).toBeNull();
+  });
+
+  it("should merge reviewed maps into enum fields only", () => {
+    const nameField: TargetField = {
+      id: "f_name",
+      name: "name",
+      type: "string",
+      required: false,
+    };
+    const [status, name] = mergeEnumValueMaps(
+      [{ ...statusField, valueMap: { Closed: "inactive" } }, nameField],
+      {
+        f_status: { "Act.": "active", active: "active" },
+        f_name: { x: "y" },
+      }
+    );
+
+    expect((status as EnumField).valueMap).toEqual({
+      Closed: "inactive",
+      "Act.": "active",
+    });
+    expect(name).toBe(nameField);
+  });
+});
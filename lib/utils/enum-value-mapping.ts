@@ -0,0 +1,240 @@
+/**
+ * Enum Value Mapping
+ *
+ * Imported data rarely uses an enum field's exact vocabulary ("Act.", "A",
+ * "active "). This module lists the distinct source values of an enum column,
+ * proposes an option for each, and rewrites row values through the confirmed
+ * value map. Confirmed maps are stored on the `EnumField` (`valueMap`) so the
+ * next import of the same shape reuses them.
+ *
+ * @example
+ * ```typescript
+ * import { suggestEnumValueMappings, toEnumValueMap } from './enum-value-mapping';
+ *
+ * const suggestions = suggestEnumValueMappings(statusField, ['Act.', 'A', 'inactive']);
+ * // [{ sourceValue: 'Act.', optionValue: 'active', matchType: 'prefix', ... }, ...]
+ *
+ * const valueMap = toEnumValueMap(suggestions);
+ * // { 'Act.': 'active', A: 'active', inactive: 'inactive' }
+ * ```
+ */
+
+import type {
+  EnumField,
+  EnumOption,
+  TargetField,
+} from "../types/target-shapes";
+import { combinedSimilarity, normalizeString } from "./string-similarity";
+
+export type EnumValueMatchType =
+  | "saved"
+  | "exact"
+  | "prefix"
+  | "initial"
+  | "fuzzy"
+  | "none";
+
+/**
+ * Proposed option for one distinct source value
+ */
+export interface EnumValueSuggestion {
+  sourceValue: string;
+  /** Rows holding this value */
+  count: number;
+  /** Proposed option value, or null when nothing matched well enough */
+  optionValue: string | null;
+  /** Confidence from 0 to 1 */
+  confidence: number;
+  matchType: EnumValueMatchType;
+}
+
+/** Fuzzy proposals below this similarity are left for review */
+export const ENUM_SUGGESTION_THRESHOLD = 0.7;
+
+const PREFIX_CONFIDENCE = 0.9;
+const INITIAL_CONFIDENCE = 0.75;
+
+/**
+ * Key used to compare source values: case, accents, punctuation and extra
+ * whitespace are ignored
+ */
+export const normalizeEnumValue = (value: unknown): string =>
+  normalizeString(String(value ?? ""), { removeNonAlphanumeric: true });
+
+/**
+ * Distinct non-empty values with their row counts, most frequent first
+ */
+export function collectDistinctValues(
+  values: unknown[]
+): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value === null || value === undefined || String(value).trim() === "")
+      return;
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Propose an option for one source value. A saved mapping wins, then exact
+ * matches on the option value or label, then abbreviations ("Act.") and
+ * initials ("A") that identify a single option, then fuzzy similarity.
+ */
+export function suggestEnumOption(
+  sourceValue: string,
+  options: EnumOption[],
+  valueMap: Record<string, string> = {}
+): Omit<EnumValueSuggestion, "sourceValue" | "count"> {
+  const key = normalizeEnumValue(sourceValue);
+  const none = { optionValue: null, confidence: 0, matchType: "none" as const };
+  if (!key) return none;
+
+  const saved = Object.entries(valueMap).find(
+    ([source, optionValue]) =>
+      normalizeEnumValue(source) === key &&
+      options.some(option => option.value === optionValue)
+  );
+  if (saved) {
+    return { optionValue: saved[1], confidence: 1, matchType: "saved" };
+  }
+
+  const optionKeys = options.map(option => ({
+    option,
+    keys: [
+      ...new Set([
+        normalizeEnumValue(option.value),
+        normalizeEnumValue(option.label),
+      ]),
+    ],
+  }));
+
+  const exact = optionKeys.find(({ keys }) => keys.includes(key));
+  if (exact) {
+    return {
+      optionValue: exact.option.value,
+      confidence: 1,
+      matchType: "exact",
+    };
+  }
+
+  const uniqueMatch = (
+    predicate: (optionKey: string) => boolean
+  ): EnumOption | null => {
+    const matches = optionKeys.filter(({ keys }) => keys.some(predicate));
+    return matches.length === 1 ? matches[0].option : null;
+  };
+
+  if (key.length >= 2) {
+    const prefix = uniqueMatch(optionKey => optionKey.startsWith(key));
+    if (prefix) {
+      return {
+        optionValue: prefix.value,
+        confidence: PREFIX_CONFIDENCE,
+        matchType: "prefix",
+      };
+    }
+  } else {
+    const initial = uniqueMatch(optionKey => optionKey.startsWith(key));
+    if (initial) {
+      return {
+        optionValue: initial.value,
+        confidence: INITIAL_CONFIDENCE,
+        matchType: "initial",
+      };
+    }
+  }
+
+  let best: { option: EnumOption; similarity: number } | null = null;
+  for (const { option, keys } of optionKeys) {
+    for (const optionKey of keys) {
+      const similarity = combinedSimilarity(key, optionKey);
+      if (!best || similarity > best.similarity) {
+        best = { option, similarity };
+      }
+    }
+  }
+
+  if (best && best.similarity >= ENUM_SUGGESTION_THRESHOLD) {
+    return {
+      optionValue: best.option.value,
+      confidence: best.similarity,
+      matchType: "fuzzy",
+    };
+  }
+
+  return none;
+}
+
+/**
+ * Propose an option for every distinct value of an enum column
+ */
+export function suggestEnumValueMappings(
+  field: Pick<EnumField, "options" | "valueMap">,
+  values: unknown[]
+): EnumValueSuggestion[] {
+  return collectDistinctValues(values).map(({ value, count }) => ({
+    sourceValue: value,
+    count,
+    ...suggestEnumOption(value, field.options, field.valueMap),
+  }));
+}
+
+/**
+ * Value map (source value -> option value) from reviewed suggestions;
+ * values without an option are left out and kept unchanged
+ */
+export function toEnumValueMap(
+  suggestions: Array<Pick<EnumValueSuggestion, "sourceValue" | "optionValue">>
+): Record<string, string> {
+  return Object.fromEntries(
+    suggestions
+      .filter(suggestion => suggestion.optionValue !== null)
+      .map(suggestion => [suggestion.sourceValue, suggestion.optionValue!])
+  );
+}
+
+/**
+ * Build a function that rewrites values through a value map. Source values
+ * are compared normalized; unknown values are returned as is.
+ */
+export function createEnumValueMapper(
+  valueMap: Record<string, string>
+): (value: unknown) => unknown {
+  const lookup = new Map(
+    Object.entries(valueMap).map(([source, optionValue]) => [
+      normalizeEnumValue(source),
+      optionValue,
+    ])
+  );
+
+  return value => {
+    if (value === null || value === undefined) return value;
+    return lookup.get(normalizeEnumValue(value)) ?? value;
+  };
+}
+
+/**
+ * Merge reviewed value maps (enum field ID -> value map) into the fields'
+ * saved maps. Entries that map a value to itself are dropped.
+ */
+export function mergeEnumValueMaps<T extends TargetField>(
+  fields: T[],
+  valueMaps: Record<string, Record<string, string>>
+): T[] {
+  return fields.map(field => {
+    if (field.type !== "enum" || !valueMaps[field.id]) return field;
+
+    const valueMap = Object.fromEntries(
+      Object.entries({
+        ...(field as T & EnumField).valueMap,
+        ...valueMaps[field.id],
+      }).filter(([source, optionValue]) => source !== optionValue)
+    );
+
+    return { ...field, valueMap };
+  });
+}
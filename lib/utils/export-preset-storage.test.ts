@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { exportPresetStorage } from "./export-preset-storage";
+
+const store: Record<string, unknown> = {};
+
+// Mock the storage utility
+vi.mock("./localStorage", () => ({
+  storage: {
+    getItem: vi.fn((key: string) =>
+      key in store ? structuredClone(store[key]) : null
+    ),
+    setItem: vi.fn((key: string, value: unknown) => {
+      store[key] = structuredClone(value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+  },
+}));
+
+describe("exportPresetStorage", () => {
+  beforeEach(() => {
+    exportPresetStorage.clear();
+  });
+
+  it("should save and load presets", () => {
+    const preset = exportPresetStorage.save("Vendor feed", {
+      delimiter: "|",
+      nullValue: "NULL",
+    });
+
+    expect(preset.id).toMatch(/^xpre_/);
+    expect(exportPresetStorage.getById(preset.id)?.options).toEqual({
+      delimiter: "|",
+      nullValue: "NULL",
+    });
+  });
+
+  it("should replace a preset saved under the same name", () => {
+    const first = exportPresetStorage.save("Vendor feed", { delimiter: "|" });
+    const second = exportPresetStorage.save("vendor feed", { delimiter: ";" });
+
+    expect(second.id).toBe(first.id);
+    expect(exportPresetStorage.getAll()).toHaveLength(1);
+    expect(exportPresetStorage.getAll()[0].options).toEqual({
+      delimiter: ";",
+    });
+  });
+
+  it("should delete presets", () => {
+    const preset = exportPresetStorage.save("Vendor feed", {});
+
+    expect(exportPresetStorage.delete(preset.id)).toBe(true);
+    expect(exportPresetStorage.delete(preset.id)).toBe(false);
+    expect(exportPresetStorage.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import type { CsvExportPreset } from "@/lib/types/export-presets";
+import type { CsvExportOptions } from "@/lib/utils/csv-export";
+import { generateExportPresetId } from "@/lib/utils/id-generator";
+import { storage } from "@/lib/utils/localStorage";
+
+const STORAGE_KEY = "citrus-surf-csv-export-presets";
+
+// CSV Export Preset Storage
+export const exportPresetStorage = {
+  // Get all saved presets
+  getAll(): CsvExportPreset[] {
+    try {
+      const stored = storage.getItem<CsvExportPreset[]>(STORAGE_KEY);
+      return stored ?? [];
+    } catch (error) {
+      console.error("Error loading CSV export presets:", error);
+      return [];
+    }
+  },
+
+  // Get a specific preset by ID
+  getById(id: string): CsvExportPreset | null {
+    return this.getAll().find(preset => preset.id === id) || null;
+  },
+
+  // Save options under a name, replacing a preset with the same name
+  save(name: string, options: CsvExportOptions): CsvExportPreset {
+    const presets = this.getAll();
+    const now = new Date().toISOString();
+    const existing = presets.find(
+      preset => preset.name.toLowerCase() === name.toLowerCase()
+    );
+
+    const preset: CsvExportPreset = existing
+      ? { ...existing, name, options, updatedAt: now }
+      : {
+          id: generateExportPresetId(),
+          name,
+          options,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+    storage.setItem(
+      STORAGE_KEY,
+      existing
+        ? presets.map(item => (item.id === existing.id ? preset : item))
+        : [...presets, preset]
+    );
+    return preset;
+  },
+
+  // Delete a preset
+  delete(id: string): boolean {
+    const presets = this.getAll();
+    const filtered = presets.filter(preset => preset.id !== id);
+
+    if (filtered.length === presets.length) return false;
+
+    storage.setItem(STORAGE_KEY, filtered);
+    return true;
+  },
+
+  // Clear all presets
+  clear(): void {
+    storage.removeItem(STORAGE_KEY);
+  },
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import type { TableRow } from "../features/tableSlice";
+import {
+  DEFAULT_FIND_REPLACE_OPTIONS,
+  compileFindPattern,
+  previewFindReplace,
+  type FindReplaceOptions,
+} from "./find-replace";
+
+const rows: TableRow[] = [
+  { _rowId: "r1", name: "Ann Lee", city: "New York", phone: "555-1234" },
+  { _rowId: "r2", name: "Bo new", city: "Newark", phone: "555-9876" },
+  { id: 3, name: "Cy", city: "new york", phone: 5551111 },
+];
+
+const preview = (options: Partial<FindReplaceOptions>) =>
+  previewFindReplace(rows, { ...DEFAULT_FIND_REPLACE_OPTIONS, ...options });
+
+describe("find and replace", () => {
+  it("should match literal text case-insensitively by default", () => {
+    const result = preview({ find: "new", replace: "Old" });
+
+    expect(result.matches.map(match => [match.rowId, match.after])).toEqual([
+      ["r1", "Old York"],
+      ["r2", "Bo Old"],
+      ["r2", "Oldark"],
+      ["3", "Old york"],
+    ]);
+    expect(result.rowCount).toBe(3);
+    expect(result.updates[0]).toEqual({
+      rowId: "r1",
+      columnId: "city",
+      value: "Old York",
+    });
+  });
+
+  it("should honour case sensitivity, whole cells and columns", () => {
+    expect(
+      preview({ find: "New", replace: "Old", caseSensitive: true }).matches
+    ).toHaveLength(2);
+    expect(
+      preview({
+        find: "new york",
+        replace: "NYC",
+        wholeCell: true,
+      }).matches.map(match => match.before)
+    ).toEqual(["New York", "new york"]);
+    expect(
+      preview({ find: "new", replace: "Old", columns: ["name"] }).matches
+    ).toHaveLength(1);
+  });
+
+  it("should expand capture groups in regex mode only", () => {
+    expect(
+      preview({
+        find: "(\\d{3})-(\\d{4})",
+        replace: "($1) $2",
+        mode: "regex",
+        columns: ["phone"],
+      }).matches.map(match => match.after)
+    ).toEqual(["(555) 1234", "(555) 9876"]);
+    expect(
+      preview({ find: "Cy", replace: "$& $1", columns: ["name"] }).matches[0]
+        .after
+    ).toBe("$& $1");
+  });
+
+  it("should keep numeric cells numeric", () => {
+    const [match] = preview({
+      find: "^555",
+      replace: "777",
+      mode: "regex",
+      columns: ["phone"],
+    }).matches.filter(match => match.rowId === "3");
+
+    expect(match.after).toBe(7771111);
+  });
+
+  it("should report invalid regular expressions", () => {
+    const result = preview({ find: "(unclosed", mode: "regex" });
+
+    expect(result.error).toMatch(/Invalid regular expression/);
+    expect(result.matches).toEqual([]);
+    expect(compileFindPattern({ ...DEFAULT_FIND_REPLACE_OPTIONS }).ok).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Find and Replace
+ *
+ * Finds text in table cells and previews the replacement of every affected
+ * cell before anything changes. Matching can be literal or a regular
+ * expression (with `$1` and `$<name>` capture groups in the replacement),
+ * case-sensitive or not, and limited to whole cells or to some columns.
+ *
+ * @example
+ * ```typescript
+ * import { previewFindReplace } from './find-replace';
+ *
+ * const preview = previewFindReplace(rows, {
+ *   ...DEFAULT_FIND_REPLACE_OPTIONS,
+ *   find: '(\\d{3})-(\\d{4})',
+ *   replace: '$1 $2',
+ *   mode: 'regex',
+ *   columns: ['phone'],
+ * });
+ * dispatch(replaceCells({ updates: preview.updates, find, replace }));
+ * ```
+ */
+
+import type { CellUpdate, TableRow } from "../features/tableSlice";
+
+export type FindMode = "literal" | "regex";
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  /** "literal" matches the text as typed, "regex" a JavaScript regular expression */
+  mode: FindMode;
+  caseSensitive: boolean;
+  /** Only match cells whose entire value matches */
+  wholeCell: boolean;
+  /** Columns to search; every column when empty */
+  columns: string[];
+}
+
+export const DEFAULT_FIND_REPLACE_OPTIONS: FindReplaceOptions = {
+  find: "",
+  replace: "",
+  mode: "literal",
+  caseSensitive: false,
+  wholeCell: false,
+  columns: [],
+};
+
+/**
+ * A cell the replacement changes
+ */
+export interface FindReplaceMatch {
+  /** Row ID (`_rowId`, or `id` for rows without one) */
+  rowId: string;
+  /** Index of the row in the table data */
+  rowIndex: number;
+  columnId: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface FindReplacePreview {
+  matches: FindReplaceMatch[];
+  /** Cell updates that apply the preview */
+  updates: CellUpdate[];
+  /** Number of rows with at least one match */
+  rowCount: number;
+  /** Why the search can't run (invalid regular expression), or null */
+  error: string | null;
+}
+
+// Signed numbers, so numeric cells stay numbers after a replacement
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export type FindPatternResult =
+  | { ok: true; pattern: RegExp }
+  | { ok: false; message: string };
+
+/**
+ * Builds the regular expression for the search options
+ */
+export function compileFindPattern(
+  options: Pick<
+    FindReplaceOptions,
+    "find" | "mode" | "caseSensitive" | "wholeCell"
+  >
+): FindPatternResult {
+  if (!options.find) return { ok: false, message: "Enter text to find" };
+
+  const source =
+    options.mode === "regex" ? options.find : escapeRegExp(options.find);
+  const flags = options.caseSensitive ? "g" : "gi";
+
+  try {
+    return {
+      ok: true,
+      pattern: new RegExp(
+        options.wholeCell ? `^(?:${source})$` : source,
+        flags
+      ),
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      message:
+        error instanceof Error ? error.message : "Invalid regular expression",
+    };
+  }
+}
+
+/**
+ * Replaces matches in one value. Strings, numbers and booleans are searched;
+ * numbers that are still numeric afterwards stay numbers.
+ *
+ * @returns The new value, or undefined when nothing matched
+ */
+export function replaceInValue(
+  value: unknown,
+  pattern: RegExp,
+  replacement: string
+): unknown {
+  if (!["string", "number", "boolean"].includes(typeof value)) {
+    return undefined;
+  }
+
+  const text = String(value);
+  pattern.lastIndex = 0;
+  if (!pattern.test(text)) return undefined;
+
+  pattern.lastIndex = 0;
+  const replaced = text.replace(pattern, replacement);
+  if (replaced === text) return undefined;
+
+  return typeof value === "number" && NUMERIC_PATTERN.test(replaced)
+    ? Number(replaced)
+    : replaced;
+}
+
+/**
+ * Lists every cell the replacement would change, in row then column order
+ */
+export function previewFindReplace(
+  rows: TableRow[],
+  options: FindReplaceOptions
+): FindReplacePreview {
+  const compiled = compileFindPattern(options);
+  if (!compiled.ok) {
+    return { matches: [], updates: [], rowCount: 0, error: compiled.message };
+  }
+
+  // Literal replacements must not expand $1, $& and friends
+  const replacement =
+    options.mode === "regex"
+      ? options.replace
+      : options.replace.replace(/\$/g, "$$$$");
+
+  const matches: FindReplaceMatch[] = [];
+  const matchedRows = new Set<number>();
+
+  rows.forEach((row, rowIndex) => {
+    const rowId = row._rowId ?? String(row.id);
+    const columnIds =
+      options.columns.length > 0
+        ? options.columns
+        : Object.keys(row).filter(key => !key.startsWith("_"));
+
+    columnIds.forEach(columnId => {
+      const before = row[columnId];
+      const after = replaceInValue(before, compiled.pattern, replacement);
+      if (after === undefined) return;
+
+      matches.push({ rowId, rowIndex, columnId, before, after });
+      matchedRows.add(rowIndex);
+    });
+  });
+
+  return {
+    matches,
+    updates: matches.map(({ rowId, columnId, after }) => ({
+      rowId,
+      columnId,
+      value: after,
+    })),
+    rowCount: matchedRows.size,
+    error: null,
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  FormulaError,
+  checkFormula,
+  compileFormula,
+  computeColumnValues,
+  evaluateFormula,
+  getComputedColumns,
+  getFormulaCompletions,
+} from "./formula-engine";
+
+const evaluate = (source: string, row: Record<string, unknown> = {}) =>
+  evaluateFormula(compileFormula(source), row);
+
+describe("formula engine", () => {
+  it("should evaluate math with operator precedence", () => {
+    const row = { price: "12.50", qty: 3, discount: "" };
+
+    expect(evaluate("price * qty", row)).toBe(37.5);
+    expect(evaluate("1 + 2 * 3 - -4", row)).toBe(11);
+    expect(evaluate("(1 + 2) * 3 % 4", row)).toBe(1);
+    expect(evaluate("round(10 / 3, 2)", row)).toBe(3.33);
+    // Empty values don't silently become zero
+    expect(evaluate("price * discount", row)).toBeNull();
+    expect(evaluate("sum(price, discount, qty)", row)).toBe(15.5);
+  });
+
+  it("should build text with functions and &", () => {
+    const row = { first: "ann", last: "lee", "unit price": 4 };
+
+    expect(evaluate('concat(upper(last), ", ", proper(first))', row)).toBe(
+      "LEE, Ann"
+    );
+    expect(evaluate('first & " " & [unit price]', row)).toBe("ann 4");
+    expect(evaluate('left(last, 1) & mid("abcdef", 2, 3)', row)).toBe("lbcd");
+    expect(evaluate('replace("a-b-c", "-", "")')).toBe("abc");
+    expect(evaluate('len(trim("  a   b "))')).toBe(3);
+  });
+
+  it("should compare values and pick branches", () => {
+    const row = { status: "A", score: "10", notes: null };
+
+    expect(
+      evaluate('if(status = "A", "active", "inactive")', { status: "A" })
+    ).toBe("active");
+    expect(evaluate('IF(status <> "A", "active", "inactive")', row)).toBe(
+      "inactive"
+    );
+    // Numeric text compares as numbers, other text alphabetically
+    expect(evaluate("score > 9", row)).toBe(true);
+    expect(evaluate('"b" > "a" and not isBlank(status)', row)).toBe(true);
+    expect(evaluate('coalesce(notes, "none")', row)).toBe("none");
+    // Only the chosen branch runs
+    expect(evaluate("if(true, 1, 1 / 0)")).toBe(1);
+  });
+
+  it("should work with dates", () => {
+    const row = { start: "2024-01-30", end: "2024-03-01" };
+
+    expect(evaluate("year(start) & '-' & month(start)", row)).toBe("2024-1");
+    expect(evaluate("dateDiff(start, end)", row)).toBe(31);
+    expect(evaluate("addDays(start, 2)", row)).toBe("2024-02-01");
+    expect(evaluate('formatDate(start, "dd/MM/yyyy")', row)).toBe("30/01/2024");
+  });
+
+  it("should report syntax errors and bad calls without evaluating code", () => {
+    expect(checkFormula("price * (qty")).toMatchObject({
+      ok: false,
+      message: "Expected )",
+      position: 12,
+    });
+    expect(checkFormula("eval(price)")).toMatchObject({
+      ok: false,
+      message: 'Unknown function "eval"',
+    });
+    expect(checkFormula("constructor(1)")).toMatchObject({
+      ok: false,
+      message: 'Unknown function "constructor"',
+    });
+    expect(checkFormula("__proto__(1)")).toMatchObject({ ok: false });
+    expect(checkFormula("upper()")).toMatchObject({
+      ok: false,
+      message: "upper(text) takes 1 argument",
+    });
+    expect(checkFormula('"open')).toMatchObject({ ok: false, position: 0 });
+    expect(() => evaluate('"abc" * 2')).toThrow(FormulaError);
+    expect(compileFormula("concat(b, [a c], b)").columns).toEqual(["b", "a c"]);
+  });
+
+  it("should compute columns in order and leave failures empty", () => {
+    const columns = getComputedColumns([
+      { id: "name", name: "name" },
+      { id: "total", name: "total", formula: "price * qty" },
+      { id: "label", name: "label", formula: 'name & ": " & total' },
+      { id: "broken", name: "broken", formula: "price *" },
+    ]);
+
+    expect(columns.map(column => column.name)).toEqual([
+      "total",
+      "label",
+      "broken",
+    ]);
+    expect(
+      computeColumnValues({ name: "Pen", price: 2, qty: 3 }, columns)
+    ).toEqual({ total: 6, label: "Pen: 6", broken: null });
+    expect(
+      computeColumnValues({ name: "Pen", price: "n/a", qty: 3 }, columns)
+    ).toEqual({ total: null, label: "Pen: ", broken: null });
+  });
+
+  it("should suggest columns and functions for the word being typed", () => {
+    const columns = ["price", "unit price", "status"];
+    const labels = (source: string, cursor = source.length) =>
+      getFormulaCompletions(source, cursor, columns)?.suggestions.map(
+        suggestion => suggestion.insert
+      );
+
+    expect(labels("round(pr")).toEqual(["price", "proper("]);
+    expect(labels("[unit")).toEqual(["[unit price]"]);
+    expect(getFormulaCompletions("1 + st", 6, columns)).toMatchObject({
+      from: 4,
+    });
+    expect(labels('"pr')).toBeUndefined();
+    expect(labels("price")).toBeUndefined();
+  });
+});
@@ -0,0 +1,1136 @@
+/**
+ * Formula Engine
+ *
+ * A small expression language for computed columns. Formulas are parsed into
+ * a syntax tree and evaluated one row at a time; nothing is handed to `eval`
+ * or `Function`, and only the functions in `FORMULA_FUNCTIONS` can be called.
+ *
+ * Syntax:
+ * - Columns by name (`price`), or in brackets when the name has spaces or
+ *   symbols (`[unit price]`)
+ * - Numbers, `"text"` or `'text'`, `true`, `false`, `null`
+ * - `+ - * / %` for math, `&` to join text, `= != <> < <= > >=` to compare,
+ *   `and`, `or`, `not` (also `&&`, `||`, `!`)
+ * - Function calls, case-insensitive: `round(price * qty, 2)`
+ *
+ * Empty cells are `null`. Math with an empty operand gives `null` rather
+ * than treating it as zero, so a missing quantity doesn't become a zero total.
+ *
+ * @example
+ * ```typescript
+ * import { compileFormula, evaluateFormula } from './formula-engine';
+ *
+ * const formula = compileFormula('concat(upper(last), ", ", first)');
+ * evaluateFormula(formula, { first: 'Ann', last: 'Lee' }); // 'LEE, Ann'
+ * formula.columns; // ['last', 'first']
+ * ```
+ */
+
+import {
+  differenceInCalendarDays,
+  addDays,
+  format as formatDate,
+  isValid,
+  parseISO,
+} from "date-fns";
+import type { ComputedField, TargetField } from "../types/target-shapes";
+
+export type FormulaValue = string | number | boolean | null;
+
+/**
+ * Error thrown for formulas that don't parse or can't be evaluated
+ */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    /** Character offset in the formula, for syntax errors */
+    public position?: number
+  ) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "&"
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "and"
+  | "or";
+
+export type FormulaNode =
+  | { kind: "literal"; value: FormulaValue }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; operator: "-" | "not"; operand: FormulaNode }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+/**
+ * A parsed formula, ready to evaluate against rows
+ */
+export interface CompiledFormula {
+  source: string;
+  ast: FormulaNode;
+  /** Columns the formula reads, in order of first use */
+  columns: string[];
+}
+
+// Tokenizer
+
+interface Token {
+  type:
+    | "number"
+    | "string"
+    | "identifier"
+    | "column"
+    | "operator"
+    | "("
+    | ")"
+    | ","
+    | "end";
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "==",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "=",
+  "<",
+  ">",
+  "!",
+];
+
+// Spellings that mean the same operator
+const OPERATOR_ALIASES: Record<string, string> = {
+  "==": "=",
+  "<>": "!=",
+  "&&": "and",
+  "||": "or",
+  "!": "not",
+};
+
+const NUMBER_PATTERN = /\d+(\.\d*)?([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+const STRING_ESCAPES: Record<string, string> = { n: "\n", t: "\t" };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const position = index;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = index;
+    const number = NUMBER_PATTERN.exec(source);
+    if (number && /[\d.]/.test(char)) {
+      tokens.push({ type: "number", value: number[0], position });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          index++;
+          value += STRING_ESCAPES[source[index]] ?? source[index];
+        } else {
+          value += source[index];
+        }
+        index++;
+      }
+      if (index >= source.length) {
+        throw new FormulaError("Text is missing its closing quote", position);
+      }
+      index++;
+      tokens.push({ type: "string", value, position });
+      continue;
+    }
+
+    if (char === "[") {
+      const end = source.indexOf("]", index);
+      if (end === -1) {
+        throw new FormulaError(
+          "Column name is missing its closing ]",
+          position
+        );
+      }
+      tokens.push({
+        type: "column",
+        value: source.slice(index + 1, end).trim(),
+        position,
+      });
+      index = end + 1;
+      continue;
+    }
+
+    IDENTIFIER_PATTERN.lastIndex = index;
+    const identifier = IDENTIFIER_PATTERN.exec(source);
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], position });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, value: char, position });
+      index++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({
+        type: "operator",
+        value: OPERATOR_ALIASES[operator] ?? operator,
+        position,
+      });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`, position);
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+}
+
+// Parser
+
+const KEYWORD_OPERATORS = ["and", "or", "not"];
+const KEYWORD_LITERALS: Record<string, FormulaValue> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function parse(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+
+  // Operators spelled as words arrive as identifiers
+  const isOperator = (...operators: string[]) => {
+    const token = peek();
+    const value =
+      token.type === "identifier" &&
+      KEYWORD_OPERATORS.includes(token.value.toLowerCase())
+        ? token.value.toLowerCase()
+        : token.type === "operator"
+          ? token.value
+          : null;
+    return value !== null && operators.includes(value);
+  };
+
+  const expect = (type: Token["type"], message: string) => {
+    const token = peek();
+    if (token.type !== type) throw new FormulaError(message, token.position);
+    return next();
+  };
+
+  const binaryLevel =
+    (operators: BinaryOperator[], parseOperand: () => FormulaNode) =>
+    (): FormulaNode => {
+      let left = parseOperand();
+      while (isOperator(...operators)) {
+        const operator = next().value.toLowerCase() as BinaryOperator;
+        left = { kind: "binary", operator, left, right: parseOperand() };
+      }
+      return left;
+    };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "column":
+        if (!token.value) {
+          throw new FormulaError("Empty column name", token.position);
+        }
+        return { kind: "column", name: token.value };
+      case "identifier": {
+        if (peek().type === "(") {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek().type !== ")") {
+            do {
+              args.push(parseExpression());
+            } while (peek().type === "," && next());
+          }
+          expect(")", `Expected ) to close ${token.value}(`);
+          return { kind: "call", name: token.value.toLowerCase(), args };
+        }
+        const keyword = token.value.toLowerCase();
+        if (keyword in KEYWORD_LITERALS) {
+          return { kind: "literal", value: KEYWORD_LITERALS[keyword] };
+        }
+        return { kind: "column", name: token.value };
+      }
+      case "(": {
+        const expression = parseExpression();
+        expect(")", "Expected )");
+        return expression;
+      }
+      case "end":
+        throw new FormulaError("Formula ends unexpectedly", token.position);
+      default:
+        throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+    }
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator("-", "+")) {
+      const operator = next().value;
+      const operand = parseUnary();
+      return operator === "-" ? { kind: "unary", operator, operand } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = binaryLevel(["*", "/", "%"], parseUnary);
+  const parseAdditive = binaryLevel(["+", "-"], parseMultiplicative);
+  const parseConcat = binaryLevel(["&"], parseAdditive);
+  const parseComparison = binaryLevel(
+    ["=", "!=", "<", "<=", ">", ">="],
+    parseConcat
+  );
+
+  const parseNot = (): FormulaNode => {
+    if (isOperator("not")) {
+      next();
+      return { kind: "unary", operator: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = binaryLevel(["and"], parseNot);
+  const parseOr = binaryLevel(["or"], parseAnd);
+
+  function parseExpression(): FormulaNode {
+    return parseOr();
+  }
+
+  if (peek().type === "end") throw new FormulaError("Enter a formula", 0);
+  const ast = parseExpression();
+  const rest = peek();
+  if (rest.type !== "end") {
+    throw new FormulaError(`Unexpected "${rest.value}"`, rest.position);
+  }
+  return ast;
+}
+
+// Value conversion
+
+const isBlank = (value: FormulaValue): value is null | "" =>
+  value === null || value === "";
+
+const toText = (value: FormulaValue): string =>
+  value === null ? "" : String(value);
+
+const NUMERIC_TEXT = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+function toNumber(value: FormulaValue): number | null {
+  if (isBlank(value)) return null;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const text = String(value).trim().replace(/,/g, "");
+  if (!NUMERIC_TEXT.test(text)) {
+    throw new FormulaError(`Expected a number, got "${value}"`);
+  }
+  return Number(text);
+}
+
+const FALSE_TEXT = ["false", "no", "0"];
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (isBlank(value)) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  return !FALSE_TEXT.includes(value.trim().toLowerCase());
+};
+
+function toDate(value: FormulaValue): Date | null {
+  if (isBlank(value)) return null;
+  const text = String(value).trim();
+  const iso = parseISO(text);
+  const date = isValid(iso) ? iso : new Date(text);
+  if (!isValid(date)) throw new FormulaError(`Expected a date, got "${value}"`);
+  return date;
+}
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+const toCellValue = (value: unknown): FormulaValue => {
+  if (value === undefined || value === null) return null;
+  if (["string", "number", "boolean"].includes(typeof value)) {
+    return value as FormulaValue;
+  }
+  return JSON.stringify(value);
+};
+
+// Functions
+
+export type FormulaFunctionCategory = "text" | "math" | "date" | "logic";
+
+export interface FormulaFunction {
+  /** How the function is written, shown in the editor */
+  signature: string;
+  description: string;
+  category: FormulaFunctionCategory;
+  minArgs: number;
+  maxArgs: number;
+  evaluate: (args: FormulaValue[]) => FormulaValue;
+}
+
+// Unary math that passes empty values through
+const mathFunction =
+  (fn: (number: number) => number) =>
+  ([value]: FormulaValue[]) => {
+    const number = toNumber(value);
+    return number === null ? null : fn(number);
+  };
+
+// Text functions that pass empty values through
+const textFunction =
+  (fn: (text: string, ...args: FormulaValue[]) => FormulaValue) =>
+  ([value, ...args]: FormulaValue[]) =>
+    value === null ? null : fn(toText(value), ...args);
+
+const numbersOf = (args: FormulaValue[]) =>
+  args.map(toNumber).filter((number): number is number => number !== null);
+
+const dateFunction =
+  (fn: (date: Date, ...args: FormulaValue[]) => FormulaValue) =>
+  ([value, ...args]: FormulaValue[]) => {
+    const date = toDate(value);
+    return date === null ? null : fn(date, ...args);
+  };
+
+/**
+ * Functions available in formulas, keyed by lowercase name
+ */
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Text
+  concat: {
+    signature: "concat(value, ...)",
+    description: "Joins values as text",
+    category: "text",
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.map(toText).join(""),
+  },
+  upper: {
+    signature: "upper(text)",
+    description: "Converts text to UPPERCASE",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.toUpperCase()),
+  },
+  lower: {
+    signature: "lower(text)",
+    description: "Converts text to lowercase",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.toLowerCase()),
+  },
+  proper: {
+    signature: "proper(text)",
+    description: "Capitalizes the first letter of each word",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text =>
+      text
+        .toLowerCase()
+        .replace(
+          /(^|[^\p{L}'])(\p{L})/gu,
+          (_, before, letter) => `${before}${letter.toUpperCase()}`
+        )
+    ),
+  },
+  trim: {
+    signature: "trim(text)",
+    description: "Removes leading, trailing and repeated spaces",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.trim().replace(/\s+/g, " ")),
+  },
+  len: {
+    signature: "len(text)",
+    description: "Number of characters",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => toText(value).length,
+  },
+  left: {
+    signature: "left(text, count)",
+    description: "First characters of the text",
+    category: "text",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: textFunction((text, count) =>
+      text.slice(0, Math.max(0, toNumber(count) ?? 0))
+    ),
+  },
+  right: {
+    signature: "right(text, count)",
+    description: "Last characters of the text",
+    category: "text",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: textFunction((text, count) => {
+      const length = Math.max(0, toNumber(count) ?? 0);
+      return length === 0 ? "" : text.slice(-length);
+    }),
+  },
+  mid: {
+    signature: "mid(text, start, count)",
+    description: "Characters from a 1-based position",
+    category: "text",
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: textFunction((text, start, count) => {
+      const from = Math.max(1, toNumber(start) ?? 1) - 1;
+      return text.slice(from, from + Math.max(0, toNumber(count) ?? 0));
+    }),
+  },
+  replace: {
+    signature: "replace(text, find, with)",
+    description: "Replaces every occurrence of some text",
+    category: "text",
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: textFunction((text, find, replacement) =>
+      toText(find) ? text.split(toText(find)).join(toText(replacement)) : text
+    ),
+  },
+  contains: {
+    signature: "contains(text, part)",
+    description: "Whether the text contains the part",
+    category: "text",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, part]) => toText(value).includes(toText(part)),
+  },
+  startswith: {
+    signature: "startsWith(text, prefix)",
+    description: "Whether the text starts with the prefix",
+    category: "text",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, prefix]) => toText(value).startsWith(toText(prefix)),
+  },
+  endswith: {
+    signature: "endsWith(text, suffix)",
+    description: "Whether the text ends with the suffix",
+    category: "text",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, suffix]) => toText(value).endsWith(toText(suffix)),
+  },
+  text: {
+    signature: "text(value)",
+    description: "Converts a value to text",
+    category: "text",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => toText(value),
+  },
+
+  // Math
+  number: {
+    signature: "number(value)",
+    description: 'Converts text such as "1,200.50" to a number',
+    category: "math",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => toNumber(value),
+  },
+  abs: {
+    signature: "abs(number)",
+    description: "Absolute value",
+    category: "math",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: mathFunction(Math.abs),
+  },
+  round: {
+    signature: "round(number, decimals)",
+    description: "Rounds to a number of decimals (default 0)",
+    category: "math",
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([value, decimals]) => {
+      const number = toNumber(value);
+      if (number === null) return null;
+      const factor = 10 ** (toNumber(decimals) ?? 0);
+      return Math.round((number + Number.EPSILON) * factor) / factor;
+    },
+  },
+  floor: {
+    signature: "floor(number)",
+    description: "Rounds down to a whole number",
+    category: "math",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: mathFunction(Math.floor),
+  },
+  ceil: {
+    signature: "ceil(number)",
+    description: "Rounds up to a whole number",
+    category: "math",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: mathFunction(Math.ceil),
+  },
+  min: {
+    signature: "min(number, ...)",
+    description: "Smallest value, ignoring empty values",
+    category: "math",
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => {
+      const numbers = numbersOf(args);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    signature: "max(number, ...)",
+    description: "Largest value, ignoring empty values",
+    category: "math",
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => {
+      const numbers = numbersOf(args);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+  sum: {
+    signature: "sum(number, ...)",
+    description: "Total, ignoring empty values",
+    category: "math",
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => numbersOf(args).reduce((total, n) => total + n, 0),
+  },
+
+  // Dates
+  today: {
+    signature: "today()",
+    description: "Today's date",
+    category: "date",
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate: () => formatDate(new Date(), DATE_FORMAT),
+  },
+  year: {
+    signature: "year(date)",
+    description: "Year of a date",
+    category: "date",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getFullYear()),
+  },
+  month: {
+    signature: "month(date)",
+    description: "Month of a date (1-12)",
+    category: "date",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getMonth() + 1),
+  },
+  day: {
+    signature: "day(date)",
+    description: "Day of the month",
+    category: "date",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getDate()),
+  },
+  adddays: {
+    signature: "addDays(date, days)",
+    description: "Date a number of days later (or earlier when negative)",
+    category: "date",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: dateFunction((date, days) =>
+      formatDate(addDays(date, toNumber(days) ?? 0), DATE_FORMAT)
+    ),
+  },
+  datediff: {
+    signature: "dateDiff(start, end)",
+    description: "Days from the start date to the end date",
+    category: "date",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([start, end]) => {
+      const from = toDate(start);
+      const to = toDate(end);
+      return from && to ? differenceInCalendarDays(to, from) : null;
+    },
+  },
+  formatdate: {
+    signature: 'formatDate(date, "dd/MM/yyyy")',
+    description: "Formats a date with a date-fns pattern",
+    category: "date",
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: dateFunction((date, pattern) => {
+      try {
+        return formatDate(date, toText(pattern));
+      } catch (error) {
+        throw new FormulaError(
+          error instanceof Error ? error.message : "Invalid date format"
+        );
+      }
+    }),
+  },
+
+  // Logic
+  if: {
+    signature: "if(condition, then, else)",
+    description: "Picks a value by condition; else defaults to empty",
+    category: "logic",
+    minArgs: 2,
+    maxArgs: 3,
+    // Evaluated lazily by the engine, so only the chosen branch runs
+    evaluate: ([condition, then, otherwise = null]) =>
+      toBoolean(condition) ? then : otherwise,
+  },
+  coalesce: {
+    signature: "coalesce(value, ...)",
+    description: "First value that isn't empty",
+    category: "logic",
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.find(value => !isBlank(value)) ?? null,
+  },
+  isblank: {
+    signature: "isBlank(value)",
+    description: "Whether the value is empty",
+    category: "logic",
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => isBlank(value),
+  },
+};
+
+/**
+ * A function by its lowercase name; names inherited from `Object.prototype`
+ * (`constructor`, `__proto__`, ...) are not functions
+ */
+const getFormulaFunction = (name: string): FormulaFunction | undefined =>
+  Object.hasOwn(FORMULA_FUNCTIONS, name) ? FORMULA_FUNCTIONS[name] : undefined;
+
+// Compilation
+
+function checkCalls(node: FormulaNode, columns: string[]) {
+  switch (node.kind) {
+    case "column":
+      if (!columns.includes(node.name)) columns.push(node.name);
+      return;
+    case "unary":
+      checkCalls(node.operand, columns);
+      return;
+    case "binary":
+      checkCalls(node.left, columns);
+      checkCalls(node.right, columns);
+      return;
+    case "call": {
+      const fn = getFormulaFunction(node.name);
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`);
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        const expected =
+          fn.minArgs === fn.maxArgs
+            ? `${fn.minArgs}`
+            : fn.maxArgs === Infinity
+              ? `at least ${fn.minArgs}`
+              : `${fn.minArgs} to ${fn.maxArgs}`;
+        throw new FormulaError(
+          `${fn.signature} takes ${expected} argument${expected === "1" ? "" : "s"}`
+        );
+      }
+      node.args.forEach(arg => checkCalls(arg, columns));
+    }
+  }
+}
+
+/**
+ * Parses a formula and checks its function calls
+ *
+ * @throws FormulaError for syntax errors, unknown functions or wrong
+ *   argument counts
+ */
+export function compileFormula(source: string): CompiledFormula {
+  const ast = parse(source);
+  const columns: string[] = [];
+  checkCalls(ast, columns);
+  return { source, ast, columns };
+}
+
+export type FormulaCheck =
+  | { ok: true; formula: CompiledFormula }
+  | { ok: false; message: string; position?: number };
+
+/**
+ * Compiles a formula, returning the error instead of throwing it
+ */
+export function checkFormula(source: string): FormulaCheck {
+  try {
+    return { ok: true, formula: compileFormula(source) };
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return { ok: false, message: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+// Evaluation
+
+function compare(left: FormulaValue, right: FormulaValue): number {
+  if (isBlank(left) || isBlank(right)) {
+    return Number(!isBlank(left)) - Number(!isBlank(right));
+  }
+  const bothNumeric = [left, right].every(
+    value =>
+      typeof value === "number" ||
+      (typeof value === "string" && NUMERIC_TEXT.test(value.trim()))
+  );
+  if (bothNumeric) {
+    return Math.sign((toNumber(left) as number) - (toNumber(right) as number));
+  }
+  return toText(left).localeCompare(toText(right));
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  row: Record<string, unknown>
+): FormulaValue {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "column":
+      return toCellValue(
+        Object.hasOwn(row, node.name) ? row[node.name] : undefined
+      );
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, row);
+      if (node.operator === "not") return !toBoolean(operand);
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+
+    case "binary": {
+      const { operator } = node;
+      const left = evaluateNode(node.left, row);
+
+      // Short-circuit logic
+      if (operator === "and") {
+        return toBoolean(left) && toBoolean(evaluateNode(node.right, row));
+      }
+      if (operator === "or") {
+        return toBoolean(left) || toBoolean(evaluateNode(node.right, row));
+      }
+
+      const right = evaluateNode(node.right, row);
+      switch (operator) {
+        case "&":
+          return toText(left) + toText(right);
+        case "=":
+          return compare(left, right) === 0;
+        case "!=":
+          return compare(left, right) !== 0;
+        case "<":
+          return compare(left, right) < 0;
+        case "<=":
+          return compare(left, right) <= 0;
+        case ">":
+          return compare(left, right) > 0;
+        case ">=":
+          return compare(left, right) >= 0;
+      }
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      switch (operator) {
+        case "+":
+          return a + b;
+        case "-":
+          return a - b;
+        case "*":
+          return a * b;
+        case "/":
+        case "%":
+          if (b === 0) throw new FormulaError("Division by zero");
+          return operator === "/" ? a / b : a % b;
+      }
+      return null;
+    }
+
+    case "call": {
+      if (node.name === "if") {
+        const [condition, then, otherwise] = node.args;
+        if (toBoolean(evaluateNode(condition, row))) {
+          return evaluateNode(then, row);
+        }
+        return otherwise ? evaluateNode(otherwise, row) : null;
+      }
+      const fn = getFormulaFunction(node.name);
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`);
+      const args = node.args.map(arg => evaluateNode(arg, row));
+      return fn.evaluate(args);
+    }
+  }
+}
+
+/**
+ * Evaluates a compiled formula against one row
+ *
+ * @throws FormulaError when a value can't be used, e.g. text in math
+ */
+export function evaluateFormula(
+  formula: CompiledFormula,
+  row: Record<string, unknown>
+): FormulaValue {
+  const value = evaluateNode(formula.ast, row);
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new FormulaError("Result is not a finite number");
+  }
+  return value;
+}
+
+// Editor completions
+
+export interface FormulaSuggestion {
+  kind: "column" | "function";
+  label: string;
+  /** Text that replaces the word being typed */
+  insert: string;
+  description?: string;
+}
+
+export interface FormulaCompletions {
+  /** Where the word being typed starts */
+  from: number;
+  suggestions: FormulaSuggestion[];
+}
+
+const SIMPLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * How to refer to a column in a formula: bare when it's a plain name,
+ * otherwise in brackets
+ */
+export const formatColumnReference = (name: string) =>
+  SIMPLE_NAME.test(name) &&
+  !KEYWORD_OPERATORS.includes(name.toLowerCase()) &&
+  !(name.toLowerCase() in KEYWORD_LITERALS)
+    ? name
+    : `[${name}]`;
+
+const isInsideText = (source: string) => {
+  let quote: string | null = null;
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === "\\") index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    }
+  }
+  return quote !== null;
+};
+
+/**
+ * Columns and functions matching the word before the cursor, or null when
+ * there's nothing to suggest
+ */
+export function getFormulaCompletions(
+  source: string,
+  cursor: number,
+  columns: string[],
+  limit = 8
+): FormulaCompletions | null {
+  const before = source.slice(0, cursor);
+  if (isInsideText(before)) return null;
+
+  // Inside an unfinished [column name]
+  const bracket = /\[([^\]]*)$/.exec(before);
+  if (bracket) {
+    const query = bracket[1].toLowerCase();
+    const suggestions = columns
+      .filter(name => name.toLowerCase().includes(query))
+      .slice(0, limit)
+      .map(name => ({
+        kind: "column" as const,
+        label: name,
+        insert: `[${name}]`,
+      }));
+    return suggestions.length > 0 ? { from: bracket.index, suggestions } : null;
+  }
+
+  const word = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before);
+  if (!word || /[\d.]$/.test(before.slice(0, word.index))) return null;
+  const query = word[0].toLowerCase();
+
+  const suggestions: FormulaSuggestion[] = [
+    ...columns
+      .filter(name => name.toLowerCase().startsWith(query))
+      .map(name => ({
+        kind: "column" as const,
+        label: name,
+        insert: formatColumnReference(name),
+      })),
+    ...Object.entries(FORMULA_FUNCTIONS)
+      .filter(([name]) => name.startsWith(query))
+      .map(([, fn]) => ({
+        kind: "function" as const,
+        label: fn.signature,
+        insert: `${fn.signature.slice(0, fn.signature.indexOf("("))}(`,
+        description: fn.description,
+      })),
+  ]
+    // Nothing to complete once the word is typed out
+    .filter(suggestion => suggestion.insert !== word[0])
+    .slice(0, limit);
+
+  return suggestions.length > 0 ? { from: word.index, suggestions } : null;
+}
+
+// Computed columns
+
+/**
+ * A target field whose values are computed by a formula
+ */
+export const isComputedField = (field: TargetField): field is ComputedField =>
+  typeof (field as Partial<ComputedField>).formula === "string";
+
+/**
+ * Whether a computed field can't take a name because another field or column
+ * has it. The shape and table reducers both decide with this, so they accept
+ * the same fields.
+ *
+ * @param takenNames Names in use; may include the field's own
+ * @param currentName The field's saved name, which it can keep
+ */
+export const isComputedFieldNameTaken = (
+  name: string,
+  takenNames: string[],
+  currentName?: string
+): boolean => name !== currentName && takenNames.includes(name);
+
+/**
+ * A computed column as kept by the table
+ */
+export interface ComputedColumn {
+  /** ID of the target field the column comes from */
+  fieldId: string;
+  name: string;
+  formula: string;
+}
+
+/**
+ * The computed columns among a shape's fields, in field order
+ */
+export const getComputedColumns = (
+  fields: Array<Pick<TargetField, "id" | "name"> & { formula?: string }>
+): ComputedColumn[] =>
+  fields.flatMap(field =>
+    typeof field.formula === "string"
+      ? [{ fieldId: field.id, name: field.name, formula: field.formula }]
+      : []
+  );
+
+// Compiled formulas by source; computed columns are evaluated on every edit
+const compiledFormulas = new Map<string, CompiledFormula | FormulaError>();
+
+const getCompiledFormula = (source: string) => {
+  let compiled = compiledFormulas.get(source);
+  if (!compiled) {
+    try {
+      compiled = compileFormula(source);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      compiled = error;
+    }
+    compiledFormulas.set(source, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Computes a row's computed columns in order, so a formula can use the
+ * columns computed before it. Formulas that fail give an empty value.
+ */
+export function computeColumnValues(
+  row: Record<string, unknown>,
+  columns: ComputedColumn[]
+): Record<string, FormulaValue> {
+  const values: Record<string, FormulaValue> = {};
+  const scope = { ...row };
+
+  columns.forEach(column => {
+    const compiled = getCompiledFormula(column.formula);
+    let value: FormulaValue = null;
+    if (!(compiled instanceof FormulaError)) {
+      try {
+        value = evaluateFormula(compiled, scope);
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+      }
+    }
+    values[column.name] = value;
+    scope[column.name] = value;
+  });
+
+  return values;
+}
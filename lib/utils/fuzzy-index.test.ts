@@ -0,0 +1,134 @@
+/**
+ * Tests for Fuzzy Candidate Index
+ *
+ * Covers Soundex keys, candidate search against the full-scan matcher and
+ * the comparison savings reported by benchmarkSimilarity.
+ */
+
+import { describe, it, expect } from "vitest";
+import { FuzzyIndex, buildFuzzyIndex, soundex } from "./fuzzy-index";
+import { benchmarkSimilarity, findBestMatches } from "./string-similarity";
+import { LookupMatchingEngine } from "./lookup-matching-engine";
+
+const departments = [
+  "Engineering",
+  "Marketing",
+  "Human Resources",
+  "Finance",
+  "",
+  "Customer Support",
+];
+
+// Deterministic synthetic company names
+const syllables = ["ka", "lo", "mi", "ren", "sto", "vel", "dar", "qui", "ba"];
+const suffixes = ["Inc", "Labs", "Group", "Systems", "Partners"];
+const generateNames = (count: number) =>
+  Array.from({ length: count }, (_, i) => {
+    const word = [i % 9, Math.floor(i / 9) % 9, Math.floor(i / 81) % 9]
+      .map(n => syllables[n])
+      .join("");
+    return `${word[0].toUpperCase()}${word.slice(1)} ${suffixes[Math.floor(i / 729) % 5]} ${Math.floor(i / 3645)}`;
+  });
+
+describe("soundex", () => {
+  it("should produce standard Soundex codes", () => {
+    expect(soundex("Robert")).toBe("R163");
+    expect(soundex("Rupert")).toBe("R163");
+    expect(soundex("Ashcraft")).toBe("A261");
+    expect(soundex("Tymczak")).toBe("T522");
+    expect(soundex("Lee")).toBe("L000");
+    expect(soundex("123")).toBe("");
+  });
+});
+
+describe("FuzzyIndex", () => {
+  it("should find typos and phonetic variants", () => {
+    const index = new FuzzyIndex(departments);
+
+    expect(index.size).toBe(5);
+    expect(index.search("Enginering").matches[0]).toMatchObject({
+      value: "Engineering",
+      index: 0,
+    });
+    expect(index.search("Fynance", { threshold: 0.5 }).matches[0].value).toBe(
+      "Finance"
+    );
+    expect(index.search("human resources").matches[0]).toEqual({
+      value: "Human Resources",
+      similarity: 1,
+      index: 2,
+    });
+  });
+
+  it("should agree with the full scan for the best match", () => {
+    const names = generateNames(5000);
+    const index = new FuzzyIndex(names);
+    const queries = [
+      names[17].replace("a", "e"),
+      names[1234].toLowerCase(),
+      names[4000].slice(0, -1),
+      `${names[321]}x`,
+    ];
+
+    queries.forEach(query => {
+      const scanned = findBestMatches(query, names, 0.6, 1)[0];
+      const { matches, comparisons } = index.search(query, {
+        maxResults: 1,
+      });
+      expect(matches[0]).toEqual(scanned);
+      expect(comparisons).toBeLessThan(names.length / 10);
+    });
+  });
+
+  it("should index a reference column", () => {
+    const rows = departments.map(name => ({ name }));
+
+    expect(buildFuzzyIndex(rows, "name").search("Marketng").matches[0]).toEqual(
+      expect.objectContaining({ value: "Marketing", index: 1 })
+    );
+  });
+});
+
+describe("indexed lookups", () => {
+  it("should match through the index with fewer comparisons", () => {
+    const names = generateNames(5000);
+    const referenceData = names.map((name, i) => ({ id: `C${i}`, name }));
+    const engine = new LookupMatchingEngine();
+    const config = {
+      matchColumn: "name",
+      returnColumn: "id",
+      smartMatching: { enabled: true, confidence: 0.8 },
+      onMismatch: "null" as const,
+    };
+    // Drop a letter so exact and normalized matching miss
+    const input = names[2500].slice(0, 2) + names[2500].slice(3);
+
+    const scanned = engine.performLookup(input, referenceData, config);
+    const indexed = engine.performLookup(input, referenceData, {
+      ...config,
+      fuzzyIndex: buildFuzzyIndex(referenceData, "name"),
+    });
+
+    expect(indexed.matchedValue).toBe(scanned.matchedValue);
+    expect(indexed.confidence).toBe(scanned.confidence);
+    expect(indexed.metrics!.comparisons).toBeLessThan(
+      scanned.metrics!.comparisons
+    );
+  });
+
+  it("should report the savings through benchmarkSimilarity", () => {
+    const names = generateNames(5000);
+    const index = new FuzzyIndex(names);
+
+    const scan = benchmarkSimilarity("Kalomi Labs 0", names);
+    const indexed = benchmarkSimilarity(
+      "Kalomi Labs 0",
+      names,
+      "combined",
+      index
+    );
+
+    expect(scan.comparisons).toBe(names.length);
+    expect(indexed.comparisons).toBeLessThan(names.length / 10);
+  });
+});
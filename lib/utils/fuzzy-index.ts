@@ -0,0 +1,242 @@
+/**
+ * Fuzzy Candidate Index
+ *
+ * Pre-built index over one column of a reference file so fuzzy lookups only
+ * score a small candidate set instead of every reference row. Candidates
+ * come from shared trigrams of the normalized value and from Soundex keys of
+ * its words; they are then scored with `combinedSimilarity` exactly like
+ * `findBestMatches`.
+ *
+ * Small reference sets are cheaper to scan, so lookups only use an index
+ * from `FUZZY_INDEX_MIN_ROWS` rows up.
+ *
+ * @example
+ * ```typescript
+ * import { buildFuzzyIndex } from './fuzzy-index';
+ *
+ * const index = buildFuzzyIndex(referenceRows, 'dept_name');
+ * const { matches, comparisons } = index.search('Enginering', {
+ *   threshold: 0.7,
+ *   maxResults: 3,
+ * });
+ * console.log(matches[0]); // { value: 'Engineering', similarity: 0.96, index: 0 }
+ * console.log(comparisons); // 12 instead of referenceRows.length
+ * ```
+ */
+
+import { combinedSimilarity, normalizeString } from "./string-similarity";
+
+/** Reference sets smaller than this are scanned without an index */
+export const FUZZY_INDEX_MIN_ROWS = 1000;
+
+/**
+ * Options for a fuzzy index search
+ */
+export interface FuzzySearchOptions {
+  /** Minimum similarity for a match (default: 0.6) */
+  threshold?: number;
+  /** Maximum number of matches to return (default: 5) */
+  maxResults?: number;
+  /** Maximum number of candidates to score (default: 200) */
+  maxCandidates?: number;
+}
+
+/**
+ * Matches in the same shape as `findBestMatches`, plus the number of
+ * candidates that were scored
+ */
+export interface FuzzySearchResult {
+  matches: Array<{ value: string; similarity: number; index: number }>;
+  comparisons: number;
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6",
+};
+
+// Trigrams shared by more than this share of rows carry little signal
+const COMMON_GRAM_RATIO = 0.05;
+const PHONETIC_WEIGHT = 2;
+
+/**
+ * American Soundex code of a word (e.g. "Robert" -> "R163")
+ */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return "";
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? "";
+
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const letter = letters[i];
+    const digit = SOUNDEX_CODES[letter] ?? "";
+    if (digit && digit !== previous) code += digit;
+    // "h" and "w" do not separate letters with the same code
+    if (letter !== "h" && letter !== "w") previous = digit;
+  }
+
+  return code.padEnd(4, "0");
+}
+
+function trigramsOf(normalized: string): Set<string> {
+  const padded = `  ${normalized} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function phoneticKeysOf(normalized: string): Set<string> {
+  const keys = new Set<string>();
+  normalized.split(" ").forEach(word => {
+    const key = soundex(word);
+    if (key) keys.add(key);
+  });
+  return keys;
+}
+
+function addPosting(postings: Map<string, number[]>, key: string, id: number) {
+  const list = postings.get(key);
+  if (list) {
+    list.push(id);
+  } else {
+    postings.set(key, [id]);
+  }
+}
+
+/**
+ * Trigram and phonetic index over a list of values
+ */
+export class FuzzyIndex {
+  private values: string[] = [];
+  private normalized: string[] = [];
+  private exact = new Map<string, number[]>();
+  private grams = new Map<string, number[]>();
+  private phonetic = new Map<string, number[]>();
+  private indexedCount = 0;
+
+  /**
+   * @param values Values to index; positions are returned as match indexes
+   */
+  constructor(values: unknown[]) {
+    values.forEach((value, id) => {
+      const text = value == null ? "" : String(value);
+      if (!text) return;
+
+      const normalized = normalizeString(text);
+      this.values[id] = text;
+      this.normalized[id] = normalized;
+      this.indexedCount++;
+
+      addPosting(this.exact, normalized, id);
+      trigramsOf(normalized).forEach(gram => addPosting(this.grams, gram, id));
+      phoneticKeysOf(normalized).forEach(key =>
+        addPosting(this.phonetic, key, id)
+      );
+    });
+  }
+
+  /** Number of non-empty values in the index */
+  get size(): number {
+    return this.indexedCount;
+  }
+
+  /**
+   * Find the best matches for a value among the indexed values
+   */
+  search(target: string, options: FuzzySearchOptions = {}): FuzzySearchResult {
+    const { threshold = 0.6, maxResults = 5, maxCandidates = 200 } = options;
+    const normalizedTarget = normalizeString(target);
+    const scores = new Map<number, number>();
+    const addScores = (ids: number[] | undefined, weight: number) => {
+      ids?.forEach(id => scores.set(id, (scores.get(id) ?? 0) + weight));
+    };
+
+    // Rare trigrams first; common ones only when nothing rarer exists
+    const postings = [...trigramsOf(normalizedTarget)]
+      .map(gram => this.grams.get(gram))
+      .filter((list): list is number[] => Boolean(list))
+      .sort((a, b) => a.length - b.length);
+    const commonLimit = Math.max(
+      maxCandidates,
+      this.indexedCount * COMMON_GRAM_RATIO
+    );
+    const selective = postings.filter(list => list.length <= commonLimit);
+    (selective.length > 0 ? selective : postings.slice(0, 3)).forEach(list =>
+      addScores(list, 1)
+    );
+
+    phoneticKeysOf(normalizedTarget).forEach(key =>
+      addScores(this.phonetic.get(key), PHONETIC_WEIGHT)
+    );
+
+    // Exact normalized matches are always scored
+    const exactIds = this.exact.get(normalizedTarget) ?? [];
+    const candidates = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, maxCandidates)
+      .map(([id]) => id);
+    exactIds.forEach(id => {
+      if (!candidates.includes(id)) candidates.push(id);
+    });
+
+    const matches: FuzzySearchResult["matches"] = [];
+    candidates.forEach(id => {
+      const normalizedCandidate = this.normalized[id];
+
+      if (normalizedTarget === normalizedCandidate) {
+        matches.push({ value: this.values[id], similarity: 1, index: id });
+        return;
+      }
+
+      const lengthRatio =
+        Math.min(normalizedTarget.length, normalizedCandidate.length) /
+        Math.max(normalizedTarget.length, normalizedCandidate.length);
+      if (lengthRatio < 0.2) return;
+
+      const similarity = combinedSimilarity(
+        normalizedTarget,
+        normalizedCandidate
+      );
+      if (similarity >= threshold) {
+        matches.push({ value: this.values[id], similarity, index: id });
+      }
+    });
+
+    return {
+      matches: matches
+        .sort((a, b) => b.similarity - a.similarity || a.index - b.index)
+        .slice(0, maxResults),
+      comparisons: candidates.length,
+    };
+  }
+}
+
+/**
+ * Build an index over one column of reference rows
+ */
+export function buildFuzzyIndex(
+  rows: Record<string, any>[],
+  column: string
+): FuzzyIndex {
+  return new FuzzyIndex(rows.map(row => row[column]));
+}
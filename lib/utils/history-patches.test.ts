@@ -0,0 +1,289 @@
+/**
+ * Tests for History Patches
+ *
+ * Covers patch diffing and inversion, checkpoint placement and rebuilding
+ * table state from the history recorded by the store middleware.
+ */
+
+import { describe, it, expect } from "vitest";
+import { makeStore } from "../store";
+import {
+  setData,
+  updateCell,
+  replaceCells,
+  setColumnOrder,
+  setSorting,
+  type TableRow,
+} from "../features/tableSlice";
+import {
+  setCurrentIndex,
+  setMaxHistorySize,
+  type HistoryAction,
+} from "../features/historySlice";
+import {
+  CHECKPOINT_INTERVAL,
+  MAX_PATCH_CELLS,
+  applyPatches,
+  createHistoryEntry,
+  createTableSnapshot,
+  diffTableSnapshots,
+  getTableSnapshotAt,
+  invertPatches,
+} from "./history-patches";
+import { restoreStateToAction, restoreStateToIndex } from "./time-travel";
+
+const rows: TableRow[] = [
+  { _rowId: "r1", id: "1", name: "Ann" },
+  { _rowId: "r2", id: "2", name: "Bob" },
+];
+
+const defaultColumnOrder = ["id", "name"];
+
+const snapshotOf = (data: TableRow[], columnOrder = defaultColumnOrder) =>
+  createTableSnapshot({ data, columnOrder });
+
+describe("diffTableSnapshots", () => {
+  it("should record changed cells and settings with before and after values", () => {
+    const before = snapshotOf(rows);
+    const after = snapshotOf(
+      [rows[0], { ...rows[1], name: "Rob", email: "rob@example.com" }],
+      ["name", "id"]
+    );
+
+    const patches = diffTableSnapshots(before, after)!;
+
+    expect(patches).toEqual([
+      {
+        op: "cells",
+        changes: [
+          {
+            rowIndex: 1,
+            rowId: "r2",
+            columnId: "name",
+            before: "Bob",
+            after: "Rob",
+          },
+          {
+            rowIndex: 1,
+            rowId: "r2",
+            columnId: "email",
+            after: "rob@example.com",
+          },
+        ],
+      },
+      {
+        op: "set",
+        key: "columnOrder",
+        before: ["id", "name"],
+        after: ["name", "id"],
+      },
+    ]);
+    expect(applyPatches(before, patches)).toEqual(after);
+    expect(applyPatches(after, invertPatches(patches))).toEqual(before);
+  });
+
+  it("should leave unchanged rows shared with the source snapshot", () => {
+    const before = snapshotOf(rows);
+    const patched = applyPatches(before, [
+      {
+        op: "cells",
+        changes: [{ rowIndex: 1, columnId: "name", before: "Bob", after: "B" }],
+      },
+    ]);
+
+    expect(patched.data[0]).toBe(rows[0]);
+    expect(rows[1].name).toBe("Bob");
+  });
+
+  it("should return null when rows are added, removed or reordered", () => {
+    const before = snapshotOf(rows);
+
+    expect(diffTableSnapshots(before, snapshotOf([rows[0]]))).toBeNull();
+    expect(
+      diffTableSnapshots(before, snapshotOf([rows[1], rows[0]]))
+    ).toBeNull();
+  });
+});
+
+describe("createHistoryEntry", () => {
+  it("should checkpoint the first entry, replaced rows and every interval", () => {
+    const before = snapshotOf(rows);
+    const edited = snapshotOf([rows[0], { ...rows[1], name: "Rob" }]);
+
+    expect(createHistoryEntry(null, before, 0)).toEqual({
+      stateSnapshot: before,
+    });
+    expect(createHistoryEntry(before, edited, 0).stateSnapshot).toBeUndefined();
+    expect(createHistoryEntry(before, snapshotOf([]), 0)).toEqual({
+      stateSnapshot: snapshotOf([]),
+    });
+
+    const periodic = createHistoryEntry(
+      before,
+      edited,
+      CHECKPOINT_INTERVAL - 1
+    );
+    expect(periodic.stateSnapshot).toBe(edited);
+    expect(periodic.patches).toHaveLength(1);
+  });
+});
+
+describe("getTableSnapshotAt", () => {
+  const buildHistory = (count: number) => {
+    const snapshots = [snapshotOf(rows)];
+    const actions: HistoryAction[] = [
+      { type: "edit", id: "0", timestamp: 0, stateSnapshot: snapshots[0] },
+    ];
+    for (let i = 1; i < count; i++) {
+      const previous = snapshots[i - 1];
+      const next = snapshotOf([
+        { ...previous.data[0], name: `Ann ${i}` },
+        rows[1],
+      ]);
+      snapshots.push(next);
+      actions.push({
+        type: "edit",
+        id: String(i),
+        timestamp: i,
+        ...createHistoryEntry(previous, next, i % CHECKPOINT_INTERVAL),
+      });
+    }
+    return { actions, snapshots };
+  };
+
+  it("should rebuild every entry from the surrounding checkpoints", () => {
+    const { actions, snapshots } = buildHistory(CHECKPOINT_INTERVAL + 5);
+
+    snapshots.forEach((snapshot, index) => {
+      expect(getTableSnapshotAt(actions, index)?.data).toEqual(snapshot.data);
+    });
+  });
+
+  it("should return null when no checkpoint reaches the entry", () => {
+    const { actions } = buildHistory(3);
+
+    expect(getTableSnapshotAt(actions.slice(1), 0)).toBeNull();
+  });
+});
+
+describe("history middleware", () => {
+  it("should record cell edits as patches and restore earlier entries", () => {
+    const store = makeStore();
+    store.dispatch(setData(rows));
+    store.dispatch(updateCell({ rowId: "1", columnId: "name", value: "Anna" }));
+    store.dispatch(setSorting([{ id: "name", desc: true }]));
+    store.dispatch(setColumnOrder(["name", "id"]));
+
+    const { actions } = store.getState().history;
+    expect(actions).toHaveLength(3);
+    expect(actions[0].stateSnapshot).toBeDefined();
+    expect(actions[1].stateSnapshot).toBeUndefined();
+    expect(actions[1].patches).toEqual([
+      {
+        op: "cells",
+        changes: [
+          {
+            rowIndex: 0,
+            rowId: "r1",
+            columnId: "name",
+            before: "Ann",
+            after: "Anna",
+          },
+        ],
+      },
+    ]);
+
+    restoreStateToIndex(store.dispatch, actions, 0);
+    store.dispatch(setCurrentIndex(0));
+
+    const table = store.getState().table;
+    expect(table.data.map(row => row.name)).toEqual(["Ann", "Bob"]);
+    expect(table.sorting).toEqual(actions[0].stateSnapshot.sorting);
+    // Restoring does not add history entries
+    expect(store.getState().history.actions).toHaveLength(3);
+
+    // Editing after time travel drops the redo entries and checkpoints again
+    store.dispatch(updateCell({ rowId: "2", columnId: "name", value: "Rob" }));
+    const updated = store.getState().history.actions;
+    expect(updated).toHaveLength(2);
+    expect(updated[1].stateSnapshot.data[1].name).toBe("Rob");
+  });
+
+  it("should checkpoint the oldest entry kept when history is trimmed", () => {
+    const store = makeStore();
+    store.dispatch(setMaxHistorySize(3));
+    store.dispatch(setData(rows));
+    ["A", "B", "C"].forEach(value =>
+      store.dispatch(updateCell({ rowId: "1", columnId: "name", value }))
+    );
+
+    const { actions } = store.getState().history;
+    expect(actions).toHaveLength(3);
+    expect(actions[0].stateSnapshot.data[0].name).toBe("A");
+    expect(getTableSnapshotAt(actions, 2)?.data[0].name).toBe("C");
+  });
+
+  it("should checkpoint find and replace so it can be rolled back on its own", () => {
+    const store = makeStore();
+    store.dispatch(setData(rows));
+    store.dispatch(updateCell({ rowId: "1", columnId: "name", value: "Anna" }));
+    store.dispatch(
+      replaceCells({
+        updates: [
+          { rowId: "r1", columnId: "name", value: "ANNA" },
+          { rowId: "r2", columnId: "name", value: "BOB" },
+        ],
+        find: "(.*)",
+        replace: "upper",
+      })
+    );
+
+    const replaceEntry = store.getState().history.actions[2];
+    expect(replaceEntry.stateSnapshot).toBeDefined();
+    expect(replaceEntry.patches).toHaveLength(1);
+
+    restoreStateToAction(store.dispatch, replaceEntry, { undo: true });
+    expect(store.getState().table.data.map(row => row.name)).toEqual([
+      "Anna",
+      "Bob",
+    ]);
+
+    restoreStateToAction(store.dispatch, replaceEntry);
+    expect(store.getState().table.data.map(row => row.name)).toEqual([
+      "ANNA",
+      "BOB",
+    ]);
+  });
+
+  it("should undo a find and replace of more than MAX_PATCH_CELLS cells", () => {
+    const store = makeStore();
+    const manyRows = Array.from({ length: MAX_PATCH_CELLS + 1 }, (_, i) => ({
+      _rowId: `r${i}`,
+      id: String(i),
+      name: "Ann",
+    }));
+    store.dispatch(setData(manyRows));
+    // Time travel leaves no recorded table to diff against
+    store.dispatch(setCurrentIndex(0));
+    store.dispatch(
+      replaceCells({
+        updates: manyRows.map(row => ({
+          rowId: row._rowId,
+          columnId: "name",
+          value: "Anna",
+        })),
+        find: "Ann",
+        replace: "Anna",
+      })
+    );
+
+    const replaceEntry = store.getState().history.actions[1];
+    expect(replaceEntry.stateSnapshot).toBeDefined();
+    expect(replaceEntry.patches?.[0]).toMatchObject({ op: "cells" });
+
+    restoreStateToAction(store.dispatch, replaceEntry, { undo: true });
+    const names = store.getState().table.data.map(row => row.name);
+    expect(names).toHaveLength(MAX_PATCH_CELLS + 1);
+    expect(new Set(names)).toEqual(new Set(["Ann"]));
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * History Patches
+ *
+ * Stores history entries as structural patches against the previous entry
+ * instead of full table snapshots. A full snapshot (checkpoint) is kept for
+ * the first entry, every `CHECKPOINT_INTERVAL` entries, and whenever the row
+ * set is replaced (imports, shape applications, large lookup runs). Any entry
+ * can be rebuilt by replaying patches from the nearest checkpoint, forwards
+ * or backwards through inverse patches.
+ *
+ * Patch types:
+ * - `cells`: per-cell changes keyed by row index, with before/after values
+ * - `set`: replaced table settings such as `columnOrder` or `sorting`
+ *
+ * @example
+ * ```typescript
+ * import { createHistoryEntry, getTableSnapshotAt } from './history-patches';
+ *
+ * const entry = createHistoryEntry(previousSnapshot, nextSnapshot, 3);
+ * console.log(entry.patches); // [{ op: 'cells', changes: [...] }]
+ *
+ * // Rebuild the table as it was after the fifth entry
+ * const snapshot = getTableSnapshotAt(history.actions, 4);
+ * ```
+ */
+
+import type { HistoryAction } from "../features/historySlice";
+import type { TableRow, TableState } from "../features/tableSlice";
+
+/**
+ * Table state keys captured by history; processing and editing state is
+ * transient and never restored
+ */
+export const HISTORY_TABLE_KEYS = [
+  "data",
+  "columnOrder",
+  "appliedTargetShapeId",
+  "computedColumns",
+  "sorting",
+  "columnFilters",
+  "columnVisibility",
+  "rowSelection",
+  "globalFilter",
+  "grouping",
+  "expanded",
+  "pagination",
+  "importData",
+  "isLoading",
+  "error",
+] as const;
+
+export type HistoryTableKey = (typeof HISTORY_TABLE_KEYS)[number];
+
+/**
+ * Table state as recorded by history
+ */
+export type TableSnapshot = Pick<TableState, HistoryTableKey>;
+
+/** Entries between checkpoints */
+export const CHECKPOINT_INTERVAL = 20;
+
+/** Above this many changed cells a checkpoint is cheaper than a patch */
+export const MAX_PATCH_CELLS = 5000;
+
+/**
+ * A single cell change. A missing `before` or `after` means the column did
+ * not exist on the row on that side of the change.
+ */
+export interface CellChange {
+  rowIndex: number;
+  rowId?: string;
+  columnId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export type TablePatch =
+  | { op: "cells"; changes: CellChange[] }
+  | {
+      op: "set";
+      key: Exclude<HistoryTableKey, "data">;
+      before: unknown;
+      after: unknown;
+    };
+
+/**
+ * Pick the history-tracked keys from a table state
+ */
+export function createTableSnapshot(table: Partial<TableState>): TableSnapshot {
+  const snapshot = {} as Record<HistoryTableKey, unknown>;
+  HISTORY_TABLE_KEYS.forEach(key => {
+    snapshot[key] = table[key];
+  });
+  return snapshot as TableSnapshot;
+}
+
+function diffRows(
+  before: TableRow[],
+  after: TableRow[],
+  maxCells: number
+): CellChange[] | null {
+  if (before.length !== after.length) return null;
+
+  const changes: CellChange[] = [];
+  for (let rowIndex = 0; rowIndex < after.length; rowIndex++) {
+    const previous = before[rowIndex];
+    const next = after[rowIndex];
+    if (previous === next) continue;
+    if (previous?._rowId !== next?._rowId) return null;
+
+    const columns = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    columns.forEach(columnId => {
+      if (previous[columnId] === next[columnId]) return;
+      const change: CellChange = { rowIndex, columnId };
+      if (next._rowId) change.rowId = next._rowId;
+      if (columnId in previous) change.before = previous[columnId];
+      if (columnId in next) change.after = next[columnId];
+      changes.push(change);
+    });
+
+    if (changes.length > maxCells) return null;
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two table snapshots. Returns null when the rows were replaced or
+ * reordered, or more than `maxCells` cells changed, and the change is better
+ * stored as a checkpoint.
+ */
+export function diffTableSnapshots(
+  before: TableSnapshot,
+  after: TableSnapshot,
+  maxCells = MAX_PATCH_CELLS
+): TablePatch[] | null {
+  const patches: TablePatch[] = [];
+
+  if (before.data !== after.data) {
+    const changes = diffRows(before.data ?? [], after.data ?? [], maxCells);
+    if (!changes) return null;
+    if (changes.length > 0) patches.push({ op: "cells", changes });
+  }
+
+  HISTORY_TABLE_KEYS.forEach(key => {
+    if (key === "data" || before[key] === after[key]) return;
+    patches.push({ op: "set", key, before: before[key], after: after[key] });
+  });
+
+  return patches;
+}
+
+/**
+ * Invert a patch list so applying it undoes the original
+ */
+export function invertPatches(patches: TablePatch[]): TablePatch[] {
+  return [...patches].reverse().map(patch => {
+    if (patch.op === "set") {
+      return { ...patch, before: patch.after, after: patch.before };
+    }
+    return {
+      op: "cells",
+      changes: [...patch.changes].reverse().map(change => {
+        const { before, after, ...cell } = change;
+        const inverted: CellChange = cell;
+        if ("after" in change) inverted.before = after;
+        if ("before" in change) inverted.after = before;
+        return inverted;
+      }),
+    };
+  });
+}
+
+/**
+ * Apply patches in order. The input snapshot is not modified; untouched rows
+ * are shared with the result.
+ */
+export function applyPatches(
+  snapshot: TableSnapshot,
+  patches: TablePatch[]
+): TableSnapshot {
+  const result = { ...snapshot };
+  let data: TableRow[] | null = null;
+  const copiedRows = new Set<number>();
+
+  patches.forEach(patch => {
+    if (patch.op === "set") {
+      (result as Record<string, unknown>)[patch.key] = patch.after;
+      return;
+    }
+
+    data ??= [...(result.data ?? [])];
+    patch.changes.forEach(change => {
+      if (!data![change.rowIndex]) return;
+      if (!copiedRows.has(change.rowIndex)) {
+        data![change.rowIndex] = { ...data![change.rowIndex] };
+        copiedRows.add(change.rowIndex);
+      }
+      const row = data![change.rowIndex];
+      if ("after" in change) {
+        row[change.columnId] = change.after;
+      } else {
+        delete row[change.columnId];
+      }
+    });
+  });
+
+  if (data) result.data = data;
+  return result;
+}
+
+/**
+ * Build the history fields for a new entry
+ *
+ * @param previous - Table snapshot recorded with the previous entry, or null
+ *   when the chain is broken (first entry, after time travel)
+ * @param current - Table snapshot after the action
+ * @param entriesSinceCheckpoint - Entries recorded since the last checkpoint
+ * @param forceCheckpoint - Keep a checkpoint alongside the patches, so the
+ *   entry can be restored or undone on its own; patches are kept however
+ *   many cells changed
+ */
+export function createHistoryEntry(
+  previous: TableSnapshot | null,
+  current: TableSnapshot,
+  entriesSinceCheckpoint: number,
+  forceCheckpoint = false
+): Pick<HistoryAction, "patches" | "stateSnapshot"> {
+  const patches = previous
+    ? diffTableSnapshots(
+        previous,
+        current,
+        forceCheckpoint ? Infinity : MAX_PATCH_CELLS
+      )
+    : null;
+  if (!patches) return { stateSnapshot: current };
+
+  if (forceCheckpoint || entriesSinceCheckpoint + 1 >= CHECKPOINT_INTERVAL) {
+    return { patches, stateSnapshot: current };
+  }
+  return { patches };
+}
+
+/**
+ * Count trailing entries recorded since the last checkpoint
+ */
+export function countEntriesSinceCheckpoint(actions: HistoryAction[]): number {
+  let count = 0;
+  for (let i = actions.length - 1; i >= 0; i--) {
+    if (actions[i].stateSnapshot) return count;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Rebuild the table snapshot recorded after the entry at `index`, starting
+ * from whichever checkpoint needs fewer patches. Returns null when no
+ * checkpoint can reach the entry.
+ */
+export function getTableSnapshotAt(
+  actions: HistoryAction[],
+  index: number
+): TableSnapshot | null {
+  const target = actions[index];
+  if (!target) return null;
+  if (target.stateSnapshot) return createTableSnapshot(target.stateSnapshot);
+
+  // Nearest earlier checkpoint, replayed forwards
+  let start = index;
+  while (start >= 0 && !actions[start].stateSnapshot) start--;
+  const canReplay =
+    start >= 0 &&
+    actions.slice(start + 1, index + 1).every(action => action.patches);
+
+  // Nearest later checkpoint, unwound through inverse patches
+  let end = index + 1;
+  while (
+    end < actions.length &&
+    actions[end].patches &&
+    !actions[end].stateSnapshot
+  ) {
+    end++;
+  }
+  const canUnwind =
+    end < actions.length &&
+    Boolean(actions[end].stateSnapshot && actions[end].patches);
+
+  if (canReplay && (!canUnwind || index - start <= end - index)) {
+    const patches = actions
+      .slice(start + 1, index + 1)
+      .flatMap(action => action.patches!);
+    return applyPatches(
+      createTableSnapshot(actions[start].stateSnapshot),
+      patches
+    );
+  }
+
+  if (canUnwind) {
+    const patches = actions
+      .slice(index + 1, end + 1)
+      .reverse()
+      .flatMap(action => invertPatches(action.patches!));
+    return applyPatches(
+      createTableSnapshot(actions[end].stateSnapshot),
+      patches
+    );
+  }
+
+  return null;
+}
@@ -24,6 +24,10 @@ export const ID_PREFIXES = {
   REFERENCE: "ref",
   LOOKUP_BATCH: "batch",
   FUZZY_MATCH: "match",
+  PIPELINE: "pipe",
+  LEARNED_MAPPING: "alias",
+  DATASET: "dset",
+  EXPORT_PRESET: "xpre",
 } as const;
 
 // Convenience functions for common ID types
@@ -37,6 +41,12 @@ export const generateRowId = () => generateId(ID_PREFIXES.ROW);
 export const generateReferenceId = () => generateId(ID_PREFIXES.REFERENCE);
 export const generateLookupBatchId = () => generateId(ID_PREFIXES.LOOKUP_BATCH);
 export const generateFuzzyMatchId = () => generateId(ID_PREFIXES.FUZZY_MATCH);
+export const generatePipelineId = () => generateId(ID_PREFIXES.PIPELINE);
+export const generateLearnedMappingId = () =>
+  generateId(ID_PREFIXES.LEARNED_MAPPING);
+export const generateDatasetId = () => generateId(ID_PREFIXES.DATASET);
+export const generateExportPresetId = () =>
+  generateId(ID_PREFIXES.EXPORT_PRESET);
 
 // Validate ID format
 export const isValidId = (id: string, prefix?: string): boolean => {
@@ -0,0 +1,163 @@
+/**
+ * IndexedDB Storage Adapters
+ *
+ * Async key-value adapters used behind the `storage` API and Redux
+ * persistence. Values are serialized strings; adapters only move them.
+ *
+ * Two object stores live in the `citrus-surf` database:
+ * - `keyValue`: small records mirrored in memory by `storage`
+ * - `state`: chunked Redux state (table rows, history snapshots)
+ *
+ * @example
+ * ```typescript
+ * import { createIndexedDbAdapter, STORE_NAMES } from './indexed-db-storage';
+ *
+ * const adapter = createIndexedDbAdapter(STORE_NAMES.keyValue);
+ * await adapter.write([['greeting', '"hello"']]);
+ * console.log(await adapter.get('greeting')); // '"hello"'
+ *
+ * // Tests use the in-memory fake with the same interface
+ * const fake = createMemoryStorageAdapter();
+ * ```
+ */
+
+/**
+ * Async key-value store holding serialized values
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | undefined>;
+  keys(): Promise<string[]>;
+  entries(): Promise<Array<[string, string]>>;
+  /** Apply puts and deletes atomically */
+  write(puts: Array<[string, string]>, deletes?: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = "citrus-surf";
+const DB_VERSION = 1;
+
+export const STORE_NAMES = {
+  keyValue: "keyValue",
+  state: "state",
+} as const;
+
+export type StoreName = (typeof STORE_NAMES)[keyof typeof STORE_NAMES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB can be used in the current environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORE_NAMES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Failed to open IndexedDB"));
+    };
+  });
+
+  return dbPromise;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+/**
+ * Create an adapter for one object store of the app database
+ */
+export function createIndexedDbAdapter(storeName: StoreName): StorageAdapter {
+  const objectStore = async (mode: IDBTransactionMode) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return { transaction, store: transaction.objectStore(storeName) };
+  };
+
+  return {
+    async get(key) {
+      const { store } = await objectStore("readonly");
+      return (await requestResult(store.get(key))) as string | undefined;
+    },
+
+    async keys() {
+      const { store } = await objectStore("readonly");
+      return (await requestResult(store.getAllKeys())).map(String);
+    },
+
+    async entries() {
+      const { store } = await objectStore("readonly");
+      const [keys, values] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        requestResult(store.getAll()),
+      ]);
+      return keys.map((key, i) => [String(key), values[i] as string]);
+    },
+
+    async write(puts, deletes = []) {
+      const { transaction, store } = await objectStore("readwrite");
+      puts.forEach(([key, value]) => store.put(value, key));
+      deletes.forEach(key => store.delete(key));
+      await transactionDone(transaction);
+    },
+
+    async clear() {
+      const { transaction, store } = await objectStore("readwrite");
+      store.clear();
+      await transactionDone(transaction);
+    },
+  };
+}
+
+/**
+ * In-memory adapter with the same behaviour, for tests and environments
+ * without IndexedDB
+ */
+export function createMemoryStorageAdapter(
+  initial: Record<string, string> = {}
+): StorageAdapter {
+  const data = new Map(Object.entries(initial));
+
+  return {
+    async get(key) {
+      return data.get(key);
+    },
+    async keys() {
+      return [...data.keys()];
+    },
+    async entries() {
+      return [...data.entries()];
+    },
+    async write(puts, deletes = []) {
+      puts.forEach(([key, value]) => data.set(key, value));
+      deletes.forEach(key => data.delete(key));
+    },
+    async clear() {
+      data.clear();
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { storage } from "./localStorage";
+import { storage, initializeStorage, resetStorage } from "./localStorage";
+import { createMemoryStorageAdapter } from "./indexed-db-storage";
 
 describe("localStorage with superjson", () => {
   beforeEach(() => {
@@ -149,3 +150,71 @@ describe("localStorage with superjson", () => {
     global.localStorage = originalLocalStorage;
   });
 });
+
+describe("storage with IndexedDB adapters", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetStorage();
+  });
+
+  afterEach(() => {
+    resetStorage();
+    localStorage.clear();
+  });
+
+  it("should migrate app keys from localStorage", async () => {
+    storage.setItem("citrus_surf_reference_data_index", { ref_a: { id: "a" } });
+    storage.setItem("citrus-surf-target-shapes", []);
+    localStorage.setItem("unrelated", "keep");
+
+    const keyValue = createMemoryStorageAdapter();
+    await initializeStorage({
+      keyValue,
+      state: createMemoryStorageAdapter(),
+    });
+
+    expect(localStorage.getItem("citrus_surf_reference_data_index")).toBeNull();
+    expect(localStorage.getItem("unrelated")).toBe("keep");
+    expect((await keyValue.keys()).sort()).toEqual([
+      "citrus-surf-target-shapes",
+      "citrus_surf_reference_data_index",
+    ]);
+    expect(storage.getItem("citrus_surf_reference_data_index")).toEqual({
+      ref_a: { id: "a" },
+    });
+  });
+
+  it("should read synchronously and persist writes to the adapter", async () => {
+    const keyValue = createMemoryStorageAdapter();
+    await initializeStorage({
+      keyValue,
+      state: createMemoryStorageAdapter(),
+    });
+
+    const createdAt = new Date("2023-01-15T10:30:00Z");
+    storage.setItem("test-key", { createdAt });
+
+    expect(storage.getItem<{ createdAt: Date }>("test-key")?.createdAt).toEqual(
+      createdAt
+    );
+    expect(localStorage.getItem("test-key")).toBeNull();
+    expect(await keyValue.get("test-key")).toContain("2023-01-15");
+
+    storage.removeItem("test-key");
+    expect(storage.getItem("test-key")).toBeNull();
+    expect(await keyValue.get("test-key")).toBeUndefined();
+  });
+
+  it("should load existing adapter values on initialization", async () => {
+    await initializeStorage({
+      keyValue: createMemoryStorageAdapter({
+        saved: '{"json":{"name":"Saved"}}',
+      }),
+      state: createMemoryStorageAdapter(),
+    });
+
+    expect(storage.getItem("saved")).toEqual({ name: "Saved" });
+    expect(storage.length).toBe(1);
+    expect(storage.key(0)).toBe("saved");
+  });
+});
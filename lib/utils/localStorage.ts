@@ -1,17 +1,137 @@
 import superjson from "superjson";
+import {
+  createIndexedDbAdapter,
+  isIndexedDbAvailable,
+  STORE_NAMES,
+  type StorageAdapter,
+} from "./indexed-db-storage";
 
 /**
- * localStorage wrapper with superjson serialization
+ * Adapters attached by `initializeStorage`. Until then (and during SSR or
+ * when IndexedDB is unavailable) `storage` reads and writes localStorage.
+ */
+interface StorageAdapters {
+  /** Small records mirrored in memory for synchronous reads */
+  keyValue: StorageAdapter;
+  /** Large chunked records read and written asynchronously */
+  state: StorageAdapter;
+}
+
+let adapters: StorageAdapters | null = null;
+let initPromise: Promise<void> | null = null;
+// Serialized values of the keyValue store, so reads stay synchronous
+const cache = new Map<string, string>();
+
+// localStorage keys owned by the app, moved into IndexedDB on first run
+const MIGRATED_KEY_PREFIXES = ["citrus-surf-", "citrus_surf_"];
+
+const persist = (puts: Array<[string, string]>, deletes: string[] = []) => {
+  adapters?.keyValue.write(puts, deletes).catch(error => {
+    console.error(
+      `Error saving to IndexedDB (${[...puts.map(([key]) => key), ...deletes].join(", ")}):`,
+      error
+    );
+  });
+};
+
+/**
+ * Move app-owned localStorage keys into the keyValue store. A key found in
+ * both was written before initialization finished, so localStorage wins.
+ * Keys are only removed from localStorage once the write has committed.
+ */
+async function migrateLocalStorage(target: StorageAdapter): Promise<void> {
+  if (typeof localStorage === "undefined") return;
+
+  const puts: Array<[string, string]> = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !MIGRATED_KEY_PREFIXES.some(p => key.startsWith(p))) continue;
+    const value = localStorage.getItem(key);
+    if (value !== null) puts.push([key, value]);
+  }
+  if (puts.length === 0) return;
+
+  await target.write(puts);
+  puts.forEach(([key, value]) => {
+    cache.set(key, value);
+    localStorage.removeItem(key);
+  });
+}
+
+/**
+ * Attach IndexedDB (or the given adapters) behind `storage`, load the
+ * keyValue store into memory and migrate existing localStorage keys.
+ * Safe to call more than once; falls back to localStorage on failure.
+ */
+export function initializeStorage(overrides?: StorageAdapters): Promise<void> {
+  if (initPromise) return initPromise;
+
+  if (!overrides && !isIndexedDbAvailable()) {
+    return Promise.resolve();
+  }
+
+  initPromise = (async () => {
+    const next = overrides ?? {
+      keyValue: createIndexedDbAdapter(STORE_NAMES.keyValue),
+      state: createIndexedDbAdapter(STORE_NAMES.state),
+    };
+
+    try {
+      const entries = await next.keyValue.entries();
+      cache.clear();
+      entries.forEach(([key, value]) => cache.set(key, value));
+      await migrateLocalStorage(next.keyValue);
+      adapters = next;
+    } catch (error) {
+      console.error("IndexedDB unavailable, using localStorage:", error);
+      cache.clear();
+    }
+  })();
+
+  return initPromise;
+}
+
+/**
+ * Adapter for large chunked records, or null while using localStorage
+ */
+export function getStateStorageAdapter(): StorageAdapter | null {
+  return adapters?.state ?? null;
+}
+
+/**
+ * Detach adapters and return to localStorage (used by tests)
+ */
+export function resetStorage(): void {
+  adapters = null;
+  initPromise = null;
+  cache.clear();
+}
+
+/**
+ * Storage wrapper with superjson serialization
  *
- * This utility provides type-safe localStorage operations that properly handle
+ * This utility provides type-safe storage operations that properly handle
  * complex types like Date objects, BigInt, undefined, etc. that don't serialize
- * well with JSON.stringify/parse.
+ * well with JSON.stringify/parse. Values live in localStorage until
+ * `initializeStorage` attaches IndexedDB, after which reads come from an
+ * in-memory mirror and writes are persisted asynchronously.
  */
 export const storage = {
   /**
-   * Get an item from localStorage with superjson deserialization
+   * Get an item from storage with superjson deserialization
    */
   getItem<T>(key: string, defaultValue?: T): T | null {
+    if (adapters) {
+      const stored = cache.get(key);
+      if (stored === undefined) return defaultValue ?? null;
+      try {
+        return superjson.parse(stored);
+      } catch (error) {
+        console.error(`Error loading from IndexedDB (${key}):`, error);
+        return defaultValue ?? null;
+      }
+    }
+
     // Check if we're in a browser environment
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return defaultValue ?? null;
@@ -30,9 +150,20 @@ export const storage = {
   },
 
   /**
-   * Set an item in localStorage with superjson serialization
+   * Set an item in storage with superjson serialization
    */
   setItem<T>(key: string, value: T): void {
+    if (adapters) {
+      try {
+        const serialized = superjson.stringify(value);
+        cache.set(key, serialized);
+        persist([[key, serialized]]);
+      } catch (error) {
+        console.error(`Error saving to IndexedDB (${key}):`, error);
+      }
+      return;
+    }
+
     // Check if we're in a browser environment
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return;
@@ -47,9 +178,14 @@ export const storage = {
   },
 
   /**
-   * Remove an item from localStorage
+   * Remove an item from storage
    */
   removeItem(key: string): void {
+    if (adapters) {
+      cache.delete(key);
+      persist([], [key]);
+      return;
+    }
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return;
     }
@@ -57,9 +193,15 @@ export const storage = {
   },
 
   /**
-   * Clear all items from localStorage
+   * Clear all items from storage
    */
   clear(): void {
+    if (adapters) {
+      cache.clear();
+      adapters.keyValue.clear().catch(error => {
+        console.error("Error clearing IndexedDB:", error);
+      });
+    }
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return;
     }
@@ -67,9 +209,10 @@ export const storage = {
   },
 
   /**
-   * Get the number of items in localStorage
+   * Get the number of items in storage
    */
   get length(): number {
+    if (adapters) return cache.size;
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return 0;
     }
@@ -80,6 +223,7 @@ export const storage = {
    * Get a key by index
    */
   key(index: number): string | null {
+    if (adapters) return [...cache.keys()][index] ?? null;
     if (typeof window === "undefined" || typeof localStorage === "undefined") {
       return null;
     }
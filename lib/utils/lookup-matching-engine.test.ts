@@ -11,6 +11,7 @@ import {
   LookupConfig,
   BatchLookupConfig,
   createLookupConfig,
+  isCompositeLookup,
 } from "./lookup-matching-engine";
 import type { LookupField, DerivedField } from "../types/target-shapes";
 
@@ -579,6 +580,156 @@ describe("LookupMatchingEngine", () => {
     });
   });
 
+  describe("Composite Keys", () => {
+    const employees = [
+      { id: "E1", first: "Jane", last: "Smith", dept: "Engineering" },
+      { id: "E2", first: "Jane", last: "Smith", dept: "Marketing" },
+      { id: "E3", first: "John", last: "Smyth", dept: "Engineering" },
+    ];
+
+    const compositeConfig: LookupConfig = {
+      matchColumn: "first",
+      returnColumn: "id",
+      smartMatching: { enabled: true, confidence: 0.8 },
+      onMismatch: "null",
+      keyParts: [
+        { input: "first_name", on: "first" },
+        { input: "last_name", on: "last" },
+        { input: "department", on: "dept" },
+      ],
+    };
+
+    it("should match only when every part matches", () => {
+      const result = engine.performCompositeLookup(
+        { first_name: "Jane", last_name: "Smith", department: "Marketing" },
+        employees,
+        compositeConfig
+      );
+
+      expect(result.matched).toBe(true);
+      expect(result.matchType).toBe("exact");
+      expect(result.matchedValue).toBe("E2");
+      expect(result.inputValue).toBe("Jane / Smith / Marketing");
+    });
+
+    it("should apply per-part normalization", () => {
+      const products = [
+        { sku: "AB-100", region: "EU", id: "P1" },
+        { sku: "AB-100", region: "US", id: "P2" },
+      ];
+      const config: LookupConfig = {
+        ...compositeConfig,
+        matchColumn: "sku",
+        smartMatching: { enabled: false, confidence: 0.8 },
+        keyParts: [
+          {
+            input: "sku",
+            on: "sku",
+            normalization: { removePunctuation: true },
+          },
+          { input: "region", on: "region" },
+        ],
+      };
+
+      const result = engine.performCompositeLookup(
+        { sku: "ab 100", region: " us" },
+        products,
+        config
+      );
+      expect(result.matchType).toBe("normalized");
+      expect(result.matchedValue).toBe("P2");
+
+      const strict = engine.performCompositeLookup(
+        { sku: "ab 100", region: "us" },
+        products,
+        {
+          ...config,
+          keyParts: [{ input: "sku", on: "sku" }, config.keyParts![1]],
+        }
+      );
+      expect(strict.matched).toBe(false);
+    });
+
+    it("should weight fuzzy similarity and enforce exact parts", () => {
+      const input = {
+        first_name: "Jane",
+        last_name: "Smyth",
+        department: "Engineering",
+      };
+
+      const fuzzy = engine.performCompositeLookup(
+        input,
+        employees,
+        compositeConfig
+      );
+      expect(fuzzy.matchType).toBe("fuzzy");
+      expect(fuzzy.matchedValue).toBe("E1");
+
+      const weighted = engine.performCompositeLookup(input, employees, {
+        ...compositeConfig,
+        keyParts: [
+          { input: "first_name", on: "first", weight: 0 },
+          { input: "last_name", on: "last" },
+          { input: "department", on: "dept" },
+        ],
+      });
+      expect(weighted.matchedValue).toBe("E3");
+      expect(weighted.confidence).toBe(1);
+
+      const mismatched = engine.performCompositeLookup(
+        { ...input, department: "Engineerin" },
+        employees,
+        {
+          ...compositeConfig,
+          keyParts: compositeConfig.keyParts!.map(part =>
+            part.on === "dept" ? { ...part, exact: true } : part
+          ),
+        }
+      );
+      expect(mismatched.matched).toBe(false);
+      expect(mismatched.suggestions).toEqual([]);
+    });
+
+    it("should return no match when every part is empty", () => {
+      const result = engine.performCompositeLookup(
+        {},
+        employees,
+        compositeConfig
+      );
+
+      expect(result.matched).toBe(false);
+      expect(result.metrics!.comparisons).toBe(0);
+    });
+
+    it("should be configured from a LookupField with keys", () => {
+      const lookupField: LookupField = {
+        id: "employee",
+        name: "employee_id",
+        type: "lookup",
+        required: false,
+        referenceFile: "employees.csv",
+        match: {
+          on: "first",
+          get: "id",
+          keys: compositeConfig.keyParts,
+        },
+        smartMatching: { enabled: true, confidence: 0.8 },
+        onMismatch: "warning",
+      };
+
+      expect(isCompositeLookup(lookupField)).toBe(true);
+      expect(createLookupConfig(lookupField).keyParts).toEqual(
+        compositeConfig.keyParts
+      );
+      expect(
+        isCompositeLookup({
+          ...lookupField,
+          match: { on: "first", get: "id", keys: [] },
+        })
+      ).toBe(false);
+    });
+  });
+
   describe("Real-world Integration Tests", () => {
     it("should handle department lookup with fuzzy matching", () => {
       const departments = [
@@ -10,7 +10,13 @@ import {
   combinedSimilarity,
   findBestMatches,
 } from "./string-similarity";
-import type { LookupField, DerivedField } from "../types/target-shapes";
+import type { FuzzyIndex } from "./fuzzy-index";
+import type {
+  LookupField,
+  DerivedField,
+  LookupKeyPart,
+  LookupKeyNormalization,
+} from "../types/target-shapes";
 
 /**
  * Result of a single lookup operation
@@ -81,6 +87,10 @@ export interface LookupConfig {
   };
   /** Maximum number of suggestions to return */
   maxSuggestions?: number;
+  /** Pre-built index over matchColumn of the reference data, used for fuzzy candidates */
+  fuzzyIndex?: FuzzyIndex;
+  /** Composite key parts, matched by `performCompositeLookup` */
+  keyParts?: LookupKeyPart[];
 }
 
 /**
@@ -108,6 +118,39 @@ export interface BatchMetrics {
   throughput: number; // operations per second
 }
 
+/**
+ * Scored reference row considered during fuzzy matching
+ */
+interface FuzzyCandidate {
+  value: string;
+  similarity: number;
+  row: Record<string, any>;
+  index: number;
+}
+
+function stringValue(value: unknown): string {
+  return value == null ? "" : String(value);
+}
+
+/**
+ * Build a normalizer for one key part; part options override the lookup's
+ * normalization, which overrides the matching defaults
+ */
+function createPartNormalizer(
+  partOptions: LookupKeyNormalization = {},
+  configOptions: LookupConfig["normalization"] = {}
+): (value: string) => string {
+  const options = { ...configOptions, ...partOptions };
+  const normalizationOptions = {
+    trim: options.trimWhitespace !== false,
+    lowercase: !options.caseSensitive,
+    removeAccents: options.removeAccents !== false,
+    collapseWhitespace: options.collapseWhitespace !== false,
+    removeNonAlphanumeric: options.removePunctuation === true,
+  };
+  return value => normalizeString(value, normalizationOptions);
+}
+
 /**
  * Main matching engine class
  */
@@ -205,12 +248,9 @@ export class LookupMatchingEngine {
 
     // Step 3: Try fuzzy matching (if enabled)
     if (config.smartMatching.enabled) {
-      const fuzzyResult = this.performFuzzyMatch(
-        inputValue,
-        referenceData,
-        config
-      );
-      comparisons += referenceData.length;
+      const { result: fuzzyResult, comparisons: fuzzyComparisons } =
+        this.performFuzzyMatch(inputValue, referenceData, config);
+      comparisons += fuzzyComparisons;
 
       if (fuzzyResult.matched) {
         return {
@@ -247,6 +287,137 @@ export class LookupMatchingEngine {
     };
   }
 
+  /**
+   * Perform a lookup on a composite key made of several input columns
+   *
+   * A reference row matches when every key part matches. Fuzzy similarity is
+   * the weighted average of the per-part similarities; parts marked `exact`
+   * must match after normalization.
+   *
+   * @param inputValues Input row (or any record) holding the key part values
+   * @param referenceData Reference dataset
+   * @param config Lookup configuration with `keyParts`
+   * @returns Lookup result with match information
+   */
+  performCompositeLookup(
+    inputValues: Record<string, any>,
+    referenceData: Record<string, any>[],
+    config: LookupConfig
+  ): LookupResult {
+    const startTime = performance.now();
+    const parts = config.keyParts || [];
+
+    if (parts.length === 0 || !config.returnColumn) {
+      throw new Error(
+        "keyParts and returnColumn are required in composite lookup configuration"
+      );
+    }
+
+    const values = getCompositeKeyValues(parts, inputValues);
+    const inputValue = formatCompositeKey(values);
+    const noMatch = (comparisons: number): LookupResult => ({
+      ...this.createFailureResult(inputValue),
+      metrics: { executionTime: performance.now() - startTime, comparisons },
+    });
+
+    if (values.every(value => value.trim() === "") || !referenceData?.length) {
+      return noMatch(0);
+    }
+
+    let comparisons = 0;
+
+    // Step 1: Try exact matching on every part
+    comparisons += referenceData.length;
+    const exactRow = referenceData.find(row =>
+      parts.every((part, i) => stringValue(row[part.on]) === values[i])
+    );
+    if (exactRow) {
+      return {
+        ...this.createSuccessResult(inputValue, exactRow, config, 1.0, "exact"),
+        metrics: { executionTime: performance.now() - startTime, comparisons },
+      };
+    }
+
+    // Step 2: Try normalized matching with per-part options
+    const normalizers = parts.map(part =>
+      createPartNormalizer(part.normalization, config.normalization)
+    );
+    const normalizedInput = values.map((value, i) => normalizers[i](value));
+    const normalizeRow = (row: Record<string, any>) =>
+      parts.map((part, i) => normalizers[i](stringValue(row[part.on])));
+
+    comparisons += referenceData.length;
+    const normalizedRow = referenceData.find(row =>
+      normalizeRow(row).every((value, i) => value === normalizedInput[i])
+    );
+    if (normalizedRow) {
+      return {
+        ...this.createSuccessResult(
+          inputValue,
+          normalizedRow,
+          config,
+          0.95,
+          "normalized"
+        ),
+        metrics: { executionTime: performance.now() - startTime, comparisons },
+      };
+    }
+
+    if (!config.smartMatching.enabled) {
+      return noMatch(comparisons);
+    }
+
+    // Step 3: Weighted fuzzy matching across parts
+    const maxSuggestions = config.maxSuggestions || 3;
+    const matches: FuzzyCandidate[] = [];
+
+    comparisons += referenceData.length;
+    referenceData.forEach((row, index) => {
+      const rowValues = normalizeRow(row);
+      let weightedSimilarity = 0;
+      let totalWeight = 0;
+
+      for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        const sameValue = rowValues[i] === normalizedInput[i];
+        if (part.exact && !sameValue) return;
+
+        const weight = part.weight ?? 1;
+        if (weight <= 0) continue;
+
+        weightedSimilarity +=
+          weight *
+          (sameValue
+            ? 1
+            : combinedSimilarity(normalizedInput[i], rowValues[i]));
+        totalWeight += weight;
+      }
+
+      const similarity = totalWeight > 0 ? weightedSimilarity / totalWeight : 1;
+      if (similarity >= 0.1) {
+        matches.push({
+          value: formatCompositeKey(
+            parts.map(part => stringValue(row[part.on]))
+          ),
+          similarity,
+          row,
+          index,
+        });
+      }
+    });
+
+    matches.sort((a, b) => b.similarity - a.similarity || a.index - b.index);
+
+    return {
+      ...this.createFuzzyResult(
+        inputValue,
+        matches.slice(0, maxSuggestions + 5),
+        config
+      ),
+      metrics: { executionTime: performance.now() - startTime, comparisons },
+    };
+  }
+
   /**
    * Perform batch lookup operations with performance optimizations
    *
@@ -393,51 +564,83 @@ export class LookupMatchingEngine {
     inputValue: string,
     referenceData: Record<string, any>[],
     config: LookupConfig
-  ): LookupResult {
-    const threshold = config.smartMatching.confidence;
+  ): { result: LookupResult; comparisons: number } {
     const maxSuggestions = config.maxSuggestions || 3;
 
-    // Extract candidate values for fuzzy matching
-    const candidates = referenceData
-      .map((row, index) => ({
-        value: String(row[config.matchColumn] || ""),
-        row,
-        index,
-      }))
-      .filter(candidate => candidate.value.length > 0);
-
-    const candidateStrings = candidates.map(c => c.value);
+    let matches: Array<Omit<FuzzyCandidate, "index">>;
+    let comparisons: number;
+
+    if (config.fuzzyIndex) {
+      // Only score candidates sharing trigrams or phonetic keys with the input
+      const search = config.fuzzyIndex.search(inputValue, {
+        threshold: 0.1,
+        maxResults: maxSuggestions + 5,
+      });
+      matches = search.matches.map(match => ({
+        ...match,
+        row: referenceData[match.index],
+      }));
+      comparisons = search.comparisons;
+    } else {
+      // Extract candidate values for fuzzy matching
+      const candidates = referenceData
+        .map((row, index) => ({
+          value: String(row[config.matchColumn] || ""),
+          row,
+          index,
+        }))
+        .filter(candidate => candidate.value.length > 0);
+
+      const candidateStrings = candidates.map(c => c.value);
+
+      // Find best matches using fuzzy algorithm
+      matches = findBestMatches(
+        inputValue,
+        candidateStrings,
+        0.1,
+        maxSuggestions + 5
+      ).map(match => ({ ...match, row: candidates[match.index].row }));
+      comparisons = referenceData.length;
+    }
 
-    // Find best matches using fuzzy algorithm
-    const matches = findBestMatches(
-      inputValue,
-      candidateStrings,
-      0.1,
-      maxSuggestions + 5
-    );
+    return {
+      result: this.createFuzzyResult(inputValue, matches, config),
+      comparisons,
+    };
+  }
 
+  /**
+   * Pick the best fuzzy match above the confidence threshold and collect
+   * the remaining candidates as suggestions
+   */
+  private createFuzzyResult(
+    inputValue: string,
+    matches: Array<Omit<FuzzyCandidate, "index">>,
+    config: LookupConfig
+  ): LookupResult {
+    const threshold = config.smartMatching.confidence;
+    const maxSuggestions = config.maxSuggestions || 3;
     const suggestions: LookupSuggestion[] = [];
     let bestMatch: { row: Record<string, any>; confidence: number } | null =
       null;
 
     for (const match of matches) {
-      const candidate = candidates[match.index];
       const confidence = match.similarity;
 
       if (confidence >= threshold && !bestMatch) {
-        bestMatch = { row: candidate.row, confidence };
+        bestMatch = { row: match.row, confidence };
       }
 
       if (suggestions.length < maxSuggestions) {
         suggestions.push({
-          value: candidate.row[config.returnColumn],
+          value: match.row[config.returnColumn],
           confidence,
           reason: this.generateSuggestionReason(
             confidence,
             inputValue,
             match.value
           ),
-          sourceRow: candidate.row,
+          sourceRow: match.row,
         });
       }
     }
@@ -548,9 +751,36 @@ export function createLookupConfig(lookupField: LookupField): LookupConfig {
       collapseWhitespace: true,
     },
     maxSuggestions: 3,
+    keyParts: isCompositeLookup(lookupField)
+      ? lookupField.match.keys
+      : undefined,
   };
 }
 
+/**
+ * Check whether a lookup field matches on a composite key
+ */
+export function isCompositeLookup(lookupField: LookupField): boolean {
+  return (lookupField.match.keys?.length ?? 0) > 0;
+}
+
+/**
+ * Read the value of each key part from an input row
+ */
+export function getCompositeKeyValues(
+  keyParts: LookupKeyPart[],
+  row: Record<string, any>
+): string[] {
+  return keyParts.map(part => stringValue(row[part.input]));
+}
+
+/**
+ * Format composite key values for display and error messages
+ */
+export function formatCompositeKey(values: string[]): string {
+  return values.join(" / ");
+}
+
 /**
  * Singleton instance of the matching engine
  */
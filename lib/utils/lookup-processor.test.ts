@@ -7,6 +7,7 @@
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
+  LookupCancelledError,
   LookupProcessor,
   lookupProcessor,
   hasLookupFields,
@@ -355,6 +356,58 @@ describe("LookupProcessor", () => {
         )
       ).rejects.toThrow("Reference data not found");
     });
+
+    it("should read composite key parts from the row", async () => {
+      const productField: LookupField = {
+        id: "product",
+        name: "product",
+        type: "lookup",
+        required: false,
+        referenceFile: "products.csv",
+        match: {
+          on: "name",
+          get: "sku",
+          keys: [
+            { input: "product_name", on: "name" },
+            { input: "product_category", on: "category", exact: true },
+          ],
+        },
+        alsoGet: [{ name: "product_price", source: "price" }],
+        smartMatching: { enabled: true, confidence: 0.8 },
+        onMismatch: "warning",
+      };
+      const shape: TargetShape = {
+        ...targetShapeWithoutLookups,
+        fields: [productField],
+      };
+
+      const result = await processor.processDataWithLookups(
+        [
+          {
+            _rowId: "r1",
+            product: "",
+            product_name: "ipad air",
+            product_category: "Electronics",
+          },
+          {
+            _rowId: "r2",
+            product: "",
+            product_name: "iPad Air",
+            product_category: "Toys",
+          },
+        ],
+        shape
+      );
+
+      expect(result.data[0].product).toBe("TABLET001");
+      expect(result.data[0].product_price).toBe(599);
+      expect(result.data[1].product).toBe("");
+      expect(result.errors[0]).toMatchObject({
+        rowId: "r2",
+        inputValue: "iPad Air / Toys",
+        type: "no_match",
+      });
+    });
   });
 
   describe("Real-time Lookup Updates", () => {
@@ -510,6 +563,81 @@ describe("LookupProcessor", () => {
     });
   });
 
+  describe("Progress and Cancellation", () => {
+    const createRows = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        _rowId: `cs_row${i}`,
+        department: "Engineering",
+      })) as TableRow[];
+    const departmentShape = (): TargetShape => ({
+      ...targetShapeWithLookups,
+      fields: targetShapeWithLookups.fields.filter(
+        field => field.name === "department"
+      ),
+    });
+
+    it("should report progress between event loop turns", async () => {
+      const events: string[] = [];
+      const tracingProcessor = new LookupProcessor(referenceFile => {
+        events.push("lookup");
+        return mockReferenceData[
+          referenceFile as keyof typeof mockReferenceData
+        ];
+      });
+      // Stands in for the UI rendering progress
+      setTimeout(() => events.push("render"), 0);
+
+      await tracingProcessor.processDataWithLookups(
+        createRows(250),
+        departmentShape(),
+        { onProgress: processed => events.push(`progress:${processed}`) }
+      );
+
+      const progress = events.filter(event => event.startsWith("progress"));
+      expect(progress).toEqual([
+        "progress:0",
+        "progress:100",
+        "progress:200",
+        "progress:250",
+      ]);
+      // Each report follows the lookups of the rows it counts
+      progress.forEach(event => {
+        const lookupsBefore = events
+          .slice(0, events.indexOf(event))
+          .filter(e => e === "lookup").length;
+        expect(lookupsBefore).toBe(Number(event.split(":")[1]));
+      });
+      expect(events.indexOf("render")).toBeGreaterThan(
+        events.indexOf("progress:0")
+      );
+      expect(events.indexOf("render")).toBeLessThan(
+        events.indexOf("progress:100")
+      );
+    });
+
+    it("should stop looking up rows when cancelled mid-run", async () => {
+      const controller = new AbortController();
+      let lookups = 0;
+      const countingProcessor = new LookupProcessor(referenceFile => {
+        lookups++;
+        return mockReferenceData[
+          referenceFile as keyof typeof mockReferenceData
+        ];
+      });
+      // Cancel from a later task, as a click on Cancel would
+      setTimeout(() => controller.abort(), 0);
+
+      await expect(
+        countingProcessor.processDataWithLookups(
+          createRows(500),
+          departmentShape(),
+          { signal: controller.signal }
+        )
+      ).rejects.toBeInstanceOf(LookupCancelledError);
+      expect(lookups).toBe(100);
+    });
+  });
+
   describe("Global Utilities", () => {
     it("should detect if target shape has lookup fields", () => {
       expect(hasLookupFields(targetShapeWithLookups)).toBe(true);
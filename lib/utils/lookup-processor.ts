@@ -8,8 +8,10 @@
 import {
   LookupMatchingEngine,
   createLookupConfig,
+  isCompositeLookup,
 } from "./lookup-matching-engine";
 import { referenceDataManager } from "./reference-data-manager";
+import { FUZZY_INDEX_MIN_ROWS, type FuzzyIndex } from "./fuzzy-index";
 import type { TargetShape, LookupField } from "../types/target-shapes";
 import type { TableRow } from "../features/tableSlice";
 
@@ -113,16 +115,78 @@ export interface LookupProcessingOptions {
   onProgress?: (processed: number, total: number) => void;
   /** Whether to continue processing if errors occur */
   continueOnError?: boolean;
+  /** Abort processing before the remaining rows are looked up */
+  signal?: AbortSignal;
 }
 
+/**
+ * Error raised when lookup processing is cancelled
+ */
+export class LookupCancelledError extends Error {
+  constructor(message = "Lookup processing was cancelled") {
+    super(message);
+    this.name = "LookupCancelledError";
+  }
+}
+
+/**
+ * Resolves the rows of a reference file. Workers pass a resolver over the
+ * reference data posted to them; the default reads from the reference data
+ * manager.
+ */
+export type ReferenceRowsResolver = (
+  referenceFile: string
+) => Record<string, any>[] | null | undefined;
+
+const resolveManagedReferenceRows: ReferenceRowsResolver = referenceFile => {
+  const referenceData =
+    referenceDataManager.getReferenceDataRows(referenceFile);
+
+  if (!referenceData || referenceData.length === 0) {
+    const allFiles = referenceDataManager.listReferenceFiles();
+    console.error(`[LookupProcessor] Reference data not found for ${referenceFile}`, {
+      requestedFile: referenceFile,
+      availableFiles: allFiles.map(f => ({ id: f.id, filename: f.filename }))
+    });
+  }
+
+  return referenceData;
+};
+
+/**
+ * Provides the fuzzy candidate index for a reference file's match column
+ */
+export type FuzzyIndexResolver = (
+  referenceFile: string,
+  matchColumn: string,
+  rows: Record<string, any>[]
+) => FuzzyIndex | null | undefined;
+
+const resolveManagedFuzzyIndex: FuzzyIndexResolver = (
+  referenceFile,
+  matchColumn
+) => referenceDataManager.getFuzzyIndex(referenceFile, matchColumn);
+
+/** Rows looked up between progress reports and cancellation checks */
+const PROGRESS_CHUNK_SIZE = 100;
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
 /**
  * Lookup data processor - integrates lookup engine with data processing pipeline
  */
 export class LookupProcessor {
   private matchingEngine: LookupMatchingEngine;
+  private resolveReferenceRows: ReferenceRowsResolver;
+  private resolveFuzzyIndex: FuzzyIndexResolver;
 
-  constructor() {
+  constructor(
+    resolveReferenceRows: ReferenceRowsResolver = resolveManagedReferenceRows,
+    resolveFuzzyIndex: FuzzyIndexResolver = resolveManagedFuzzyIndex
+  ) {
     this.matchingEngine = new LookupMatchingEngine();
+    this.resolveReferenceRows = resolveReferenceRows;
+    this.resolveFuzzyIndex = resolveFuzzyIndex;
   }
 
   /**
@@ -141,6 +205,7 @@ export class LookupProcessor {
       processDerivedFields = true,
       onProgress,
       continueOnError = true,
+      signal,
     } = options;
 
     // Find all lookup fields in the target shape
@@ -169,119 +234,128 @@ export class LookupProcessor {
     const stats = this.initializeStats(lookupFields.length, data.length);
     let lookupOperations = 0;
 
-    // Process each row
-    const processedData = await Promise.all(
-      data.map(async (row, index) => {
-        try {
-          // Report progress
-          if (onProgress && index % 100 === 0) {
-            onProgress(index, data.length);
-          }
+    const processRow = async (row: TableRow, index: number) => {
+      try {
+        const processedRow = { ...row };
+        const rowLookupResults: Record<string, any> = {};
+
+        // Process each lookup field for this row
+        for (const lookupField of lookupFields) {
+          try {
+            const result = await this.processSingleLookup(
+              processedRow[lookupField.name],
+              lookupField,
+              row._rowId || `row_${index}`,
+              processedRow
+            );
 
-          const processedRow = { ...row };
-          const rowLookupResults: Record<string, any> = {};
-
-          // Process each lookup field for this row
-          for (const lookupField of lookupFields) {
-            try {
-              const result = await this.processSingleLookup(
-                processedRow[lookupField.name],
-                lookupField,
-                row._rowId || `row_${index}`
-              );
-
-              lookupOperations++;
-
-              if (result.matched) {
-                // Update row with lookup result
-                processedRow[lookupField.name] = result.matchedValue;
-                rowLookupResults[lookupField.name] = result;
-
-                // Update statistics
-                switch (result.matchType) {
-                  case "exact":
-                    stats.exactMatches++;
-                    break;
-                  case "normalized":
-                    stats.normalizedMatches++;
-                    break;
-                  case "fuzzy":
-                    stats.fuzzyMatches++;
-                    // Collect fuzzy match for review if confidence is low
-                    if (
-                      result.confidence < minConfidence &&
-                      fuzzyMatches.length < maxFuzzyMatches
-                    ) {
-                      fuzzyMatches.push({
-                        rowId: row._rowId || `row_${index}`,
-                        fieldName: lookupField.name,
-                        inputValue: result.inputValue,
-                        suggestedValue: result.matchedValue,
-                        confidence: result.confidence,
-                      });
-                    }
-                    break;
-                }
-              } else {
-                stats.noMatches++;
-                // Create error for unmatched value
-                const error = {
-                  rowId: row._rowId || `row_${index}`,
-                  fieldName: lookupField.name,
-                  inputValue: result.inputValue,
-                  type: "no_match" as const,
-                  message: `No match found for "${result.inputValue}" in ${lookupField.referenceFile}`,
-                  suggestions: result.suggestions?.map(s => s.value) || [],
-                };
-                errors.push(error);
-
-                // Throw error if continueOnError is false
-                if (!continueOnError) {
-                  throw new Error(error.message);
-                }
+            lookupOperations++;
+
+            if (result.matched) {
+              // Update row with lookup result
+              processedRow[lookupField.name] = result.matchedValue;
+              rowLookupResults[lookupField.name] = result;
+
+              // Update statistics
+              switch (result.matchType) {
+                case "exact":
+                  stats.exactMatches++;
+                  break;
+                case "normalized":
+                  stats.normalizedMatches++;
+                  break;
+                case "fuzzy":
+                  stats.fuzzyMatches++;
+                  // Collect fuzzy match for review if confidence is low
+                  if (
+                    result.confidence < minConfidence &&
+                    fuzzyMatches.length < maxFuzzyMatches
+                  ) {
+                    fuzzyMatches.push({
+                      rowId: row._rowId || `row_${index}`,
+                      fieldName: lookupField.name,
+                      inputValue: result.inputValue,
+                      suggestedValue: result.matchedValue,
+                      confidence: result.confidence,
+                    });
+                  }
+                  break;
               }
-            } catch (error) {
-              // Handle lookup processing error
-              errors.push({
+            } else {
+              stats.noMatches++;
+              // Create error for unmatched value
+              const error = {
                 rowId: row._rowId || `row_${index}`,
                 fieldName: lookupField.name,
-                inputValue: processedRow[lookupField.name],
-                type:
-                  error instanceof Error && error.message.includes("reference")
-                    ? "reference_missing"
-                    : "invalid_input",
-                message:
-                  error instanceof Error
-                    ? error.message
-                    : "Unknown lookup error",
-                suggestions: [],
-              });
-
+                inputValue: result.inputValue,
+                type: "no_match" as const,
+                message: `No match found for "${result.inputValue}" in ${lookupField.referenceFile}`,
+                suggestions: result.suggestions?.map(s => s.value) || [],
+              };
+              errors.push(error);
+
+              // Throw error if continueOnError is false
               if (!continueOnError) {
-                throw error;
+                throw new Error(error.message);
               }
             }
+          } catch (error) {
+            // Handle lookup processing error
+            errors.push({
+              rowId: row._rowId || `row_${index}`,
+              fieldName: lookupField.name,
+              inputValue: processedRow[lookupField.name],
+              type:
+                error instanceof Error && error.message.includes("reference")
+                  ? "reference_missing"
+                  : "invalid_input",
+              message:
+                error instanceof Error ? error.message : "Unknown lookup error",
+              suggestions: [],
+            });
+
+            if (!continueOnError) {
+              throw error;
+            }
           }
+        }
 
-          // Process derived fields if enabled
-          if (processDerivedFields) {
-            this.updateDerivedColumns(
-              processedRow,
-              rowLookupResults,
-              lookupFields
-            );
-            stats.derivedColumns += this.countDerivedFields(lookupFields);
-          }
+        // Process derived fields if enabled
+        if (processDerivedFields) {
+          this.updateDerivedColumns(
+            processedRow,
+            rowLookupResults,
+            lookupFields
+          );
+          stats.derivedColumns += this.countDerivedFields(lookupFields);
+        }
 
-          return processedRow;
-        } catch (error) {
-          if (!continueOnError) {
-            throw error;
-          }
-          return row; // Return original row if processing fails
+        return processedRow;
+      } catch (error) {
+        if (!continueOnError) {
+          throw error;
         }
-      })
-    );
+        return row; // Return original row if processing fails
+      }
+    };
+
+    // Process rows in chunks, yielding to the event loop between them so
+    // progress reaches the UI and cancellation stops the remaining rows
+    const processedData: TableRow[] = [];
+    for (let start = 0; start < data.length; start += PROGRESS_CHUNK_SIZE) {
+      if (signal?.aborted) {
+        throw new LookupCancelledError();
+      }
+      onProgress?.(start, data.length);
+
+      const chunk = data.slice(start, start + PROGRESS_CHUNK_SIZE);
+      processedData.push(
+        ...(await Promise.all(
+          chunk.map((row, offset) => processRow(row, start + offset))
+        ))
+      );
+      await nextTick();
+    }
 
     // Final progress report
     if (onProgress) {
@@ -309,30 +383,46 @@ export class LookupProcessor {
   }
 
   /**
-   * Process a single lookup operation
+   * Process a single lookup operation. Composite-key fields read their key
+   * parts from `row` instead of `value`.
    */
   async processSingleLookup(
     value: any,
     field: LookupField,
-    _rowId: string
+    _rowId: string,
+    row: Record<string, any> = {}
   ): Promise<import("./lookup-matching-engine").LookupResult> {
     // Get reference data for this lookup field
-    const referenceData = referenceDataManager.getReferenceDataRows(
-      field.referenceFile
-    );
+    const referenceData = this.resolveReferenceRows(field.referenceFile);
 
     if (!referenceData || referenceData.length === 0) {
-      const allFiles = referenceDataManager.listReferenceFiles();
-      console.error(`[LookupProcessor] Reference data not found for ${field.referenceFile}`, {
-        requestedFile: field.referenceFile,
-        availableFiles: allFiles.map(f => ({ id: f.id, filename: f.filename }))
-      });
       throw new Error(`Reference data not found for ${field.referenceFile}`);
     }
 
     // Create lookup configuration from field definition
     const config = createLookupConfig(field);
 
+    if (isCompositeLookup(field)) {
+      return this.matchingEngine.performCompositeLookup(
+        row,
+        referenceData,
+        config
+      );
+    }
+
+    // Large reference sets use an index for fuzzy candidates
+    if (
+      config.smartMatching.enabled &&
+      referenceData.length >= FUZZY_INDEX_MIN_ROWS
+    ) {
+      config.fuzzyIndex =
+        this.resolveFuzzyIndex(
+          field.referenceFile,
+          config.matchColumn,
+          referenceData
+        ) ?? undefined;
+    }
+
     // Perform the lookup using the matching engine
     return this.matchingEngine.performLookup(value, referenceData, config);
   }
@@ -416,7 +506,8 @@ export class LookupProcessor {
       const result = await this.processSingleLookup(
         value,
         field,
-        rowData._rowId || "unknown"
+        rowData._rowId || "unknown",
+        rowData
       );
 
       if (result.matched) {
@@ -0,0 +1,285 @@
+/**
+ * Tests for Lookup Worker Client
+ *
+ * Covers the main-thread fallback and the worker message protocol using a
+ * fake Worker, including progress reporting and cancellation, and the
+ * reference data the worker keeps between runs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  runLookupProcessing,
+  terminateLookupWorker,
+  type LookupProcessRequest,
+  type LookupWorkerRequest,
+  type LookupWorkerResponse,
+} from "./lookup-worker-client";
+import { LookupCancelledError } from "./lookup-processor";
+import { buildFuzzyIndex } from "./fuzzy-index";
+import { referenceDataManager } from "./reference-data-manager";
+import { createLookupWorkerHost } from "../workers/lookup-worker-host";
+import type { LookupField, TargetShape } from "../types/target-shapes";
+
+const companies = Array.from({ length: 1200 }, (_, index) => ({
+  company_id: `C${index}`,
+  company_name: `Company ${index}`,
+}));
+
+vi.mock("./reference-data-manager", () => {
+  const files: Record<string, Record<string, any>[]> = {
+    "departments.csv": [
+      { dept_id: "ENG", dept_name: "Engineering" },
+      { dept_id: "MKT", dept_name: "Marketing" },
+    ],
+    "companies.csv": Array.from({ length: 1200 }, (_, index) => ({
+      company_id: `C${index}`,
+      company_name: `Company ${index}`,
+    })),
+  };
+  return {
+    referenceDataManager: {
+      getReferenceDataRows: vi.fn((id: string) => files[id] ?? null),
+      hasReferenceData: vi.fn((id: string) => id in files),
+      getReferenceVersion: vi.fn(() => 1),
+    },
+  };
+});
+
+vi.mock("./fuzzy-index", async importOriginal => {
+  const actual = await importOriginal<typeof import("./fuzzy-index")>();
+  return { ...actual, buildFuzzyIndex: vi.fn(actual.buildFuzzyIndex) };
+});
+
+const departmentField: LookupField = {
+  id: "f_dept",
+  name: "department",
+  type: "lookup",
+  required: false,
+  referenceFile: "departments.csv",
+  match: { on: "dept_name", get: "dept_id" },
+  smartMatching: { enabled: false, confidence: 0.8 },
+  onMismatch: "null",
+};
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Employees",
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  fields: [departmentField],
+};
+
+const rows = [
+  { _rowId: "r1", department: "Engineering" },
+  { _rowId: "r2", department: "Marketing" },
+];
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: LookupWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  requests: LookupWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: LookupWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(message: LookupWorkerResponse) {
+    this.onmessage?.({ data: message });
+  }
+}
+
+/** Fake Worker that runs the real worker host in process */
+class HostedWorker extends FakeWorker {
+  private host = createLookupWorkerHost(message => this.respond(message));
+
+  postMessage(request: LookupWorkerRequest) {
+    super.postMessage(request);
+    void this.host(request);
+  }
+}
+
+describe("runLookupProcessing", () => {
+  it("should fall back to the main thread when workers are unavailable", async () => {
+    const progress: number[] = [];
+    const result = await runLookupProcessing(rows, shape, {
+      onProgress: processed => progress.push(processed),
+    });
+
+    expect(result.data.map(row => row.department)).toEqual(["ENG", "MKT"]);
+    expect(progress[progress.length - 1]).toBe(2);
+  });
+
+  it("should reject with LookupCancelledError when aborted before starting", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      runLookupProcessing(rows, shape, { signal: controller.signal })
+    ).rejects.toThrow(LookupCancelledError);
+  });
+
+  describe("with a worker", () => {
+    const processRequest = (worker: FakeWorker, index = 0) =>
+      worker.requests.filter(
+        (request): request is LookupProcessRequest => request.type === "process"
+      )[index];
+
+    beforeEach(() => {
+      FakeWorker.instances = [];
+      vi.stubGlobal("Worker", FakeWorker);
+    });
+
+    afterEach(() => {
+      terminateLookupWorker();
+      vi.unstubAllGlobals();
+    });
+
+    it("should post rows with their reference data and relay progress", async () => {
+      const progress: Array<[number, number]> = [];
+      const promise = runLookupProcessing(rows, shape, {
+        minConfidence: 0.9,
+        onProgress: (processed, total) => progress.push([processed, total]),
+      });
+
+      const worker = FakeWorker.instances[0];
+      const request = processRequest(worker);
+      expect(request.options).toEqual({ minConfidence: 0.9 });
+      expect(Object.keys(request.referenceFiles)).toEqual(["departments.csv"]);
+      expect(request.referenceFiles["departments.csv"].rows).toHaveLength(2);
+
+      worker.respond({
+        type: "progress",
+        requestId: request.requestId,
+        processed: 1,
+        total: 2,
+      });
+      const result = { data: rows } as any;
+      worker.respond({ type: "result", requestId: request.requestId, result });
+
+      await expect(promise).resolves.toBe(result);
+      expect(progress).toEqual([[1, 2]]);
+      expect(worker.terminated).toBe(false);
+    });
+
+    it("should reuse one worker and route responses by request", async () => {
+      const first = runLookupProcessing(rows, shape);
+      const second = runLookupProcessing(rows, shape);
+
+      expect(FakeWorker.instances).toHaveLength(1);
+      const worker = FakeWorker.instances[0];
+      const [firstId, secondId] = [0, 1].map(
+        index => processRequest(worker, index).requestId
+      );
+      expect(processRequest(worker, 1).referenceFiles).toEqual({
+        "departments.csv": { version: 1 },
+      });
+
+      worker.respond({
+        type: "result",
+        requestId: secondId,
+        result: { data: [] } as any,
+      });
+      worker.respond({ type: "error", requestId: firstId, message: "Failed" });
+
+      await expect(second).resolves.toEqual({ data: [] });
+      await expect(first).rejects.toThrow("Failed");
+    });
+
+    it("should ask the worker to stop a cancelled run", async () => {
+      const controller = new AbortController();
+      const promise = runLookupProcessing(rows, shape, {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(LookupCancelledError);
+      const worker = FakeWorker.instances[0];
+      expect(worker.requests[1]).toEqual({
+        type: "cancel",
+        requestId: processRequest(worker).requestId,
+      });
+      expect(worker.terminated).toBe(false);
+    });
+
+    it("should reject with the worker's error message", async () => {
+      const promise = runLookupProcessing(rows, shape);
+      const worker = FakeWorker.instances[0];
+      worker.respond({
+        type: "error",
+        requestId: processRequest(worker).requestId,
+        message: "Reference data not found",
+      });
+
+      await expect(promise).rejects.toThrow("Reference data not found");
+    });
+
+    it("should fail pending runs and start over when the worker crashes", async () => {
+      const promise = runLookupProcessing(rows, shape);
+      FakeWorker.instances[0].onerror?.({ message: "Worker crashed" });
+
+      await expect(promise).rejects.toThrow("Worker crashed");
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+
+      runLookupProcessing(rows, shape).catch(() => {});
+      expect(FakeWorker.instances).toHaveLength(2);
+      expect(
+        processRequest(FakeWorker.instances[1]).referenceFiles[
+          "departments.csv"
+        ].rows
+      ).toHaveLength(2);
+    });
+
+    it("should index unchanged reference data once across runs", async () => {
+      vi.stubGlobal("Worker", HostedWorker);
+      vi.mocked(buildFuzzyIndex).mockClear();
+      const companyShape: TargetShape = {
+        ...shape,
+        fields: [
+          {
+            ...departmentField,
+            id: "f_company",
+            name: "company",
+            referenceFile: "companies.csv",
+            match: { on: "company_name", get: "company_id" },
+            smartMatching: { enabled: true, confidence: 0.7 },
+          } as LookupField,
+        ],
+      };
+      const companyRows = [{ _rowId: "r1", company: "Compny 12" }];
+
+      const first = await runLookupProcessing(companyRows, companyShape);
+      const second = await runLookupProcessing(companyRows, companyShape);
+
+      expect(first.data[0].company).toBe("C12");
+      expect(second.data[0].company).toBe("C12");
+      expect(buildFuzzyIndex).toHaveBeenCalledTimes(1);
+      const worker = FakeWorker.instances[0];
+      expect(processRequest(worker, 1).referenceFiles).toEqual({
+        "companies.csv": { version: 1 },
+      });
+
+      // Updated reference data is posted and indexed again
+      vi.mocked(referenceDataManager.getReferenceVersion).mockReturnValueOnce(
+        2
+      );
+      await runLookupProcessing(companyRows, companyShape);
+
+      expect(buildFuzzyIndex).toHaveBeenCalledTimes(2);
+      expect(
+        processRequest(worker, 2).referenceFiles["companies.csv"].rows
+      ).toEqual(companies);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Lookup Worker Client
+ *
+ * Runs batch lookup processing in a Web Worker so fuzzy matching large
+ * imports does not block the UI. One worker is shared by every run and
+ * keeps the reference data it was sent, with its fuzzy indexes, by file
+ * version. Rows are only posted for files the worker doesn't hold at their
+ * current version. The worker reports progress while it runs and stops a
+ * run when it is cancelled.
+ *
+ * Falls back to the main-thread `lookupProcessor` where workers are not
+ * available (tests, server rendering) or when `useWorker` is false.
+ *
+ * @example
+ * ```typescript
+ * import { runLookupProcessing } from './lookup-worker-client';
+ *
+ * const controller = new AbortController();
+ * const result = await runLookupProcessing(rows, shape, {
+ *   onProgress: (processed, total) => console.log(`${processed}/${total}`),
+ *   signal: controller.signal,
+ * });
+ *
+ * // Later, from a cancel button
+ * controller.abort();
+ * ```
+ */
+
+import {
+  LookupCancelledError,
+  getLookupFields,
+  lookupProcessor,
+  type LookupProcessingOptions,
+  type ProcessedLookupResult,
+} from "./lookup-processor";
+import { referenceDataManager } from "./reference-data-manager";
+import type { TargetShape } from "../types/target-shapes";
+import type { TableRow } from "../features/tableSlice";
+
+/**
+ * A reference file as posted to the lookup worker
+ */
+export interface PostedReferenceFile {
+  /** `referenceDataManager.getReferenceVersion` of the rows */
+  version: number;
+  /** Omitted when the worker already holds this version */
+  rows?: Record<string, any>[];
+}
+
+/**
+ * Request to process rows in the lookup worker
+ */
+export interface LookupProcessRequest {
+  type: "process";
+  requestId: number;
+  data: TableRow[];
+  targetShape: TargetShape;
+  options: Omit<LookupProcessingOptions, "onProgress" | "signal">;
+  /** Reference files of the shape's lookup fields, keyed by file ID */
+  referenceFiles: Record<string, PostedReferenceFile>;
+  /** Files deleted since they were posted, for the worker to drop */
+  releasedFiles: string[];
+}
+
+/**
+ * Messages posted to the lookup worker
+ */
+export type LookupWorkerRequest =
+  | LookupProcessRequest
+  | { type: "cancel"; requestId: number };
+
+/**
+ * Messages posted back by the lookup worker
+ */
+export type LookupWorkerResponse =
+  | { type: "progress"; requestId: number; processed: number; total: number }
+  | { type: "result"; requestId: number; result: ProcessedLookupResult }
+  | { type: "error"; requestId: number; message: string };
+
+export interface RunLookupProcessingOptions extends LookupProcessingOptions {
+  /** Run in a Web Worker when available (default: true) */
+  useWorker?: boolean;
+}
+
+interface PendingRun {
+  resolve: (result: ProcessedLookupResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRuns = new Map<number, PendingRun>();
+// Reference file versions the worker holds
+const workerFileVersions = new Map<string, number>();
+
+/**
+ * Check whether Web Workers can be used in the current environment
+ */
+export function isLookupWorkerAvailable(): boolean {
+  return typeof window !== "undefined" && typeof Worker !== "undefined";
+}
+
+/**
+ * Stop the shared lookup worker and reject its pending runs. The next run
+ * starts a new worker and posts its reference data again.
+ */
+export function terminateLookupWorker(
+  error: Error = new Error("Lookup worker was stopped")
+): void {
+  worker?.terminate();
+  worker = null;
+  workerFileVersions.clear();
+
+  const runs = [...pendingRuns.values()];
+  pendingRuns.clear();
+  runs.forEach(run => run.reject(error));
+}
+
+function getLookupWorker(): Worker {
+  if (worker) return worker;
+
+  const created = new Worker(
+    new URL("../workers/lookup.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+
+  created.onmessage = (event: MessageEvent<LookupWorkerResponse>) => {
+    const message = event.data;
+    const run = pendingRuns.get(message.requestId);
+    if (!run) return;
+
+    switch (message.type) {
+      case "progress":
+        run.onProgress?.(message.processed, message.total);
+        break;
+      case "result":
+        pendingRuns.delete(message.requestId);
+        run.resolve(message.result);
+        break;
+      case "error":
+        pendingRuns.delete(message.requestId);
+        run.reject(new Error(message.message));
+        break;
+    }
+  };
+
+  // The worker's state is gone with it, so start over
+  created.onerror = event => {
+    terminateLookupWorker(new Error(event.message || "Lookup worker failed"));
+  };
+
+  worker = created;
+  return created;
+}
+
+/**
+ * Reference files of a shape's lookup fields, with rows only for files the
+ * worker doesn't hold at their current version
+ */
+function collectReferenceFiles(
+  targetShape: TargetShape
+): Record<string, PostedReferenceFile> {
+  const referenceFiles: Record<string, PostedReferenceFile> = {};
+
+  getLookupFields(targetShape).forEach(field => {
+    const id = field.referenceFile;
+    if (id in referenceFiles || !referenceDataManager.hasReferenceData(id)) {
+      return;
+    }
+
+    const version = referenceDataManager.getReferenceVersion(id);
+    if (workerFileVersions.get(id) === version) {
+      referenceFiles[id] = { version };
+      return;
+    }
+    const rows = referenceDataManager.getReferenceDataRows(id);
+    if (rows) referenceFiles[id] = { version, rows };
+  });
+
+  return referenceFiles;
+}
+
+/**
+ * Process data with lookups, in a worker when possible
+ */
+export function runLookupProcessing(
+  data: TableRow[],
+  targetShape: TargetShape,
+  options: RunLookupProcessingOptions = {}
+): Promise<ProcessedLookupResult> {
+  const {
+    useWorker = true,
+    onProgress,
+    signal,
+    ...processingOptions
+  } = options;
+
+  if (!useWorker || !isLookupWorkerAvailable()) {
+    return lookupProcessor.processDataWithLookups(data, targetShape, options);
+  }
+
+  if (signal?.aborted) {
+    return Promise.reject(new LookupCancelledError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const lookupWorker = getLookupWorker();
+    const requestId = nextRequestId++;
+
+    const handleAbort = () => {
+      if (!pendingRuns.delete(requestId)) return;
+      lookupWorker.postMessage({ type: "cancel", requestId });
+      reject(new LookupCancelledError());
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    pendingRuns.set(requestId, {
+      resolve: result => {
+        signal?.removeEventListener("abort", handleAbort);
+        resolve(result);
+      },
+      reject: error => {
+        signal?.removeEventListener("abort", handleAbort);
+        reject(error);
+      },
+      onProgress,
+    });
+
+    const releasedFiles = [...workerFileVersions.keys()].filter(
+      id => !referenceDataManager.hasReferenceData(id)
+    );
+    releasedFiles.forEach(id => workerFileVersions.delete(id));
+
+    const referenceFiles = collectReferenceFiles(targetShape);
+    Object.entries(referenceFiles).forEach(([id, { version }]) =>
+      workerFileVersions.set(id, version)
+    );
+
+    const request: LookupWorkerRequest = {
+      type: "process",
+      requestId,
+      data,
+      targetShape,
+      options: processingOptions,
+      referenceFiles,
+      releasedFiles,
+    };
+    lookupWorker.postMessage(request);
+  });
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  mappingMemoryStorage,
+  normalizeSourceHeader,
+} from "./mapping-memory-storage";
+
+const store: Record<string, unknown> = {};
+
+// Mock the storage utility
+vi.mock("./localStorage", () => ({
+  storage: {
+    getItem: vi.fn((key: string) =>
+      key in store ? structuredClone(store[key]) : null
+    ),
+    setItem: vi.fn((key: string, value: unknown) => {
+      store[key] = structuredClone(value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+  },
+}));
+
+const fields = [
+  { id: "field_emp", name: "employee_id" },
+  { id: "field_email", name: "email" },
+];
+
+describe("mappingMemoryStorage", () => {
+  beforeEach(() => {
+    mappingMemoryStorage.clear();
+  });
+
+  it("should record applied mappings per target shape", () => {
+    mappingMemoryStorage.record(
+      "shape_1",
+      { field_emp: "Emp #", field_email: "E-mail" },
+      fields
+    );
+    mappingMemoryStorage.record("shape_2", { field_emp: "Emp #" }, fields);
+
+    const learned = mappingMemoryStorage.getForShape("shape_1");
+    expect(learned).toHaveLength(2);
+    expect(learned[0]).toMatchObject({
+      fieldId: "field_emp",
+      fieldName: "employee_id",
+      sourceHeader: "Emp #",
+      timesUsed: 1,
+    });
+    expect(learned[0].id).toMatch(/^alias_/);
+    expect(mappingMemoryStorage.getAll()).toHaveLength(3);
+  });
+
+  it("should count repeated mappings instead of duplicating them", () => {
+    mappingMemoryStorage.record("shape_1", { field_emp: "Emp #" }, fields);
+    mappingMemoryStorage.record("shape_1", { field_emp: " EMP  # " }, fields);
+
+    const learned = mappingMemoryStorage.getForShape("shape_1");
+    expect(learned).toHaveLength(1);
+    expect(learned[0].timesUsed).toBe(2);
+    expect(learned[0].sourceHeader).toBe("Emp #");
+  });
+
+  it("should ignore unknown fields and empty columns", () => {
+    mappingMemoryStorage.record(
+      "shape_1",
+      { field_missing: "X", field_email: "" },
+      fields
+    );
+
+    expect(mappingMemoryStorage.getAll()).toEqual([]);
+  });
+
+  it("should update, delete and purge learned mappings", () => {
+    const [first] = mappingMemoryStorage.record(
+      "shape_1",
+      { field_emp: "Emp #", field_email: "E-mail" },
+      fields
+    );
+    mappingMemoryStorage.record("shape_2", { field_emp: "Staff" }, fields);
+
+    expect(
+      mappingMemoryStorage.update(first.id, { sourceHeader: "Emp No" })
+    ).toMatchObject({ sourceHeader: "Emp No" });
+    expect(mappingMemoryStorage.update("alias_missing", {})).toBeNull();
+
+    expect(mappingMemoryStorage.delete(first.id)).toBe(true);
+    expect(mappingMemoryStorage.delete(first.id)).toBe(false);
+
+    expect(mappingMemoryStorage.deleteForShape("shape_1")).toBe(1);
+    expect(mappingMemoryStorage.getAll().map(m => m.sourceHeader)).toEqual([
+      "Staff",
+    ]);
+  });
+
+  it("should keep only the latest applied mapping per shape", () => {
+    const snapshot = {
+      targetShapeId: "shape_1",
+      sourceColumns: ["Emp #", "E-mail"],
+      columnMapping: { field_emp: "Emp #" },
+      appliedAt: "2024-01-01T00:00:00.000Z",
+    };
+    mappingMemoryStorage.recordLastMapping(snapshot);
+    mappingMemoryStorage.recordLastMapping({
+      ...snapshot,
+      sourceColumns: ["Emp #"],
+      appliedAt: "2024-02-01T00:00:00.000Z",
+    });
+    mappingMemoryStorage.recordLastMapping({
+      ...snapshot,
+      targetShapeId: "shape_2",
+    });
+
+    const lastMappings = mappingMemoryStorage.getLastMappings();
+    expect(Object.keys(lastMappings)).toEqual(["shape_1", "shape_2"]);
+    expect(lastMappings.shape_1.sourceColumns).toEqual(["Emp #"]);
+  });
+});
+
+describe("normalizeSourceHeader", () => {
+  it("should ignore case and surrounding or repeated whitespace", () => {
+    expect(normalizeSourceHeader("  Emp   No ")).toBe("emp no");
+  });
+});
@@ -0,0 +1,149 @@
+import type {
+  AppliedMappingSnapshot,
+  LearnedMapping,
+} from "@/lib/types/mapping-memory";
+import type { TargetField } from "@/lib/types/target-shapes";
+import { generateLearnedMappingId } from "@/lib/utils/id-generator";
+import { storage } from "@/lib/utils/localStorage";
+
+const STORAGE_KEY = "citrus-surf-learned-mappings";
+const LAST_MAPPINGS_KEY = "citrus-surf-last-mappings";
+
+// Headers are compared case- and whitespace-insensitively
+export const normalizeSourceHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Learned Mapping Storage
+export const mappingMemoryStorage = {
+  // Get all learned mappings
+  getAll(): LearnedMapping[] {
+    try {
+      const stored = storage.getItem<LearnedMapping[]>(STORAGE_KEY);
+      return stored ?? [];
+    } catch (error) {
+      console.error("Error loading learned mappings:", error);
+      return [];
+    }
+  },
+
+  // Get the learned mappings of one target shape
+  getForShape(targetShapeId: string): LearnedMapping[] {
+    return this.getAll().filter(
+      mapping => mapping.targetShapeId === targetShapeId
+    );
+  },
+
+  // Record an applied column mapping (field ID -> source header)
+  record(
+    targetShapeId: string,
+    columnMapping: Record<string, string>,
+    fields: Pick<TargetField, "id" | "name">[]
+  ): LearnedMapping[] {
+    const mappings = this.getAll();
+    const now = new Date().toISOString();
+
+    Object.entries(columnMapping).forEach(([fieldId, sourceHeader]) => {
+      const field = fields.find(f => f.id === fieldId);
+      if (!field || !sourceHeader) return;
+
+      const existing = mappings.find(
+        mapping =>
+          mapping.targetShapeId === targetShapeId &&
+          mapping.fieldId === fieldId &&
+          normalizeSourceHeader(mapping.sourceHeader) ===
+            normalizeSourceHeader(sourceHeader)
+      );
+
+      if (existing) {
+        existing.timesUsed += 1;
+        existing.lastUsedAt = now;
+        existing.fieldName = field.name;
+      } else {
+        mappings.push({
+          id: generateLearnedMappingId(),
+          targetShapeId,
+          fieldId,
+          fieldName: field.name,
+          sourceHeader,
+          timesUsed: 1,
+          createdAt: now,
+          lastUsedAt: now,
+        });
+      }
+    });
+
+    storage.setItem(STORAGE_KEY, mappings);
+    return mappings;
+  },
+
+  // Update an existing learned mapping
+  update(
+    id: string,
+    updates: Partial<
+      Pick<LearnedMapping, "sourceHeader" | "fieldId" | "fieldName">
+    >
+  ): LearnedMapping | null {
+    const mappings = this.getAll();
+    const index = mappings.findIndex(mapping => mapping.id === id);
+
+    if (index === -1) return null;
+
+    mappings[index] = { ...mappings[index], ...updates };
+
+    storage.setItem(STORAGE_KEY, mappings);
+    return mappings[index];
+  },
+
+  // Delete a learned mapping
+  delete(id: string): boolean {
+    const mappings = this.getAll();
+    const filtered = mappings.filter(mapping => mapping.id !== id);
+
+    if (filtered.length === mappings.length) return false;
+
+    storage.setItem(STORAGE_KEY, filtered);
+    return true;
+  },
+
+  // Delete all learned mappings of a target shape
+  deleteForShape(targetShapeId: string): number {
+    const mappings = this.getAll();
+    const filtered = mappings.filter(
+      mapping => mapping.targetShapeId !== targetShapeId
+    );
+
+    storage.setItem(STORAGE_KEY, filtered);
+    return mappings.length - filtered.length;
+  },
+
+  // Clear all learned mappings
+  clear(): void {
+    storage.removeItem(STORAGE_KEY);
+  },
+
+  // Get the last applied mapping of every target shape (shape ID -> snapshot)
+  getLastMappings(): Record<string, AppliedMappingSnapshot> {
+    try {
+      return (
+        storage.getItem<Record<string, AppliedMappingSnapshot>>(
+          LAST_MAPPINGS_KEY
+        ) ?? {}
+      );
+    } catch (error) {
+      console.error("Error loading last mappings:", error);
+      return {};
+    }
+  },
+
+  // Replace the last applied mapping of a target shape
+  recordLastMapping(
+    snapshot: AppliedMappingSnapshot
+  ): Record<string, AppliedMappingSnapshot> {
+    const lastMappings = {
+      ...this.getLastMappings(),
+      [snapshot.targetShapeId]: snapshot,
+    };
+    storage.setItem(LAST_MAPPINGS_KEY, lastMappings);
+    return lastMappings;
+  },
+};
@@ -4,7 +4,12 @@ import {
   getDetailedMappingSuggestions,
   testUtils,
 } from "./mapping-suggestion-engine";
-import type { TargetField } from "@/lib/types/target-shapes";
+import type {
+  EnumField,
+  LookupField,
+  TargetField,
+} from "@/lib/types/target-shapes";
+import type { LearnedMapping } from "@/lib/types/mapping-memory";
 
 const {
   levenshteinDistance,
@@ -454,4 +459,222 @@ describe("Mapping Suggestion Engine", () => {
       expect(mapping["created_at"]).toBe("createdAt");
     });
   });
+
+  describe("Content-Aware Suggestions", () => {
+    const emailField: TargetField = {
+      id: "field_email",
+      name: "Email",
+      type: "email",
+      required: true,
+    };
+    const startDateField: TargetField = {
+      id: "field_start",
+      name: "Start Date",
+      type: "date",
+      required: false,
+    };
+    const statusField: EnumField = {
+      id: "field_status",
+      name: "Status",
+      type: "enum",
+      required: false,
+      options: [
+        { value: "active", label: "Active" },
+        { value: "inactive", label: "Inactive" },
+      ],
+    };
+    const departmentField: LookupField = {
+      id: "field_department",
+      name: "Department",
+      type: "lookup",
+      required: false,
+      referenceFile: "departments.csv",
+      match: { on: "dept_name", get: "dept_id" },
+      smartMatching: { enabled: false, confidence: 0.8 },
+      onMismatch: "null",
+    };
+
+    const sampleRows = [
+      {
+        Contact: "ana@acme.com",
+        Col3: "2024-01-05",
+        Col4: "Active",
+        Team: "Engineering",
+        Notes: "VIP",
+      },
+      {
+        Contact: "bo@acme.com",
+        Col3: "2024-02-11",
+        Col4: "inactive",
+        Team: "Marketing",
+        Notes: "",
+      },
+      {
+        Contact: "cy@example.org",
+        Col3: "03/15/2024",
+        Col4: "Active",
+        Team: "Engineering",
+        Notes: "Call back",
+      },
+    ];
+    const columns = ["Notes", "Contact", "Col3", "Col4", "Team"];
+    const getReferenceValues = () => ["Engineering", "Marketing", "Sales"];
+
+    it("should keep header-only behavior without sample rows", () => {
+      const mapping = generateMappingSuggestions(columns, [
+        emailField,
+        startDateField,
+      ]);
+
+      expect(mapping).toEqual({});
+    });
+
+    it("should map columns by their values when headers don't match", () => {
+      const mapping = generateMappingSuggestions(
+        columns,
+        [emailField, startDateField, statusField, departmentField],
+        { sampleRows, getReferenceValues }
+      );
+
+      expect(mapping).toEqual({
+        field_email: "Contact",
+        field_start: "Col3",
+        field_status: "Col4",
+        field_department: "Team",
+      });
+    });
+
+    it("should surface the combined evidence", () => {
+      const suggestions = getDetailedMappingSuggestions(
+        columns,
+        [emailField, departmentField],
+        { sampleRows, getReferenceValues }
+      );
+
+      const email = suggestions.find(s => s.targetFieldId === "field_email");
+      expect(email?.matchType).toBe("content");
+      expect(email?.evidence?.nameScore).toBe(0);
+      expect(email?.evidence?.valueScore).toBe(1);
+      expect(email?.evidence?.reasons).toContain(
+        "100% of values look like emails"
+      );
+
+      const department = suggestions.find(
+        s => s.targetFieldId === "field_department"
+      );
+      expect(department?.evidence?.referenceOverlap).toBe(1);
+      expect(department?.evidence?.reasons).toContain(
+        "100% of distinct values found in departments.csv"
+      );
+    });
+
+    it("should prefer the column whose values fit among matching headers", () => {
+      const mapping = generateMappingSuggestions(
+        ["Email Notes", "E-mail"],
+        [emailField],
+        {
+          sampleRows: [
+            { "Email Notes": "sent twice", "E-mail": "ana@acme.com" },
+            { "Email Notes": "bounced", "E-mail": "bo@acme.com" },
+          ],
+        }
+      );
+
+      expect(mapping.field_email).toBe("E-mail");
+    });
+
+    it("should keep exact header matches even when values disagree", () => {
+      const mapping = generateMappingSuggestions(
+        ["Email", "Contact"],
+        [emailField],
+        {
+          sampleRows: [
+            { Email: "n/a", Contact: "ana@acme.com" },
+            { Email: "n/a", Contact: "bo@acme.com" },
+          ],
+        }
+      );
+
+      expect(mapping.field_email).toBe("Email");
+    });
+
+    it("should not map on weak numeric evidence alone", () => {
+      const quantityField: TargetField = {
+        id: "field_qty",
+        name: "Quantity",
+        type: "integer",
+        required: false,
+      };
+      const mapping = generateMappingSuggestions(["Col1"], [quantityField], {
+        sampleRows: [{ Col1: "12" }, { Col1: "40" }],
+      });
+
+      expect(mapping).toEqual({});
+    });
+  });
+
+  describe("Learned Mappings", () => {
+    const fields: TargetField[] = [
+      { id: "field_emp", name: "employee_id", type: "string", required: true },
+      { id: "field_email", name: "email", type: "email", required: true },
+    ];
+    const learned = (
+      fieldId: string,
+      sourceHeader: string,
+      timesUsed = 1
+    ): LearnedMapping => ({
+      id: `alias_${sourceHeader}`,
+      targetShapeId: "shape_1",
+      fieldId,
+      fieldName: fieldId,
+      sourceHeader,
+      timesUsed,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      lastUsedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    it("should map a header the user mapped before", () => {
+      const suggestions = getDetailedMappingSuggestions(
+        ["Emp #", "Mail"],
+        fields,
+        { learnedMappings: [learned("field_emp", "emp #", 3)] }
+      );
+
+      const employee = suggestions.find(s => s.targetFieldId === "field_emp");
+      expect(employee).toMatchObject({
+        sourceColumn: "Emp #",
+        confidence: 1,
+        matchType: "learned",
+      });
+      expect(employee?.evidence?.reasons).toEqual([
+        '"emp #" was mapped to employee_id 3 times before',
+      ]);
+    });
+
+    it("should outrank header matches and claim the column first", () => {
+      const mapping = generateMappingSuggestions(
+        ["Email", "Work Email"],
+        fields,
+        { learnedMappings: [learned("field_email", "Work Email")] }
+      );
+
+      expect(mapping.field_email).toBe("Work Email");
+    });
+
+    it("should prefer the most used alias present in the file", () => {
+      const mapping = generateMappingSuggestions(
+        ["Staff No", "Emp #"],
+        fields,
+        {
+          learnedMappings: [
+            learned("field_emp", "Staff No", 1),
+            learned("field_emp", "Emp #", 4),
+            learned("field_emp", "Missing Header", 9),
+          ],
+        }
+      );
+
+      expect(mapping.field_emp).toBe("Emp #");
+    });
+  });
 });
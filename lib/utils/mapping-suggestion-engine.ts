@@ -2,25 +2,93 @@
  * Mapping Suggestion Engine
  *
  * Provides intelligent column mapping suggestions with priority-based matching:
+ * 0. Learned alias (a header previously mapped to the field by the user)
  * 1. Exact match
  * 2. snake_case conversion
  * 3. camelCase conversion
  * 4. Fuzzy match (Levenshtein distance)
+ *
+ * When sample rows are passed, column values are profiled too (emails, phone
+ * numbers, dates, currency, enum options, lookup reference overlap) and
+ * combined with the header evidence, so "Contact" full of emails maps to an
+ * email field and "Col3" full of dates maps to a date field.
  */
 
-import type { TargetField, FieldType } from "@/lib/types/target-shapes";
+import type {
+  TargetField,
+  FieldType,
+  LookupField,
+} from "@/lib/types/target-shapes";
 import {
   generateFieldVariations as generateFieldVariationsFromTokens,
   generateColumnVariations as generateColumnVariationsFromTokens,
 } from "./token-builders";
+import {
+  profileColumnValues,
+  scoreValuesForField,
+  type ColumnValueProfile,
+} from "./value-profiler";
+import { referenceDataManager } from "./reference-data-manager";
+import { normalizeSourceHeader } from "./mapping-memory-storage";
+import type { LearnedMapping } from "@/lib/types/mapping-memory";
+
+export type MappingMatchType =
+  | "learned"
+  | "exact"
+  | "snake_case"
+  | "camel_case"
+  | "fuzzy"
+  | "content";
 
-interface MappingSuggestion {
+/**
+ * Evidence behind a content-aware suggestion
+ */
+export interface MappingEvidence {
+  /** Header-name similarity (0-1, 0 when the names don't match) */
+  nameScore: number;
+  /** Share of sampled values that fit the field (type pattern, enum options or reference values) */
+  valueScore?: number;
+  /** Share of distinct values found in the lookup field's reference data */
+  referenceOverlap?: number;
+  /** ID of the learned mapping that produced the suggestion */
+  learnedMappingId?: string;
+  /** Human-readable explanation of each signal */
+  reasons: string[];
+}
+
+export interface MappingSuggestion {
   targetFieldId: string;
   sourceColumn: string;
   confidence: number; // 0-1, higher is better
-  matchType: "exact" | "snake_case" | "camel_case" | "fuzzy";
+  matchType: MappingMatchType;
+  /** Present for learned and content-aware suggestions */
+  evidence?: MappingEvidence;
+}
+
+/**
+ * Options for content-aware suggestions
+ */
+export interface MappingSuggestionOptions {
+  /** Imported rows whose values are profiled (a sample is enough) */
+  sampleRows?: Record<string, unknown>[];
+  /** Maximum number of rows to profile (default: 200) */
+  maxSampleRows?: number;
+  /** Values of a lookup field's match column (default: from the reference data manager) */
+  getReferenceValues?: (field: LookupField) => unknown[] | null;
+  /** Mappings the user applied before to this target shape; they outrank all other matches */
+  learnedMappings?: LearnedMapping[];
 }
 
+const DEFAULT_MAX_SAMPLE_ROWS = 200;
+
+// Value-only matches need strong evidence and are capped below header matches
+const CONTENT_ONLY_THRESHOLD = 0.8;
+const CONTENT_ONLY_WEIGHT = 0.75;
+
+// A column whose values clearly contradict the field type is demoted
+const CONTRADICTION_PENALTY = 0.6;
+const EXACT_CONTRADICTED_CONFIDENCE = 0.95;
+
 /**
  * Calculate Levenshtein distance between two strings
  */
@@ -189,15 +257,196 @@ function findBestMatch(
 }
 
 /**
- * Generate mapping suggestions for all target fields
+ * Score a column's header against a target field (exact variation match or
+ * scaled Levenshtein similarity, same scale as findBestMatch)
  */
-export function generateMappingSuggestions(
+function scoreColumnName(
+  fieldVariations: Set<string>,
+  column: string
+): { confidence: number; matchType: "exact" | "fuzzy" } | null {
+  const columnVariations = generateColumnVariations(column);
+
+  let bestSimilarity = 0;
+  for (const fieldVar of fieldVariations) {
+    for (const colVar of columnVariations) {
+      if (fieldVar === colVar) {
+        return { confidence: 1.0, matchType: "exact" };
+      }
+      const distance = levenshteinDistance(fieldVar, colVar);
+      const maxLength = Math.max(fieldVar.length, colVar.length);
+      const similarity = maxLength > 0 ? 1 - distance / maxLength : 0;
+      bestSimilarity = Math.max(bestSimilarity, similarity);
+    }
+  }
+
+  return bestSimilarity >= 0.5
+    ? { confidence: bestSimilarity * 0.7, matchType: "fuzzy" }
+    : null;
+}
+
+/**
+ * Profile every import column from the sample rows
+ */
+function profileColumns(
   importColumns: string[],
-  targetFields: TargetField[]
-): Record<string, string> {
+  sampleRows: Record<string, unknown>[],
+  maxSampleRows: number
+): Map<string, ColumnValueProfile> {
+  const rows = sampleRows.slice(0, maxSampleRows);
+  return new Map(
+    importColumns.map(column => [
+      column,
+      profileColumnValues(rows.map(row => row[column])),
+    ])
+  );
+}
+
+function defaultReferenceValues(field: LookupField): unknown[] | null {
+  const rows = referenceDataManager.getReferenceDataRows(field.referenceFile);
+  return rows ? rows.map(row => row[field.match.on]) : null;
+}
+
+/**
+ * Find the best column for a target field using header and value evidence
+ */
+function findBestContentAwareMatch(
+  targetField: TargetField,
+  importColumns: string[],
+  usedColumns: Set<string>,
+  profiles: Map<string, ColumnValueProfile>,
+  referenceValues: unknown[] | null
+): MappingSuggestion | null {
+  const fieldVariations = generateFieldVariations(
+    targetField.name,
+    targetField.id,
+    targetField.type
+  );
+
+  let best: MappingSuggestion | null = null;
+
+  for (const column of importColumns) {
+    if (usedColumns.has(column)) continue;
+
+    const nameMatch = scoreColumnName(fieldVariations, column);
+    const profile = profiles.get(column);
+    const valueFit = profile
+      ? scoreValuesForField(targetField, profile, referenceValues)
+      : null;
+
+    const nameScore = nameMatch?.confidence ?? 0;
+    const reasons: string[] = [];
+    if (nameMatch) {
+      reasons.push(
+        nameMatch.matchType === "exact"
+          ? `Header "${column}" matches ${targetField.name}`
+          : `Header "${column}" is similar to ${targetField.name}`
+      );
+    }
+    if (valueFit) reasons.push(valueFit.reason);
+
+    let confidence: number;
+    let matchType: MappingMatchType;
+    if (nameMatch && nameMatch.matchType === "exact") {
+      // Values only break ties between exact header matches
+      confidence = valueFit?.score === 0 ? EXACT_CONTRADICTED_CONFIDENCE : 1.0;
+      matchType = "exact";
+    } else if (nameMatch) {
+      confidence = valueFit
+        ? valueFit.score > 0
+          ? nameScore + (1 - nameScore) * valueFit.score * 0.5
+          : nameScore * CONTRADICTION_PENALTY
+        : nameScore;
+      matchType = "fuzzy";
+    } else if (valueFit && valueFit.score >= CONTENT_ONLY_THRESHOLD) {
+      confidence = valueFit.score * CONTENT_ONLY_WEIGHT;
+      matchType = "content";
+    } else {
+      continue;
+    }
+
+    if (!best || confidence > best.confidence) {
+      best = {
+        targetFieldId: targetField.id,
+        sourceColumn: column,
+        confidence,
+        matchType,
+        evidence: {
+          nameScore,
+          valueScore: valueFit?.score,
+          referenceOverlap:
+            targetField.type === "lookup" ? valueFit?.score : undefined,
+          reasons,
+        },
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find a column the user mapped to this field before (most used alias first)
+ */
+function findLearnedMatch(
+  targetField: TargetField,
+  importColumns: string[],
+  usedColumns: Set<string>,
+  learnedMappings: LearnedMapping[]
+): MappingSuggestion | null {
+  const aliases = learnedMappings
+    .filter(mapping => mapping.fieldId === targetField.id)
+    .sort(
+      (a, b) =>
+        b.timesUsed - a.timesUsed || b.lastUsedAt.localeCompare(a.lastUsedAt)
+    );
+
+  for (const alias of aliases) {
+    const header = normalizeSourceHeader(alias.sourceHeader);
+    const column = importColumns.find(
+      col => !usedColumns.has(col) && normalizeSourceHeader(col) === header
+    );
+    if (column) {
+      return {
+        targetFieldId: targetField.id,
+        sourceColumn: column,
+        confidence: 1.0,
+        matchType: "learned",
+        evidence: {
+          nameScore: 0,
+          learnedMappingId: alias.id,
+          reasons: [
+            `"${alias.sourceHeader}" was mapped to ${targetField.name} ${alias.timesUsed} time${alias.timesUsed === 1 ? "" : "s"} before`,
+          ],
+        },
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Match every target field, required fields first, never reusing a column
+ */
+function matchFields(
+  importColumns: string[],
+  targetFields: TargetField[],
+  options: MappingSuggestionOptions
+): MappingSuggestion[] {
   const suggestions: MappingSuggestion[] = [];
   const usedColumns = new Set<string>();
 
+  const profiles =
+    options.sampleRows && options.sampleRows.length > 0
+      ? profileColumns(
+          importColumns,
+          options.sampleRows,
+          options.maxSampleRows ?? DEFAULT_MAX_SAMPLE_ROWS
+        )
+      : null;
+  const getReferenceValues =
+    options.getReferenceValues ?? defaultReferenceValues;
+
   // Sort target fields by priority (required fields first)
   const sortedFields = [...targetFields].sort((a, b) => {
     if (a.required && !b.required) return -1;
@@ -205,15 +454,60 @@ export function generateMappingSuggestions(
     return 0;
   });
 
-  // Find best match for each target field
+  // Learned aliases claim their columns before any other match type
+  const learnedFieldIds = new Set<string>();
+  if (options.learnedMappings && options.learnedMappings.length > 0) {
+    for (const targetField of sortedFields) {
+      const match = findLearnedMatch(
+        targetField,
+        importColumns,
+        usedColumns,
+        options.learnedMappings
+      );
+      if (match) {
+        suggestions.push(match);
+        usedColumns.add(match.sourceColumn);
+        learnedFieldIds.add(targetField.id);
+      }
+    }
+  }
+
+  // Find best match for each remaining target field
   for (const targetField of sortedFields) {
-    const match = findBestMatch(targetField, importColumns, usedColumns);
+    if (learnedFieldIds.has(targetField.id)) continue;
+
+    const match = profiles
+      ? findBestContentAwareMatch(
+          targetField,
+          importColumns,
+          usedColumns,
+          profiles,
+          targetField.type === "lookup"
+            ? getReferenceValues(targetField as LookupField)
+            : null
+        )
+      : findBestMatch(targetField, importColumns, usedColumns);
     if (match) {
       suggestions.push(match);
       usedColumns.add(match.sourceColumn);
     }
   }
 
+  return suggestions;
+}
+
+/**
+ * Generate mapping suggestions for all target fields
+ *
+ * @param options - Pass `sampleRows` to also score columns by their values
+ */
+export function generateMappingSuggestions(
+  importColumns: string[],
+  targetFields: TargetField[],
+  options: MappingSuggestionOptions = {}
+): Record<string, string> {
+  const suggestions = matchFields(importColumns, targetFields, options);
+
   // Convert to the expected format: targetFieldId -> sourceColumn
   const mapping: Record<string, string> = {};
   for (const suggestion of suggestions) {
@@ -224,30 +518,15 @@ export function generateMappingSuggestions(
 }
 
 /**
- * Get detailed suggestions with confidence scores (useful for debugging/UI)
+ * Get detailed suggestions with confidence scores (useful for debugging/UI).
+ * With `sampleRows`, each suggestion carries the header and value evidence.
  */
 export function getDetailedMappingSuggestions(
   importColumns: string[],
-  targetFields: TargetField[]
+  targetFields: TargetField[],
+  options: MappingSuggestionOptions = {}
 ): MappingSuggestion[] {
-  const suggestions: MappingSuggestion[] = [];
-  const usedColumns = new Set<string>();
-
-  // Sort target fields by priority (required fields first)
-  const sortedFields = [...targetFields].sort((a, b) => {
-    if (a.required && !b.required) return -1;
-    if (!a.required && b.required) return 1;
-    return 0;
-  });
-
-  // Find best match for each target field
-  for (const targetField of sortedFields) {
-    const match = findBestMatch(targetField, importColumns, usedColumns);
-    if (match) {
-      suggestions.push(match);
-      usedColumns.add(match.sourceColumn);
-    }
-  }
+  const suggestions = matchFields(importColumns, targetFields, options);
 
   return suggestions.sort((a, b) => b.confidence - a.confidence);
 }
@@ -260,4 +539,7 @@ export const testUtils = {
   generateFieldVariations,
   generateColumnVariations,
   findBestMatch,
+  findBestContentAwareMatch,
+  findLearnedMatch,
+  scoreColumnName,
 };
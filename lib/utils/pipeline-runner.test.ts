@@ -0,0 +1,234 @@
+/**
+ * Tests for Import Pipeline Runner
+ *
+ * Covers source parsing, column mapping, transformation and lookup replay,
+ * the run report's change detection and the generated export file.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  PipelineError,
+  buildPipelineOutput,
+  mapRowsToShape,
+  parsePipelineSource,
+  runPipeline,
+  summarizePipelineRun,
+} from "./pipeline-runner";
+import type { ImportPipeline } from "../types/pipelines";
+import type {
+  LookupField,
+  TargetField,
+  TargetShape,
+} from "../types/target-shapes";
+
+vi.mock("./reference-data-manager", () => ({
+  referenceDataManager: {
+    getReferenceDataRows: vi.fn((id: string) =>
+      id === "departments.csv"
+        ? [
+            { dept_id: "ENG", dept_name: "Engineering" },
+            { dept_id: "MKT", dept_name: "Marketing" },
+          ]
+        : null
+    ),
+  },
+}));
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const departmentField: LookupField = {
+  id: "f_dept",
+  name: "department",
+  type: "lookup",
+  required: false,
+  referenceFile: "departments.csv",
+  match: { on: "dept_name", get: "dept_id" },
+  smartMatching: { enabled: false, confidence: 0.8 },
+  onMismatch: "null",
+};
+
+const fields: TargetField[] = [
+  {
+    id: "f_sku",
+    name: "sku",
+    type: "string",
+    required: true,
+    transformation: [{ type: "uppercase", parameters: {}, order: 1 }],
+  },
+  { id: "f_qty", name: "quantity", type: "number", required: false },
+  departmentField,
+];
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Inventory",
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  fields,
+};
+
+const pipeline: ImportPipeline = {
+  id: "pipe_1",
+  name: "Acme Weekly",
+  source: { format: "csv", delimiter: ";", hasHeaders: true },
+  sourceColumns: ["Item No", "Qty", "Dept"],
+  columnMapping: { f_sku: "Item No", f_qty: "Qty", f_dept: "Dept" },
+  targetShapeId: "shape_1",
+  targetShapeUpdatedAt: "2024-01-01T00:00:00.000Z",
+  lookup: { enabled: true },
+  export: { format: "csv" },
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("parsePipelineSource", () => {
+  it("should parse CSV with the recorded delimiter", () => {
+    const rows = parsePipelineSource(encode("a;b\n1;2\n3;4"), {
+      format: "csv",
+      delimiter: ";",
+      hasHeaders: true,
+    });
+
+    expect(rows).toEqual([
+      { a: "1", b: "2" },
+      { a: "3", b: "4" },
+    ]);
+  });
+
+  it("should parse JSON arrays and reject other JSON", () => {
+    const source = { format: "json" as const, hasHeaders: true };
+
+    expect(parsePipelineSource(encode('[{"a":1}]'), source)).toEqual([
+      { a: 1 },
+    ]);
+    expect(() => parsePipelineSource(encode('{"a":1}'), source)).toThrow(
+      PipelineError
+    );
+    expect(() => parsePipelineSource(encode("not json"), source)).toThrow(
+      "File is not valid JSON"
+    );
+  });
+});
+
+describe("mapRowsToShape", () => {
+  it("should rename mapped columns and drop the rest", () => {
+    const mapped = mapRowsToShape(
+      [{ _rowId: "r1", "Item No": "a-1", Qty: "2", Desc: "Widget" }],
+      { f_sku: "Item No", f_qty: "Qty" },
+      fields
+    );
+
+    expect(mapped).toEqual([{ _rowId: "r1", sku: "a-1", quantity: "2" }]);
+  });
+
+  it("should apply combine and split rules", () => {
+    const mapped = mapRowsToShape(
+      [{ _rowId: "r1", Item: "A-1 / Widget", Qty: "2" }],
+      { f_qty: "Qty" },
+      fields,
+      [
+        {
+          kind: "split",
+          sourceColumn: "Item",
+          separator: "/",
+          targets: [{ targetFieldId: "f_sku", index: 0 }],
+        },
+      ]
+    );
+
+    expect(mapped).toEqual([{ _rowId: "r1", sku: "A-1", quantity: "2" }]);
+  });
+});
+
+describe("runPipeline", () => {
+  it("should replay mapping, transformations and lookups", async () => {
+    const result = await runPipeline(pipeline, shape, {
+      bytes: encode(
+        "Item No;Qty;Dept\na-1;2;Engineering\nb-2;5;Marketing\nc-3;1;Sales"
+      ),
+      name: "week-2.csv",
+    });
+
+    expect(result.data.map(row => row.sku)).toEqual(["A-1", "B-2", "C-3"]);
+    expect(result.data.map(row => row.department)).toEqual([
+      "ENG",
+      "MKT",
+      "Sales",
+    ]);
+    expect(result.columnOrder.slice(0, 3)).toEqual([
+      "sku",
+      "quantity",
+      "department",
+    ]);
+    expect(result.report.rowCount).toBe(3);
+    expect(result.report.transformation.cellsChanged).toBe(3);
+    expect(result.report.lookups).toMatchObject({
+      exactMatches: 2,
+      noMatches: 1,
+    });
+    expect(result.report.warnings).toContain("1 lookup values had no match");
+    expect(result.output.filename).toMatch(/^acme-weekly_.*\.csv$/);
+    expect(result.output.content.split("\n")[0]).toContain("sku");
+  });
+
+  it("should report added, missing and unmapped columns", async () => {
+    const result = await runPipeline(
+      { ...pipeline, lookup: { enabled: false } },
+      shape,
+      { bytes: encode("Item No;Dept;Color\na-1;Engineering;red") }
+    );
+
+    expect(result.report.addedColumns).toEqual(["Color"]);
+    expect(result.report.missingColumns).toEqual(["Qty"]);
+    expect(result.report.unmappedFields).toEqual(["quantity"]);
+    expect(result.report.lookups).toBeUndefined();
+    expect(result.data[0].department).toBe("Engineering");
+  });
+
+  it("should compare with the previous run and the recorded shape", async () => {
+    const result = await runPipeline(
+      {
+        ...pipeline,
+        lastRun: {
+          ranAt: "2024-01-02T00:00:00.000Z",
+          rowCount: 5,
+          sourceColumns: pipeline.sourceColumns,
+          unmatchedLookups: 0,
+          failedCells: 0,
+        },
+      },
+      { ...shape, updatedAt: "2024-02-01T00:00:00.000Z" },
+      { bytes: encode("Item No;Qty;Dept\na-1;2;Engineering") }
+    );
+
+    expect(result.report.previousRowCount).toBe(5);
+    expect(result.report.shapeChanged).toBe(true);
+    expect(summarizePipelineRun(result.report, result.sourceColumns)).toEqual(
+      expect.objectContaining({ rowCount: 1, unmatchedLookups: 0 })
+    );
+  });
+
+  it("should reject a different target shape or an empty file", async () => {
+    await expect(
+      runPipeline(pipeline, { ...shape, id: "shape_2" }, { bytes: encode("") })
+    ).rejects.toThrow(PipelineError);
+    await expect(
+      runPipeline(pipeline, shape, { bytes: encode("Item No;Qty;Dept\n") })
+    ).rejects.toThrow("No rows found");
+  });
+});
+
+describe("buildPipelineOutput", () => {
+  it("should write JSON without internal columns", () => {
+    const output = buildPipelineOutput(
+      [{ _rowId: "r1", sku: "A-1" }],
+      { format: "json", filenamePrefix: "inventory" },
+      "Acme Weekly"
+    );
+
+    expect(JSON.parse(output.content)).toEqual([{ sku: "A-1" }]);
+    expect(output.filename).toMatch(/^inventory_.*\.json$/);
+    expect(output.mimeType).toBe("application/json");
+  });
+});
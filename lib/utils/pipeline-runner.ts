@@ -0,0 +1,410 @@
+/**
+ * Import Pipeline Runner
+ *
+ * Replays a saved pipeline on a new file: parse the source with the recorded
+ * format options, map columns to the target shape, run field transformations
+ * and lookups, then build the export file. The run report compares the file
+ * with the recording and the previous run so changes (new or missing
+ * columns, a different row count, an edited shape) are visible.
+ *
+ * @example
+ * ```typescript
+ * import { runPipeline } from './pipeline-runner';
+ *
+ * const result = await runPipeline(pipeline, targetShape, {
+ *   bytes: await file.arrayBuffer(),
+ *   name: file.name,
+ * });
+ * console.log(result.report.missingColumns); // ['Desc']
+ * downloadFile(result.output.content, result.output.filename, result.output.mimeType);
+ * ```
+ */
+
+import type {
+  ImportPipeline,
+  PipelineExportOptions,
+  PipelineRunReport,
+  PipelineRunSummary,
+  PipelineSourceOptions,
+} from "../types/pipelines";
+import type { TargetField, TargetShape } from "../types/target-shapes";
+import type { ColumnMappingRule } from "../types/column-mapping";
+import type { TableRow } from "../features/tableSlice";
+import { csvRowsToObjects, decodeCsvBytes, parseCsv } from "./csv-parser";
+import { readWorkbook, sheetToRows } from "./spreadsheet-parser";
+import { injectRowIds } from "./data-processing";
+import {
+  transformData,
+  type TransformationReport,
+} from "./transformation-engine";
+import {
+  hasLookupFields,
+  type ProcessedLookupResult,
+} from "./lookup-processor";
+import { runLookupProcessing } from "./lookup-worker-client";
+import { convertToCsv, generateFilename } from "./csv-export";
+import {
+  getMappedFieldIds,
+  getRuleSourceColumns,
+  mapRowToFields,
+} from "./column-mapping-rules";
+
+/**
+ * Error raised when a pipeline cannot be replayed
+ */
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineError";
+  }
+}
+
+/**
+ * File passed to a pipeline run
+ */
+export interface PipelineInputFile {
+  bytes: ArrayBuffer | Uint8Array;
+  name?: string;
+}
+
+/**
+ * Options for a pipeline run
+ */
+export interface RunPipelineOptions {
+  /** Lookup progress callback */
+  onProgress?: (processed: number, total: number) => void;
+  /** Abort the lookup step */
+  signal?: AbortSignal;
+}
+
+/**
+ * File produced by a pipeline run
+ */
+export interface PipelineOutput {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Everything produced by a pipeline run
+ */
+export interface PipelineRunResult {
+  /** Mapped, transformed and looked-up rows */
+  data: TableRow[];
+  /** Display order of the output columns */
+  columnOrder: string[];
+  /** Columns found in the source file */
+  sourceColumns: string[];
+  /** Transformation report (null when no mapped field has rules) */
+  transformationReport: TransformationReport | null;
+  /** Lookup result (null when the lookup step did not run) */
+  lookupResult: ProcessedLookupResult | null;
+  /** Export file */
+  output: PipelineOutput;
+  report: PipelineRunReport;
+}
+
+/**
+ * Parse source bytes into row objects using the recorded format options
+ */
+export function parsePipelineSource(
+  bytes: ArrayBuffer | Uint8Array,
+  source: PipelineSourceOptions
+): Record<string, unknown>[] {
+  if (source.format === "spreadsheet") {
+    const workbook = readWorkbook(bytes);
+    const sheet =
+      workbook.sheets.find(s => s.name === source.sheetName) ??
+      (source.sheetName
+        ? null
+        : workbook.sheets.find(s => s.rowCount > 0) || workbook.sheets[0]);
+    if (!sheet) {
+      throw new PipelineError(`Sheet "${source.sheetName}" was not found`);
+    }
+    return sheetToRows(workbook, sheet.name, {
+      headerRow: (source.headerRow ?? 1) - 1,
+      hasHeaders: source.hasHeaders,
+    });
+  }
+
+  const { text } = decodeCsvBytes(bytes);
+
+  if (source.format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new PipelineError("File is not valid JSON");
+    }
+    if (!Array.isArray(parsed)) {
+      throw new PipelineError("JSON data must be an array");
+    }
+    return parsed;
+  }
+
+  const { rows } = parseCsv(text, { delimiter: source.delimiter });
+  return csvRowsToObjects(rows, { hasHeaders: source.hasHeaders });
+}
+
+/**
+ * Visible column names of imported rows, in first-seen order
+ */
+export function getSourceColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row =>
+    Object.keys(row).forEach(key => {
+      if (!key.startsWith("_")) columns.add(key);
+    })
+  );
+  return [...columns];
+}
+
+/**
+ * Map source rows to target field names (columnMapping is field ID -> source
+ * column, mappingRules combine or split columns). Row IDs are kept; unmapped
+ * source columns are dropped.
+ */
+export function mapRowsToShape(
+  rows: TableRow[],
+  columnMapping: Record<string, string>,
+  fields: TargetField[],
+  mappingRules: ColumnMappingRule[] = []
+): TableRow[] {
+  return rows.map(
+    row => mapRowToFields(row, columnMapping, mappingRules, fields) as TableRow
+  );
+}
+
+/**
+ * Build the export file for a run's rows
+ */
+export function buildPipelineOutput(
+  data: TableRow[],
+  exportOptions: PipelineExportOptions,
+  baseName: string
+): PipelineOutput {
+  const rows = data.map(row =>
+    Object.fromEntries(
+      Object.entries(row).filter(([key]) => !key.startsWith("_"))
+    )
+  );
+  const prefix = exportOptions.filenamePrefix || toFilenamePrefix(baseName);
+
+  if (exportOptions.format === "json") {
+    return {
+      content: JSON.stringify(rows, null, 2),
+      filename: generateFilename(prefix, "json"),
+      mimeType: "application/json",
+    };
+  }
+
+  return {
+    content: convertToCsv(rows, {
+      delimiter: exportOptions.delimiter ?? ",",
+      includeHeaders: exportOptions.includeHeaders !== false,
+      escapeQuotes: true,
+    }),
+    filename: generateFilename(prefix, "csv"),
+    mimeType: "text/csv",
+  };
+}
+
+/**
+ * Summary of a run to store on the pipeline as `lastRun`
+ */
+export function summarizePipelineRun(
+  report: PipelineRunReport,
+  sourceColumns: string[]
+): PipelineRunSummary {
+  return {
+    ranAt: report.ranAt,
+    fileName: report.fileName,
+    rowCount: report.rowCount,
+    sourceColumns,
+    unmatchedLookups: report.lookups?.noMatches ?? 0,
+    failedCells: report.transformation.failedCells,
+  };
+}
+
+/**
+ * Replay a pipeline on a new file
+ */
+export async function runPipeline(
+  pipeline: ImportPipeline,
+  targetShape: TargetShape,
+  file: PipelineInputFile,
+  options: RunPipelineOptions = {}
+): Promise<PipelineRunResult> {
+  if (targetShape.id !== pipeline.targetShapeId) {
+    throw new PipelineError(
+      `Pipeline "${pipeline.name}" maps to a different target shape`
+    );
+  }
+
+  const sourceRows = parsePipelineSource(file.bytes, pipeline.source);
+  if (sourceRows.length === 0) {
+    throw new PipelineError(`No rows found in ${file.name || "the file"}`);
+  }
+
+  const rows: TableRow[] = injectRowIds(sourceRows, true);
+  const sourceColumns = getSourceColumns(rows);
+
+  // Step 1: Map columns and run field transformations
+  const mappingRules = pipeline.mappingRules ?? [];
+  const mappedFieldIds = getMappedFieldIds(
+    pipeline.columnMapping,
+    mappingRules
+  );
+  const mappedFields = targetShape.fields.filter(field =>
+    mappedFieldIds.has(field.id)
+  );
+  const { data: cleanedData, report: transformationReport } = transformData(
+    mapRowsToShape(
+      rows,
+      pipeline.columnMapping,
+      targetShape.fields,
+      mappingRules
+    ),
+    mappedFields
+  );
+
+  // Step 2: Lookups
+  let lookupResult: ProcessedLookupResult | null = null;
+  let data = cleanedData;
+  if (pipeline.lookup.enabled && hasLookupFields(targetShape)) {
+    lookupResult = await runLookupProcessing(cleanedData, targetShape, {
+      minConfidence: pipeline.lookup.minConfidence,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+    data = lookupResult.data;
+  }
+
+  const mappedNames = mappedFields.map(field => field.name);
+  const columnOrder = [
+    ...mappedNames,
+    ...getSourceColumns(data).filter(column => !mappedNames.includes(column)),
+  ];
+
+  const report = createRunReport(
+    pipeline,
+    targetShape,
+    file.name,
+    rows.length,
+    sourceColumns,
+    transformationReport,
+    lookupResult
+  );
+
+  return {
+    data,
+    columnOrder,
+    sourceColumns,
+    transformationReport:
+      transformationReport.stats.fieldsWithRules > 0
+        ? transformationReport
+        : null,
+    lookupResult,
+    output: buildPipelineOutput(data, pipeline.export, pipeline.name),
+    report,
+  };
+}
+
+function createRunReport(
+  pipeline: ImportPipeline,
+  targetShape: TargetShape,
+  fileName: string | undefined,
+  rowCount: number,
+  sourceColumns: string[],
+  transformationReport: TransformationReport,
+  lookupResult: ProcessedLookupResult | null
+): PipelineRunReport {
+  const recordedColumns = new Set(pipeline.sourceColumns);
+  const currentColumns = new Set(sourceColumns);
+
+  const addedColumns = sourceColumns.filter(
+    column => !recordedColumns.has(column)
+  );
+  const missingColumns = pipeline.sourceColumns.filter(
+    column => !currentColumns.has(column)
+  );
+  const unmappedFields = targetShape.fields
+    .filter(field => {
+      const sourceColumn = pipeline.columnMapping[field.id];
+      if (sourceColumn) return !currentColumns.has(sourceColumn);
+
+      // Fields filled by a rule are empty only when all its sources are gone
+      const rule = pipeline.mappingRules?.find(rule =>
+        rule.kind === "combine"
+          ? rule.targetFieldId === field.id
+          : rule.targets.some(target => target.targetFieldId === field.id)
+      );
+      return (
+        rule !== undefined &&
+        getRuleSourceColumns([rule]).every(
+          column => !currentColumns.has(column)
+        )
+      );
+    })
+    .map(field => field.name);
+  const shapeChanged =
+    pipeline.targetShapeUpdatedAt !== undefined &&
+    pipeline.targetShapeUpdatedAt !== targetShape.updatedAt;
+  const { cellsChanged, failedCells } = transformationReport.stats;
+
+  const warnings: string[] = [];
+  if (unmappedFields.length > 0) {
+    warnings.push(
+      `${unmappedFields.length} mapped column${unmappedFields.length === 1 ? " is" : "s are"} missing, so ${unmappedFields.join(", ")} will be empty`
+    );
+  }
+  if (addedColumns.length > 0) {
+    warnings.push(
+      `New column${addedColumns.length === 1 ? "" : "s"} not in the pipeline: ${addedColumns.join(", ")}`
+    );
+  }
+  if (shapeChanged) {
+    warnings.push(
+      `Target shape "${targetShape.name}" was edited after this pipeline was saved`
+    );
+  }
+  if (failedCells > 0) {
+    warnings.push(`${failedCells} cells failed transformation`);
+  }
+  if (lookupResult && lookupResult.stats.noMatches > 0) {
+    warnings.push(`${lookupResult.stats.noMatches} lookup values had no match`);
+  }
+
+  return {
+    pipelineId: pipeline.id,
+    pipelineName: pipeline.name,
+    ranAt: new Date().toISOString(),
+    fileName,
+    rowCount,
+    previousRowCount: pipeline.lastRun?.rowCount,
+    addedColumns,
+    missingColumns,
+    unmappedFields,
+    shapeChanged,
+    transformation: { cellsChanged, failedCells },
+    lookups: lookupResult
+      ? {
+          exactMatches: lookupResult.stats.exactMatches,
+          normalizedMatches: lookupResult.stats.normalizedMatches,
+          fuzzyMatches: lookupResult.stats.fuzzyMatches,
+          noMatches: lookupResult.stats.noMatches,
+        }
+      : undefined,
+    warnings,
+  };
+}
+
+function toFilenamePrefix(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "pipeline-export"
+  );
+}
@@ -0,0 +1,76 @@
+import type { ImportPipeline } from "@/lib/types/pipelines";
+import { generatePipelineId } from "@/lib/utils/id-generator";
+import { storage } from "@/lib/utils/localStorage";
+
+const STORAGE_KEY = "citrus-surf-import-pipelines";
+
+// Import Pipelines Storage
+export const pipelineStorage = {
+  // Get all saved pipelines
+  getAll(): ImportPipeline[] {
+    try {
+      const stored = storage.getItem<ImportPipeline[]>(STORAGE_KEY);
+      return stored ?? [];
+    } catch (error) {
+      console.error("Error loading import pipelines:", error);
+      return [];
+    }
+  },
+
+  // Get a specific pipeline by ID
+  getById(id: string): ImportPipeline | null {
+    const pipelines = this.getAll();
+    return pipelines.find(pipeline => pipeline.id === id) || null;
+  },
+
+  // Save a new pipeline
+  save(
+    pipeline: Omit<ImportPipeline, "id" | "createdAt" | "updatedAt">
+  ): ImportPipeline {
+    const newPipeline: ImportPipeline = {
+      ...pipeline,
+      id: generatePipelineId(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const pipelines = this.getAll();
+    pipelines.push(newPipeline);
+    storage.setItem(STORAGE_KEY, pipelines);
+
+    return newPipeline;
+  },
+
+  // Update an existing pipeline
+  update(id: string, updates: Partial<ImportPipeline>): ImportPipeline | null {
+    const pipelines = this.getAll();
+    const index = pipelines.findIndex(pipeline => pipeline.id === id);
+
+    if (index === -1) return null;
+
+    pipelines[index] = {
+      ...pipelines[index],
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+
+    storage.setItem(STORAGE_KEY, pipelines);
+    return pipelines[index];
+  },
+
+  // Delete a pipeline
+  delete(id: string): boolean {
+    const pipelines = this.getAll();
+    const filtered = pipelines.filter(pipeline => pipeline.id !== id);
+
+    if (filtered.length === pipelines.length) return false;
+
+    storage.setItem(STORAGE_KEY, filtered);
+    return true;
+  },
+
+  // Clear all pipelines
+  clear(): void {
+    storage.removeItem(STORAGE_KEY);
+  },
+};
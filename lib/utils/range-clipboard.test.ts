@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildClearUpdates,
+  buildFillDownUpdates,
+  buildPasteUpdates,
+  getRangeBounds,
+  getRangeValues,
+  parseTsv,
+  rangeToHtml,
+  rangeToTsv,
+  type RangeGrid,
+} from "./range-clipboard";
+
+const grid: RangeGrid = {
+  rows: [
+    { id: "r1", values: { name: "Ann", age: 30, active: true } },
+    { id: "r2", values: { name: "Bo", age: 41, active: false } },
+    { id: "r3", values: { name: "Cy", age: 25, active: true } },
+  ],
+  columns: [
+    { id: "select", editable: false },
+    { id: "name", type: "string", editable: true },
+    { id: "age", type: "integer", editable: true },
+    { id: "active", type: "boolean", editable: true },
+  ],
+};
+
+describe("range clipboard", () => {
+  it("should normalize a range dragged up and to the left", () => {
+    const bounds = getRangeBounds(grid, {
+      anchor: { rowId: "r3", columnId: "age" },
+      focus: { rowId: "r1", columnId: "name" },
+    });
+
+    expect(bounds).toEqual({ top: 0, bottom: 2, left: 1, right: 2 });
+    expect(
+      getRangeBounds(grid, {
+        anchor: { rowId: "gone", columnId: "age" },
+        focus: { rowId: "r1", columnId: "name" },
+      })
+    ).toBeNull();
+  });
+
+  it("should copy a range as TSV and HTML", () => {
+    const values = getRangeValues(grid, {
+      top: 0,
+      bottom: 1,
+      left: 1,
+      right: 2,
+    });
+
+    expect(rangeToTsv(values)).toBe("Ann\t30\nBo\t41");
+    expect(rangeToTsv([['say "hi"', "a\tb", null]])).toBe(
+      '"say ""hi"""\t"a\tb"\t'
+    );
+    expect(rangeToHtml([["<b>", 1]])).toBe(
+      "<table><tbody><tr><td>&lt;b&gt;</td><td>1</td></tr></tbody></table>"
+    );
+  });
+
+  it("should parse spreadsheet clipboard text", () => {
+    expect(parseTsv("a\tb\r\nc\td\r\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+    expect(parseTsv('"line\nbreak"\t"say ""hi"""\n')).toEqual([
+      ["line\nbreak", 'say "hi"'],
+    ]);
+    expect(parseTsv("a\t\n")).toEqual([["a", ""]]);
+    expect(parseTsv("")).toEqual([]);
+  });
+
+  it("should paste a block with values coerced to each field type", () => {
+    const { updates, bounds } = buildPasteUpdates(
+      grid,
+      { top: 1, bottom: 1, left: 1, right: 1 },
+      parseTsv("Dee\t1,200\tyes\nEd\tabout 40\tno\nFay\t7\tyes")
+    );
+
+    expect(bounds).toEqual({ top: 1, bottom: 2, left: 1, right: 3 });
+    expect(updates).toEqual([
+      { rowId: "r2", columnId: "name", value: "Dee" },
+      { rowId: "r2", columnId: "age", value: 1200 },
+      { rowId: "r2", columnId: "active", value: true },
+      { rowId: "r3", columnId: "name", value: "Ed" },
+      // Text that isn't a number is kept for validation to flag
+      { rowId: "r3", columnId: "age", value: "about 40" },
+      { rowId: "r3", columnId: "active", value: false },
+    ]);
+  });
+
+  it("should keep pasted text that isn't a date in a date column", () => {
+    const dateGrid: RangeGrid = {
+      rows: [{ id: "r1", values: { start: "" } }],
+      columns: [{ id: "start", type: "date", editable: true }],
+    };
+    const paste = (text: string) =>
+      buildPasteUpdates(
+        dateGrid,
+        { top: 0, bottom: 0, left: 0, right: 0 },
+        parseTsv(text)
+      ).updates[0].value;
+
+    expect(paste("Room 5")).toBe("Room 5");
+    expect(paste("12")).toBe("12");
+    expect(paste("01/31/2024")).toBe("2024-01-31");
+  });
+
+  it("should fill the selection with a single value and skip read-only columns", () => {
+    const { updates } = buildPasteUpdates(
+      grid,
+      { top: 0, bottom: 2, left: 0, right: 1 },
+      [["Zoe"]]
+    );
+
+    expect(updates).toEqual([
+      { rowId: "r1", columnId: "name", value: "Zoe" },
+      { rowId: "r2", columnId: "name", value: "Zoe" },
+      { rowId: "r3", columnId: "name", value: "Zoe" },
+    ]);
+  });
+
+  it("should fill down from the top row, or from the row above one row", () => {
+    expect(
+      buildFillDownUpdates(grid, { top: 0, bottom: 2, left: 2, right: 3 })
+    ).toEqual([
+      { rowId: "r2", columnId: "age", value: 30 },
+      { rowId: "r2", columnId: "active", value: true },
+      { rowId: "r3", columnId: "age", value: 30 },
+    ]);
+    expect(
+      buildFillDownUpdates(grid, { top: 2, bottom: 2, left: 1, right: 1 })
+    ).toEqual([{ rowId: "r3", columnId: "name", value: "Bo" }]);
+    expect(
+      buildFillDownUpdates(grid, { top: 0, bottom: 0, left: 1, right: 1 })
+    ).toEqual([]);
+  });
+
+  it("should clear the editable cells of a selection", () => {
+    expect(
+      buildClearUpdates(grid, { top: 0, bottom: 0, left: 0, right: 2 })
+    ).toEqual([
+      { rowId: "r1", columnId: "name", value: "" },
+      { rowId: "r1", columnId: "age", value: "" },
+    ]);
+  });
+});
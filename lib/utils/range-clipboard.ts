@@ -0,0 +1,349 @@
+/**
+ * Range Clipboard Utilities
+ *
+ * Spreadsheet-style rectangular selections over the visible table: copying a
+ * range as TSV and HTML, pasting blocks from Excel or Google Sheets and
+ * filling down. Pastes and fills are returned as cell updates so they can be
+ * applied in one `updateCells` dispatch (one history entry).
+ *
+ * @example
+ * ```typescript
+ * import { getRangeBounds, parseTsv, buildPasteUpdates } from './range-clipboard';
+ *
+ * const bounds = getRangeBounds(grid, selection);
+ * const { updates } = buildPasteUpdates(grid, bounds, parseTsv(text));
+ * dispatch(updateCells({ updates, source: 'paste' }));
+ * ```
+ */
+
+import type { CellUpdate } from "../features/tableSlice";
+import type { FieldType } from "../types/target-shapes";
+import { coerceValue } from "./typed-export";
+
+/**
+ * A cell, identified by row ID (`_rowId`, or `id` for rows without one) and
+ * column ID so it survives sorting and paging
+ */
+export interface CellPosition {
+  rowId: string;
+  columnId: string;
+}
+
+/**
+ * A rectangular selection between the cell where it started and the cell
+ * where it ends
+ */
+export interface CellRange {
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+/**
+ * Inclusive row and column indexes of a range in the grid
+ */
+export interface RangeBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/**
+ * The visible table, in display order
+ */
+export interface RangeGrid {
+  rows: { id: string; values: Record<string, unknown> }[];
+  columns: {
+    id: string;
+    /** Target field type used to coerce pasted text */
+    type?: FieldType;
+    /** Pastes and fills skip columns that can't be edited */
+    editable: boolean;
+  }[];
+}
+
+export interface PasteResult {
+  /** Changed cells only */
+  updates: CellUpdate[];
+  /** Cells the block was pasted into, clipped to the grid */
+  bounds: RangeBounds;
+}
+
+/**
+ * Finds the range in the grid, or null when either end is no longer visible
+ */
+export function getRangeBounds(
+  grid: RangeGrid,
+  range: CellRange
+): RangeBounds | null {
+  const rowIndex = (rowId: string) =>
+    grid.rows.findIndex(row => row.id === rowId);
+  const columnIndex = (columnId: string) =>
+    grid.columns.findIndex(column => column.id === columnId);
+
+  const rows = [rowIndex(range.anchor.rowId), rowIndex(range.focus.rowId)];
+  const columns = [
+    columnIndex(range.anchor.columnId),
+    columnIndex(range.focus.columnId),
+  ];
+  if ([...rows, ...columns].includes(-1)) return null;
+
+  return {
+    top: Math.min(...rows),
+    bottom: Math.max(...rows),
+    left: Math.min(...columns),
+    right: Math.max(...columns),
+  };
+}
+
+export const isCellInBounds = (
+  bounds: RangeBounds | null,
+  rowIndex: number,
+  columnIndex: number
+) =>
+  bounds !== null &&
+  rowIndex >= bounds.top &&
+  rowIndex <= bounds.bottom &&
+  columnIndex >= bounds.left &&
+  columnIndex <= bounds.right;
+
+/**
+ * Values of the range, one array per row
+ */
+export function getRangeValues(
+  grid: RangeGrid,
+  bounds: RangeBounds
+): unknown[][] {
+  const columns = grid.columns.slice(bounds.left, bounds.right + 1);
+  return grid.rows
+    .slice(bounds.top, bounds.bottom + 1)
+    .map(row => columns.map(column => row.values[column.id]));
+}
+
+/**
+ * Text for one copied cell; objects are written as JSON
+ */
+export function formatClipboardValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Tab-separated text as Excel writes it: cells with tabs, line breaks or
+ * quotes are quoted, quotes doubled
+ */
+export function rangeToTsv(values: unknown[][]): string {
+  return values
+    .map(row =>
+      row
+        .map(value => {
+          const text = formatClipboardValue(value);
+          return /[\t\n\r"]/.test(text)
+            ? `"${text.replace(/"/g, '""')}"`
+            : text;
+        })
+        .join("\t")
+    )
+    .join("\n");
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * An HTML table, so rich-text targets (Docs, email) keep the cell layout
+ */
+export function rangeToHtml(values: unknown[][]): string {
+  const rows = values
+    .map(
+      row =>
+        `<tr>${row
+          .map(value => `<td>${escapeHtml(formatClipboardValue(value))}</td>`)
+          .join("")}</tr>`
+    )
+    .join("");
+  return `<table><tbody>${rows}</tbody></table>`;
+}
+
+/**
+ * Parses clipboard text from a spreadsheet into rows of cells
+ *
+ * Handles quoted cells containing tabs, line breaks or doubled quotes, CRLF
+ * line endings, and the trailing line break spreadsheets add.
+ */
+export function parseTsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let cellStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cellStart) {
+      inQuotes = true;
+      cellStart = false;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+      cellStart = true;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      cellStart = true;
+    } else {
+      cell += char;
+      cellStart = false;
+    }
+  }
+
+  if (!cellStart || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Converts pasted text to the target field's type
+ *
+ * Text that can't be converted, or whose converted value doesn't read back
+ * as itself, is kept as typed so validation can flag it instead of the
+ * paste writing a value the user never typed.
+ */
+export function coercePastedValue(text: string, type?: FieldType): unknown {
+  if (!type || text.trim() === "") return text;
+  const result = coerceValue(text, type);
+  if (!result.ok || result.value === null) return text;
+  const roundTrip = coerceValue(result.value, type);
+  return roundTrip.ok && roundTrip.value === result.value ? result.value : text;
+}
+
+const collectUpdates = (
+  grid: RangeGrid,
+  bounds: RangeBounds,
+  getValue: (rowOffset: number, columnOffset: number) => unknown
+): CellUpdate[] => {
+  const updates: CellUpdate[] = [];
+
+  for (let rowIndex = bounds.top; rowIndex <= bounds.bottom; rowIndex++) {
+    const row = grid.rows[rowIndex];
+    for (
+      let columnIndex = bounds.left;
+      columnIndex <= bounds.right;
+      columnIndex++
+    ) {
+      const column = grid.columns[columnIndex];
+      if (!column.editable) continue;
+
+      const value = getValue(rowIndex - bounds.top, columnIndex - bounds.left);
+      if (value !== row.values[column.id]) {
+        updates.push({ rowId: row.id, columnId: column.id, value });
+      }
+    }
+  }
+
+  return updates;
+};
+
+/**
+ * Expands a pasted block into cell updates starting at the top-left cell of
+ * the selection
+ *
+ * A block that fits into the selection a whole number of times is repeated
+ * across it (a single value fills the whole selection); otherwise the block
+ * is pasted once. Cells past the last visible row or column are dropped.
+ */
+export function buildPasteUpdates(
+  grid: RangeGrid,
+  selection: RangeBounds,
+  block: string[][]
+): PasteResult {
+  const blockHeight = block.length;
+  const blockWidth = Math.max(0, ...block.map(row => row.length));
+  if (blockHeight === 0 || blockWidth === 0) {
+    return { updates: [], bounds: selection };
+  }
+
+  const selectionHeight = selection.bottom - selection.top + 1;
+  const selectionWidth = selection.right - selection.left + 1;
+
+  const repeats =
+    selectionHeight % blockHeight === 0 && selectionWidth % blockWidth === 0;
+
+  const bounds: RangeBounds = {
+    top: selection.top,
+    left: selection.left,
+    bottom:
+      Math.min(
+        grid.rows.length,
+        selection.top + (repeats ? selectionHeight : blockHeight)
+      ) - 1,
+    right:
+      Math.min(
+        grid.columns.length,
+        selection.left + (repeats ? selectionWidth : blockWidth)
+      ) - 1,
+  };
+
+  const updates = collectUpdates(grid, bounds, (rowOffset, columnOffset) => {
+    const column = grid.columns[bounds.left + columnOffset];
+    const text = block[rowOffset % blockHeight][columnOffset % blockWidth];
+    return coercePastedValue(text ?? "", column.type);
+  });
+
+  return { updates, bounds };
+}
+
+/**
+ * Copies the top row of the selection into the rows below it; a selection of
+ * one row is filled from the row above, as in spreadsheets
+ */
+export function buildFillDownUpdates(
+  grid: RangeGrid,
+  selection: RangeBounds
+): CellUpdate[] {
+  const sourceIndex =
+    selection.bottom > selection.top ? selection.top : selection.top - 1;
+  if (sourceIndex < 0) return [];
+
+  const source = grid.rows[sourceIndex];
+  return collectUpdates(
+    grid,
+    { ...selection, top: sourceIndex + 1 },
+    (_rowOffset, columnOffset) =>
+      source.values[grid.columns[selection.left + columnOffset].id]
+  );
+}
+
+/**
+ * Empties every editable cell of the selection
+ */
+export function buildClearUpdates(
+  grid: RangeGrid,
+  selection: RangeBounds
+): CellUpdate[] {
+  return collectUpdates(grid, selection, () => "");
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { reduxPersistence } from "./redux-persistence";
+import { initializeStorage, resetStorage } from "./localStorage";
+import {
+  createMemoryStorageAdapter,
+  type StorageAdapter,
+} from "./indexed-db-storage";
 
 // Mock localStorage
 const localStorageMock = {
@@ -179,3 +184,89 @@ describe("Redux Persistence", () => {
     expect(localStorageMock.setItem).not.toHaveBeenCalled();
   });
 });
+
+describe("Redux Persistence with IndexedDB", () => {
+  let state: StorageAdapter;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    localStorageMock.getItem.mockReturnValue(null);
+    localStorageMock.setItem.mockImplementation(() => {});
+    state = createMemoryStorageAdapter();
+    await initializeStorage({
+      keyValue: createMemoryStorageAdapter(),
+      state,
+    });
+  });
+
+  afterEach(async () => {
+    reduxPersistence.clearState();
+    await reduxPersistence.flush();
+    resetStorage();
+  });
+
+  const save = async (value: any) => {
+    reduxPersistence.saveState(value);
+    vi.advanceTimersByTime(1000);
+    await reduxPersistence.flush();
+  };
+
+  const rows = Array.from({ length: 1200 }, (_, i) => ({
+    _rowId: `row_${i}`,
+    name: `Row ${i}`,
+  }));
+
+  it("should store table rows in chunks and round-trip the state", async () => {
+    const snapshot = { data: rows.slice(0, 2) };
+    await save({
+      table: { data: rows, sorting: [] },
+      history: {
+        actions: [{ id: "a1", type: "table/setData", stateSnapshot: snapshot }],
+      },
+    });
+
+    const keys = (await state.keys()).sort();
+    expect(keys).toEqual([
+      "citrus-surf-redux-state",
+      "citrus-surf-redux-state:rows:0",
+      "citrus-surf-redux-state:rows:1",
+      "citrus-surf-redux-state:rows:2",
+      "citrus-surf-redux-state:snapshot:a1",
+    ]);
+    expect(localStorageMock.setItem).not.toHaveBeenCalled();
+
+    const loaded = await reduxPersistence.loadStateAsync();
+    expect(loaded.table.data).toEqual(rows);
+    expect(loaded.history.actions[0].stateSnapshot).toEqual(snapshot);
+    expect(reduxPersistence.getStatus().hasPersistedState).toBe(true);
+  });
+
+  it("should only rewrite chunks whose rows changed", async () => {
+    await save({ table: { data: rows } });
+
+    const writeSpy = vi.spyOn(state, "write");
+    const edited = [...rows];
+    edited[700] = { ...rows[700], name: "Edited" };
+    await save({ table: { data: edited.slice(0, 1000) } });
+
+    const [puts, deletes] = writeSpy.mock.calls[0];
+    expect(puts.map(([key]) => key)).toEqual([
+      "citrus-surf-redux-state:rows:1",
+      "citrus-surf-redux-state",
+    ]);
+    expect(deletes).toEqual(["citrus-surf-redux-state:rows:2"]);
+  });
+
+  it("should upgrade a state saved under the legacy localStorage key", async () => {
+    resetStorage();
+    const legacy = { table: { data: rows.slice(0, 3) } };
+    const keyValue = createMemoryStorageAdapter({
+      "citrus-surf-redux-state": JSON.stringify({ json: legacy }),
+    });
+    await initializeStorage({ keyValue, state });
+
+    expect(await reduxPersistence.loadStateAsync()).toEqual(legacy);
+    expect(await keyValue.get("citrus-surf-redux-state")).toBeUndefined();
+    expect(await state.get("citrus-surf-redux-state:rows:0")).toBeDefined();
+  });
+});
@@ -1,21 +1,45 @@
-import { storage } from "./localStorage";
+import superjson from "superjson";
+import { storage, getStateStorageAdapter } from "./localStorage";
+import type { StorageAdapter } from "./indexed-db-storage";
 
 const PERSISTENCE_KEY = "citrus-surf-redux-state";
 const DEBOUNCE_DELAY = 1000; // 1 second debounce
+const ROW_CHUNK_SIZE = 500;
+
+const rowChunkKey = (index: number) => `${PERSISTENCE_KEY}:rows:${index}`;
+const snapshotKey = (actionId: string) =>
+  `${PERSISTENCE_KEY}:snapshot:${actionId}`;
+
+/**
+ * Layout of the main state record in IndexedDB. Table rows and history
+ * snapshots are stored in separate records and stripped from `state`.
+ */
+interface StoredStateRecord {
+  state: any;
+  rowChunkCount: number;
+}
 
 /**
  * Redux persistence manager with debounced writes
  *
- * This utility handles persisting the entire Redux store to localStorage
- * using superjson for proper type preservation and debounced writes to
- * prevent excessive storage operations.
+ * This utility handles persisting the entire Redux store using superjson for
+ * proper type preservation and debounced writes to prevent excessive storage
+ * operations. With IndexedDB attached (see `initializeStorage`), table rows
+ * are written in chunks and history snapshots as individual records, so a
+ * save only rewrites the chunks and snapshots that changed.
  */
 class ReduxPersistenceManager {
   private debounceTimer: NodeJS.Timeout | null = null;
   private isInitialized = false;
+  private hasStoredState = false;
+  // Row chunks and snapshot ids as last written to IndexedDB
+  private writtenChunks: any[][] = [];
+  private writtenSnapshots = new Set<string>();
+  private writeQueue: Promise<void> = Promise.resolve();
 
   /**
-   * Initialize persistence by loading the saved state
+   * Initialize persistence by loading the saved state from localStorage.
+   * Use `loadStateAsync` once IndexedDB may be attached.
    */
   loadState(): any {
     if (typeof window === "undefined") {
@@ -35,6 +59,37 @@ class ReduxPersistenceManager {
     return undefined;
   }
 
+  /**
+   * Load the saved state from IndexedDB when attached, otherwise from
+   * localStorage. A state saved by older versions under the single
+   * localStorage key is upgraded to the chunked layout.
+   */
+  async loadStateAsync(): Promise<any> {
+    const adapter = getStateStorageAdapter();
+    if (!adapter) return this.loadState();
+
+    try {
+      const record = await adapter.get(PERSISTENCE_KEY);
+      if (record) {
+        const state = await this.readChunkedState(adapter, record);
+        this.hasStoredState = true;
+        return state;
+      }
+
+      // Migrated from localStorage into the key-value store
+      const legacyState = storage.getItem<any>(PERSISTENCE_KEY);
+      if (legacyState) {
+        await this.writeChunkedState(adapter, legacyState);
+        storage.removeItem(PERSISTENCE_KEY);
+        return legacyState;
+      }
+    } catch (error) {
+      console.error("Error loading persisted Redux state:", error);
+    }
+
+    return undefined;
+  }
+
   /**
    * Load state and dispatch persistence actions
    */
@@ -77,6 +132,17 @@ class ReduxPersistenceManager {
 
     // Set new debounced save
     this.debounceTimer = setTimeout(() => {
+      const adapter = getStateStorageAdapter();
+      if (adapter) {
+        // Serialize writes so chunk bookkeeping matches what was committed
+        this.writeQueue = this.writeQueue
+          .then(() => this.writeChunkedState(adapter, state))
+          .catch(error => {
+            console.error("Error persisting Redux state:", error);
+          });
+        return;
+      }
+
       try {
         storage.setItem(PERSISTENCE_KEY, state);
         console.log("Persisted Redux state to localStorage");
@@ -86,6 +152,109 @@ class ReduxPersistenceManager {
     }, DEBOUNCE_DELAY);
   }
 
+  /**
+   * Wait for pending IndexedDB writes (used by tests and before unload)
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  private async writeChunkedState(
+    adapter: StorageAdapter,
+    state: any
+  ): Promise<void> {
+    const puts: Array<[string, string]> = [];
+    const deletes: string[] = [];
+
+    // Rows are immutable in Redux, so an unchanged chunk keeps its references
+    const rows: any[] = state?.table?.data ?? [];
+    const chunks: any[][] = [];
+    for (let i = 0; i < rows.length; i += ROW_CHUNK_SIZE) {
+      chunks.push(rows.slice(i, i + ROW_CHUNK_SIZE));
+    }
+    chunks.forEach((chunk, index) => {
+      const previous = this.writtenChunks[index];
+      const changed =
+        !previous ||
+        previous.length !== chunk.length ||
+        chunk.some((row, i) => row !== previous[i]);
+      if (changed) puts.push([rowChunkKey(index), superjson.stringify(chunk)]);
+    });
+    for (let i = chunks.length; i < this.writtenChunks.length; i++) {
+      deletes.push(rowChunkKey(i));
+    }
+
+    // History checkpoints never change once recorded, so write each only once
+    const actions: any[] = state?.history?.actions ?? [];
+    const liveSnapshots = new Set<string>();
+    const storedActions = actions.map(action => {
+      if (!action.stateSnapshot) return action;
+      liveSnapshots.add(action.id);
+      if (!this.writtenSnapshots.has(action.id)) {
+        puts.push([
+          snapshotKey(action.id),
+          superjson.stringify(action.stateSnapshot),
+        ]);
+      }
+      return { ...action, stateSnapshot: undefined };
+    });
+    this.writtenSnapshots.forEach(id => {
+      if (!liveSnapshots.has(id)) deletes.push(snapshotKey(id));
+    });
+
+    const record: StoredStateRecord = {
+      state: {
+        ...state,
+        ...(state?.table && { table: { ...state.table, data: [] } }),
+        ...(state?.history && {
+          history: { ...state.history, actions: storedActions },
+        }),
+      },
+      rowChunkCount: chunks.length,
+    };
+    puts.push([PERSISTENCE_KEY, superjson.stringify(record)]);
+
+    await adapter.write(puts, deletes);
+    this.writtenChunks = chunks;
+    this.writtenSnapshots = liveSnapshots;
+    this.hasStoredState = true;
+  }
+
+  private async readChunkedState(
+    adapter: StorageAdapter,
+    serialized: string
+  ): Promise<any> {
+    const { state, rowChunkCount } =
+      superjson.parse<StoredStateRecord>(serialized);
+
+    const chunks = await Promise.all(
+      Array.from({ length: rowChunkCount }, async (_, index) => {
+        const chunk = await adapter.get(rowChunkKey(index));
+        return chunk ? superjson.parse<any[]>(chunk) : [];
+      })
+    );
+
+    const actions = await Promise.all(
+      (state?.history?.actions ?? []).map(async (action: any) => {
+        const snapshot = await adapter.get(snapshotKey(action.id));
+        return snapshot
+          ? { ...action, stateSnapshot: superjson.parse(snapshot) }
+          : action;
+      })
+    );
+
+    this.writtenChunks = chunks;
+    this.writtenSnapshots = new Set(
+      actions.filter(action => action.stateSnapshot).map(action => action.id)
+    );
+
+    return {
+      ...state,
+      ...(state?.table && { table: { ...state.table, data: chunks.flat() } }),
+      ...(state?.history && { history: { ...state.history, actions } }),
+    };
+  }
+
   /**
    * Clear persisted state
    */
@@ -100,6 +269,18 @@ class ReduxPersistenceManager {
       this.debounceTimer = null;
     }
 
+    const adapter = getStateStorageAdapter();
+    if (adapter) {
+      this.writtenChunks = [];
+      this.writtenSnapshots.clear();
+      this.hasStoredState = false;
+      this.writeQueue = this.writeQueue
+        .then(() => adapter.clear())
+        .catch(error => {
+          console.error("Error clearing persisted Redux state:", error);
+        });
+    }
+
     try {
       storage.removeItem(PERSISTENCE_KEY);
       console.log("Cleared persisted Redux state");
@@ -116,6 +297,13 @@ class ReduxPersistenceManager {
       return { isInitialized: false, hasPersistedState: false };
     }
 
+    if (getStateStorageAdapter()) {
+      return {
+        isInitialized: this.isInitialized,
+        hasPersistedState: this.hasStoredState,
+      };
+    }
+
     try {
       const savedState = storage.getItem(PERSISTENCE_KEY);
       return {
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as XLSX from "xlsx";
 import { ReferenceDataManager } from "./reference-data-manager";
+import { createMemoryStorageAdapter } from "./indexed-db-storage";
+import { initializeStorage, resetStorage } from "./localStorage";
 import type { UploadReferenceOptions } from "../types/reference-data-types";
 import {
   generateReferenceId,
@@ -178,6 +181,38 @@ describe("ReferenceDataManager", () => {
         department: "Marketing",
       });
     });
+
+    it("should upload a selected sheet from a workbook", async () => {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([["ignored"], ["a"]]),
+        "Notes"
+      );
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([
+          ["Departments export"],
+          ["code", "name"],
+          ["ENG", "Engineering"],
+        ]),
+        "Departments"
+      );
+      const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+      const file = new File([buffer], "departments.xlsx");
+      const id = "ref_workbook_test";
+
+      const info = await manager.uploadReferenceFile(file, id, {
+        sheetName: "Departments",
+        headerRow: 1,
+      });
+
+      expect(info.format).toBe("spreadsheet");
+      expect(info.metadata?.sheetName).toBe("Departments");
+      expect(manager.getReferenceDataRows(id)).toEqual([
+        { code: "ENG", name: "Engineering" },
+      ]);
+    });
   });
 
   describe("Data Validation", () => {
@@ -259,7 +294,7 @@ describe("ReferenceDataManager", () => {
       const originalMethod = manager["readFileContent"];
       manager["readFileContent"] = vi
         .fn()
-        .mockResolvedValue("name,age\nJohn,30");
+        .mockResolvedValue({ text: "name,age\nJohn,30", encoding: "utf-8" });
 
       const result = await manager.validateReferenceData(hugeMockFile);
 
@@ -327,6 +362,20 @@ describe("ReferenceDataManager", () => {
       expect(manager.listReferenceFiles()).toHaveLength(0);
     });
 
+    it("should change a file's version when it is updated or deleted", () => {
+      const version = manager.getReferenceVersion("ref_test_employees");
+      expect(manager.getReferenceVersion("ref_test_employees")).toBe(version);
+
+      manager.updateReferenceData("ref_test_employees", [{ name: "Ann" }]);
+      const updated = manager.getReferenceVersion("ref_test_employees");
+      expect(updated).not.toBe(version);
+
+      manager.deleteReferenceFile("ref_test_employees");
+      expect(manager.getReferenceVersion("ref_test_employees")).not.toBe(
+        updated
+      );
+    });
+
     it("should update existing reference data", async () => {
       const newData = [
         { name: "Updated John", age: "31", department: "Engineering" },
@@ -448,6 +497,35 @@ describe("ReferenceDataManager", () => {
   });
 });
 
+describe("ReferenceDataManager with IndexedDB storage", () => {
+  beforeEach(() => {
+    mockLocalStorage.clear();
+    resetStorage();
+  });
+
+  afterEach(() => {
+    resetStorage();
+  });
+
+  it("should not return data after it is deleted", async () => {
+    const keyValue = createMemoryStorageAdapter();
+    await initializeStorage({
+      keyValue,
+      state: createMemoryStorageAdapter(),
+    });
+    const manager = new ReferenceDataManager();
+    const file = new File(["name\nJohn"], "people.csv", { type: "text/csv" });
+    await manager.uploadReferenceFile(file, "ref_people");
+
+    expect(manager.deleteReferenceFile("ref_people")).toBe(true);
+
+    expect(manager.getReferenceData("ref_people")).toBeNull();
+    expect(await keyValue.keys()).not.toContain(
+      "citrus_surf_reference_data_ref_people"
+    );
+  });
+});
+
 describe("Reference Data Utilities", () => {
   describe("generateReferenceId", () => {
     it("should generate valid reference IDs", () => {
@@ -2,7 +2,8 @@
  * Reference Data Manager
  *
  * Manages upload, storage, and retrieval of reference data files for lookup operations.
- * Supports CSV and JSON formats with validation and efficient browser storage.
+ * Supports CSV, JSON and spreadsheet (.xlsx/.xls/.ods) formats with validation
+ * and efficient browser storage.
  *
  * @example
  * ```typescript
@@ -34,6 +35,13 @@ import type {
   ReferenceDataStats,
 } from "../types/reference-data-types";
 import { ReferenceDataError } from "../types/reference-data-types";
+import { csvRowsToObjects, decodeCsvBytes, parseCsv } from "./csv-parser";
+import {
+  isSpreadsheetFile,
+  readWorkbook,
+  sheetToRows,
+} from "./spreadsheet-parser";
+import { buildFuzzyIndex, type FuzzyIndex } from "./fuzzy-index";
 
 /**
  * Storage keys for reference data
@@ -47,6 +55,12 @@ const STORAGE_KEYS = {
  * Implementation of reference data management
  */
 export class ReferenceDataManager implements IReferenceDataManager {
+  // Fuzzy candidate indexes by file ID and match column, dropped when the file changes
+  private fuzzyIndexes = new Map<string, Map<string, FuzzyIndex>>();
+  // Session versions by file ID, dropped when the file changes
+  private versions = new Map<string, number>();
+  private nextVersion = 1;
+
   /**
    * Upload and store a reference data file
    */
@@ -65,9 +79,6 @@ export class ReferenceDataManager implements IReferenceDataManager {
         );
       }
 
-      // Read file content
-      const content = await this.readFileContent(file);
-
       // Validate the file
       const validation = await this.validateReferenceData(file);
       if (!validation.valid) {
@@ -79,14 +90,25 @@ export class ReferenceDataManager implements IReferenceDataManager {
       }
 
       // Parse the data
-      const parsedData = await this.parseFileContent(
-        content,
-        validation.format || "csv",
-        {
-          delimiter: options.delimiter || validation.delimiter,
-          hasHeaders: options.hasHeaders ?? validation.hasHeaders ?? true,
-        }
-      );
+      const sheetName =
+        validation.format === "spreadsheet"
+          ? options.sheetName || validation.sheetNames?.[0]
+          : undefined;
+      const parsedData =
+        validation.format === "spreadsheet"
+          ? await this.parseSpreadsheetFile(file, {
+              sheetName: sheetName!,
+              headerRow: options.headerRow,
+              hasHeaders: options.hasHeaders,
+            })
+          : await this.parseFileContent(
+              (await this.readFileContent(file)).text,
+              validation.format || "csv",
+              {
+                delimiter: options.delimiter || validation.delimiter,
+                hasHeaders: options.hasHeaders ?? validation.hasHeaders ?? true,
+              }
+            );
 
       // Create reference data info
       const now = new Date().toISOString();
@@ -103,7 +125,8 @@ export class ReferenceDataManager implements IReferenceDataManager {
           mimeType: file.type,
           delimiter: validation.delimiter,
           hasHeaders: validation.hasHeaders,
-          encoding: "utf-8",
+          encoding: validation.encoding,
+          ...(sheetName && { sheetName, headerRow: options.headerRow ?? 0 }),
           ...options.metadata,
         },
       };
@@ -151,6 +174,37 @@ export class ReferenceDataManager implements IReferenceDataManager {
     return referenceData?.data || null;
   }
 
+  /**
+   * Get the fuzzy candidate index for a column of a reference file, building
+   * it on first use. Returns null when the file does not exist.
+   */
+  getFuzzyIndex(id: string, column: string): FuzzyIndex | null {
+    const cached = this.fuzzyIndexes.get(id)?.get(column);
+    if (cached) return cached;
+
+    const rows = this.getReferenceDataRows(id);
+    if (!rows) return null;
+
+    const index = buildFuzzyIndex(rows, column);
+    if (!this.fuzzyIndexes.has(id)) this.fuzzyIndexes.set(id, new Map());
+    this.fuzzyIndexes.get(id)!.set(column, index);
+    return index;
+  }
+
+  /**
+   * Version of a reference file's rows in this session. It changes whenever
+   * the file is stored or deleted, so copies held elsewhere (the lookup
+   * worker) can tell they are stale.
+   */
+  getReferenceVersion(id: string): number {
+    let version = this.versions.get(id);
+    if (version === undefined) {
+      version = this.nextVersion++;
+      this.versions.set(id, version);
+    }
+    return version;
+  }
+
   /**
    * List all available reference files
    */
@@ -178,10 +232,10 @@ export class ReferenceDataManager implements IReferenceDataManager {
       }
 
       // Remove from storage
+      this.fuzzyIndexes.delete(id);
+      this.versions.delete(id);
       const key = this.getStorageKey(id);
-      if (typeof window !== "undefined" && window.localStorage) {
-        window.localStorage.removeItem(key);
-      }
+      storage.removeItem(key);
 
       // Update index
       const index = storage.getItem<Record<string, ReferenceDataInfo>>(
@@ -293,8 +347,27 @@ export class ReferenceDataManager implements IReferenceDataManager {
         );
       }
 
+      // Spreadsheets are binary; validate that the workbook opens and has data
+      if (isSpreadsheetFile(file.name)) {
+        result.format = "spreadsheet";
+        const workbook = readWorkbook(await this.readFileBuffer(file));
+        result.sheetNames = workbook.sheets.map(sheet => sheet.name);
+        result.hasHeaders = true;
+
+        if (workbook.sheets.every(sheet => sheet.rowCount < 2)) {
+          result.valid = false;
+          result.errors.push("Workbook must have a header row and data rows");
+        } else if (workbook.sheets.length > 1) {
+          result.warnings.push(
+            `Workbook has ${workbook.sheets.length} sheets; only one sheet is imported`
+          );
+        }
+        return result;
+      }
+
       // Read and validate content
-      const content = await this.readFileContent(file);
+      const { text: content, encoding } = await this.readFileContent(file);
+      result.encoding = encoding;
 
       // Detect format
       const format = this.detectFileFormat(content, file.name);
@@ -382,12 +455,37 @@ export class ReferenceDataManager implements IReferenceDataManager {
 
   // Private helper methods
 
-  private async readFileContent(file: File): Promise<string> {
+  private async readFileContent(
+    file: File
+  ): Promise<{ text: string; encoding: string }> {
+    return decodeCsvBytes(await this.readFileBuffer(file));
+  }
+
+  private async readFileBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
       reader.onerror = () => reject(new Error("Failed to read file"));
-      reader.readAsText(file, "utf-8");
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  private async parseSpreadsheetFile(
+    file: File,
+    options: { sheetName: string; headerRow?: number; hasHeaders?: boolean }
+  ): Promise<Record<string, any>[]> {
+    const workbook = readWorkbook(await this.readFileBuffer(file));
+    if (!workbook.sheets.some(sheet => sheet.name === options.sheetName)) {
+      throw new ReferenceDataError(
+        `Sheet '${options.sheetName}' not found in ${file.name}`,
+        "PARSE_ERROR",
+        { filename: file.name, sheetName: options.sheetName }
+      );
+    }
+
+    return sheetToRows(workbook, options.sheetName, {
+      headerRow: options.headerRow ?? 0,
+      hasHeaders: options.hasHeaders ?? true,
     });
   }
 
@@ -472,48 +570,41 @@ export class ReferenceDataManager implements IReferenceDataManager {
     };
 
     try {
-      const lines = content.trim().split("\n");
+      let parsed: ReturnType<typeof parseCsv>;
+      try {
+        parsed = parseCsv(content);
+      } catch (error) {
+        // Keep what can be read; the open quote runs to the end of the file
+        result.warnings.push(
+          error instanceof Error ? error.message : "Malformed CSV"
+        );
+        parsed = parseCsv(content, { strict: false });
+      }
+      const { rows, delimiter } = parsed;
 
-      if (
-        lines.length === 0 ||
-        (lines.length === 1 && lines[0].trim() === "")
-      ) {
+      if (rows.length === 0) {
         result.valid = false;
         result.errors.push("CSV file is empty");
         return result;
       }
 
-      // Detect delimiter
-      const delimiter = this.detectDelimiter(lines[0]);
       result.delimiter = delimiter;
 
-      // Check if first line looks like headers
-      const firstLine = lines[0];
-      const hasHeaders = this.detectHeaders(firstLine, delimiter);
+      // Check if first row looks like headers
+      const hasHeaders = this.detectHeaders(rows[0]);
       result.hasHeaders = hasHeaders;
 
-      // Parse a few lines to validate structure
-      const sampleSize = Math.min(10, lines.length);
-      let expectedColumns = 0;
-
-      for (let i = 0; i < sampleSize; i++) {
-        const columns = this.parseCsvLine(lines[i], delimiter);
-
-        if (i === 0) {
-          expectedColumns = columns.length;
-          if (expectedColumns === 0) {
-            result.valid = false;
-            result.errors.push("CSV has no columns");
-            break;
-          }
-        } else if (columns.length !== expectedColumns) {
+      // Check a sample of rows for a consistent structure
+      const expectedColumns = rows[0].length;
+      rows.slice(1, 10).forEach((columns, i) => {
+        if (columns.length !== expectedColumns) {
           result.warnings.push(
-            `Line ${i + 1} has ${columns.length} columns, expected ${expectedColumns}`
+            `Row ${i + 2} has ${columns.length} columns, expected ${expectedColumns}`
           );
         }
-      }
+      });
 
-      if (lines.length === 1 && hasHeaders) {
+      if (rows.length === 1 && hasHeaders) {
         result.warnings.push("CSV contains only headers, no data rows");
       }
     } catch (error) {
@@ -526,26 +617,7 @@ export class ReferenceDataManager implements IReferenceDataManager {
     return result;
   }
 
-  private detectDelimiter(line: string): string {
-    const delimiters = [",", "\t", ";", "|"];
-    let bestDelimiter = ",";
-    let maxCount = 0;
-
-    for (const delimiter of delimiters) {
-      const count = (line.match(new RegExp(`\\${delimiter}`, "g")) || [])
-        .length;
-      if (count > maxCount) {
-        maxCount = count;
-        bestDelimiter = delimiter;
-      }
-    }
-
-    return bestDelimiter;
-  }
-
-  private detectHeaders(line: string, delimiter: string): boolean {
-    const columns = this.parseCsvLine(line, delimiter);
-
+  private detectHeaders(columns: string[]): boolean {
     // Check if all columns are strings without numbers
     return columns.every(col => {
       const trimmed = col.trim();
@@ -553,40 +625,6 @@ export class ReferenceDataManager implements IReferenceDataManager {
     });
   }
 
-  private parseCsvLine(line: string, delimiter: string): string[] {
-    if (!line.trim()) return [];
-
-    if (delimiter === "\t") {
-      return line.split("\t").map(field => field.trim());
-    }
-
-    // Handle CSV with quoted fields
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && i < line.length - 1 && line[i + 1] === '"') {
-          current += '"';
-          i++; // Skip next quote
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        result.push(current.trim());
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    result.push(current.trim());
-    return result;
-  }
-
   private async parseFileContent(
     content: string,
     format: "csv" | "json",
@@ -597,43 +635,16 @@ export class ReferenceDataManager implements IReferenceDataManager {
       return Array.isArray(parsed) ? parsed : [];
     }
 
-    // Parse CSV
-    const lines = content.trim().split("\n");
-    if (lines.length === 0) return [];
-
-    const delimiter = options.delimiter || ",";
-    const hasHeaders = options.hasHeaders !== false;
-
-    if (!hasHeaders) {
-      // Generate column names: col1, col2, etc.
-      const firstRow = this.parseCsvLine(lines[0], delimiter);
-      const headers = firstRow.map((_, i) => `col${i + 1}`);
-
-      return lines.map(line => {
-        const values = this.parseCsvLine(line, delimiter);
-        const row: Record<string, any> = {};
-        headers.forEach((header, i) => {
-          row[header] = values[i] || "";
-        });
-        return row;
-      });
-    }
-
-    // Parse with headers
-    const headers = this.parseCsvLine(lines[0], delimiter);
-    const dataRows = lines.slice(1);
-
-    return dataRows.map(line => {
-      const values = this.parseCsvLine(line, delimiter);
-      const row: Record<string, any> = {};
-      headers.forEach((header, i) => {
-        row[header] = values[i] || "";
-      });
-      return row;
+    const { rows } = parseCsv(content, {
+      delimiter: options.delimiter,
+      strict: false,
     });
+    return csvRowsToObjects(rows, { hasHeaders: options.hasHeaders !== false });
   }
 
   private storeReferenceData(id: string, data: ReferenceData): void {
+    this.fuzzyIndexes.delete(id);
+    this.versions.delete(id);
     const key = this.getStorageKey(id);
     storage.setItem(key, data);
   }
@@ -0,0 +1,91 @@
+/**
+ * Tests for Schema Drift Detection
+ *
+ * Covers dropped, added and renamed columns between the last applied mapping
+ * of a shape and a new file.
+ */
+
+import { describe, it, expect } from "vitest";
+import { detectSchemaDrift, scoreColumnRename } from "./schema-drift";
+import type { AppliedMappingSnapshot } from "../types/mapping-memory";
+import type { TargetField } from "../types/target-shapes";
+
+const fields: TargetField[] = [
+  { id: "f_emp", name: "employee_id", type: "string", required: true },
+  { id: "f_email", name: "email", type: "email", required: true },
+  { id: "f_name", name: "full_name", type: "string", required: false },
+  { id: "f_dept", name: "department", type: "string", required: false },
+];
+
+const lastMapping: AppliedMappingSnapshot = {
+  targetShapeId: "shape_1",
+  sourceColumns: ["Emp #", "E-mail", "First", "Last", "Dept", "Notes"],
+  columnMapping: { f_emp: "Emp #", f_email: "E-mail", f_dept: "Dept" },
+  mappingRules: [
+    {
+      kind: "combine",
+      targetFieldId: "f_name",
+      sourceColumns: ["First", "Last"],
+    },
+  ],
+  appliedAt: "2024-03-01T00:00:00.000Z",
+};
+
+describe("detectSchemaDrift", () => {
+  it("should report no drift for the same headers in another case or order", () => {
+    const drift = detectSchemaDrift(
+      lastMapping,
+      ["notes", "DEPT", "Last", "First", "e-mail", "Emp #"],
+      fields
+    );
+
+    expect(drift.hasDrift).toBe(false);
+  });
+
+  it("should report dropped columns with the fields they filled", () => {
+    const drift = detectSchemaDrift(
+      lastMapping,
+      ["Emp #", "E-mail", "First", "Notes"],
+      fields
+    );
+
+    expect(drift.droppedColumns).toEqual([
+      { column: "Last", fieldNames: ["full_name"] },
+      { column: "Dept", fieldNames: ["department"] },
+    ]);
+    expect(drift.renamedColumns).toEqual([]);
+    expect(drift.hasDrift).toBe(true);
+  });
+
+  it("should pair likely renames and keep the rest as added", () => {
+    const drift = detectSchemaDrift(
+      lastMapping,
+      ["Emp #", "Email Address", "First", "Last", "Department", "Region"],
+      fields
+    );
+
+    expect(
+      drift.renamedColumns.map(({ from, to, fieldNames }) => ({
+        from,
+        to,
+        fieldNames,
+      }))
+    ).toEqual([
+      { from: "E-mail", to: "Email Address", fieldNames: ["email"] },
+      { from: "Dept", to: "Department", fieldNames: ["department"] },
+    ]);
+    expect(drift.addedColumns).toEqual(["Region"]);
+    expect(drift.droppedColumns).toEqual([{ column: "Notes", fieldNames: [] }]);
+  });
+});
+
+describe("scoreColumnRename", () => {
+  it("should use the tokens of the fields a column filled", () => {
+    expect(scoreColumnRename("Contact", "Email Address")).toBeLessThan(0.6);
+    expect(
+      scoreColumnRename("Contact", "Email Address", [
+        { id: "f_email", name: "email", type: "email" },
+      ])
+    ).toBeGreaterThanOrEqual(0.85);
+  });
+});
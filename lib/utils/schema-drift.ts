@@ -0,0 +1,194 @@
+/**
+ * Schema Drift Detection
+ *
+ * Compares the headers of a file being mapped to a target shape with the
+ * mapping last applied to that shape. Columns that disappeared, appeared or
+ * were probably renamed are reported so the user can review them before a
+ * mapped column silently drops out of the result.
+ *
+ * Renames are detected by pairing each dropped column with an added one:
+ * header similarity (`combinedSimilarity`) and shared token-builder
+ * variations of the header, or of the fields it used to fill ("E-mail" was
+ * mapped to `email`, "Email Address" is an email header).
+ *
+ * @example
+ * ```typescript
+ * import { detectSchemaDrift } from './schema-drift';
+ *
+ * const drift = detectSchemaDrift(lastMapping, ['Emp #', 'Email Address'], shape.fields);
+ * // {
+ * //   addedColumns: [],
+ * //   droppedColumns: [{ column: 'Notes', fieldNames: [] }],
+ * //   renamedColumns: [{ from: 'E-mail', to: 'Email Address', fieldNames: ['email'], ... }],
+ * //   hasDrift: true
+ * // }
+ * ```
+ */
+
+import type { AppliedMappingSnapshot } from "../types/mapping-memory";
+import type { TargetField } from "../types/target-shapes";
+import { combinedSimilarity, normalizeString } from "./string-similarity";
+import {
+  generateColumnVariations,
+  generateFieldVariations,
+} from "./token-builders";
+import { normalizeSourceHeader } from "./mapping-memory-storage";
+
+/**
+ * A previous column missing from the new file
+ */
+export interface DroppedColumn {
+  column: string;
+  /** Target fields the column filled last time */
+  fieldNames: string[];
+}
+
+/**
+ * A previous column that probably reappears under a new header
+ */
+export interface RenamedColumn {
+  from: string;
+  to: string;
+  /** Confidence from 0 to 1 */
+  similarity: number;
+  /** Target fields the column filled last time */
+  fieldNames: string[];
+}
+
+export interface SchemaDriftReport {
+  /** New columns not in the last mapped file (renames excluded) */
+  addedColumns: string[];
+  /** Columns of the last mapped file missing now (renames excluded) */
+  droppedColumns: DroppedColumn[];
+  renamedColumns: RenamedColumn[];
+  hasDrift: boolean;
+}
+
+/** Pairs scoring below this are reported as a drop plus an addition */
+export const RENAME_THRESHOLD = 0.6;
+
+const TOKEN_MATCH_SIMILARITY = 0.85;
+
+const normalizeHeader = (header: string) =>
+  normalizeString(header, { removeNonAlphanumeric: true });
+
+/**
+ * Target field names filled from each source column in a mapping
+ */
+function getFieldsByColumn(
+  snapshot: AppliedMappingSnapshot,
+  fields: Pick<TargetField, "id" | "name">[]
+): Map<string, string[]> {
+  const fieldName = (fieldId: string) =>
+    fields.find(field => field.id === fieldId)?.name ?? fieldId;
+  const byColumn = new Map<string, string[]>();
+  const add = (column: string, fieldId: string) =>
+    byColumn.set(column, [...(byColumn.get(column) ?? []), fieldName(fieldId)]);
+
+  Object.entries(snapshot.columnMapping).forEach(([fieldId, column]) => {
+    if (column) add(column, fieldId);
+  });
+  snapshot.mappingRules?.forEach(rule => {
+    if (rule.kind === "combine") {
+      rule.sourceColumns.forEach(column => add(column, rule.targetFieldId));
+    } else {
+      rule.targets.forEach(target =>
+        add(rule.sourceColumn, target.targetFieldId)
+      );
+    }
+  });
+
+  return byColumn;
+}
+
+/**
+ * Likelihood that `to` is `from` under a new header
+ */
+export function scoreColumnRename(
+  from: string,
+  to: string,
+  mappedFields: Pick<TargetField, "id" | "name" | "type">[] = []
+): number {
+  const similarity = combinedSimilarity(
+    normalizeHeader(from),
+    normalizeHeader(to)
+  );
+
+  const fromTokens = new Set(generateColumnVariations(from));
+  mappedFields.forEach(field =>
+    generateFieldVariations(field.name, field.id, field.type).forEach(token =>
+      fromTokens.add(token)
+    )
+  );
+  const sharesToken = [...generateColumnVariations(to)].some(token =>
+    fromTokens.has(token)
+  );
+
+  return sharesToken
+    ? Math.max(similarity, TOKEN_MATCH_SIMILARITY)
+    : similarity;
+}
+
+/**
+ * Compare a file's headers with the mapping last applied to the shape
+ */
+export function detectSchemaDrift(
+  lastMapping: AppliedMappingSnapshot,
+  columns: string[],
+  fields: TargetField[]
+): SchemaDriftReport {
+  const previous = new Set(
+    lastMapping.sourceColumns.map(normalizeSourceHeader)
+  );
+  const current = new Set(columns.map(normalizeSourceHeader));
+
+  const removed = lastMapping.sourceColumns.filter(
+    column => !current.has(normalizeSourceHeader(column))
+  );
+  const added = columns.filter(
+    column => !previous.has(normalizeSourceHeader(column))
+  );
+  const fieldsByColumn = getFieldsByColumn(lastMapping, fields);
+
+  // Score every dropped/added pair, then pair greedily from the best score
+  const candidates = removed
+    .flatMap(from => {
+      const fieldNames = fieldsByColumn.get(from) ?? [];
+      const mappedFields = fields.filter(field =>
+        fieldNames.includes(field.name)
+      );
+      return added.map(to => ({
+        from,
+        to,
+        fieldNames,
+        similarity: scoreColumnRename(from, to, mappedFields),
+      }));
+    })
+    .filter(candidate => candidate.similarity >= RENAME_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const renamedColumns: RenamedColumn[] = [];
+  const pairedFrom = new Set<string>();
+  const pairedTo = new Set<string>();
+  candidates.forEach(candidate => {
+    if (pairedFrom.has(candidate.from) || pairedTo.has(candidate.to)) return;
+    pairedFrom.add(candidate.from);
+    pairedTo.add(candidate.to);
+    renamedColumns.push(candidate);
+  });
+
+  const droppedColumns = removed
+    .filter(column => !pairedFrom.has(column))
+    .map(column => ({ column, fieldNames: fieldsByColumn.get(column) ?? [] }));
+  const addedColumns = added.filter(column => !pairedTo.has(column));
+
+  return {
+    addedColumns,
+    droppedColumns,
+    renamedColumns,
+    hasDrift:
+      addedColumns.length > 0 ||
+      droppedColumns.length > 0 ||
+      renamedColumns.length > 0,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for Spreadsheet Parser
+ *
+ * Workbooks are built in memory with SheetJS and round-tripped through the
+ * xlsx and ods writers to exercise the same code path as uploaded files.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  readWorkbook,
+  sheetToRows,
+  matrixToRows,
+  excelSerialToISO,
+  isSpreadsheetFile,
+  SpreadsheetParseError,
+} from "./spreadsheet-parser";
+
+const buildWorkbook = (bookType: XLSX.BookType = "xlsx"): Uint8Array => {
+  const orders = XLSX.utils.aoa_to_sheet([
+    ["Quarterly export"],
+    [],
+    ["Order ID", "Customer", "Placed On", "Total"],
+    [1001, "Acme", 45356, 99.5],
+    [1002, "Globex", 45357.5, 12],
+  ]);
+  // Mark the "Placed On" column as dates
+  orders["C4"].z = "yyyy-mm-dd";
+  orders["C5"].z = "yyyy-mm-dd hh:mm";
+
+  const customers = XLSX.utils.aoa_to_sheet([
+    ["Name", "Name", ""],
+    ["Acme", "ACME Corp", "x"],
+  ]);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, orders, "Orders");
+  XLSX.utils.book_append_sheet(workbook, customers, "Customers");
+  return XLSX.write(workbook, { type: "array", bookType }) as Uint8Array;
+};
+
+describe("isSpreadsheetFile", () => {
+  it("should detect spreadsheet extensions", () => {
+    expect(isSpreadsheetFile("report.XLSX")).toBe(true);
+    expect(isSpreadsheetFile("legacy.xls")).toBe(true);
+    expect(isSpreadsheetFile("open.ods")).toBe(true);
+    expect(isSpreadsheetFile("data.csv")).toBe(false);
+  });
+});
+
+describe("excelSerialToISO", () => {
+  it("should convert whole-day serials to dates", () => {
+    expect(excelSerialToISO(45356)).toBe("2024-03-05");
+    expect(excelSerialToISO(1)).toBe("1899-12-31");
+  });
+
+  it("should keep the time part when present", () => {
+    expect(excelSerialToISO(45357.5)).toBe("2024-03-06T12:00:00");
+    expect(excelSerialToISO(0.25)).toBe("06:00:00");
+  });
+
+  it("should support the 1904 date system", () => {
+    expect(excelSerialToISO(43894, true)).toBe("2024-03-05");
+  });
+});
+
+describe("readWorkbook", () => {
+  it("should list sheets with their dimensions", () => {
+    const workbook = readWorkbook(buildWorkbook());
+
+    expect(workbook.sheets).toEqual([
+      { name: "Orders", rowCount: 5, columnCount: 4 },
+      { name: "Customers", rowCount: 2, columnCount: 3 },
+    ]);
+  });
+
+  it("should throw SpreadsheetParseError for missing sheets", () => {
+    const workbook = readWorkbook(buildWorkbook());
+    expect(() => sheetToRows(workbook, "Missing")).toThrow(
+      SpreadsheetParseError
+    );
+  });
+});
+
+describe("sheetToRows", () => {
+  it("should use the selected header row and convert date serials", () => {
+    const workbook = readWorkbook(buildWorkbook());
+    const rows = sheetToRows(workbook, "Orders", { headerRow: 2 });
+
+    expect(rows).toEqual([
+      {
+        "Order ID": 1001,
+        Customer: "Acme",
+        "Placed On": "2024-03-05",
+        Total: 99.5,
+      },
+      {
+        "Order ID": 1002,
+        Customer: "Globex",
+        "Placed On": "2024-03-06T12:00:00",
+        Total: 12,
+      },
+    ]);
+  });
+
+  it("should keep raw serials when date conversion is disabled", () => {
+    const workbook = readWorkbook(buildWorkbook());
+    const rows = sheetToRows(workbook, "Orders", {
+      headerRow: 2,
+      convertDates: false,
+    });
+
+    expect(rows[0]["Placed On"]).toBe(45356);
+  });
+
+  it("should de-duplicate and fill blank headers", () => {
+    const workbook = readWorkbook(buildWorkbook());
+    const rows = sheetToRows(workbook, "Customers");
+
+    expect(rows).toEqual([{ Name: "Acme", Name_2: "ACME Corp", col3: "x" }]);
+  });
+
+  it("should read ods workbooks", () => {
+    const workbook = readWorkbook(buildWorkbook("ods"));
+    const rows = sheetToRows(workbook, "Orders", { headerRow: 2 });
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].Customer).toBe("Acme");
+  });
+});
+
+describe("matrixToRows", () => {
+  it("should generate column names without headers and skip blank rows", () => {
+    expect(
+      matrixToRows(
+        [
+          ["a", 1],
+          ["", ""],
+          ["b", 2],
+        ],
+        { hasHeaders: false }
+      )
+    ).toEqual([
+      { col1: "a", col2: 1 },
+      { col1: "b", col2: 2 },
+    ]);
+  });
+});
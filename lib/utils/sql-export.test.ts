@@ -0,0 +1,300 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertToSql,
+  formatSqlValue,
+  generateCreateTable,
+  getSqlColumns,
+  getSqlColumnType,
+  quoteIdentifier,
+  toSqlTableName,
+} from "./sql-export";
+import type { TargetShape } from "@/lib/types/target-shapes";
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Employee Roster",
+  fields: [
+    { id: "f1", name: "employee_id", type: "string", required: true },
+    { id: "f2", name: "name", type: "string", required: false },
+    { id: "f3", name: "salary", type: "currency", required: false },
+    { id: "f4", name: "active", type: "boolean", required: false },
+    { id: "f5", name: "start_date", type: "date", required: false },
+  ],
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const rows = [
+  {
+    _rowId: "row-1",
+    employee_id: "E1",
+    name: "O'Brien",
+    salary: "50000.5",
+    active: "yes",
+    start_date: "2024-01-15",
+  },
+  {
+    _rowId: "row-2",
+    employee_id: "E2",
+    name: "Bo",
+    salary: "",
+    active: "false",
+    start_date: "2024-02-01",
+  },
+];
+
+describe("quoteIdentifier", () => {
+  it("should quote and escape per dialect", () => {
+    expect(quoteIdentifier('my "col"', "postgresql")).toBe('"my ""col"""');
+    expect(quoteIdentifier("my `col`", "mysql")).toBe("`my ``col```");
+    expect(quoteIdentifier("my [col]", "sqlserver")).toBe("[my [col]]]");
+    expect(quoteIdentifier("col", "sqlite")).toBe('"col"');
+  });
+});
+
+describe("formatSqlValue", () => {
+  it("should escape strings per dialect", () => {
+    expect(formatSqlValue("O'Brien", "string", "postgresql")).toBe(
+      "'O''Brien'"
+    );
+    expect(formatSqlValue("C:\\temp's", "string", "mysql")).toBe(
+      "'C:\\\\temp''s'"
+    );
+    expect(formatSqlValue("C:\\temp", "string", "postgresql")).toBe(
+      "'C:\\temp'"
+    );
+    expect(formatSqlValue("Zoë", "string", "sqlserver")).toBe("N'Zoë'");
+  });
+
+  it("should write empty values as NULL", () => {
+    expect(formatSqlValue("", "string", "postgresql")).toBe("NULL");
+    expect(formatSqlValue(null, "number", "mysql")).toBe("NULL");
+    expect(formatSqlValue(undefined, "boolean", "sqlite")).toBe("NULL");
+  });
+
+  it("should write numbers unquoted and keep unparseable values as text", () => {
+    expect(formatSqlValue("42.5", "decimal", "postgresql")).toBe("42.5");
+    expect(formatSqlValue(7, "string", "postgresql")).toBe("7");
+    expect(formatSqlValue("$5", "currency", "postgresql")).toBe("'$5'");
+  });
+
+  it("should write booleans per dialect", () => {
+    expect(formatSqlValue("yes", "boolean", "postgresql")).toBe("TRUE");
+    expect(formatSqlValue(false, "boolean", "mysql")).toBe("FALSE");
+    expect(formatSqlValue("true", "boolean", "sqlite")).toBe("1");
+    expect(formatSqlValue("no", "boolean", "sqlserver")).toBe("0");
+  });
+
+  it("should write objects as JSON text", () => {
+    expect(formatSqlValue({ a: "it's" }, "object", "postgresql")).toBe(
+      `'{"a":"it''s"}'`
+    );
+  });
+});
+
+describe("getSqlColumnType", () => {
+  it("should map field types per dialect", () => {
+    expect(getSqlColumnType("currency", "postgresql")).toBe("DECIMAL(18, 4)");
+    expect(getSqlColumnType("boolean", "sqlserver")).toBe("BIT");
+    expect(getSqlColumnType("datetime", "mysql")).toBe("DATETIME");
+    expect(getSqlColumnType("object", "postgresql")).toBe("JSONB");
+    expect(getSqlColumnType("integer", "sqlite")).toBe("INTEGER");
+  });
+
+  it("should bound text key columns in MySQL and SQL Server", () => {
+    expect(getSqlColumnType("string", "mysql")).toBe("TEXT");
+    expect(getSqlColumnType("string", "mysql", true)).toBe("VARCHAR(255)");
+    expect(getSqlColumnType("string", "sqlserver", true)).toBe("NVARCHAR(255)");
+    expect(getSqlColumnType("string", "postgresql", true)).toBe("TEXT");
+  });
+});
+
+describe("getSqlColumns", () => {
+  it("should type columns from the target shape", () => {
+    expect(getSqlColumns(rows, shape)).toEqual([
+      { name: "employee_id", type: "string", required: true },
+      { name: "name", type: "string", required: false },
+      { name: "salary", type: "currency", required: false },
+      { name: "active", type: "boolean", required: false },
+      { name: "start_date", type: "date", required: false },
+    ]);
+  });
+
+  it("should type columns from values without a shape", () => {
+    expect(
+      getSqlColumns([
+        { id: 1, score: 1.5, ok: true, note: "a" },
+        { id: 2, score: "", ok: false, note: 3 },
+      ])
+    ).toEqual([
+      { name: "id", type: "integer", required: false },
+      { name: "score", type: "number", required: false },
+      { name: "ok", type: "boolean", required: false },
+      { name: "note", type: "string", required: false },
+    ]);
+  });
+});
+
+describe("toSqlTableName", () => {
+  it("should convert names to snake_case", () => {
+    expect(toSqlTableName("Employee Roster")).toBe("employee_roster");
+    expect(toSqlTableName("orderItems (2024)")).toBe("order_items_2024");
+    expect(toSqlTableName("  ")).toBe("table_data");
+  });
+});
+
+describe("generateCreateTable", () => {
+  it("should create a table with a primary key", () => {
+    expect(
+      generateCreateTable(getSqlColumns(rows, shape), {
+        dialect: "postgresql",
+        tableName: "employees",
+        keyColumns: ["employee_id"],
+      })
+    ).toBe(
+      `CREATE TABLE IF NOT EXISTS "employees" (
+  "employee_id" TEXT NOT NULL,
+  "name" TEXT,
+  "salary" DECIMAL(18, 4),
+  "active" BOOLEAN,
+  "start_date" DATE,
+  PRIMARY KEY ("employee_id")
+);`
+    );
+  });
+
+  it("should guard SQL Server tables with OBJECT_ID", () => {
+    const ddl = generateCreateTable(
+      [{ name: "id", type: "string", required: false }],
+      { dialect: "sqlserver", tableName: "emp's" }
+    );
+
+    expect(ddl).toBe(
+      `IF OBJECT_ID(N'emp''s', N'U') IS NULL
+CREATE TABLE [emp's] (
+  [id] NVARCHAR(MAX)
+);`
+    );
+  });
+});
+
+describe("convertToSql", () => {
+  it("should emit DDL and batched inserts", () => {
+    const sql = convertToSql(
+      rows,
+      { dialect: "sqlite", tableName: "employees", batchSize: 1 },
+      shape
+    );
+
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "employees"');
+    expect(sql).toContain(
+      `INSERT INTO "employees" ("employee_id", "name", "salary", "active", "start_date") VALUES
+  ('E1', 'O''Brien', 50000.5, 1, '2024-01-15');`
+    );
+    expect(sql).toContain(`  ('E2', 'Bo', NULL, 0, '2024-02-01');`);
+    expect(sql.match(/INSERT INTO/g)).toHaveLength(2);
+    expect(sql).not.toContain("_rowId");
+  });
+
+  it("should skip DDL when asked", () => {
+    const sql = convertToSql(
+      rows,
+      { dialect: "postgresql", tableName: "t", includeCreateTable: false },
+      shape
+    );
+
+    expect(sql).not.toContain("CREATE TABLE");
+    expect(sql.match(/INSERT INTO/g)).toHaveLength(1);
+  });
+
+  const upsert = (dialect: "postgresql" | "mysql" | "sqlite" | "sqlserver") =>
+    convertToSql(
+      rows,
+      {
+        dialect,
+        tableName: "employees",
+        includeCreateTable: false,
+        mode: "upsert",
+        keyColumns: ["employee_id"],
+      },
+      shape
+    );
+
+  it("should upsert with ON CONFLICT in PostgreSQL and SQLite", () => {
+    expect(upsert("postgresql")).toContain(
+      `ON CONFLICT ("employee_id") DO UPDATE SET "name" = excluded."name", "salary" = excluded."salary", "active" = excluded."active", "start_date" = excluded."start_date";`
+    );
+    expect(upsert("sqlite")).toContain('ON CONFLICT ("employee_id")');
+  });
+
+  it("should upsert with ON DUPLICATE KEY in MySQL", () => {
+    expect(upsert("mysql")).toContain(
+      "ON DUPLICATE KEY UPDATE `name` = VALUES(`name`), `salary` = VALUES(`salary`), `active` = VALUES(`active`), `start_date` = VALUES(`start_date`);"
+    );
+  });
+
+  it("should upsert with MERGE in SQL Server", () => {
+    const sql = upsert("sqlserver");
+
+    expect(sql).toContain("MERGE INTO [employees] AS target");
+    expect(sql).toContain(
+      ") AS source ([employee_id], [name], [salary], [active], [start_date])"
+    );
+    expect(sql).toContain("ON target.[employee_id] = source.[employee_id]");
+    expect(sql).toContain(
+      "WHEN MATCHED THEN UPDATE SET [name] = source.[name]"
+    );
+    expect(sql).toContain(
+      "WHEN NOT MATCHED THEN INSERT ([employee_id], [name], [salary], [active], [start_date]) VALUES (source.[employee_id]"
+    );
+    expect(sql.trim().endsWith(";")).toBe(true);
+  });
+
+  it("should do nothing on conflict when only key columns exist", () => {
+    const sql = convertToSql([{ id: "1" }], {
+      dialect: "postgresql",
+      tableName: "t",
+      includeCreateTable: false,
+      mode: "upsert",
+      keyColumns: ["id"],
+    });
+
+    expect(sql).toContain('ON CONFLICT ("id") DO NOTHING;');
+  });
+
+  it("should cap SQL Server batches at 1000 rows", () => {
+    const many = Array.from({ length: 1001 }, (_, i) => ({ id: i }));
+    const sql = convertToSql(many, {
+      dialect: "sqlserver",
+      tableName: "t",
+      includeCreateTable: false,
+      batchSize: 5000,
+    });
+
+    expect(sql.match(/INSERT INTO/g)).toHaveLength(2);
+  });
+
+  it("should reject missing data, keys and table names", () => {
+    expect(() =>
+      convertToSql([], { dialect: "postgresql", tableName: "t" })
+    ).toThrow("No data provided for SQL conversion");
+    expect(() =>
+      convertToSql(rows, { dialect: "postgresql", tableName: " " })
+    ).toThrow("A table name is required for SQL export");
+    expect(() =>
+      convertToSql(rows, {
+        dialect: "postgresql",
+        tableName: "t",
+        mode: "upsert",
+      })
+    ).toThrow("Upserts need at least one key column");
+    expect(() =>
+      convertToSql(rows, {
+        dialect: "postgresql",
+        tableName: "t",
+        keyColumns: ["missing"],
+      })
+    ).toThrow("Unknown key column: missing");
+  });
+});
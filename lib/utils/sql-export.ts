@@ -0,0 +1,405 @@
+/**
+ * SQL Export Utilities
+ *
+ * Converts table data to SQL for PostgreSQL, MySQL, SQLite and SQL Server:
+ * optional `CREATE TABLE` DDL with column types taken from the target shape,
+ * followed by batched `INSERT` statements or upserts.
+ */
+
+import type { FieldType, TargetShape } from "@/lib/types/target-shapes";
+
+export type SqlDialect = "postgresql" | "mysql" | "sqlite" | "sqlserver";
+
+export const SQL_DIALECTS: { value: SqlDialect; label: string }[] = [
+  { value: "postgresql", label: "PostgreSQL" },
+  { value: "mysql", label: "MySQL" },
+  { value: "sqlite", label: "SQLite" },
+  { value: "sqlserver", label: "SQL Server" },
+];
+
+export interface SqlExportOptions {
+  dialect: SqlDialect;
+  tableName: string;
+  /** Emit `CREATE TABLE` before the data (default true) */
+  includeCreateTable?: boolean;
+  /** Plain inserts, or upserts on `keyColumns` (default insert) */
+  mode?: "insert" | "upsert";
+  /** Columns identifying a row; the primary key and upsert conflict target */
+  keyColumns?: string[];
+  /** Rows per statement (default 100) */
+  batchSize?: number;
+}
+
+export interface SqlColumn {
+  name: string;
+  type: FieldType;
+  required: boolean;
+}
+
+/** SQL Server accepts at most 1000 rows in one VALUES list */
+const SQLSERVER_MAX_ROWS = 1000;
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+const NUMERIC_TYPES: FieldType[] = [
+  "number",
+  "integer",
+  "decimal",
+  "currency",
+  "percentage",
+];
+
+/**
+ * Quotes a table or column name for a dialect
+ *
+ * @param name - Identifier to quote
+ * @param dialect - Target SQL dialect
+ * @returns Quoted identifier
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  switch (dialect) {
+    case "mysql":
+      return `\`${name.replace(/`/g, "``")}\``;
+    case "sqlserver":
+      return `[${name.replace(/]/g, "]]")}]`;
+    default:
+      return `"${name.replace(/"/g, '""')}"`;
+  }
+}
+
+/**
+ * Quotes a string literal for a dialect
+ *
+ * MySQL treats backslashes in literals as escapes, so they are doubled;
+ * SQL Server literals are prefixed with N to keep Unicode text.
+ */
+function quoteString(value: string, dialect: SqlDialect): string {
+  const escaped =
+    dialect === "mysql"
+      ? value.replace(/\\/g, "\\\\").replace(/'/g, "''")
+      : value.replace(/'/g, "''");
+  return dialect === "sqlserver" ? `N'${escaped}'` : `'${escaped}'`;
+}
+
+/**
+ * Formats a value as a SQL literal for a column type
+ *
+ * Empty values become NULL. Values that don't parse as the column type are
+ * written as strings so the database reports them.
+ *
+ * @param value - Cell value
+ * @param type - Field type of the column
+ * @param dialect - Target SQL dialect
+ * @returns SQL literal
+ */
+export function formatSqlValue(
+  value: unknown,
+  type: FieldType,
+  dialect: SqlDialect
+): string {
+  if (value === null || value === undefined || value === "") return "NULL";
+
+  if (type === "boolean" || typeof value === "boolean") {
+    const text = String(value).trim().toLowerCase();
+    const bool = TRUE_VALUES.includes(text)
+      ? true
+      : FALSE_VALUES.includes(text)
+        ? false
+        : null;
+    if (bool !== null) {
+      return dialect === "postgresql" || dialect === "mysql"
+        ? String(bool).toUpperCase()
+        : bool
+          ? "1"
+          : "0";
+    }
+  }
+
+  if (NUMERIC_TYPES.includes(type) || typeof value === "number") {
+    const number = typeof value === "number" ? value : Number(String(value));
+    if (String(value).trim() !== "" && Number.isFinite(number)) {
+      return String(number);
+    }
+  }
+
+  if (value instanceof Date) return quoteString(value.toISOString(), dialect);
+  if (typeof value === "object") {
+    return quoteString(JSON.stringify(value), dialect);
+  }
+
+  return quoteString(String(value), dialect);
+}
+
+/**
+ * Column type for a field type
+ *
+ * Key columns of text types get a bounded length, since MySQL and SQL
+ * Server can't index unbounded text.
+ *
+ * @param type - Field type
+ * @param dialect - Target SQL dialect
+ * @param isKey - Whether the column is part of the primary key
+ * @returns SQL column type
+ */
+export function getSqlColumnType(
+  type: FieldType,
+  dialect: SqlDialect,
+  isKey = false
+): string {
+  switch (type) {
+    case "integer":
+      return dialect === "sqlite" ? "INTEGER" : "BIGINT";
+    case "number":
+      return {
+        postgresql: "DOUBLE PRECISION",
+        mysql: "DOUBLE",
+        sqlite: "REAL",
+        sqlserver: "FLOAT",
+      }[dialect];
+    case "decimal":
+    case "currency":
+    case "percentage":
+      return dialect === "sqlite" ? "NUMERIC" : "DECIMAL(18, 4)";
+    case "boolean":
+      return {
+        postgresql: "BOOLEAN",
+        mysql: "BOOLEAN",
+        sqlite: "INTEGER",
+        sqlserver: "BIT",
+      }[dialect];
+    case "date":
+      return dialect === "sqlite" ? "TEXT" : "DATE";
+    case "datetime":
+      return {
+        postgresql: "TIMESTAMP",
+        mysql: "DATETIME",
+        sqlite: "TEXT",
+        sqlserver: "DATETIME2",
+      }[dialect];
+    case "array":
+    case "object":
+      return {
+        postgresql: "JSONB",
+        mysql: "JSON",
+        sqlite: "TEXT",
+        sqlserver: "NVARCHAR(MAX)",
+      }[dialect];
+    default:
+      if (dialect === "mysql") return isKey ? "VARCHAR(255)" : "TEXT";
+      if (dialect === "sqlserver") {
+        return isKey ? "NVARCHAR(255)" : "NVARCHAR(MAX)";
+      }
+      return "TEXT";
+  }
+}
+
+/**
+ * Columns to export, typed from the target shape
+ *
+ * Columns without a field (or all columns, without a shape) are typed from
+ * their values: numbers, booleans, or text.
+ *
+ * @param rows - Table rows
+ * @param targetShape - Applied target shape, if any
+ * @returns Columns in data order
+ */
+export function getSqlColumns(
+  rows: Record<string, unknown>[],
+  targetShape?: TargetShape | null
+): SqlColumn[] {
+  const names = new Set<string>();
+  rows.forEach(row =>
+    Object.keys(row).forEach(key => {
+      if (!key.startsWith("_")) names.add(key);
+    })
+  );
+
+  return [...names].map(name => {
+    const field = targetShape?.fields.find(f => f.name === name);
+    if (field) {
+      return { name, type: field.type, required: field.required };
+    }
+
+    const values = rows
+      .map(row => row[name])
+      .filter(value => value !== null && value !== undefined && value !== "");
+    const type: FieldType =
+      values.length > 0 && values.every(value => typeof value === "boolean")
+        ? "boolean"
+        : values.length > 0 && values.every(value => typeof value === "number")
+          ? values.every(value => Number.isInteger(value))
+            ? "integer"
+            : "number"
+          : "string";
+    return { name, type, required: false };
+  });
+}
+
+/**
+ * Converts a name to a snake_case table name
+ *
+ * @param name - Target shape or file name
+ * @returns Table name
+ */
+export function toSqlTableName(name: string): string {
+  return (
+    name
+      .trim()
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[^a-zA-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .toLowerCase() || "table_data"
+  );
+}
+
+/**
+ * Generates CREATE TABLE DDL
+ *
+ * @param columns - Columns to create
+ * @param options - Dialect, table name and key columns
+ * @returns CREATE TABLE statement
+ */
+export function generateCreateTable(
+  columns: SqlColumn[],
+  options: Pick<SqlExportOptions, "dialect" | "tableName" | "keyColumns">
+): string {
+  const { dialect, tableName, keyColumns = [] } = options;
+  const quote = (name: string) => quoteIdentifier(name, dialect);
+
+  const definitions = columns.map(column => {
+    const isKey = keyColumns.includes(column.name);
+    const notNull = column.required || isKey ? " NOT NULL" : "";
+    return `  ${quote(column.name)} ${getSqlColumnType(column.type, dialect, isKey)}${notNull}`;
+  });
+  if (keyColumns.length > 0) {
+    definitions.push(`  PRIMARY KEY (${keyColumns.map(quote).join(", ")})`);
+  }
+
+  const body = `(\n${definitions.join(",\n")}\n);`;
+  if (dialect === "sqlserver") {
+    return `IF OBJECT_ID(N'${tableName.replace(/'/g, "''")}', N'U') IS NULL\nCREATE TABLE ${quote(tableName)} ${body}`;
+  }
+  return `CREATE TABLE IF NOT EXISTS ${quote(tableName)} ${body}`;
+}
+
+/**
+ * Generates INSERT or upsert statements for one batch of rows
+ */
+function generateBatch(
+  rows: Record<string, unknown>[],
+  columns: SqlColumn[],
+  options: SqlExportOptions
+): string {
+  const { dialect, tableName, mode = "insert", keyColumns = [] } = options;
+  const quote = (name: string) => quoteIdentifier(name, dialect);
+  const table = quote(tableName);
+  const columnList = columns.map(column => quote(column.name)).join(", ");
+  const values = rows
+    .map(
+      row =>
+        `  (${columns
+          .map(column => formatSqlValue(row[column.name], column.type, dialect))
+          .join(", ")})`
+    )
+    .join(",\n");
+
+  const updateColumns = columns
+    .map(column => column.name)
+    .filter(name => !keyColumns.includes(name));
+
+  if (mode !== "upsert" || keyColumns.length === 0) {
+    return `INSERT INTO ${table} (${columnList}) VALUES\n${values};`;
+  }
+
+  switch (dialect) {
+    case "mysql": {
+      // Without columns to update, reassign a key so duplicates are skipped
+      const assignments = (
+        updateColumns.length > 0 ? updateColumns : keyColumns.slice(0, 1)
+      )
+        .map(name => `${quote(name)} = VALUES(${quote(name)})`)
+        .join(", ");
+      return `INSERT INTO ${table} (${columnList}) VALUES\n${values}\nON DUPLICATE KEY UPDATE ${assignments};`;
+    }
+    case "sqlserver": {
+      const on = keyColumns
+        .map(name => `target.${quote(name)} = source.${quote(name)}`)
+        .join(" AND ");
+      const matched =
+        updateColumns.length > 0
+          ? `\nWHEN MATCHED THEN UPDATE SET ${updateColumns
+              .map(name => `${quote(name)} = source.${quote(name)}`)
+              .join(", ")}`
+          : "";
+      const sourceColumns = columns
+        .map(column => `source.${quote(column.name)}`)
+        .join(", ");
+      return `MERGE INTO ${table} AS target\nUSING (VALUES\n${values}\n) AS source (${columnList})\nON ${on}${matched}\nWHEN NOT MATCHED THEN INSERT (${columnList}) VALUES (${sourceColumns});`;
+    }
+    default: {
+      const conflict = keyColumns.map(quote).join(", ");
+      const action =
+        updateColumns.length > 0
+          ? `DO UPDATE SET ${updateColumns
+              .map(name => `${quote(name)} = excluded.${quote(name)}`)
+              .join(", ")}`
+          : "DO NOTHING";
+      return `INSERT INTO ${table} (${columnList}) VALUES\n${values}\nON CONFLICT (${conflict}) ${action};`;
+    }
+  }
+}
+
+/**
+ * Converts table rows to SQL
+ *
+ * @param data - Table rows
+ * @param options - SQL export options
+ * @param targetShape - Applied target shape, used for column types
+ * @returns SQL script
+ * @throws Error if there is no data or an upsert has no key columns
+ */
+export function convertToSql(
+  data: Record<string, unknown>[],
+  options: SqlExportOptions,
+  targetShape?: TargetShape | null
+): string {
+  if (!data || data.length === 0) {
+    throw new Error("No data provided for SQL conversion");
+  }
+  if (!options.tableName.trim()) {
+    throw new Error("A table name is required for SQL export");
+  }
+
+  const keyColumns = options.keyColumns ?? [];
+  if (options.mode === "upsert" && keyColumns.length === 0) {
+    throw new Error("Upserts need at least one key column");
+  }
+
+  const columns = getSqlColumns(data, targetShape);
+  const missingKeys = keyColumns.filter(
+    key => !columns.some(column => column.name === key)
+  );
+  if (missingKeys.length > 0) {
+    throw new Error(`Unknown key column: ${missingKeys.join(", ")}`);
+  }
+
+  let batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  if (options.dialect === "sqlserver") {
+    batchSize = Math.min(batchSize, SQLSERVER_MAX_ROWS);
+  }
+
+  const statements: string[] = [];
+  if (options.includeCreateTable !== false) {
+    statements.push(generateCreateTable(columns, options));
+  }
+  for (let start = 0; start < data.length; start += batchSize) {
+    statements.push(
+      generateBatch(data.slice(start, start + batchSize), columns, options)
+    );
+  }
+
+  return statements.join("\n\n") + "\n";
+}
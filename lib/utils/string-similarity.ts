@@ -5,6 +5,8 @@
  * Includes Levenshtein distance, Jaro-Winkler similarity, and optimized normalization.
  */
 
+import type { FuzzyIndex } from "./fuzzy-index";
+
 /**
  * Calculate Levenshtein distance between two strings
  * Uses dynamic programming with space optimization
@@ -322,18 +324,38 @@ export interface SimilarityMetrics {
  * Benchmark similarity calculation performance
  * Useful for optimizing large dataset operations
  *
+ * Pass a list of candidates to benchmark a full candidate search instead of
+ * a single comparison; with a `fuzzyIndex` built over the same candidates
+ * only the indexed candidates are scored (always with the combined score).
+ *
  * @param str1 First string
- * @param str2 Second string
+ * @param str2 Second string, or candidate strings to search
  * @param algorithm Algorithm to benchmark
+ * @param fuzzyIndex Optional index over the candidates
  * @returns Performance metrics
  */
 export function benchmarkSimilarity(
   str1: string,
-  str2: string,
-  algorithm: "levenshtein" | "jaro" | "jaroWinkler" | "combined" = "combined"
+  str2: string | string[],
+  algorithm: "levenshtein" | "jaro" | "jaroWinkler" | "combined" = "combined",
+  fuzzyIndex?: FuzzyIndex
 ): SimilarityMetrics {
   const startTime = performance.now();
 
+  if (Array.isArray(str2)) {
+    let comparisons = str2.length;
+    if (fuzzyIndex) {
+      comparisons = fuzzyIndex.search(str1).comparisons;
+    } else {
+      findBestMatches(str1, str2);
+    }
+
+    return {
+      executionTime: performance.now() - startTime,
+      comparisons,
+    };
+  }
+
   let _result: number;
   switch (algorithm) {
     case "levenshtein":
@@ -11,13 +11,19 @@ import {
   setGrouping,
   setExpanded,
   setPagination,
-  setImportData,
   clearImportData,
   setLoading,
   setError,
-  setColumnOrder,
-  setAppliedTargetShapeId,
+  restoreTableSnapshot,
+  type TableState,
 } from "@/lib/features/tableSlice";
+import {
+  applyPatches,
+  createTableSnapshot,
+  getTableSnapshotAt,
+  invertPatches,
+  type TableSnapshot,
+} from "@/lib/utils/history-patches";
 
 export interface TimeTravelOptions {
   restoreData?: boolean;
@@ -26,13 +32,17 @@ export interface TimeTravelOptions {
   restoreVisibility?: boolean;
   restorePagination?: boolean;
   restoreImportData?: boolean;
+  /** Restore the state before the action instead of after it */
+  undo?: boolean;
 }
 
-export const restoreStateToAction = (
-  dispatch: AppDispatch,
-  action: HistoryAction,
-  options: TimeTravelOptions = {}
-) => {
+/**
+ * Build the table state to restore from a snapshot, honouring the options
+ */
+const buildRestoredState = (
+  snapshot: Partial<TableSnapshot>,
+  options: TimeTravelOptions
+): Partial<TableState> => {
   const {
     restoreData = true,
     restoreSorting = true,
@@ -42,84 +52,125 @@ export const restoreStateToAction = (
     restoreImportData = true,
   } = options;
 
-  if (!action.stateSnapshot) {
-    console.warn("No state snapshot available for action:", action.type);
-    return;
-  }
-
-  const snapshot = action.stateSnapshot;
+  const restored: Partial<TableState> = {};
 
   // Restore data
   if (restoreData && snapshot.data) {
-    dispatch(setData(snapshot.data));
+    restored.data = snapshot.data;
+    restored.error = null;
   }
 
   // Restore sorting
   if (restoreSorting && snapshot.sorting) {
-    dispatch(setSorting(snapshot.sorting));
+    restored.sorting = snapshot.sorting;
   }
 
-  // Restore column filters
+  // Restore column and global filters
   if (restoreFilters && snapshot.columnFilters) {
-    dispatch(setColumnFilters(snapshot.columnFilters));
+    restored.columnFilters = snapshot.columnFilters;
   }
-
-  // Restore global filter
   if (restoreFilters && snapshot.globalFilter !== undefined) {
-    dispatch(setGlobalFilter(snapshot.globalFilter));
+    restored.globalFilter = snapshot.globalFilter;
   }
 
-  // Restore column visibility
+  // Restore column visibility, row selection, grouping and expanded state
   if (restoreVisibility && snapshot.columnVisibility) {
-    dispatch(setColumnVisibility(snapshot.columnVisibility));
+    restored.columnVisibility = snapshot.columnVisibility;
   }
-
-  // Restore row selection
   if (restoreVisibility && snapshot.rowSelection) {
-    dispatch(setRowSelection(snapshot.rowSelection));
+    restored.rowSelection = snapshot.rowSelection;
   }
-
-  // Restore grouping
   if (restoreVisibility && snapshot.grouping) {
-    dispatch(setGrouping(snapshot.grouping));
+    restored.grouping = snapshot.grouping;
   }
-
-  // Restore expanded state
   if (restoreVisibility && snapshot.expanded) {
-    dispatch(setExpanded(snapshot.expanded));
+    restored.expanded = snapshot.expanded;
   }
 
   // Restore pagination
   if (restorePagination && snapshot.pagination) {
-    dispatch(setPagination(snapshot.pagination));
+    restored.pagination = snapshot.pagination;
   }
 
   // Restore import data
   if (restoreImportData) {
-    if (snapshot.importData) {
-      dispatch(setImportData(snapshot.importData));
-    } else {
-      dispatch(clearImportData());
-    }
+    restored.importData = snapshot.importData || "";
   }
 
   // Restore column order (critical for template applications)
   if (snapshot.columnOrder) {
-    dispatch(setColumnOrder(snapshot.columnOrder));
+    restored.columnOrder = snapshot.columnOrder;
   }
 
   // Restore applied target shape ID (critical for template applications)
   if (snapshot.appliedTargetShapeId !== undefined) {
-    dispatch(setAppliedTargetShapeId(snapshot.appliedTargetShapeId));
+    restored.appliedTargetShapeId = snapshot.appliedTargetShapeId;
+  }
+
+  // Restore computed columns, which belong to the applied shape
+  if (snapshot.computedColumns) {
+    restored.computedColumns = snapshot.computedColumns;
   }
 
   // Restore loading and error states
   if (snapshot.isLoading !== undefined) {
-    dispatch(setLoading(snapshot.isLoading));
+    restored.isLoading = snapshot.isLoading;
   }
   if (snapshot.error !== undefined) {
-    dispatch(setError(snapshot.error));
+    restored.error = snapshot.error;
   }
+
+  return restored;
+};
+
+/**
+ * Restore the table to a checkpointed history action
+ *
+ * Only works for actions that carry a `stateSnapshot`; use
+ * `restoreStateToIndex` to restore any entry in the history. With `undo`,
+ * the action's patches are inverted to roll it back, which needs both.
+ */
+export const restoreStateToAction = (
+  dispatch: AppDispatch,
+  action: HistoryAction,
+  options: TimeTravelOptions = {}
+) => {
+  if (!action.stateSnapshot) {
+    console.warn("No state snapshot available for action:", action.type);
+    return;
+  }
+  if (options.undo && !action.patches) {
+    console.warn("No patches available to undo action:", action.type);
+    return;
+  }
+
+  const snapshot = options.undo
+    ? applyPatches(
+        createTableSnapshot(action.stateSnapshot),
+        invertPatches(action.patches ?? [])
+      )
+    : action.stateSnapshot;
+
+  dispatch(restoreTableSnapshot(buildRestoredState(snapshot, options)));
+};
+
+/**
+ * Restore the table to the state after the history entry at `index`,
+ * rebuilding it from the nearest checkpoint and the recorded patches
+ */
+export const restoreStateToIndex = (
+  dispatch: AppDispatch,
+  actions: HistoryAction[],
+  index: number,
+  options: TimeTravelOptions = {}
+) => {
+  const snapshot = getTableSnapshotAt(actions, index);
+  if (!snapshot) {
+    console.warn("Unable to rebuild table state for history entry:", index);
+    return;
+  }
+
+  dispatch(restoreTableSnapshot(buildRestoredState(snapshot, options)));
 };
 
 export const resetToInitialState = (dispatch: AppDispatch) => {
@@ -154,12 +205,61 @@ export const getActionSummary = (action: HistoryAction) => {
   switch (actionType) {
     case "setData":
       return `Loaded ${action.payload?.length || 0} rows of data`;
-    case "applyTemplate":
-      return `Applied shape: ${action.payload?.targetShapeName || "Unknown"}`;
+    case "applyTemplate": {
+      const ruleCount = action.payload?.mappingRules?.length || 0;
+      return `Applied shape: ${action.payload?.targetShapeName || "Unknown"}${
+        ruleCount > 0
+          ? ` (${ruleCount} combined/split mapping${ruleCount === 1 ? "" : "s"})`
+          : ""
+      }`;
+    }
     case "importJsonData":
       return "Imported JSON data";
     case "updateCell":
       return `Updated cell: ${action.payload?.rowId} - ${action.payload?.columnId}`;
+    case "updateCells": {
+      const count = action.payload?.updates?.length || 0;
+      const verb =
+        action.payload?.source === "paste"
+          ? "Pasted"
+          : action.payload?.source === "fillDown"
+            ? "Filled down"
+            : action.payload?.source === "clear"
+              ? "Cleared"
+              : "Updated";
+      return `${verb} ${count} cell${count === 1 ? "" : "s"}`;
+    }
+    case "replaceCells": {
+      const count = action.payload?.updates?.length || 0;
+      return `Replaced "${action.payload?.find}" with "${action.payload?.replace}" in ${count} cell${count === 1 ? "" : "s"}`;
+    }
+    case "insertRow":
+      return `Inserted row at position ${(action.payload?.index ?? 0) + 1}`;
+    case "duplicateRows": {
+      const count = action.payload?.rowIds?.length || 0;
+      return `Duplicated ${count} row${count === 1 ? "" : "s"}`;
+    }
+    case "deleteRows": {
+      const count = action.payload?.rowIds?.length || 0;
+      return `Deleted ${count} row${count === 1 ? "" : "s"}`;
+    }
+    case "mergeDuplicateRows": {
+      const merges: { removeRowIds?: string[] }[] =
+        action.payload?.merges ?? [];
+      const removed = merges.reduce(
+        (total, merge) => total + (merge.removeRowIds?.length ?? 0),
+        0
+      );
+      return `Merged ${merges.length} duplicate group${merges.length === 1 ? "" : "s"} (${removed} row${removed === 1 ? "" : "s"} removed)`;
+    }
+    case "addColumn":
+      return `Added column: ${action.payload?.name}`;
+    case "renameColumn":
+      return `Renamed column: ${action.payload?.columnId} → ${action.payload?.name}`;
+    case "duplicateColumn":
+      return `Duplicated column: ${action.payload?.columnId} → ${action.payload?.name}`;
+    case "deleteColumn":
+      return `Deleted column: ${action.payload?.columnId}`;
     case "setSorting":
       return `Updated sorting (${action.payload?.length || 0} columns)`;
     case "toggleColumnSort":
@@ -186,9 +286,13 @@ export const getActionSummary = (action: HistoryAction) => {
       }
       return "Restored from history";
     case "processDataWithLookups/fulfilled":
-      return `Processed ${action.stateSnapshot?.data?.length || 0} rows with lookups`;
+      return `Processed ${action.payload?.data?.length || 0} rows with lookups`;
     case "updateLookupValue/fulfilled":
       return `Updated lookup value for ${action.payload?.fieldName || "field"}`;
+    case "targetShapes/saveComputedField":
+      return `Saved computed column: ${action.payload?.field?.name} = ${action.payload?.field?.formula}`;
+    case "targetShapes/removeComputedField":
+      return `Removed computed column: ${action.payload?.fieldId}`;
     default:
       return actionType;
   }
@@ -202,8 +306,14 @@ export const getActionCategory = (actionType: string) => {
     actionType.includes("setData") ||
     actionType.includes("importJsonData") ||
     actionType.includes("updateCell") ||
+    actionType.includes("replaceCells") ||
+    /(insertRow|duplicateRows|deleteRows|mergeDuplicateRows)$/.test(
+      actionType
+    ) ||
+    /(add|rename|duplicate|delete)Column$/.test(actionType) ||
     actionType.includes("processDataWithLookups") ||
-    actionType.includes("updateLookupValue")
+    actionType.includes("updateLookupValue") ||
+    actionType.includes("ComputedField")
   ) {
     return "data";
   }
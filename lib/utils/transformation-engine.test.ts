@@ -0,0 +1,192 @@
+/**
+ * Tests for Transformation Engine
+ *
+ * Covers rule semantics, ordering, failure handling and report generation.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyTransformationRule,
+  applyTransformations,
+  transformData,
+  registerCustomTransformation,
+  TransformationRuleError,
+} from "./transformation-engine";
+import type { TransformationRule } from "../types/target-shapes";
+
+const rule = (
+  type: TransformationRule["type"],
+  parameters: Record<string, any> = {},
+  order = 1
+): TransformationRule => ({ type, parameters, order });
+
+describe("applyTransformationRule", () => {
+  it("should apply string case and whitespace rules", () => {
+    expect(applyTransformationRule("  hi  ", rule("trim"))).toBe("hi");
+    expect(applyTransformationRule("hi", rule("uppercase"))).toBe("HI");
+    expect(applyTransformationRule("HI", rule("lowercase"))).toBe("hi");
+  });
+
+  it("should leave non-string values untouched for string rules", () => {
+    expect(applyTransformationRule(42, rule("trim"))).toBe(42);
+    expect(applyTransformationRule(true, rule("uppercase"))).toBe(true);
+  });
+
+  it("should replace using regex and literal search", () => {
+    expect(
+      applyTransformationRule(
+        "a   b  c",
+        rule("replace", { search: "\\s+", replace: " " })
+      )
+    ).toBe("a b c");
+    expect(
+      applyTransformationRule(
+        "1.5.0",
+        rule("replace", { search: ".", replace: "-", literal: true })
+      )
+    ).toBe("1-5-0");
+  });
+
+  it("should extract the first capture group by default", () => {
+    expect(
+      applyTransformationRule(
+        "Order #4512",
+        rule("extract", { pattern: "#(\\d+)" })
+      )
+    ).toBe("4512");
+    expect(
+      applyTransformationRule("abc123", rule("extract", { pattern: "\\d+" }))
+    ).toBe("123");
+  });
+
+  it("should format numbers, currency, dates and templates", () => {
+    expect(
+      applyTransformationRule("3.14159", rule("format", { precision: 2 }))
+    ).toBe("3.14");
+    expect(
+      applyTransformationRule(
+        "1,234.5",
+        rule("format", { precision: 2, currency: "USD" })
+      )
+    ).toBe("$1,234.50");
+    expect(
+      applyTransformationRule(
+        "2024-03-05",
+        rule("format", { dateFormat: "MM/dd/yyyy" })
+      )
+    ).toBe("03/05/2024");
+    expect(
+      applyTransformationRule("42", rule("format", { template: "ID-{value}" }))
+    ).toBe("ID-42");
+  });
+
+  it("should run registered custom transformations", () => {
+    registerCustomTransformation("reverse", value =>
+      String(value).split("").reverse().join("")
+    );
+
+    expect(
+      applyTransformationRule("abc", rule("custom", { name: "reverse" }))
+    ).toBe("cba");
+    expect(
+      applyTransformationRule(
+        "hello WORLD",
+        rule("custom", { name: "titleCase" })
+      )
+    ).toBe("Hello World");
+  });
+
+  it("should throw TransformationRuleError for invalid rules", () => {
+    expect(() =>
+      applyTransformationRule("x", rule("replace", { search: "(" }))
+    ).toThrow(TransformationRuleError);
+    expect(() =>
+      applyTransformationRule("abc", rule("extract", { pattern: "\\d+" }))
+    ).toThrow(/No match/);
+    expect(() =>
+      applyTransformationRule("abc", rule("format", { precision: 2 }))
+    ).toThrow(/as a number/);
+    expect(() =>
+      applyTransformationRule("abc", rule("custom", { name: "missing" }))
+    ).toThrow(/Unknown custom transformation/);
+  });
+});
+
+describe("applyTransformations", () => {
+  it("should run rules in order regardless of array position", () => {
+    const result = applyTransformations(" sku-1 ", [
+      rule("replace", { search: "-", replace: "_" }, 3),
+      rule("uppercase", {}, 2),
+      rule("trim", {}, 1),
+    ]);
+
+    expect(result.value).toBe("SKU_1");
+    expect(result.steps.map(step => step.type)).toEqual([
+      "trim",
+      "uppercase",
+      "replace",
+    ]);
+    expect(result.error).toBeUndefined();
+  });
+
+  it("should stop at the first failing rule and keep the last good value", () => {
+    const result = applyTransformations(" abc ", [
+      rule("trim", {}, 1),
+      rule("extract", { pattern: "\\d+" }, 2),
+      rule("uppercase", {}, 3),
+    ]);
+
+    expect(result.value).toBe("abc");
+    expect(result.steps).toHaveLength(1);
+    expect(result.error).toMatchObject({ type: "extract", order: 2 });
+  });
+
+  it("should skip empty values", () => {
+    const rules = [rule("extract", { pattern: "\\d+" })];
+
+    expect(applyTransformations("", rules)).toEqual({ value: "", steps: [] });
+    expect(applyTransformations(null, rules)).toEqual({
+      value: null,
+      steps: [],
+    });
+  });
+});
+
+describe("transformData", () => {
+  it("should return the same rows when no field has rules", () => {
+    const data = [{ _rowId: "r1", name: "x" }];
+    const result = transformData(data, [{ name: "name" }]);
+
+    expect(result.data).toBe(data);
+    expect(result.report.stats.fieldsWithRules).toBe(0);
+  });
+
+  it("should only copy rows that change", () => {
+    const data = [
+      { _rowId: "r1", name: "ok" },
+      { _rowId: "r2", name: " padded " },
+    ];
+    const result = transformData(data, [
+      { name: "name", transformation: [rule("trim")] },
+    ]);
+
+    expect(result.data[0]).toBe(data[0]);
+    expect(result.data[1]).toEqual({ _rowId: "r2", name: "padded" });
+    expect(data[1].name).toBe(" padded ");
+  });
+
+  it("should cap recorded changes but keep full counts", () => {
+    const data = Array.from({ length: 5 }, (_, i) => ({
+      _rowId: `r${i}`,
+      name: "a",
+    }));
+    const result = transformData(
+      data,
+      [{ name: "name", transformation: [rule("uppercase")] }],
+      { maxRecordedChanges: 2 }
+    );
+
+    expect(result.report.changes).toHaveLength(2);
+    expect(result.report.stats.cellsChanged).toBe(5);
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * Transformation Engine
+ *
+ * Executes the `transformation` rules defined on target shape fields while data
+ * is being mapped to a shape. Rules run in ascending `order`, every changed cell
+ * is recorded with its before/after value, and rule failures are collected into
+ * a report instead of aborting the whole import.
+ *
+ * @example
+ * ```typescript
+ * import { transformData } from './transformation-engine';
+ *
+ * const { data, report } = transformData(rows, targetShape.fields);
+ * console.log(report.stats.cellsChanged); // 42
+ * console.log(report.failures[0]?.message); // 'No match for pattern "^\\d+"'
+ * ```
+ */
+
+import { format as formatDate, isValid, parseISO } from "date-fns";
+import type { TargetField, TransformationRule } from "../types/target-shapes";
+import type { TableRow } from "../features/tableSlice";
+
+/**
+ * Field definition accepted by the engine. Only the name and the rules are
+ * needed, so callers can pass full TargetFields or lightweight payloads.
+ */
+export type TransformableField = Pick<TargetField, "name" | "transformation">;
+
+/**
+ * A single rule execution for one value
+ */
+export interface TransformationStep {
+  /** Rule type that was executed */
+  type: TransformationRule["type"];
+  /** Order of the rule within the field */
+  order: number;
+  /** Value before the rule ran */
+  before: unknown;
+  /** Value after the rule ran */
+  after: unknown;
+}
+
+/**
+ * Before/after record for a cell whose value was changed by its rules
+ */
+export interface CellTransformation {
+  /** Row ID (`_rowId`) of the changed cell */
+  rowId: string;
+  /** Target field name of the changed cell */
+  fieldName: string;
+  /** Value as mapped from the source column */
+  before: unknown;
+  /** Value after all rules ran */
+  after: unknown;
+  /** Rule types that changed the value, in execution order */
+  appliedRules: TransformationRule["type"][];
+}
+
+/**
+ * A rule that could not be applied to a cell
+ */
+export interface TransformationFailure {
+  /** Row ID (`_rowId`) of the failing cell */
+  rowId: string;
+  /** Target field name of the failing cell */
+  fieldName: string;
+  /** Rule type that failed */
+  ruleType: TransformationRule["type"];
+  /** Order of the failing rule */
+  order: number;
+  /** Value passed to the failing rule */
+  value: unknown;
+  /** Human-readable failure reason */
+  message: string;
+}
+
+/**
+ * Summary of a transformation run, stored on the table slice after a shape is applied
+ */
+export interface TransformationReport {
+  /** Cells whose value changed (capped at `maxRecordedChanges`) */
+  changes: CellTransformation[];
+  /** Rule failures (capped at `maxRecordedFailures`) */
+  failures: TransformationFailure[];
+  /** Aggregate counts, never capped */
+  stats: {
+    totalRows: number;
+    fieldsWithRules: number;
+    cellsChanged: number;
+    failedCells: number;
+  };
+  /** ISO timestamp of the run */
+  appliedAt: string;
+}
+
+/**
+ * Result of running all rules of a field against one value
+ */
+export interface ValueTransformationResult {
+  /** Final value (the last successful value if a rule failed) */
+  value: unknown;
+  /** Rules that were executed */
+  steps: TransformationStep[];
+  /** Failure details if a rule threw */
+  error?: { type: TransformationRule["type"]; order: number; message: string };
+}
+
+/**
+ * Options for transforming a dataset
+ */
+export interface TransformDataOptions {
+  /** Maximum number of changed cells to keep in the report (default: 1000) */
+  maxRecordedChanges?: number;
+  /** Maximum number of failures to keep in the report (default: 500) */
+  maxRecordedFailures?: number;
+}
+
+/**
+ * Error thrown by a single rule; caught and recorded by the engine
+ */
+export class TransformationRuleError extends Error {
+  constructor(
+    message: string,
+    public ruleType: TransformationRule["type"]
+  ) {
+    super(message);
+    this.name = "TransformationRuleError";
+  }
+}
+
+/**
+ * Signature for custom transformations registered by name
+ */
+export type CustomTransformation = (
+  value: unknown,
+  parameters: Record<string, any>
+) => unknown;
+
+/**
+ * Registry backing `{ type: "custom", parameters: { name } }` rules.
+ * Custom rules reference a registered function instead of evaluating code.
+ */
+const customTransformations = new Map<string, CustomTransformation>([
+  [
+    "titleCase",
+    value =>
+      typeof value === "string"
+        ? value.toLowerCase().replace(/\b\p{L}/gu, char => char.toUpperCase())
+        : value,
+  ],
+  [
+    "digitsOnly",
+    value => (typeof value === "string" ? value.replace(/\D/g, "") : value),
+  ],
+  [
+    "collapseWhitespace",
+    value =>
+      typeof value === "string" ? value.replace(/\s+/g, " ").trim() : value,
+  ],
+  [
+    "emptyToNull",
+    value => (typeof value === "string" && value.trim() === "" ? null : value),
+  ],
+]);
+
+/**
+ * Register a named custom transformation
+ */
+export function registerCustomTransformation(
+  name: string,
+  fn: CustomTransformation
+): void {
+  customTransformations.set(name, fn);
+}
+
+/**
+ * List the names of all registered custom transformations
+ */
+export function getCustomTransformationNames(): string[] {
+  return Array.from(customTransformations.keys());
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+function buildRegExp(
+  pattern: unknown,
+  flags: string,
+  ruleType: TransformationRule["type"]
+): RegExp {
+  if (typeof pattern !== "string" || pattern.length === 0) {
+    throw new TransformationRuleError(
+      `Missing pattern for ${ruleType} rule`,
+      ruleType
+    );
+  }
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    throw new TransformationRuleError(
+      `Invalid pattern "${pattern}": ${error instanceof Error ? error.message : "Unknown error"}`,
+      ruleType
+    );
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const cleaned = value.replace(/[\s$€£,%]/g, "");
+  if (cleaned === "" || isNaN(Number(cleaned))) return null;
+  return Number(cleaned);
+}
+
+function applyFormat(value: unknown, parameters: Record<string, any>): unknown {
+  const {
+    precision,
+    currency,
+    locale = "en-US",
+    dateFormat,
+    template,
+  } = parameters;
+
+  if (dateFormat) {
+    const date =
+      value instanceof Date
+        ? value
+        : typeof value === "string"
+          ? parseISO(value)
+          : new Date(value as number);
+    const parsed = isValid(date) ? date : new Date(String(value));
+    if (!isValid(parsed)) {
+      throw new TransformationRuleError(
+        `Cannot format "${String(value)}" as a date`,
+        "format"
+      );
+    }
+    return formatDate(parsed, dateFormat);
+  }
+
+  if (currency || precision !== undefined) {
+    const number = toNumber(value);
+    if (number === null) {
+      throw new TransformationRuleError(
+        `Cannot format "${String(value)}" as a number`,
+        "format"
+      );
+    }
+    if (currency) {
+      return new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency,
+        minimumFractionDigits: precision ?? 2,
+        maximumFractionDigits: precision ?? 2,
+      }).format(number);
+    }
+    return number.toFixed(precision);
+  }
+
+  if (typeof template === "string") {
+    return template.replace(/\{value\}/g, String(value));
+  }
+
+  throw new TransformationRuleError(
+    "Format rule needs one of dateFormat, currency, precision or template",
+    "format"
+  );
+}
+
+/**
+ * Apply a single transformation rule to a value.
+ * String rules leave non-string values untouched; failures throw TransformationRuleError.
+ */
+export function applyTransformationRule(
+  value: unknown,
+  rule: TransformationRule
+): unknown {
+  const parameters = rule.parameters || {};
+
+  switch (rule.type) {
+    case "trim":
+      return typeof value === "string" ? value.trim() : value;
+
+    case "uppercase":
+      return typeof value === "string" ? value.toUpperCase() : value;
+
+    case "lowercase":
+      return typeof value === "string" ? value.toLowerCase() : value;
+
+    case "replace": {
+      if (typeof value !== "string") return value;
+      const search = parameters.literal
+        ? escapeRegExp(String(parameters.search ?? ""))
+        : parameters.search;
+      const regex = buildRegExp(search, parameters.flags ?? "g", "replace");
+      return value.replace(regex, String(parameters.replace ?? ""));
+    }
+
+    case "extract": {
+      const input = String(value);
+      const regex = buildRegExp(
+        parameters.pattern,
+        parameters.flags ?? "",
+        "extract"
+      );
+      const match = input.match(regex);
+      if (!match) {
+        throw new TransformationRuleError(
+          `No match for pattern "${parameters.pattern}"`,
+          "extract"
+        );
+      }
+      const group = parameters.group ?? (match.length > 1 ? 1 : 0);
+      return match[group] ?? "";
+    }
+
+    case "format":
+      return applyFormat(value, parameters);
+
+    case "custom": {
+      const fn = customTransformations.get(parameters.name);
+      if (!fn) {
+        throw new TransformationRuleError(
+          `Unknown custom transformation "${parameters.name}"`,
+          "custom"
+        );
+      }
+      return fn(value, parameters);
+    }
+
+    default:
+      throw new TransformationRuleError(
+        `Unsupported transformation type "${(rule as TransformationRule).type}"`,
+        (rule as TransformationRule).type
+      );
+  }
+}
+
+/**
+ * Sort rules by their `order` property without mutating the input
+ */
+export function sortTransformationRules(
+  rules: TransformationRule[] = []
+): TransformationRule[] {
+  return [...rules].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Run every rule of a field against a value in `order`.
+ * Empty values are skipped; execution stops at the first failing rule.
+ */
+export function applyTransformations(
+  value: unknown,
+  rules: TransformationRule[] = []
+): ValueTransformationResult {
+  const steps: TransformationStep[] = [];
+
+  if (isEmpty(value) || rules.length === 0) {
+    return { value, steps };
+  }
+
+  let current = value;
+  for (const rule of sortTransformationRules(rules)) {
+    try {
+      const next = applyTransformationRule(current, rule);
+      steps.push({
+        type: rule.type,
+        order: rule.order,
+        before: current,
+        after: next,
+      });
+      current = next;
+    } catch (error) {
+      return {
+        value: current,
+        steps,
+        error: {
+          type: rule.type,
+          order: rule.order,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  return { value: current, steps };
+}
+
+/**
+ * Create an empty report for a dataset of the given size
+ */
+export function createEmptyTransformationReport(
+  totalRows: number = 0
+): TransformationReport {
+  return {
+    changes: [],
+    failures: [],
+    stats: {
+      totalRows,
+      fieldsWithRules: 0,
+      cellsChanged: 0,
+      failedCells: 0,
+    },
+    appliedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Apply the transformation rules of every field to already-mapped rows.
+ * Rows are keyed by target field name; returns new rows plus a report.
+ */
+export function transformData(
+  data: TableRow[],
+  fields: TransformableField[],
+  options: TransformDataOptions = {}
+): { data: TableRow[]; report: TransformationReport } {
+  const { maxRecordedChanges = 1000, maxRecordedFailures = 500 } = options;
+  const report = createEmptyTransformationReport(data.length);
+
+  const fieldsWithRules = fields.filter(
+    field => field.transformation && field.transformation.length > 0
+  );
+  report.stats.fieldsWithRules = fieldsWithRules.length;
+
+  if (fieldsWithRules.length === 0) {
+    return { data, report };
+  }
+
+  const transformed = data.map((row, index) => {
+    const rowId = row._rowId || `row_${index}`;
+    let newRow: TableRow | null = null;
+
+    for (const field of fieldsWithRules) {
+      if (!(field.name in row)) continue;
+
+      const before = row[field.name];
+      const result = applyTransformations(before, field.transformation);
+
+      if (result.error) {
+        report.stats.failedCells++;
+        if (report.failures.length < maxRecordedFailures) {
+          report.failures.push({
+            rowId,
+            fieldName: field.name,
+            ruleType: result.error.type,
+            order: result.error.order,
+            value: result.value,
+            message: result.error.message,
+          });
+        }
+      }
+
+      if (result.value !== before) {
+        newRow = newRow || { ...row };
+        newRow[field.name] = result.value;
+        report.stats.cellsChanged++;
+        if (report.changes.length < maxRecordedChanges) {
+          report.changes.push({
+            rowId,
+            fieldName: field.name,
+            before,
+            after: result.value,
+            appliedRules: result.steps
+              .filter(step => step.before !== step.after)
+              .map(step => step.type),
+          });
+        }
+      }
+    }
+
+    return newRow || row;
+  });
+
+  return { data: transformed, report };
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import {
+  coerceRows,
+  coerceValue,
+  parseNumber,
+  typedRowsToCsv,
+} from "./typed-export";
+import type { TargetField } from "../types/target-shapes";
+
+const fields: Pick<TargetField, "name" | "type">[] = [
+  { name: "employee_id", type: "integer" },
+  { name: "salary", type: "currency" },
+  { name: "active", type: "boolean" },
+  { name: "start_date", type: "date" },
+  { name: "email", type: "email" },
+];
+
+describe("parseNumber", () => {
+  it("should strip currency symbols and thousands separators", () => {
+    expect(parseNumber("1,200.00")).toBe(1200);
+    expect(parseNumber("$ 1,200.50")).toBe(1200.5);
+    expect(parseNumber("-€3")).toBe(-3);
+    expect(parseNumber("45%")).toBe(45);
+  });
+
+  it("should read accounting negatives", () => {
+    expect(parseNumber("(1,200.00)")).toBe(-1200);
+  });
+
+  it("should honour a comma decimal separator", () => {
+    expect(parseNumber("1.200,50", ",")).toBe(1200.5);
+    expect(parseNumber("1 200,5", ",")).toBe(1200.5);
+  });
+
+  it("should reject text", () => {
+    expect(parseNumber("n/a")).toBeNull();
+    expect(parseNumber("1.2.3")).toBeNull();
+    expect(parseNumber(Number.NaN)).toBeNull();
+  });
+
+  it("should reject thousands separators that don't group by three", () => {
+    expect(parseNumber("1,2")).toBeNull();
+    expect(parseNumber("1.200,50")).toBeNull();
+    expect(parseNumber("12,34,567")).toBeNull();
+    expect(parseNumber("1 2")).toBeNull();
+    expect(parseNumber("1,234,567.5")).toBe(1234567.5);
+  });
+});
+
+describe("coerceValue", () => {
+  it("should turn empty values into null", () => {
+    expect(coerceValue("  ", "integer")).toEqual({ ok: true, value: null });
+    expect(coerceValue(undefined, "string")).toEqual({ ok: true, value: null });
+  });
+
+  it("should coerce numbers and round decimals when asked", () => {
+    expect(coerceValue("1,200.00", "decimal")).toEqual({
+      ok: true,
+      value: 1200,
+    });
+    expect(coerceValue("12.3456", "currency", { decimalPlaces: 2 })).toEqual({
+      ok: true,
+      value: 12.35,
+    });
+    expect(coerceValue("12.3456", "number", { decimalPlaces: 2 })).toEqual({
+      ok: true,
+      value: 12.3456,
+    });
+  });
+
+  it("should reject non-integers for integer fields", () => {
+    expect(coerceValue("1.5", "integer")).toEqual({
+      ok: false,
+      message: "Not a whole number",
+    });
+    expect(coerceValue("1,000", "integer")).toEqual({ ok: true, value: 1000 });
+  });
+
+  it("should export percentages as numbers or fractions", () => {
+    expect(coerceValue("50%", "percentage")).toEqual({ ok: true, value: 50 });
+    expect(
+      coerceValue("50%", "percentage", { percentageAs: "fraction" })
+    ).toEqual({ ok: true, value: 0.5 });
+  });
+
+  it("should coerce booleans", () => {
+    expect(coerceValue("Yes", "boolean")).toEqual({ ok: true, value: true });
+    expect(coerceValue("0", "boolean")).toEqual({ ok: true, value: false });
+    expect(coerceValue("maybe", "boolean")).toEqual({
+      ok: false,
+      message: "Not true or false",
+    });
+  });
+
+  it("should format dates", () => {
+    expect(coerceValue("2024-01-15", "date")).toEqual({
+      ok: true,
+      value: "2024-01-15",
+    });
+    expect(coerceValue("01/31/2024", "date")).toEqual({
+      ok: true,
+      value: "2024-01-31",
+    });
+    expect(
+      coerceValue("2024-01-15", "date", { dateFormat: "dd/MM/yyyy" })
+    ).toEqual({ ok: true, value: "15/01/2024" });
+    expect(
+      coerceValue("2024-01-15T13:45:00", "datetime", {
+        datetimeFormat: "yyyy-MM-dd HH:mm",
+      })
+    ).toEqual({ ok: true, value: "2024-01-15 13:45" });
+    expect(coerceValue("soon", "date")).toEqual({
+      ok: false,
+      message: "Not a valid date",
+    });
+  });
+
+  it("should not read text, numbers or bare years as dates", () => {
+    ["Room 5", "12", "1", "2024", "1/2/24", "2024-02-30"].forEach(value => {
+      expect(coerceValue(value, "date")).toEqual({
+        ok: false,
+        message: "Not a valid date",
+      });
+    });
+    expect(coerceValue("Jan 5, 2024", "date")).toEqual({
+      ok: true,
+      value: "2024-01-05",
+    });
+    expect(coerceValue("2024/1/5", "date")).toEqual({
+      ok: true,
+      value: "2024-01-05",
+    });
+  });
+
+  it("should trim text and keep other types as they are", () => {
+    expect(coerceValue(" a@b.co ", "email")).toEqual({
+      ok: true,
+      value: "a@b.co",
+    });
+    expect(coerceValue(["a"], "array")).toEqual({ ok: true, value: ["a"] });
+  });
+});
+
+describe("coerceRows", () => {
+  const rows = [
+    {
+      _rowId: "row-1",
+      employee_id: "7",
+      salary: "1,200.00",
+      active: "yes",
+      start_date: "2024-01-15",
+      email: "a@b.co",
+      notes: "kept",
+    },
+    {
+      _rowId: "row-2",
+      employee_id: "8",
+      salary: "n/a",
+      active: "no",
+      start_date: "",
+      email: "c@d.co",
+      notes: "",
+    },
+  ];
+
+  it("should coerce typed columns and keep other columns", () => {
+    const { data } = coerceRows(rows, fields);
+
+    expect(data[0]).toEqual({
+      employee_id: 7,
+      salary: 1200,
+      active: true,
+      start_date: "2024-01-15",
+      email: "a@b.co",
+      notes: "kept",
+    });
+    expect(data[1].start_date).toBeNull();
+    expect(data[1].notes).toBe("");
+  });
+
+  it("should export failed values as null and report them", () => {
+    const { data, failures, stats } = coerceRows(rows, fields);
+
+    expect(data[1].salary).toBeNull();
+    expect(failures).toEqual([
+      {
+        rowIndex: 1,
+        rowId: "row-2",
+        fieldName: "salary",
+        fieldType: "currency",
+        value: "n/a",
+        message: "Not a number",
+      },
+    ]);
+    expect(stats).toEqual({ totalRows: 2, coercedCells: 5, failedCells: 1 });
+  });
+});
+
+describe("typedRowsToCsv", () => {
+  it("should write rounded decimals with all their places", () => {
+    const options = { decimalPlaces: 2 };
+    const { data } = coerceRows(
+      [{ employee_id: "7", salary: "1200.5" }],
+      fields,
+      options
+    );
+
+    expect(typedRowsToCsv(data, fields, options)).toBe(
+      "employee_id,salary\n7,1200.50"
+    );
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Typed Export
+ *
+ * Coerces table values to the type of their target shape field before
+ * export, so JSON holds real numbers, booleans and ISO dates instead of the
+ * strings that were imported. Values that can't be coerced are exported as
+ * null and reported, never passed through as text.
+ *
+ * @example
+ * ```typescript
+ * import { coerceRows } from './typed-export';
+ *
+ * const { data, failures } = coerceRows(rows, targetShape.fields);
+ * // data[0] => { salary: 1200, active: true, start_date: '2024-01-15' }
+ * // failures[0] => { fieldName: 'salary', value: 'n/a', message: 'Not a number' }
+ * ```
+ */
+
+import {
+  format as formatDate,
+  formatISO,
+  isValid,
+  parse,
+  parseISO,
+} from "date-fns";
+import type { FieldType, TargetField } from "../types/target-shapes";
+import { convertToCsv } from "./csv-export";
+
+/**
+ * Output formats for coerced values
+ */
+export interface TypedExportOptions {
+  /** date-fns pattern for `date` fields (default: yyyy-MM-dd) */
+  dateFormat?: string;
+  /** date-fns pattern for `datetime` fields (default: ISO 8601 with offset) */
+  datetimeFormat?: string;
+  /** Round `decimal`, `currency` and `percentage` values (default: as parsed) */
+  decimalPlaces?: number;
+  /** Decimal separator of the source values; the other one groups thousands */
+  decimalSeparator?: "." | ",";
+  /** Export percentages as written (50% -> 50) or as fractions (50% -> 0.5) */
+  percentageAs?: "number" | "fraction";
+}
+
+/**
+ * A cell whose value could not be coerced to its field type
+ */
+export interface CoercionFailure {
+  /** Index of the row in the exported data */
+  rowIndex: number;
+  /** Row ID (`_rowId`), when the row has one */
+  rowId?: string;
+  fieldName: string;
+  fieldType: FieldType;
+  value: unknown;
+  message: string;
+}
+
+export interface TypedExportResult {
+  /** Rows with coerced values, internal keys (`_rowId`) removed */
+  data: Record<string, unknown>[];
+  failures: CoercionFailure[];
+  stats: {
+    totalRows: number;
+    /** Cells whose value changed type or format */
+    coercedCells: number;
+    failedCells: number;
+  };
+}
+
+export type CoercionResult =
+  | { ok: true; value: unknown }
+  | { ok: false; message: string };
+
+type CoercibleField = Pick<TargetField, "name" | "type">;
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+const DEFAULT_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * Date formats read besides ISO 8601 dates; slashed dates are month-first,
+ * as spreadsheets in the US write them
+ */
+const DATE_FORMATS = [
+  "M/d/yyyy",
+  "M/d/yyyy H:mm",
+  "M/d/yyyy H:mm:ss",
+  "yyyy/M/d",
+  "MMM d, yyyy",
+  "MMMM d, yyyy",
+  "d MMM yyyy",
+  "d MMMM yyyy",
+];
+
+/** ISO dates must have a year, month and day; "2024" or "12" are not dates */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === "string" && value.trim() === "");
+
+/**
+ * Parses a number written with currency symbols, percent signs, thousands
+ * separators or accounting parentheses ("(1,200.00)" is -1200). Thousands
+ * separators (the group separator or spaces) must split the whole part into
+ * groups of three, so "1,2" is not read as 12.
+ */
+export function parseNumber(
+  value: unknown,
+  decimalSeparator: "." | "," = "."
+): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+
+  text = text.replace(/[$€£¥%]/g, "").trim();
+  const sign = /^[-+]/.test(text) ? text[0] : "";
+  text = text.slice(sign.length).trim();
+
+  const groupSeparator = decimalSeparator === "." ? "," : ".";
+  const [whole, fraction, ...extra] = text.split(decimalSeparator);
+  if (extra.length > 0) return null;
+  const separators = `[\\s${groupSeparator === "." ? "\\." : ","}]`;
+  let digits = whole;
+  if (new RegExp(separators).test(whole)) {
+    const grouped = new RegExp(`^\\d{1,3}(${separators})\\d{3}(\\1\\d{3})*$`);
+    if (!grouped.test(whole)) return null;
+    digits = whole.replace(/\D/g, "");
+  }
+  text = `${sign}${digits}${fraction === undefined ? "" : `.${fraction}`}`;
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return isValid(date) ? date : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  if (ISO_DATE.test(text)) {
+    const iso = parseISO(text);
+    return isValid(iso) ? iso : null;
+  }
+  // date-fns reads "yyyy" from any number of digits; insist on four
+  if (!/\b\d{4}\b/.test(text)) return null;
+  const referenceDate = new Date();
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, referenceDate);
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Coerces one value to a field type
+ *
+ * Empty values become null. Text types are trimmed; other types
+ * (enum, lookup, array, object) are exported as they are.
+ */
+export function coerceValue(
+  value: unknown,
+  type: FieldType,
+  options: TypedExportOptions = {}
+): CoercionResult {
+  if (isEmpty(value)) return { ok: true, value: null };
+
+  const {
+    dateFormat = DEFAULT_DATE_FORMAT,
+    datetimeFormat,
+    decimalPlaces,
+    decimalSeparator = ".",
+    percentageAs = "number",
+  } = options;
+
+  const round = (number: number) =>
+    decimalPlaces === undefined
+      ? number
+      : Number(number.toFixed(decimalPlaces));
+
+  switch (type) {
+    case "number":
+    case "decimal":
+    case "currency":
+    case "percentage": {
+      const number = parseNumber(value, decimalSeparator);
+      if (number === null) return { ok: false, message: "Not a number" };
+      if (type === "number") return { ok: true, value: number };
+      if (type === "percentage" && percentageAs === "fraction") {
+        return { ok: true, value: round(number / 100) };
+      }
+      return { ok: true, value: round(number) };
+    }
+
+    case "integer": {
+      const number = parseNumber(value, decimalSeparator);
+      if (number === null) return { ok: false, message: "Not a number" };
+      if (!Number.isInteger(number)) {
+        return { ok: false, message: "Not a whole number" };
+      }
+      return { ok: true, value: number };
+    }
+
+    case "boolean": {
+      if (typeof value === "boolean") return { ok: true, value };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(text)) return { ok: true, value: false };
+      return { ok: false, message: "Not true or false" };
+    }
+
+    case "date":
+    case "datetime": {
+      const date = parseDate(value);
+      if (!date) return { ok: false, message: "Not a valid date" };
+      if (type === "date") {
+        return { ok: true, value: formatDate(date, dateFormat) };
+      }
+      return {
+        ok: true,
+        value: datetimeFormat
+          ? formatDate(date, datetimeFormat)
+          : formatISO(date),
+      };
+    }
+
+    case "string":
+    case "email":
+    case "phone":
+    case "url":
+      return { ok: true, value: String(value).trim() };
+
+    default:
+      return { ok: true, value };
+  }
+}
+
+/**
+ * Coerces every row to the types of its fields
+ *
+ * Columns without a field are exported unchanged.
+ */
+export function coerceRows(
+  rows: Record<string, unknown>[],
+  fields: CoercibleField[],
+  options: TypedExportOptions = {}
+): TypedExportResult {
+  const fieldsByName = new Map(fields.map(field => [field.name, field]));
+  const failures: CoercionFailure[] = [];
+  let coercedCells = 0;
+
+  const data = rows.map((row, rowIndex) => {
+    const typedRow: Record<string, unknown> = {};
+
+    Object.entries(row).forEach(([key, value]) => {
+      if (key.startsWith("_")) return;
+
+      const field = fieldsByName.get(key);
+      if (!field) {
+        typedRow[key] = value;
+        return;
+      }
+
+      const result = coerceValue(value, field.type, options);
+      if (result.ok) {
+        typedRow[key] = result.value;
+        if (result.value !== value && !isEmpty(value)) coercedCells++;
+      } else {
+        typedRow[key] = null;
+        failures.push({
+          rowIndex,
+          ...(typeof row._rowId === "string" ? { rowId: row._rowId } : {}),
+          fieldName: field.name,
+          fieldType: field.type,
+          value,
+          message: result.message,
+        });
+      }
+    });
+
+    return typedRow;
+  });
+
+  return {
+    data,
+    failures,
+    stats: {
+      totalRows: rows.length,
+      coercedCells,
+      failedCells: failures.length,
+    },
+  };
+}
+
+/**
+ * Converts coerced rows to CSV, writing rounded numbers with all their
+ * decimal places ("1200.50" rather than "1200.5")
+ */
+export function typedRowsToCsv(
+  data: Record<string, unknown>[],
+  fields: CoercibleField[],
+  options: TypedExportOptions = {}
+): string {
+  const { decimalPlaces } = options;
+  const fixedFields = new Set(
+    fields
+      .filter(field =>
+        ["decimal", "currency", "percentage"].includes(field.type)
+      )
+      .map(field => field.name)
+  );
+
+  const rows =
+    decimalPlaces === undefined
+      ? data
+      : data.map(row =>
+          Object.fromEntries(
+            Object.entries(row).map(([key, value]) => [
+              key,
+              fixedFields.has(key) && typeof value === "number"
+                ? value.toFixed(decimalPlaces)
+                : value,
+            ])
+          )
+        );
+
+  return convertToCsv(rows);
+}
@@ -0,0 +1,225 @@
+/**
+ * Tests for Validation Engine
+ *
+ * Covers rule derivation from target fields, row metadata and summaries.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  validateCell,
+  validateRow,
+  validateTable,
+  getValidationRowId,
+} from "./validation-engine";
+import { ValidationRuleType, ValidationStatus } from "../types/validation";
+import type {
+  TargetShape,
+  TargetField,
+  EnumField,
+  LookupField,
+} from "../types/target-shapes";
+
+const field = (overrides: Partial<TargetField>): TargetField => ({
+  id: `field_${overrides.name}`,
+  name: "value",
+  type: "string",
+  required: false,
+  ...overrides,
+});
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Employees",
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  fields: [
+    field({ name: "name", required: true }),
+    field({ name: "age", type: "integer" }),
+    field({ name: "email", type: "email" }),
+  ],
+};
+
+describe("validateCell", () => {
+  it("should flag empty required values", () => {
+    const cell = validateCell(
+      "r1",
+      field({ name: "name", required: true }),
+      ""
+    );
+
+    expect(cell.hasErrors).toBe(true);
+    expect(cell.errors[0].ruleType).toBe(ValidationRuleType.REQUIRED);
+  });
+
+  it("should skip other rules for empty optional values", () => {
+    const cell = validateCell(
+      "r1",
+      field({ name: "age", type: "integer" }),
+      ""
+    );
+    expect(cell.hasErrors).toBe(false);
+  });
+
+  it("should check types and suggest conversions", () => {
+    const intField = field({ name: "age", type: "integer" });
+
+    expect(validateCell("r1", intField, "42").hasErrors).toBe(false);
+    expect(validateCell("r1", intField, "abc").errors[0].ruleType).toBe(
+      ValidationRuleType.TYPE
+    );
+    expect(validateCell("r1", intField, "4.6").suggestedFixes[0].newValue).toBe(
+      5
+    );
+    expect(
+      validateCell("r1", field({ type: "date" }), "2024-02-30x").hasErrors
+    ).toBe(true);
+    expect(
+      validateCell("r1", field({ type: "boolean" }), "yes").hasErrors
+    ).toBe(false);
+  });
+
+  it("should check formats for email fields and pattern rules", () => {
+    expect(
+      validateCell("r1", field({ type: "email" }), "not-an-email").errors[0]
+        .ruleType
+    ).toBe(ValidationRuleType.FORMAT);
+
+    const skuField = field({
+      name: "sku",
+      validation: [
+        {
+          type: "pattern",
+          value: "^SKU-\\d+$",
+          message: "SKU must look like SKU-123",
+          severity: "warning",
+        },
+      ],
+    });
+    const cell = validateCell("r1", skuField, "123");
+
+    expect(cell.hasErrors).toBe(false);
+    expect(cell.warnings[0].message).toBe("SKU must look like SKU-123");
+  });
+
+  it("should check enum options and suggest case fixes", () => {
+    const statusField: EnumField = {
+      ...field({ name: "status" }),
+      type: "enum",
+      options: [
+        { value: "active", label: "Active" },
+        { value: "inactive", label: "Inactive" },
+      ],
+    };
+    const cell = validateCell("r1", statusField, "Active");
+
+    expect(cell.errors[0].ruleType).toBe(ValidationRuleType.ENUM);
+    expect(cell.suggestedFixes[0].newValue).toBe("active");
+  });
+
+  it("should check ranges for numbers and string lengths", () => {
+    const scoreField = field({
+      name: "score",
+      type: "number",
+      validation: [
+        { type: "min", value: 0, message: "Too low", severity: "error" },
+        { type: "max", value: 100, message: "Too high", severity: "error" },
+      ],
+    });
+
+    expect(validateCell("r1", scoreField, "150").errors[0].message).toBe(
+      "Too high"
+    );
+    expect(validateCell("r1", scoreField, "50").hasErrors).toBe(false);
+  });
+
+  it("should check lookup values against reference rows", () => {
+    const deptField: LookupField = {
+      ...field({ name: "department" }),
+      type: "lookup",
+      referenceFile: "departments",
+      match: { on: "dept_name", get: "dept_id" },
+      smartMatching: { enabled: false, confidence: 0.8 },
+      onMismatch: "warning",
+    };
+    const options = {
+      getReferenceRows: () => [{ dept_name: "Engineering", dept_id: "ENG" }],
+    };
+
+    expect(validateCell("r1", deptField, "ENG", options).hasWarnings).toBe(
+      false
+    );
+    expect(
+      validateCell("r1", deptField, "Sales", options).warnings[0].ruleType
+    ).toBe(ValidationRuleType.LOOKUP);
+  });
+});
+
+describe("validateRow", () => {
+  it("should only keep cells with issues and derive row status", () => {
+    const row = validateRow(
+      { _rowId: "r1", name: "Ann", age: "x", email: "ann@example.com" },
+      "r1",
+      shape
+    );
+
+    expect(row.status).toBe(ValidationStatus.ERRORS);
+    expect(row.errorCount).toBe(1);
+    expect(Object.keys(row.cells || {})).toEqual(["age"]);
+  });
+});
+
+describe("validateTable", () => {
+  it("should key rows by _rowId and summarize counts", () => {
+    const { rows, state } = validateTable(
+      [
+        { _rowId: "r1", name: "Ann", age: "30", email: "ann@example.com" },
+        { _rowId: "r2", name: "", age: "3.5", email: "bad" },
+      ],
+      shape
+    );
+
+    expect(rows.r1.status).toBe(ValidationStatus.VALID);
+    expect(rows.r2.errorCount).toBe(3);
+    expect(state.totalErrors).toBe(3);
+    expect(state.errorsByField).toEqual({ name: 1, age: 1, email: 1 });
+    expect(state.summary?.validRowPercentage).toBe(50);
+  });
+
+  it("should read each lookup's reference data once per pass", () => {
+    const deptShape: TargetShape = {
+      ...shape,
+      fields: [
+        {
+          ...field({ name: "department" }),
+          type: "lookup",
+          referenceFile: "departments",
+          match: { on: "dept_name", get: "dept_id" },
+          smartMatching: { enabled: false, confidence: 0.8 },
+          onMismatch: "error",
+        } as LookupField,
+      ],
+    };
+    const getReferenceRows = vi.fn(() => [
+      { dept_name: "Engineering", dept_id: "ENG" },
+    ]);
+
+    const { state } = validateTable(
+      [
+        { _rowId: "r1", department: "ENG" },
+        { _rowId: "r2", department: " engineering " },
+        { _rowId: "r3", department: "Sales" },
+      ],
+      deptShape,
+      { getReferenceRows }
+    );
+
+    expect(getReferenceRows).toHaveBeenCalledTimes(1);
+    expect(state.totalErrors).toBe(1);
+  });
+
+  it("should fall back to id or index when _rowId is missing", () => {
+    expect(getValidationRowId({ id: 7 }, 0)).toBe("7");
+    expect(getValidationRowId({}, 3)).toBe("row_3");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  describeSuggestedFix,
+  splitByValidation,
+  writeSplitFile,
+} from "./validation-split-export";
+import type { TargetShape } from "../types/target-shapes";
+
+const shape: TargetShape = {
+  id: "shape_1",
+  name: "Employees",
+  fields: [
+    { id: "f1", name: "email", type: "email", required: true },
+    { id: "f2", name: "age", type: "integer", required: false },
+  ],
+  version: "1.0.0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const rows = [
+  { _rowId: "row-1", email: "a@b.co", age: "30" },
+  { _rowId: "row-2", email: "", age: "4.6" },
+  { _rowId: "row-3", email: "c@d.co", age: "41" },
+];
+
+describe("splitByValidation", () => {
+  it("should keep rows without errors in the valid file", () => {
+    const { valid, stats } = splitByValidation(rows, shape);
+
+    expect(valid).toEqual([
+      { email: "a@b.co", age: "30" },
+      { email: "c@d.co", age: "41" },
+    ]);
+    expect(stats).toEqual({
+      totalRows: 3,
+      validRows: 2,
+      rejectedRows: 1,
+      errors: 2,
+    });
+  });
+
+  it("should report each error of a rejected row with its values", () => {
+    const { rejected } = splitByValidation(rows, shape);
+
+    expect(rejected).toHaveLength(2);
+    expect(rejected[0]).toMatchObject({
+      row_number: 2,
+      error_field: "email",
+      error_rule: "required",
+      error_message: "email is required",
+      suggested_fix: "",
+      email: "",
+      age: "4.6",
+    });
+    expect(rejected[1]).toMatchObject({
+      row_number: 2,
+      error_field: "age",
+      error_rule: "type",
+      suggested_fix: "Round to 5",
+    });
+    expect(Object.keys(rejected[0]).slice(0, 5)).toEqual([
+      "row_number",
+      "error_field",
+      "error_rule",
+      "error_message",
+      "suggested_fix",
+    ]);
+    expect(rejected[0]).not.toHaveProperty("_rowId");
+  });
+
+  it("should rename source columns named like a report column", () => {
+    const { rejected } = splitByValidation(
+      [{ _rowId: "row-1", email: "", error_message: "from source" }],
+      shape
+    );
+
+    expect(rejected[0]).toMatchObject({
+      error_field: "email",
+      error_message: "email is required",
+      original_error_message: "from source",
+    });
+  });
+});
+
+describe("describeSuggestedFix", () => {
+  it("should add the proposed value when the description omits it", () => {
+    expect(
+      describeSuggestedFix({
+        action: "format",
+        description: "Trim whitespace",
+        newValue: "a@b.co",
+      })
+    ).toBe('Trim whitespace ("a@b.co")');
+    expect(
+      describeSuggestedFix({ action: "convert", description: "Round to 5" })
+    ).toBe("Round to 5");
+    expect(describeSuggestedFix(undefined)).toBe("");
+  });
+});
+
+describe("writeSplitFile", () => {
+  const data = [{ email: "a@b.co", age: "30" }];
+
+  it("should write CSV and JSON text", () => {
+    expect(writeSplitFile(data, "csv", "Valid")).toEqual({
+      content: "email,age\na@b.co,30",
+      mimeType: "text/csv",
+      extension: "csv",
+    });
+    expect(
+      JSON.parse(writeSplitFile(data, "json", "Valid").content as string)
+    ).toEqual(data);
+  });
+
+  it("should write a single-sheet workbook", () => {
+    const file = writeSplitFile(data, "xlsx", "Rejected rows for the vendor");
+    const workbook = XLSX.read(file.content, { type: "array" });
+
+    expect(file.extension).toBe("xlsx");
+    expect(workbook.SheetNames).toEqual(["Rejected rows for the vendor"]);
+    expect(
+      XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]])
+    ).toEqual([{ email: "a@b.co", age: "30" }]);
+  });
+
+  it("should reject empty files", () => {
+    expect(() => writeSplitFile([], "csv", "Valid")).toThrow(
+      "No rows to export"
+    );
+  });
+});
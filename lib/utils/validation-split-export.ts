@@ -0,0 +1,234 @@
+/**
+ * Validation Split Export
+ *
+ * Splits table rows by validation outcome against the applied target shape:
+ * rows without errors go to a "valid" file ready to load, rows with errors go
+ * to a "rejected" file that can be sent back to the data provider. Warnings
+ * don't reject a row.
+ *
+ * The rejected file has one line per error. Each line starts with the row
+ * number, field, rule, message and suggested fix, followed by the row's
+ * original values.
+ *
+ * @example
+ * ```typescript
+ * import { splitByValidation, writeSplitFile } from './validation-split-export';
+ *
+ * const split = splitByValidation(rows, targetShape);
+ * console.log(split.stats); // { totalRows: 10, validRows: 8, rejectedRows: 2, errors: 3 }
+ *
+ * const file = writeSplitFile(split.rejected, 'xlsx', 'Rejected');
+ * downloadFile(file.content, `rejected.${file.extension}`, file.mimeType);
+ * ```
+ */
+
+import * as XLSX from "xlsx";
+import type { TargetShape } from "../types/target-shapes";
+import type { SuggestedFix } from "../types/validation";
+import type { TableRow } from "../features/tableSlice";
+import { convertToCsv } from "./csv-export";
+import {
+  getValidationRowId,
+  validateTable,
+  type ValidationEngineOptions,
+} from "./validation-engine";
+
+export type SplitExportFormat = "csv" | "json" | "xlsx";
+
+export const SPLIT_EXPORT_FORMATS: {
+  value: SplitExportFormat;
+  label: string;
+}[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+];
+
+/**
+ * Report columns added in front of the original values in the rejected file
+ */
+export const REJECTED_REPORT_COLUMNS = [
+  "row_number",
+  "error_field",
+  "error_rule",
+  "error_message",
+  "suggested_fix",
+] as const;
+
+export type RejectedReportColumn = (typeof REJECTED_REPORT_COLUMNS)[number];
+
+export type RejectedRow = Record<RejectedReportColumn, string | number> &
+  Record<string, unknown>;
+
+/**
+ * Rows split by validation outcome
+ */
+export interface ValidationSplitResult {
+  /** Rows without validation errors, internal keys (`_rowId`) removed */
+  valid: Record<string, unknown>[];
+  /** One line per validation error of the rejected rows */
+  rejected: RejectedRow[];
+  stats: {
+    totalRows: number;
+    validRows: number;
+    rejectedRows: number;
+    errors: number;
+  };
+}
+
+/**
+ * File content for one side of the split
+ */
+export interface SplitExportFile {
+  /** Text for CSV and JSON, binary for XLSX */
+  content: string | ArrayBuffer;
+  mimeType: string;
+  extension: SplitExportFormat;
+}
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Excel limits sheet names to 31 characters */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const stripInternalKeys = (row: TableRow) =>
+  Object.fromEntries(
+    Object.entries(row).filter(([key]) => !key.startsWith("_"))
+  );
+
+/**
+ * Renames source columns that share a report column's name to
+ * `original_<name>`, so the report doesn't overwrite their values
+ */
+function renameReportColumnClashes(values: Record<string, unknown>) {
+  const reportColumns: readonly string[] = REJECTED_REPORT_COLUMNS;
+  if (!Object.keys(values).some(key => reportColumns.includes(key))) {
+    return values;
+  }
+
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => {
+      if (!reportColumns.includes(key)) return [key, value];
+      let renamed = `original_${key}`;
+      while (renamed in values || reportColumns.includes(renamed)) {
+        renamed = `original_${renamed}`;
+      }
+      return [renamed, value];
+    })
+  );
+}
+
+/**
+ * Describes a suggested fix for the report, including the proposed value
+ * when the description doesn't already mention it
+ */
+export function describeSuggestedFix(fix: SuggestedFix | undefined): string {
+  if (!fix) return "";
+  if (fix.newValue === undefined || fix.newValue === null) {
+    return fix.description;
+  }
+
+  const newValue = String(fix.newValue);
+  return fix.description.includes(newValue)
+    ? fix.description
+    : `${fix.description} ("${newValue}")`;
+}
+
+/**
+ * Validates the rows against the target shape and splits them into valid
+ * rows and a per-error report of the rejected rows
+ */
+export function splitByValidation(
+  rows: TableRow[],
+  shape: TargetShape,
+  options: ValidationEngineOptions = {}
+): ValidationSplitResult {
+  const { rows: validation } = validateTable(rows, shape, options);
+  const valid: Record<string, unknown>[] = [];
+  const rejected: RejectedRow[] = [];
+  let rejectedRows = 0;
+
+  rows.forEach((row, index) => {
+    const metadata = validation[getValidationRowId(row, index)];
+    const values = stripInternalKeys(row);
+
+    if (!metadata?.hasErrors) {
+      valid.push(values);
+      return;
+    }
+
+    rejectedRows++;
+    const rejectedValues = renameReportColumnClashes(values);
+    // Report errors in target shape field order
+    shape.fields.forEach(field => {
+      const cell = metadata.cells?.[field.name];
+      cell?.errors.forEach(error => {
+        rejected.push({
+          row_number: index + 1,
+          error_field: error.fieldName,
+          error_rule: error.ruleType,
+          error_message: error.message,
+          suggested_fix: describeSuggestedFix(error.suggestedFixes[0]),
+          ...rejectedValues,
+        });
+      });
+    });
+  });
+
+  return {
+    valid,
+    rejected,
+    stats: {
+      totalRows: rows.length,
+      validRows: valid.length,
+      rejectedRows,
+      errors: rejected.length,
+    },
+  };
+}
+
+/**
+ * Writes one side of the split as a CSV, JSON or single-sheet XLSX file
+ *
+ * @throws Error if there are no rows to write
+ */
+export function writeSplitFile(
+  rows: Record<string, unknown>[],
+  format: SplitExportFormat,
+  sheetName: string
+): SplitExportFile {
+  if (rows.length === 0) {
+    throw new Error("No rows to export");
+  }
+
+  switch (format) {
+    case "csv":
+      return {
+        content: convertToCsv(rows),
+        mimeType: "text/csv",
+        extension: "csv",
+      };
+
+    case "json":
+      return {
+        content: JSON.stringify(rows, null, 2),
+        mimeType: "application/json",
+        extension: "json",
+      };
+
+    case "xlsx": {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.json_to_sheet(rows),
+        sheetName.slice(0, MAX_SHEET_NAME_LENGTH)
+      );
+      return {
+        content: XLSX.write(workbook, { bookType: "xlsx", type: "array" }),
+        mimeType: XLSX_MIME_TYPE,
+        extension: "xlsx",
+      };
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for Column Value Profiler
+ *
+ * Covers pattern detection and field-fit scoring for typed, enum and lookup
+ * fields.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  profileColumnValues,
+  scoreValuesForField,
+  valueOverlap,
+} from "./value-profiler";
+import type { EnumField, TargetField } from "../types/target-shapes";
+
+describe("profileColumnValues", () => {
+  it("should ignore empty values and measure pattern shares", () => {
+    const profile = profileColumnValues([
+      "ana@acme.com",
+      "bo@acme.com",
+      "",
+      null,
+      "not an email",
+    ]);
+
+    expect(profile.sampleSize).toBe(3);
+    expect(profile.patterns.email).toBeCloseTo(2 / 3);
+  });
+
+  it("should recognise dates, currency and percentages", () => {
+    expect(
+      profileColumnValues(["2024-01-05", "03/15/2024", "Jan 5, 2024"]).patterns
+        .date
+    ).toBe(1);
+    expect(
+      profileColumnValues(["$1,200.00", "€15", "99.50 USD"]).patterns.currency
+    ).toBe(1);
+    expect(profileColumnValues(["12%", "7.5 %"]).patterns.percentage).toBe(1);
+  });
+
+  it("should not mistake dates for phone numbers", () => {
+    const profile = profileColumnValues(["2024-01-05", "(555) 123-4567"]);
+
+    expect(profile.patterns.phone).toBe(0.5);
+  });
+});
+
+describe("scoreValuesForField", () => {
+  const dateField: TargetField = {
+    id: "f_date",
+    name: "Hired",
+    type: "date",
+    required: false,
+  };
+
+  it("should score typed fields by pattern share", () => {
+    const fit = scoreValuesForField(
+      dateField,
+      profileColumnValues(["2024-01-05", "2024-02-01", "soon"])
+    );
+
+    expect(fit?.score).toBeCloseTo(2 / 3);
+    expect(fit?.reason).toBe("67% of values look like dates");
+  });
+
+  it("should damp weak numeric evidence", () => {
+    const fit = scoreValuesForField(
+      { id: "f_qty", name: "Qty", type: "integer", required: false },
+      profileColumnValues(["1", "2", "3"])
+    );
+
+    expect(fit?.score).toBeCloseTo(0.6);
+  });
+
+  it("should match enum values and labels case-insensitively", () => {
+    const statusField: EnumField = {
+      id: "f_status",
+      name: "Status",
+      type: "enum",
+      required: false,
+      options: [
+        { value: "active", label: "Active" },
+        { value: "on_hold", label: "On Hold" },
+      ],
+    };
+
+    const fit = scoreValuesForField(
+      statusField,
+      profileColumnValues(["ACTIVE", "on hold", "closed"])
+    );
+
+    expect(fit?.score).toBeCloseTo(2 / 3);
+  });
+
+  it("should return null without a value signature or enough samples", () => {
+    expect(
+      scoreValuesForField(
+        { id: "f_name", name: "Name", type: "string", required: false },
+        profileColumnValues(["Ana", "Bo"])
+      )
+    ).toBeNull();
+    expect(
+      scoreValuesForField(dateField, profileColumnValues(["2024-01-05"]))
+    ).toBeNull();
+  });
+});
+
+describe("valueOverlap", () => {
+  it("should measure the share of distinct values that are known", () => {
+    const profile = profileColumnValues(["Engineering", "engineering", "Ops"]);
+
+    expect(valueOverlap(profile, ["Engineering", "Sales"])).toBe(0.5);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Column Value Profiler
+ *
+ * Profiles the sample values of an imported column (how many look like
+ * emails, phone numbers, dates, currency amounts, ...) and scores how well a
+ * column fits a target field's type, enum options or lookup reference data.
+ * Used by the mapping suggestion engine when header names are unhelpful
+ * ("Col3", "Contact").
+ *
+ * @example
+ * ```typescript
+ * import { profileColumnValues, scoreValuesForField } from './value-profiler';
+ *
+ * const profile = profileColumnValues(['ana@acme.com', 'bo@acme.com', '']);
+ * profile.patterns.email; // 1
+ *
+ * scoreValuesForField(emailField, profile);
+ * // { score: 1, reason: '100% of values look like emails' }
+ * ```
+ */
+
+import type {
+  EnumField,
+  LookupField,
+  TargetField,
+} from "@/lib/types/target-shapes";
+
+/**
+ * Value kinds recognised by the profiler
+ */
+export type ValuePattern =
+  | "email"
+  | "phone"
+  | "url"
+  | "date"
+  | "datetime"
+  | "currency"
+  | "percentage"
+  | "integer"
+  | "number"
+  | "boolean";
+
+/**
+ * Summary of a column's sample values
+ */
+export interface ColumnValueProfile {
+  /** Non-empty values profiled */
+  sampleSize: number;
+  /** Share (0-1) of non-empty values matching each pattern */
+  patterns: Record<ValuePattern, number>;
+  /** Distinct non-empty values, lowercased and trimmed */
+  distinctValues: Set<string>;
+}
+
+/**
+ * How well a column's values fit a target field
+ */
+export interface ValueFitScore {
+  /** 0-1, share of values that fit */
+  score: number;
+  /** Human-readable explanation */
+  reason: string;
+}
+
+const isDate = (value: string) =>
+  /^\d{4}-\d{1,2}-\d{1,2}$/.test(value) ||
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/.test(value) ||
+  /^\d{1,2} [A-Za-z]{3,9},? \d{4}$/.test(value) ||
+  /^[A-Za-z]{3,9} \d{1,2},? \d{4}$/.test(value);
+
+const PATTERN_TESTS: Record<ValuePattern, (value: string) => boolean> = {
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value),
+  phone: value =>
+    /^\+?[\d\s\-().]{7,}$/.test(value) &&
+    !isDate(value) &&
+    value.replace(/\D/g, "").length >= 7 &&
+    value.replace(/\D/g, "").length <= 15,
+  url: value => /^(https?:\/\/|www\.)\S+\.\S+$/i.test(value),
+  date: value => isDate(value),
+  datetime: value =>
+    /^\d{4}-\d{1,2}-\d{1,2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(
+      value
+    ),
+  currency: value =>
+    /^-?[$€£¥]\s?-?[\d,]+(\.\d{1,2})?$/.test(value) ||
+    /^-?[\d,]+(\.\d{1,2})?\s?(USD|EUR|GBP|CAD|AUD|[€£])$/i.test(value),
+  percentage: value => /^-?\d+(\.\d+)?\s?%$/.test(value),
+  integer: value => /^-?\d{1,3}(,\d{3})*$|^-?\d+$/.test(value),
+  number: value =>
+    /^-?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/.test(value) && /\d/.test(value),
+  boolean: value => /^(true|false|yes|no|y|n|t|f)$/i.test(value),
+};
+
+const PATTERN_LABELS: Record<ValuePattern, string> = {
+  email: "emails",
+  phone: "phone numbers",
+  url: "URLs",
+  date: "dates",
+  datetime: "date-times",
+  currency: "currency amounts",
+  percentage: "percentages",
+  integer: "integers",
+  number: "numbers",
+  boolean: "booleans",
+};
+
+// Patterns that support each field type; the best-fitting one wins
+const FIELD_TYPE_PATTERNS: Partial<
+  Record<TargetField["type"], ValuePattern[]>
+> = {
+  email: ["email"],
+  phone: ["phone"],
+  url: ["url"],
+  date: ["date", "datetime"],
+  datetime: ["datetime", "date"],
+  currency: ["currency", "number"],
+  percentage: ["percentage"],
+  integer: ["integer"],
+  number: ["number"],
+  decimal: ["number"],
+  boolean: ["boolean"],
+};
+
+// Number-like patterns are weak evidence on their own (IDs, zip codes and
+// quantities all look like numbers), so their scores are damped
+const WEAK_PATTERNS = new Set<ValuePattern>(["integer", "number", "phone"]);
+const WEAK_PATTERN_FACTOR = 0.6;
+
+const MIN_SAMPLE_SIZE = 2;
+
+/**
+ * Profile a column's sample values
+ */
+export function profileColumnValues(values: unknown[]): ColumnValueProfile {
+  const nonEmpty = values
+    .filter(value => value !== null && value !== undefined)
+    .map(value => String(value).trim())
+    .filter(value => value !== "");
+
+  const patterns = {} as Record<ValuePattern, number>;
+  (Object.keys(PATTERN_TESTS) as ValuePattern[]).forEach(pattern => {
+    const matches = nonEmpty.filter(PATTERN_TESTS[pattern]).length;
+    patterns[pattern] = nonEmpty.length > 0 ? matches / nonEmpty.length : 0;
+  });
+
+  return {
+    sampleSize: nonEmpty.length,
+    patterns,
+    distinctValues: new Set(nonEmpty.map(value => value.toLowerCase())),
+  };
+}
+
+/**
+ * Share of a column's distinct values found in a set of known values
+ */
+export function valueOverlap(
+  profile: ColumnValueProfile,
+  knownValues: Iterable<unknown>
+): number {
+  if (profile.distinctValues.size === 0) return 0;
+
+  const known = new Set<string>();
+  for (const value of knownValues) {
+    if (value !== null && value !== undefined) {
+      known.add(String(value).trim().toLowerCase());
+    }
+  }
+
+  let hits = 0;
+  profile.distinctValues.forEach(value => {
+    if (known.has(value)) hits++;
+  });
+  return hits / profile.distinctValues.size;
+}
+
+/**
+ * Score how well a column's values fit a target field. Returns null when the
+ * field type has no value signature or there are too few values to judge.
+ *
+ * @param referenceValues - Values of the lookup's match column (lookup fields)
+ */
+export function scoreValuesForField(
+  field: TargetField,
+  profile: ColumnValueProfile,
+  referenceValues?: Iterable<unknown> | null
+): ValueFitScore | null {
+  if (profile.sampleSize < MIN_SAMPLE_SIZE) return null;
+
+  const enumOptions = field.type === "enum" ? (field as EnumField).options : [];
+  if (enumOptions?.length) {
+    const score = valueOverlap(
+      profile,
+      enumOptions.flatMap(option => [option.value, option.label])
+    );
+    return {
+      score,
+      reason: `${formatPercent(score)} of distinct values are enum options`,
+    };
+  }
+
+  if (field.type === "lookup") {
+    if (!referenceValues) return null;
+    const score = valueOverlap(profile, referenceValues);
+    return {
+      score,
+      reason: `${formatPercent(score)} of distinct values found in ${(field as LookupField).referenceFile}`,
+    };
+  }
+
+  const patterns = FIELD_TYPE_PATTERNS[field.type];
+  if (!patterns) return null;
+
+  let best: ValueFitScore | null = null;
+  for (const pattern of patterns) {
+    const share = profile.patterns[pattern];
+    const score = WEAK_PATTERNS.has(pattern)
+      ? share * WEAK_PATTERN_FACTOR
+      : share;
+    if (!best || score > best.score) {
+      best = {
+        score,
+        reason: `${formatPercent(share)} of values look like ${PATTERN_LABELS[pattern]}`,
+      };
+    }
+  }
+  return best;
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
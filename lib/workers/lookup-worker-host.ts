@@ -0,0 +1,105 @@
+/**
+ * Lookup Worker Host
+ *
+ * Handles the messages of lib/workers/lookup.worker.ts. It is kept apart
+ * from the worker entry so tests can run it in process.
+ *
+ * The worker lives across runs. It keeps each reference file's rows and
+ * fuzzy indexes by file ID and version, so unchanged reference data is
+ * posted and indexed once. Posting a newer version of a file replaces it,
+ * and released files are dropped.
+ */
+
+import {
+  LookupCancelledError,
+  LookupProcessor,
+} from "../utils/lookup-processor";
+import { buildFuzzyIndex, type FuzzyIndex } from "../utils/fuzzy-index";
+import type {
+  LookupProcessRequest,
+  LookupWorkerRequest,
+  LookupWorkerResponse,
+} from "../utils/lookup-worker-client";
+
+interface HeldReferenceFile {
+  version: number;
+  rows: Record<string, any>[];
+  /** Fuzzy indexes by match column, built on first use */
+  indexes: Map<string, FuzzyIndex>;
+}
+
+/**
+ * Create the message handler of a lookup worker
+ *
+ * @param postMessage Sends a response back to the client
+ */
+export function createLookupWorkerHost(
+  postMessage: (message: LookupWorkerResponse) => void
+): (request: LookupWorkerRequest) => Promise<void> {
+  const referenceFiles = new Map<string, HeldReferenceFile>();
+  const runs = new Map<number, AbortController>();
+
+  const process = async (request: LookupProcessRequest) => {
+    const { requestId, data, targetShape, options } = request;
+
+    request.releasedFiles.forEach(id => referenceFiles.delete(id));
+    Object.entries(request.referenceFiles).forEach(
+      ([id, { version, rows }]) => {
+        if (rows) referenceFiles.set(id, { version, rows, indexes: new Map() });
+      }
+    );
+
+    // Only the versions the client asked for
+    const getFile = (id: string) => {
+      const file = referenceFiles.get(id);
+      return file && file.version === request.referenceFiles[id]?.version
+        ? file
+        : undefined;
+    };
+
+    const processor = new LookupProcessor(
+      referenceFile => getFile(referenceFile)?.rows,
+      (referenceFile, matchColumn) => {
+        const file = getFile(referenceFile);
+        if (!file) return undefined;
+
+        let index = file.indexes.get(matchColumn);
+        if (!index) {
+          index = buildFuzzyIndex(file.rows, matchColumn);
+          file.indexes.set(matchColumn, index);
+        }
+        return index;
+      }
+    );
+
+    const controller = new AbortController();
+    runs.set(requestId, controller);
+    try {
+      const result = await processor.processDataWithLookups(data, targetShape, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (processed, total) =>
+          postMessage({ type: "progress", requestId, processed, total }),
+      });
+      postMessage({ type: "result", requestId, result });
+    } catch (error) {
+      // The client already settled a cancelled run
+      if (error instanceof LookupCancelledError) return;
+      postMessage({
+        type: "error",
+        requestId,
+        message: error instanceof Error ? error.message : "Lookup failed",
+      });
+    } finally {
+      runs.delete(requestId);
+    }
+  };
+
+  return async request => {
+    if (request.type === "cancel") {
+      runs.get(request.requestId)?.abort();
+      return;
+    }
+    await process(request);
+  };
+}
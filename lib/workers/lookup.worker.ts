@@ -0,0 +1,30 @@
+/**
+ * Lookup Worker
+ *
+ * Runs `LookupProcessor.processDataWithLookups` off the main thread. One
+ * worker is shared by every run of `runLookupProcessing` in
+ * lib/utils/lookup-worker-client.ts; the message handling, including the
+ * reference data and fuzzy indexes it keeps between runs, lives in
+ * lib/workers/lookup-worker-host.ts.
+ */
+
+import { createLookupWorkerHost } from "./lookup-worker-host";
+import type {
+  LookupWorkerRequest,
+  LookupWorkerResponse,
+} from "../utils/lookup-worker-client";
+
+interface LookupWorkerScope {
+  onmessage: ((event: MessageEvent<LookupWorkerRequest>) => void) | null;
+  postMessage(message: LookupWorkerResponse): void;
+}
+
+const scope = self as unknown as LookupWorkerScope;
+
+const handleRequest = createLookupWorkerHost(message =>
+  scope.postMessage(message)
+);
+
+scope.onmessage = event => {
+  handleRequest(event.data);
+};